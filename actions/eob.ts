@@ -0,0 +1,31 @@
+"use server";
+import { extractFromDocument, getUploadedFile } from "@/lib/uploaded-document";
+import { EOB_DOCUMENT_TYPES, EobExtractionSchema, type EobExtraction } from "@/types/schemas";
+
+/**
+ * Read every claim on an Explanation of Benefits.
+ * The EOB itself isn't stored; only the extracted claims are returned.
+ *
+ * @param formData Form data with the EOB PDF or photo as "file"
+ * @returns Claims as printed, for ClaimsLedgerService.toLedgerClaims
+ */
+export const parseEOBFile = async (formData: FormData): Promise<EobExtraction> => {
+    const file = getUploadedFile(formData, EOB_DOCUMENT_TYPES, "Explanation of Benefits must be a PDF, or a JPEG, PNG or WebP photo");
+
+    const extraction = await extractFromDocument({
+        file,
+        system: "You are a helpful assistant that extracts structured data from a health insurance Explanation of Benefits (EOB). Return JSON ONLY.",
+        instructions: `Extract every claim on this Explanation of Benefits. A claim is one provider's bill for one visit or stay; when the EOB lists several service lines for a claim, add up their amounts.
+- service_date: first date of service as YYYY-MM-DD
+- network: "out_of_network" only when the EOB says the provider is out of network or non-participating
+- billed_amount: amount billed / provider charges; allowed_amount: allowed, negotiated or eligible amount; plan_paid: what the plan paid
+- deductible, copay, coinsurance: the patient's share in each of those columns
+- not_covered: amounts the patient owes for services the plan doesn't cover (not provider discounts or write-offs)
+- member_responsibility: the total the patient may owe the provider
+Amounts are in dollars without formatting; use 0 for empty columns. Skip summary and year-to-date rows.`,
+        schema: EobExtractionSchema,
+    });
+
+    console.log(`Read ${extraction.claims.length} claim(s) from EOB ${file.name}`);
+    return extraction;
+};
@@ -0,0 +1,50 @@
+"use server";
+import { readEocIndex, writeEocIndex } from "@/lib/eoc-store";
+import { needsOcr } from "@/lib/ocr";
+import { hashDocument } from "@/lib/parse-cache";
+import { chunkEocPages } from "@/lib/services/eoc-service";
+import { extractPagesText } from "@/lib/text-extractor";
+import { getUploadedFile } from "@/lib/uploaded-document";
+import { EOC_DOCUMENT_TYPES, type EocIndex, type EocReference } from "@/types/schemas";
+
+const toReference = (index: EocIndex): EocReference => ({
+    id: index.id,
+    file_name: index.file_name,
+    page_count: index.page_count,
+    chunk_count: index.chunks.length,
+});
+
+/**
+ * Chunk and index an Evidence of Coverage so answers about the policy can quote it.
+ * The same document is only indexed once; attaching it again reuses its index.
+ *
+ * @param formData Form data with the EOC as "file"
+ * @returns Reference to store on the policy as `eoc`
+ */
+export const attachEvidenceOfCoverage = async (formData: FormData): Promise<EocReference> => {
+    const file = getUploadedFile(formData, EOC_DOCUMENT_TYPES, "Evidence of Coverage must be a PDF, Word (.docx) or HTML document");
+
+    const file_buffer = await file.arrayBuffer();
+    const id = hashDocument(file_buffer);
+    const existing = await readEocIndex(id);
+    if (existing) {
+        console.log("Reusing EOC index for", file.name);
+        return toReference(existing);
+    }
+
+    const extracted = await extractPagesText(file_buffer, file.name, file.type);
+    if (!extracted || extracted.pages.every(needsOcr)) {
+        throw new Error("Could not extract text from the Evidence of Coverage. Scanned documents aren't supported; upload the issuer's PDF.");
+    }
+
+    const index: EocIndex = {
+        id,
+        file_name: file.name,
+        page_count: extracted.pages.length,
+        created_at: new Date().toISOString(),
+        chunks: chunkEocPages(extracted.pages),
+    };
+    await writeEocIndex(index);
+    console.log(`Indexed EOC ${file.name}: ${index.page_count} pages, ${index.chunks.length} chunks`);
+    return toReference(index);
+};
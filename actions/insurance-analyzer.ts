@@ -14,6 +14,7 @@
 
 "use server"
 
+import { retrieveEocPassages } from "@/lib/eoc-store"
 import { InsuranceAIService } from "@/lib/services"
 import type { 
   ParsedPolicy,
@@ -21,6 +22,7 @@ import type {
   CategoryWithSubcategories,
   GenerateCategoriesInput,
   GenerateSituationsInput,
+  SituationAnalysis,
 } from "@/types/schemas"
 
 /**
@@ -31,7 +33,8 @@ import type {
  * 
  * @param query User's search query
  * @param context Current insurance settings and spending
- * @param policy User's parsed policy data
+ * @param policy User's parsed policy data; when it has an attached EOC, the
+ *   passages most relevant to the query are retrieved and quoted in the analysis
  * @returns Promise resolving to categories and formatted query
  * 
  * @example
@@ -53,6 +56,7 @@ export async function generateCategories(
     query,
     context,
     policy,
+    eoc_passages: policy.eoc ? await retrieveEocPassages(policy.eoc.id, query) : undefined,
   };
   
 
@@ -134,49 +138,37 @@ export async function generateSituations(
  * Analyze a specific healthcare situation for cost and coverage details
  * 
  * This server action wraps the InsuranceAIService.analyzeSituation function
- * to provide detailed cost estimates and coverage analysis.
+ * to provide detailed cost estimates and coverage analysis. The estimated
+ * cost is computed by the local adjudication engine against the policy.
  * 
  * @param situation Healthcare situation to analyze
- * @param context User's current insurance financial context
- * @returns Promise resolving to cost estimate and coverage details
+ * @param context Current insurance settings and spending
+ * @param policy User's parsed policy data
+ * @returns Promise resolving to cost estimate, coverage details and adjudication breakdown
  * 
  * @example
  * ```typescript
  * const analysis = await analyzeSituation(
  *   "Emergency room visit for chest pain",
- *   {
- *     isInNetwork: true,
- *     deductibleSpent: 1000,
- *     outOfPocketSpent: 2000,
- *     deductibleLimit: 5000,
- *     outOfPocketLimit: 8000
- *   }
+ *   { isInNetwork: true, deductibleSpent: 1000, outOfPocketSpent: 2000 },
+ *   policy
  * );
  * ```
  */
 export async function analyzeSituation(
   situation: string,
-  context: {
-    isInNetwork: boolean
-    deductibleSpent: number
-    outOfPocketSpent: number
-    deductibleLimit: number
-    outOfPocketLimit: number
-  },
-): Promise<{
-  estimatedCost: number
-  coverageDetails: string
-  recommendations: string[]
-}> {
+  context: InsuranceSettings,
+  policy: ParsedPolicy
+): Promise<SituationAnalysis> {
   try {
     console.log("Analyzing situation via service layer:", { 
       situation: situation.substring(0, 50) + "...", // Log first 50 chars
       isInNetwork: context.isInNetwork,
-      financialProgress: `${context.deductibleSpent}/${context.deductibleLimit} deductible`
+      deductibleSpent: context.deductibleSpent
     });
     
     // Call the service layer instead of implementing logic here
-    const result = await InsuranceAIService.analyzeSituation(situation, context);
+    const result = await InsuranceAIService.analyzeSituation(situation, policy, context);
     
     console.log("Successfully analyzed situation");
     return result;
@@ -192,6 +184,7 @@ export async function analyzeSituation(
         "Review your Summary of Benefits and Coverage document",
         "Consider discussing alternatives with your healthcare provider",
       ],
+      adjudication: null,
     };
   }
 }
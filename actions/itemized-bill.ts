@@ -0,0 +1,32 @@
+"use server";
+import { extractFromDocument, getUploadedFile } from "@/lib/uploaded-document";
+import { ITEMIZED_BILL_DOCUMENT_TYPES, ItemizedBillSchema, type ItemizedBill } from "@/types/schemas";
+
+/**
+ * Read every charge on a provider's itemized bill.
+ * The bill itself isn't stored; only the extracted line items are returned.
+ *
+ * @param formData Form data with the bill PDF or photo as "file"
+ * @returns Line items as printed, for BillAnalysisService.analyzeItemizedBill
+ */
+export const parseItemizedBill = async (formData: FormData): Promise<ItemizedBill> => {
+    const file = getUploadedFile(formData, ITEMIZED_BILL_DOCUMENT_TYPES, "Itemized bill must be a PDF, or a JPEG, PNG or WebP photo");
+
+    const bill = await extractFromDocument({
+        file,
+        system: "You are a helpful assistant that extracts structured data from itemized medical bills. Return JSON ONLY.",
+        instructions: `Extract every charge on this itemized medical bill, one line item per printed charge line, in the order printed. Keep repeated lines as separate line items even when they look identical.
+- service_date: date of service as YYYY-MM-DD
+- code: the CPT or HCPCS procedure code exactly as printed (e.g. "99213", "G0439", "J1885"), without modifiers; omit when the line has none
+- modifiers: two-character modifiers printed with the code (e.g. "25", "59", "33")
+- revenue_code: the four-digit revenue code on hospital bills (e.g. "0450"); omit on physician bills
+- quantity: units billed, 1 when not printed
+- charge: the line's total charge in dollars without formatting (not the unit price)
+- provider_specialty: the billing provider's specialty when the bill names one (e.g. "Cardiology")
+Skip payments, adjustments, insurance credits, subtotals and balance rows.`,
+        schema: ItemizedBillSchema,
+    });
+
+    console.log(`Read ${bill.line_items.length} line item(s) from itemized bill ${file.name}`);
+    return bill;
+};
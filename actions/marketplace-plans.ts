@@ -0,0 +1,55 @@
+"use server";
+import { MarketplacePlanPremiumSchema, type MarketplacePlanPremium } from "@/types/schemas";
+import { readFile } from "fs/promises";
+import path from "path";
+import { z } from "zod";
+
+const PLANS_PATH = path.join(process.cwd(), "data", "plans.json");
+
+// Raw marketplace plan as written by scripts/fetchPlans.ts
+const RawPlanSchema = z.object({
+    id: z.string(),
+    name: z.string(),
+    issuer: z.object({ name: z.string() }).passthrough(),
+    metal_level: z.string(),
+    premium: z.number(),
+    premium_w_credit: z.number(),
+}).passthrough();
+
+let plansCache: MarketplacePlanPremium[] | null = null;
+
+const loadPlans = async (): Promise<MarketplacePlanPremium[]> => {
+    if (plansCache) return plansCache;
+
+    const raw = JSON.parse(await readFile(PLANS_PATH, "utf-8"));
+    plansCache = z.array(RawPlanSchema).parse(raw).map(plan => MarketplacePlanPremiumSchema.parse({
+        id: plan.id,
+        name: plan.name.trim(),
+        issuer: plan.issuer.name,
+        metal_level: plan.metal_level,
+        premium: plan.premium,
+        premium_w_credit: plan.premium_w_credit,
+    }));
+    return plansCache;
+};
+
+const tokenize = (text: string) => text.toLowerCase().split(/[^a-z0-9]+/).filter(token => token.length > 1);
+
+/**
+  * Find marketplace plans whose name or issuer matches a query, best match first
+  */
+export const findMarketplacePlans = async (query: string, limit = 10): Promise<MarketplacePlanPremium[]> => {
+    const queryTokens = tokenize(query);
+    if (queryTokens.length === 0) return [];
+
+    const plans = await loadPlans();
+    return plans
+        .map(plan => {
+            const planTokens = new Set(tokenize(`${plan.name} ${plan.issuer} ${plan.id}`));
+            return { plan, score: queryTokens.filter(token => planTokens.has(token)).length };
+        })
+        .filter(({ score }) => score > 0)
+        .sort((a, b) => b.score - a.score || a.plan.premium - b.plan.premium)
+        .slice(0, limit)
+        .map(({ plan }) => plan);
+};
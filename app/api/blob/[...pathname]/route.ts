@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getBlobStore, verifyBlobSignature } from "@/lib/blob-store";
+
+/**
+ * Serves objects from the configured blob store. Private objects require the
+ * expires/signature query parameters produced by BlobStore.getSignedUrl.
+ */
+export async function GET(request: NextRequest, { params }: { params: Promise<{ pathname: string[] }> }) {
+  const pathname = (await params).pathname.join("/");
+
+  try {
+    const blob = await getBlobStore().get(pathname);
+    if (!blob) {
+      return NextResponse.json({ error: "Not found" }, { status: 404 });
+    }
+
+    const { searchParams } = request.nextUrl;
+    if (blob.access === "private" && !verifyBlobSignature(pathname, searchParams.get("expires"), searchParams.get("signature"))) {
+      // Same response as a missing object so private pathnames cannot be probed
+      return NextResponse.json({ error: "Not found" }, { status: 404 });
+    }
+
+    return new NextResponse(new Uint8Array(blob.body), {
+      headers: {
+        "Content-Type": blob.contentType,
+        "Content-Length": String(blob.size),
+        "Cache-Control": blob.access === "private" ? "private, no-store" : "public, max-age=31536000, immutable",
+        // Uploaded HTML SBCs are served from this origin; never let their scripts run
+        ...(blob.contentType.startsWith("text/html") && { "Content-Security-Policy": "sandbox" }),
+      },
+    });
+  } catch (error) {
+    console.error("Failed to serve blob:", pathname, error);
+    return NextResponse.json({ error: "Failed to read blob" }, { status: 500 });
+  }
+}
@@ -1,7 +1,9 @@
 import { NextRequest, NextResponse } from "next/server";
 import { z } from "zod";
-import { MedicalInformationSchema, MedicalScenarioResultSchema, ParsedPolicySchema } from "@/types/schemas";
-import type { MedicalInformation, ParsedPolicy, MedicalScenarioResult } from "@/types/schemas";
+import { InsuranceSettingsSchema, MedicalInformationSchema, MedicalScenarioResultSchema, ParsedPolicySchema, PersonHealthInfoSchema } from "@/types/schemas";
+import type { InsuranceSettings, MedicalInformation, ParsedPolicy, MedicalScenarioResult } from "@/types/schemas";
+import { getRemainingAccumulators } from "@/lib/services/accumulator-service";
+import { simulateHouseholdCosts } from "@/lib/services/simulation-service";
 import { generateObjectWithAIRetry } from "@/lib/ai-retry";
 import { anthropic } from "@ai-sdk/anthropic";
 import { groq } from "@ai-sdk/groq";
@@ -9,8 +11,26 @@ import { groq } from "@ai-sdk/groq";
 const RequestSchema = z.object({
   medicalData: MedicalInformationSchema,
   policy: ParsedPolicySchema,
+  /** Current accumulators; omitted means nothing has been spent this plan year */
+  settings: InsuranceSettingsSchema.optional(),
 });
 
+/**
+ * Simulation mode: sample many plan years for the household instead of LLM scenarios
+ */
+const SimulationRequestSchema = z.object({
+  mode: z.literal("simulation"),
+  /** Household members from HealthcareInformation */
+  members: z.array(PersonHealthInfoSchema).min(1, "At least one member is required").max(20, "At most 20 members can be simulated"),
+  policy: ParsedPolicySchema,
+  settings: InsuranceSettingsSchema.optional(),
+  trials: z.number().int().min(100).max(10000).default(1000),
+  seed: z.number().int().optional(),
+});
+
+/** Most member-years one request may simulate; the simulation runs synchronously in the handler */
+const MAX_SIMULATED_MEMBER_YEARS = 5000;
+
 const AI_MODELS = {
   ANALYSIS: anthropic("claude-sonnet-4-20250514"),
   FALLBACK: groq("meta-llama/llama-4-scout-17b-16e-instruct"),
@@ -19,9 +39,23 @@ const AI_MODELS = {
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json();
+
+    if (body?.mode === "simulation") {
+      const { members, policy, settings, seed, ...requested } = SimulationRequestSchema.parse(body);
+      const trials = Math.min(requested.trials, Math.max(100, Math.floor(MAX_SIMULATED_MEMBER_YEARS / members.length)));
+      console.log("Simulating annual costs:", { membersCount: members.length, trials });
+
+      const result = simulateHouseholdCosts(policy, members, {
+        trials,
+        seed,
+        network: settings?.isInNetwork === false ? "out_of_network" : "in_network",
+        networkTier: settings?.networkTier,
+      });
+      return NextResponse.json(result);
+    }
     
     // Validate input
-    const { medicalData, policy } = RequestSchema.parse(body);
+    const { medicalData, policy, settings } = RequestSchema.parse(body);
     
     console.log("Calculating costs for medical data:", {
       primaryMember: medicalData.primaryMember,
@@ -38,7 +72,7 @@ export async function POST(request: NextRequest) {
     
     for (const scenario of scenarios) {
       try {
-        const result = await calculateScenarioCosts(scenario, medicalData, policy);
+        const result = await calculateScenarioCosts(scenario, medicalData, policy, settings);
         results.push(result);
       } catch (error) {
         console.error(`Failed to calculate costs for scenario: ${scenario}`, error);
@@ -145,8 +179,18 @@ Return only the scenario descriptions as a JSON array of strings.`;
 async function calculateScenarioCosts(
   scenario: string,
   medicalData: MedicalInformation,
-  policy: ParsedPolicy
+  policy: ParsedPolicy,
+  settings?: InsuranceSettings
 ): Promise<MedicalScenarioResult> {
+  const isInNetwork = settings?.isInNetwork ?? true;
+  const remaining = getRemainingAccumulators(
+    policy,
+    settings ?? { deductibleSpent: 0, outOfPocketSpent: 0 },
+    undefined,
+    isInNetwork ? "in_network" : "out_of_network"
+  );
+  const { overall_deductible, out_of_pocket_limit_for_plan } = policy.important_questions;
+
   const systemPrompt = `You are an expert health insurance cost calculator. Calculate realistic costs for a specific healthcare scenario.
 
 Scenario: ${scenario}
@@ -163,7 +207,15 @@ Insurance Policy Details:
 - Individual Deductible: $${policy.important_questions.overall_deductible.individual}
 - Family Deductible: $${policy.important_questions.overall_deductible.family}
 - Out-of-Pocket Max (Individual): $${policy.important_questions.out_of_pocket_limit_for_plan.individual}
-- Out-of-Pocket Max (Family): $${policy.important_questions.out_of_pocket_limit_for_plan.family}
+- Out-of-Pocket Max (Family): $${policy.important_questions.out_of_pocket_limit_for_plan.family}${overall_deductible.out_of_network ? `
+- Out-of-Network Deductible: $${overall_deductible.out_of_network.individual} individual / $${overall_deductible.out_of_network.family} family` : ""}${out_of_pocket_limit_for_plan.out_of_network ? `
+- Out-of-Network Out-of-Pocket Max: $${out_of_pocket_limit_for_plan.out_of_network.individual} individual / $${out_of_pocket_limit_for_plan.out_of_network.family} family` : ""}
+
+Current Accumulators for ${isInNetwork ? "in-network" : "out-of-network"} care (already reflect the ${remaining.deductibleRule} family deductible):
+- Remaining Deductible: $${remaining.deductible}
+- Remaining Out-of-Pocket: $${remaining.outOfPocket}${remaining.familyCoverage ? `
+- Family Deductible Remaining: $${remaining.familyDeductible}
+- Family Out-of-Pocket Remaining: $${remaining.familyOutOfPocket}` : ""}
 
 Services Coverage:
 ${policy.services_you_may_need.map(service => 
@@ -178,10 +230,10 @@ Calculate:
 5. Policy grade (A-F) for this scenario
 6. 3-5 specific recommendations
 
-Assume in-network providers. Be realistic about costs and consider:
+Assume ${isInNetwork ? "in-network" : "out-of-network"} providers. Be realistic about costs and consider:
 - Current medical expenses (medications, ongoing conditions)
 - Typical costs for the scenario type
-- How deductibles and out-of-pocket maximums work
+- How deductibles and out-of-pocket maximums work, starting from the remaining amounts above
 - Coinsurance percentages and copayments from the policy`;
 
   try {
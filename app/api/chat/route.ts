@@ -1,6 +1,10 @@
 import { groq } from "@ai-sdk/groq";
 import { frontendTools } from "@assistant-ui/react-ai-sdk";
 import { streamText } from "ai";
+import { retrieveEocPassages } from "@/lib/eoc-store";
+import { LANGUAGE_NAMES } from "@/lib/sbc-language";
+import { formatEocPassages } from "@/lib/services/eoc-service";
+import { SbcLanguageSchema } from "@/types/schemas";
 // import { experimental_createMCPClient as createMCPClient } from "ai";
 // import { agentops } from 'agentops';
 
@@ -17,6 +21,17 @@ export const maxDuration = 30;
 
 // const mcpTools = await mcpClient.tools();
 
+// Text of the user's latest message, which EOC passages are retrieved for
+const getLastUserText = (messages: { role: string; content: unknown }[]): string => {
+  const content = messages.findLast(message => message.role === "user")?.content;
+  if (typeof content === "string") return content;
+  if (!Array.isArray(content)) return "";
+  return content
+    .filter((part): part is { type: "text"; text: string } => part?.type === "text" && typeof part.text === "string")
+    .map(part => part.text)
+    .join(" ");
+};
+
 export async function POST(req: Request) {
   const { messages, system, tools, runConfig } = await req.json();
 
@@ -55,6 +70,53 @@ IMPORTANT: Use this healthcare information to provide personalized advice about:
 `;
   }
 
+  // Build per-member accumulator context; remaining amounts already apply the family rules
+  const custom = runConfig?.custom;
+  let accumulatorPromptSection = "";
+  if (custom?.remainingDeductible !== undefined) {
+    accumulatorPromptSection = `- Spending above is for: ${custom.activeMemberName || "the selected member"}
+  - Remaining Deductible for this member: $${custom.remainingDeductible}
+  - Remaining Out-of-pocket for this member: $${custom.remainingOutOfPocket}${custom.deductibleRule ? `
+  - Family Deductible Spent: $${custom.familyDeductibleSpent || 0} (${custom.deductibleRule} family deductible)
+  - Family Out-of-pocket Spent: $${custom.familyOutOfPocketSpent || 0}` : ""}${custom.outOfNetworkDeductibleSpent !== undefined ? `
+  - Out-of-network Deductible Spent: $${custom.outOfNetworkDeductibleSpent} (tracked separately from in-network)
+  - Out-of-network Out-of-pocket Spent: $${custom.outOfNetworkOutOfPocketSpent || 0}` : ""}
+  - Use the remaining amounts above (not the plan's full limits) when estimating costs; they apply to the selected network`;
+  }
+
+  // Answer in the language of the uploaded SBC
+  const policyLanguage = SbcLanguageSchema.safeParse(custom?.policyLanguage).data;
+  const languageGuideline = policyLanguage && policyLanguage !== "en"
+    ? `
+  - The user's SBC is in ${LANGUAGE_NAMES[policyLanguage]}: answer in ${LANGUAGE_NAMES[policyLanguage]} unless the user writes in another language`
+    : "";
+
+  // Quote the attached Evidence of Coverage where it answers the latest question
+  const eocPassages = typeof custom?.eocId === "string"
+    ? await retrieveEocPassages(custom.eocId, getLastUserText(messages))
+    : [];
+  let eocPromptSection = "";
+  let eocGuideline = "";
+  if (eocPassages.length > 0) {
+    eocPromptSection = `EVIDENCE OF COVERAGE PASSAGES (the plan's full terms, retrieved for the user's latest message):
+${formatEocPassages(eocPassages)}`;
+    eocGuideline = `
+  - When an Evidence of Coverage passage above answers the question, quote the relevant sentence and cite its page as "(EOC p. N)"; the EOC governs where it is more specific than the SBC
+  - Never cite an EOC page that is not in the passages above`;
+  }
+
+  // Build total cost of ownership context when the policy has a premium
+  const tco = custom?.totalCostOfOwnership;
+  let tcoPromptSection = "";
+  if (tco) {
+    tcoPromptSection = `ANNUAL COST OF THIS PLAN (premiums plus out-of-pocket):
+  - Premiums for 12 months: $${tco.annualPremium}${tco.expectedTotal !== null ? `
+  - Expected total: $${tco.expectedTotal} (includes $${tco.expectedOutOfPocket} average simulated out-of-pocket)
+  - Bad year (90th percentile) out-of-pocket: $${tco.badYearOutOfPocket}` : ""}
+  - Worst case total: $${tco.worstCaseTotal} (includes the $${tco.worstCaseOutOfPocket} out-of-pocket limit)
+  - Include premiums when comparing plans or judging whether a plan is worth its cost`;
+  }
+
   const fullSystemPrompt = `
   You are a health insurance expert helping users understand their coverage in the context of their specific healthcare needs.
   
@@ -68,14 +130,19 @@ IMPORTANT: Use this healthcare information to provide personalized advice about:
   BE HELPFUL, PERSONALIZED, AND CONCISE IN YOUR RESPONSES.
 
   CURRENT INSURANCE CONTEXT:
-  - Network: ${runConfig?.custom?.isInNetwork ? "In-Network" : "Out-of-Network"}
+  - Network: ${runConfig?.custom?.isInNetwork ? "In-Network" : "Out-of-Network"}${runConfig?.custom?.networkTierName ? ` (${runConfig.custom.networkTierName} tier)` : ""}
   - Current Deductible Spent: $${runConfig?.custom?.deductibleSpent || 0}
   - Current Out-of-pocket Spent: $${runConfig?.custom?.outOfPocketSpent || 0}
+  ${accumulatorPromptSection}
   
   ${healthcarePromptSection}
   
+  ${tcoPromptSection}
+  
   CURRENT USER POLICY: ${runConfig?.custom?.policy || 'No policy uploaded'}
   
+  ${eocPromptSection}
+  
   ${system ? `ADDITIONAL SYSTEM INSTRUCTIONS: ${system}` : ""}
   
   RESPONSE GUIDELINES:
@@ -83,7 +150,7 @@ IMPORTANT: Use this healthcare information to provide personalized advice about:
   - Mention relevant conditions, medications, or allergies when applicable
   - Provide cost estimates based on their deductible and out-of-pocket spending
   - Recommend specific actions based on their healthcare profile
-  - Be empathetic to health concerns while maintaining professional accuracy
+  - Be empathetic to health concerns while maintaining professional accuracy${eocGuideline}${languageGuideline}
   `;
 
   console.log("Full system prompt with healthcare context:", fullSystemPrompt);
@@ -0,0 +1,71 @@
+import { NextRequest } from "next/server";
+import { PolicyServiceError } from "@/lib/services";
+import { parsePDF } from "@/lib/sbc-parser";
+import type { ParseStreamMessage } from "@/types/schemas";
+
+// Parsing a multi-page SBC makes several model calls
+export const maxDuration = 300;
+
+/**
+ * Parse an uploaded SBC and stream progress as server-sent events.
+ *
+ * Each event's data is a ParseStreamMessage: "progress" events as stages finish,
+ * then a single "result" with the parsed policy or an "error".
+ * Send a "force" field of "true" to skip the cache of previously parsed files.
+ * When the client disconnects, the remaining pipeline steps are skipped.
+ */
+export async function POST(request: NextRequest) {
+  const formData = await request.formData();
+  const file = formData.get("file");
+
+  if (!(file instanceof File)) {
+    return Response.json({ error: "No file uploaded" }, { status: 400 });
+  }
+
+  const encoder = new TextEncoder();
+  // Set when the client disconnects; the stream can't be written to after that and
+  // the pipeline stops before its next model call
+  const cancellation = new AbortController();
+  request.signal.addEventListener("abort", () => cancellation.abort());
+  const stream = new ReadableStream({
+    async start(controller) {
+      const send = (message: ParseStreamMessage) => {
+        if (cancellation.signal.aborted) return;
+        controller.enqueue(encoder.encode(`data: ${JSON.stringify(message)}\n\n`));
+      };
+
+      try {
+        const policy = await parsePDF(file, {
+          onProgress: (_stage, _progress, event) => send({ type: "progress", event }),
+          force: formData.get("force") === "true",
+          signal: cancellation.signal,
+        });
+        send({ type: "result", policy });
+      } catch (error) {
+        if (cancellation.signal.aborted) {
+          console.log(`Parse of ${file.name} cancelled: the client disconnected`);
+          return;
+        }
+        console.error("Streaming parse failed:", error);
+        send({
+          type: "error",
+          message: error instanceof Error ? error.message : "Failed to parse file",
+          code: error instanceof PolicyServiceError ? error.code : undefined,
+        });
+      } finally {
+        if (!cancellation.signal.aborted) controller.close();
+      }
+    },
+    cancel() {
+      cancellation.abort();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+    },
+  });
+}
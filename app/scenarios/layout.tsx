@@ -1,4 +1,5 @@
 "use client";
+import { HealthcareProvider } from "@/components/healthcare-context";
 import { PolicyProvider } from "@/components/policy-context";
 import { AssistantRuntimeProvider } from "@assistant-ui/react";
 import { useChatRuntime } from "@assistant-ui/react-ai-sdk";
@@ -13,9 +14,11 @@ export default function ScenariosLayout({
   });
   return (
     <AssistantRuntimeProvider runtime={runtime}>
+      <HealthcareProvider>
         <PolicyProvider>
           {children}
         </PolicyProvider>
+      </HealthcareProvider>
     </AssistantRuntimeProvider>
   );
 }
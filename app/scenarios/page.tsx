@@ -1,10 +1,13 @@
 "use client";
 
+import { CostSimulation } from "@/components/cost-simulation";
+import { useHealthcareContext } from "@/components/healthcare-context";
 import { MedicalInformationForm } from "@/components/medical-information-form";
 import { usePolicy } from "@/components/policy-context";
 import { Alert, AlertDescription } from "@/components/ui/alert";
 import { Badge } from "@/components/ui/badge";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { useInsuranceSettings } from "@/hooks";
 import type { MedicalInformation, MedicalScenarioResult } from "@/types/schemas";
 import { AlertCircle, Calculator, CheckCircle, DollarSign, TrendingUp } from "lucide-react";
 import { useState } from "react";
@@ -15,6 +18,8 @@ export default function ScenariosPage() {
   const [results, setResults] = useState<MedicalScenarioResult[]>([]);
   const [error, setError] = useState<string | null>(null);
   const { policy } = usePolicy();
+  const { settings } = useInsuranceSettings({ persist: true });
+  const { healthcareInfo } = useHealthcareContext();
 
   const handleFormSubmit = async (medicalData: MedicalInformation) => {
     if (!policy) {
@@ -37,6 +42,7 @@ export default function ScenariosPage() {
         body: JSON.stringify({
           medicalData,
           policy,
+          settings,
         }),
       });
 
@@ -111,6 +117,13 @@ export default function ScenariosPage() {
         </Alert>
       )}
 
+      {/* Annual Cost Simulation */}
+      <CostSimulation
+        policy={policy}
+        members={healthcareInfo?.members ?? []}
+        settings={settings}
+      />
+
       {/* Medical Information Form */}
       <MedicalInformationForm
         onSubmit={handleFormSubmit}
@@ -98,6 +98,17 @@ export function CategoryScores({
                       </ul>
                     </div>
                   )}
+
+                  {category.eoc_citations && category.eoc_citations.length > 0 && (
+                    <div className="mt-3 space-y-1">
+                      <p className="text-sm font-medium text-gray-700">From your Evidence of Coverage:</p>
+                      {category.eoc_citations.map((citation, i) => (
+                        <blockquote key={i} className="text-xs text-gray-600 border-l-2 pl-2 italic">
+                          &ldquo;{citation.quote}&rdquo; <span className="not-italic text-gray-500">(p. {citation.page})</span>
+                        </blockquote>
+                      ))}
+                    </div>
+                  )}
                 </div>
                 <div
                   className={`w-8 h-8 rounded-full flex items-center justify-center font-bold text-white ${getScoreColor(
@@ -0,0 +1,172 @@
+"use client";
+
+/**
+ * Claims Ledger Component - Claims read from Explanation of Benefits uploads
+ *
+ * Lists every processed claim with what was billed, allowed and paid, what the
+ * patient owes and how much counted toward the deductible and out-of-pocket
+ * limit. While the ledger has claims, the settings bar shows spending derived
+ * from it instead of manual inputs.
+ */
+
+import { Button } from "@/components/ui/button";
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableFooter, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { ClaimsLedgerService } from "@/lib/services";
+import { EOB_DOCUMENT_TYPES, type LedgerClaim, type PersonHealthInfo } from "@/types/schemas";
+import { ChevronDown, ChevronUp, Loader2, Receipt, Trash2, Upload } from "lucide-react";
+import { useRef, useState } from "react";
+
+interface ClaimsLedgerProps {
+  claims: LedgerClaim[];
+  /** Household members claims can be assigned to */
+  members?: PersonHealthInfo[];
+  isImporting?: boolean;
+  error?: string | null;
+  onImport: (file: File) => void;
+  onAssignMember: (claimId: string, memberId: string) => void;
+  onRemoveClaim: (claimId: string) => void;
+  onClear: () => void;
+}
+
+const formatCurrency = (amount: number) =>
+  new Intl.NumberFormat("en-US", { style: "currency", currency: "USD" }).format(amount);
+
+export function ClaimsLedger({
+  claims,
+  members = [],
+  isImporting = false,
+  error,
+  onImport,
+  onAssignMember,
+  onRemoveClaim,
+  onClear,
+}: ClaimsLedgerProps) {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [isOpen, setIsOpen] = useState(false);
+  const totals = ClaimsLedgerService.getLedgerTotals(claims);
+
+  return (
+    <Collapsible open={isOpen} onOpenChange={setIsOpen} className="border-b px-4 py-2">
+      <div className="flex items-center justify-between gap-2 text-sm">
+        <CollapsibleTrigger className="flex items-center gap-2 text-left">
+          <Receipt className="h-4 w-4 text-muted-foreground" />
+          {claims.length > 0 ? (
+            <span>
+              {claims.length} {claims.length === 1 ? "claim" : "claims"} from your EOBs · {formatCurrency(totals.memberResponsibility)} owed
+            </span>
+          ) : (
+            <span className="text-muted-foreground">Upload an Explanation of Benefits to track spending from your claims</span>
+          )}
+          {isOpen ? <ChevronUp className="h-4 w-4" /> : <ChevronDown className="h-4 w-4" />}
+        </CollapsibleTrigger>
+
+        <input
+          ref={inputRef}
+          type="file"
+          accept={EOB_DOCUMENT_TYPES.join(",")}
+          className="hidden"
+          onChange={event => {
+            const file = event.target.files?.[0];
+            event.target.value = "";
+            if (file) onImport(file);
+          }}
+        />
+        <Button variant="outline" size="sm" onClick={() => inputRef.current?.click()} disabled={isImporting}>
+          {isImporting ? <Loader2 className="h-4 w-4 animate-spin" /> : <Upload className="h-4 w-4" />}
+          {isImporting ? "Reading EOB..." : "Upload EOB"}
+        </Button>
+      </div>
+
+      {error && <p className="text-sm text-red-600 mt-2">{error}</p>}
+
+      <CollapsibleContent className="mt-3 space-y-2">
+        {claims.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            Your insurer sends an EOB for every claim it processes. Upload the PDF or a photo and the provider, date of
+            service, amounts and what counted toward your deductible and out-of-pocket limit are added here.
+          </p>
+        ) : (
+          <>
+            <Table className="text-xs">
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Date</TableHead>
+                  <TableHead>Provider</TableHead>
+                  <TableHead>Member</TableHead>
+                  <TableHead className="text-right">Billed</TableHead>
+                  <TableHead className="text-right">Allowed</TableHead>
+                  <TableHead className="text-right">Plan paid</TableHead>
+                  <TableHead className="text-right">You owe</TableHead>
+                  <TableHead className="text-right">Toward deductible</TableHead>
+                  <TableHead className="text-right">Toward out-of-pocket</TableHead>
+                  <TableHead />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {claims.map(claim => (
+                  <TableRow key={claim.id}>
+                    <TableCell>{claim.service_date}</TableCell>
+                    <TableCell>
+                      <div className="font-medium">{claim.provider}</div>
+                      <div className="text-muted-foreground">
+                        {claim.network === "out_of_network" ? "Out-of-network" : "In-network"}
+                        {claim.description ? ` · ${claim.description}` : ""}
+                      </div>
+                    </TableCell>
+                    <TableCell>
+                      {members.length > 1 ? (
+                        <Select value={claim.member_id} onValueChange={value => onAssignMember(claim.id, value)}>
+                          <SelectTrigger className="h-7 w-32 text-xs">
+                            <SelectValue placeholder={claim.patient_name ?? "Select member"} />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {members.map(member => (
+                              <SelectItem key={member.id} value={member.id}>{member.name}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      ) : (
+                        claim.patient_name ?? members[0]?.name ?? "—"
+                      )}
+                    </TableCell>
+                    <TableCell className="text-right">{formatCurrency(claim.billed_amount)}</TableCell>
+                    <TableCell className="text-right">{formatCurrency(claim.allowed_amount)}</TableCell>
+                    <TableCell className="text-right">{formatCurrency(claim.plan_paid)}</TableCell>
+                    <TableCell className="text-right font-medium">{formatCurrency(claim.member_responsibility)}</TableCell>
+                    <TableCell className="text-right">{formatCurrency(claim.deductible_applied)}</TableCell>
+                    <TableCell className="text-right">{formatCurrency(claim.out_of_pocket_applied)}</TableCell>
+                    <TableCell>
+                      <Button variant="ghost" size="sm" onClick={() => onRemoveClaim(claim.id)} title="Remove claim">
+                        <Trash2 className="h-3 w-3" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+              <TableFooter>
+                <TableRow>
+                  <TableCell colSpan={3}>Total</TableCell>
+                  <TableCell className="text-right">{formatCurrency(totals.billed)}</TableCell>
+                  <TableCell className="text-right">{formatCurrency(totals.allowed)}</TableCell>
+                  <TableCell className="text-right">{formatCurrency(totals.planPaid)}</TableCell>
+                  <TableCell className="text-right">{formatCurrency(totals.memberResponsibility)}</TableCell>
+                  <TableCell className="text-right">{formatCurrency(totals.deductible)}</TableCell>
+                  <TableCell className="text-right">{formatCurrency(totals.outOfPocket)}</TableCell>
+                  <TableCell />
+                </TableRow>
+              </TableFooter>
+            </Table>
+            <div className="flex items-center justify-between text-xs text-muted-foreground">
+              <span>Claims outside the plan&apos;s coverage period don&apos;t count toward this year&apos;s spending.</span>
+              <Button variant="ghost" size="sm" onClick={onClear}>
+                Clear claims and enter spending manually
+              </Button>
+            </div>
+          </>
+        )}
+      </CollapsibleContent>
+    </Collapsible>
+  );
+}
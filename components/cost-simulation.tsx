@@ -0,0 +1,188 @@
+"use client";
+
+/**
+ * Cost Simulation Component - Distribution of annual out-of-pocket cost
+ *
+ * Runs the Monte Carlo simulation mode of /api/calculate-costs for the
+ * household in HealthcareInformation and charts the resulting distribution.
+ */
+
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } from "@/components/ui/chart";
+import type { CostSimulationResult, InsuranceSettings, ParsedPolicy, PersonHealthInfo } from "@/types/schemas";
+import { AlertCircle, BarChart3, Loader2 } from "lucide-react";
+import { useState } from "react";
+import { Bar, BarChart, CartesianGrid, XAxis, YAxis } from "recharts";
+
+interface CostSimulationProps {
+  policy: ParsedPolicy | null;
+  members: PersonHealthInfo[];
+  settings: InsuranceSettings;
+}
+
+const chartConfig = {
+  count: {
+    label: "Simulated years",
+    color: "var(--chart-1)",
+  },
+} satisfies ChartConfig;
+
+const formatCurrency = (amount: number) =>
+  new Intl.NumberFormat("en-US", {
+    style: "currency",
+    currency: "USD",
+    minimumFractionDigits: 0,
+    maximumFractionDigits: 0,
+  }).format(amount);
+
+export function CostSimulation({ policy, members, settings }: CostSimulationProps) {
+  const [isSimulating, setIsSimulating] = useState(false);
+  const [result, setResult] = useState<CostSimulationResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSimulate = async () => {
+    if (!policy) return;
+
+    setIsSimulating(true);
+    setError(null);
+
+    try {
+      const response = await fetch("/api/calculate-costs", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
+          mode: "simulation",
+          members,
+          policy,
+          settings,
+        }),
+      });
+
+      if (!response.ok) {
+        throw new Error(`Failed to simulate costs: ${response.statusText}`);
+      }
+
+      setResult(await response.json());
+    } catch (error) {
+      console.error("Cost simulation failed:", error);
+      setError(error instanceof Error ? error.message : "Failed to simulate costs");
+    } finally {
+      setIsSimulating(false);
+    }
+  };
+
+  const histogramData = result?.histogram.map(bin => ({
+    range: `${formatCurrency(bin.min)}–${formatCurrency(bin.max)}`,
+    label: formatCurrency(bin.min),
+    count: bin.count,
+  })) ?? [];
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-start justify-between gap-4">
+          <div className="space-y-1">
+            <CardTitle className="flex items-center gap-2">
+              <BarChart3 className="h-5 w-5 text-blue-600" />
+              What Will This Plan Cost Me?
+            </CardTitle>
+            <CardDescription>
+              Simulates a thousand plan years of care for your household and prices every visit against your policy.
+            </CardDescription>
+          </div>
+          <Button onClick={handleSimulate} disabled={!policy || members.length === 0 || isSimulating}>
+            {isSimulating && <Loader2 className="h-4 w-4 animate-spin" />}
+            {isSimulating ? "Simulating..." : "Run Simulation"}
+          </Button>
+        </div>
+      </CardHeader>
+
+      <CardContent className="space-y-6">
+        {members.length === 0 && (
+          <Alert>
+            <AlertCircle className="h-4 w-4" />
+            <AlertDescription>
+              Add your household members in Healthcare Information to run a simulation.
+            </AlertDescription>
+          </Alert>
+        )}
+
+        {error && (
+          <Alert variant="destructive">
+            <AlertCircle className="h-4 w-4" />
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        {result && (
+          <>
+            <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+              <div className="space-y-1">
+                <p className="text-sm text-muted-foreground">Typical year (median)</p>
+                <p className="text-2xl font-bold">{formatCurrency(result.percentiles.p50)}</p>
+              </div>
+              <div className="space-y-1">
+                <p className="text-sm text-muted-foreground">Bad year (90th percentile)</p>
+                <p className="text-2xl font-bold text-orange-600">{formatCurrency(result.percentiles.p90)}</p>
+              </div>
+              <div className="space-y-1">
+                <p className="text-sm text-muted-foreground">Worst case (out-of-pocket limit)</p>
+                <p className="text-2xl font-bold text-red-600">{formatCurrency(result.worstCase)}</p>
+              </div>
+            </div>
+
+            <ChartContainer config={chartConfig} className="h-64 w-full">
+              <BarChart data={histogramData}>
+                <CartesianGrid vertical={false} />
+                <XAxis dataKey="label" tickLine={false} axisLine={false} interval="preserveStartEnd" />
+                <YAxis tickLine={false} axisLine={false} width={32} />
+                <ChartTooltip
+                  content={<ChartTooltipContent labelFormatter={(_, payload) => payload[0]?.payload.range} />}
+                />
+                <Bar dataKey="count" fill="var(--color-count)" radius={4} />
+              </BarChart>
+            </ChartContainer>
+
+            <div className="space-y-2">
+              <p className="text-sm font-medium">By member</p>
+              {result.members.map(member => (
+                <div key={member.memberId} className="flex justify-between text-sm">
+                  <span>{member.name}</span>
+                  <span className="text-muted-foreground">
+                    median {formatCurrency(member.median)} · average {formatCurrency(member.mean)}
+                  </span>
+                </div>
+              ))}
+              <p className="text-xs text-muted-foreground">
+                Based on {result.trials.toLocaleString()} simulated years (seed {result.seed}). Services that are not covered
+                do not count toward the out-of-pocket limit, so a simulated year can exceed it
+                {result.maxSimulated > result.worstCase ? ` (highest: ${formatCurrency(result.maxSimulated)})` : ""}.
+              </p>
+            </div>
+
+            {result.calibration && result.calibration.length > 0 && (
+              <div className="space-y-2">
+                <p className="text-sm font-medium">Checked against your SBC&apos;s coverage examples</p>
+                {result.calibration.map(example => (
+                  <div key={example.scenario} className="flex justify-between text-sm">
+                    <span>{example.title}</span>
+                    <span className="text-muted-foreground">
+                      issuer {formatCurrency(example.issuer_total)} · this app {formatCurrency(example.estimated_total)}
+                    </span>
+                  </div>
+                ))}
+                <p className="text-xs text-muted-foreground">
+                  Expected events like these are priced from your issuer&apos;s examples.
+                </p>
+              </div>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,89 @@
+"use client";
+
+/**
+ * Evidence of Coverage Component - Attach the plan's full coverage document
+ *
+ * The SBC only summarizes the plan. Once the user attaches the Evidence of
+ * Coverage (or Certificate of Coverage), it is chunked and indexed on the
+ * server, and coverage answers and chat quote its passages with page citations.
+ */
+
+import { attachEvidenceOfCoverage } from "@/actions/eoc";
+import { usePolicy } from "@/components/policy-context";
+import { Button } from "@/components/ui/button";
+import { EOC_DOCUMENT_TYPES } from "@/types/schemas";
+import { BookOpen, Loader2, Upload, X } from "lucide-react";
+import { useRef, useState } from "react";
+
+const ACCEPTED_FILE_TYPES = [...EOC_DOCUMENT_TYPES, ".docx", ".html", ".htm"].join(",");
+
+export function EvidenceOfCoverage() {
+  const { policy, setPolicy } = usePolicy();
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [isIndexing, setIsIndexing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  if (!policy) return null;
+  const { eoc } = policy;
+
+  const handleFile = async (file: File) => {
+    setIsIndexing(true);
+    setError(null);
+    try {
+      const formData = new FormData();
+      formData.append("file", file);
+      const reference = await attachEvidenceOfCoverage(formData);
+      setPolicy({ ...policy, eoc: reference });
+    } catch (err) {
+      console.error("Attaching Evidence of Coverage failed:", err);
+      setError(err instanceof Error ? err.message : "Failed to read the Evidence of Coverage");
+    } finally {
+      setIsIndexing(false);
+    }
+  };
+
+  return (
+    <section className="space-y-2">
+      <h3 className="text-xl font-semibold mb-2">Evidence of Coverage</h3>
+
+      {eoc ? (
+        <div className="flex items-center gap-3 text-sm border rounded px-3 py-2">
+          <BookOpen className="h-4 w-4 shrink-0 text-muted-foreground" />
+          <div className="flex-1 min-w-0">
+            <div className="font-medium truncate">{eoc.file_name}</div>
+            <div className="text-muted-foreground">
+              {eoc.page_count} pages · answers quote this document with page citations
+            </div>
+          </div>
+          <Button variant="ghost" size="sm" onClick={() => setPolicy({ ...policy, eoc: undefined })}>
+            <X className="h-4 w-4" />
+            Remove
+          </Button>
+        </div>
+      ) : (
+        <p className="text-sm text-muted-foreground">
+          The SBC is a summary. Attach your plan&apos;s Evidence of Coverage (or Certificate of Coverage) to get answers
+          backed by the full plan terms, e.g. whether a specific surgery or therapy is covered.
+        </p>
+      )}
+
+      <input
+        ref={inputRef}
+        type="file"
+        accept={ACCEPTED_FILE_TYPES}
+        className="hidden"
+        onChange={event => {
+          const file = event.target.files?.[0];
+          event.target.value = "";
+          if (file) handleFile(file);
+        }}
+      />
+      <Button variant="outline" onClick={() => inputRef.current?.click()} disabled={isIndexing}>
+        {isIndexing ? <Loader2 className="h-4 w-4 animate-spin" /> : <Upload className="h-4 w-4" />}
+        {isIndexing ? "Indexing..." : eoc ? "Replace document" : "Attach Evidence of Coverage"}
+      </Button>
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+    </section>
+  );
+}
@@ -1,15 +1,49 @@
 "use client";
 
 import React from "react";
-import { useRef, useState, useTransition } from "react";
+import { useRef, useState } from "react";
 import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
 import { Progress } from "@/components/ui/progress";
-import { FileIcon, UploadIcon, XIcon, Loader2 } from "lucide-react";
-import { parseSBCFile } from "@/actions/parse";
+import { FileIcon, UploadIcon, XIcon, Loader2, CheckCircle2, Circle } from "lucide-react";
+import { usePolicyParse } from "@/hooks/use-policy-parse";
+import { SBC_DOCUMENT_TYPES, type ParseStage } from "@/types/schemas";
 import { toast } from "sonner";
+import { ConfidenceService, PolicyService } from "@/lib/services";
 import { ParsedPolicy, usePolicy } from "./policy-context";
+import { PolicyReview } from "./policy-review";
 import { Card, CardHeader, CardTitle, CardContent } from "@/components/ui/card";
-import { policyTemplate1, policyTemplate2 } from "@/policy-templates";
+
+// Stages shown while parsing, in pipeline order
+const PARSE_STAGES: { stage: ParseStage; label: string }[] = [
+  { stage: "upload", label: "Upload" },
+  { stage: "text_extraction", label: "Extract text" },
+  { stage: "page_rendering", label: "Render pages" },
+  { stage: "structuring", label: "Read plan details" },
+  { stage: "validation", label: "Validate" },
+];
+
+const HEIC_PATTERN = /\.hei[cf]$/i;
+
+const isHeic = (file: File) => file.type === "image/heic" || file.type === "image/heif" || HEIC_PATTERN.test(file.name);
+
+/**
+ * Convert an iPhone HEIC photo to JPEG in the browser, since the server can't decode HEIC.
+ * Fails in browsers that can't decode HEIC either.
+ */
+async function convertHeicToJpeg(file: File): Promise<File> {
+  const bitmap = await createImageBitmap(file);
+  const canvas = document.createElement("canvas");
+  canvas.width = bitmap.width;
+  canvas.height = bitmap.height;
+  canvas.getContext("2d")?.drawImage(bitmap, 0, 0);
+  bitmap.close();
+
+  const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, "image/jpeg", 0.92));
+  if (!blob) throw new Error("Could not convert HEIC image");
+  return new File([blob], file.name.replace(HEIC_PATTERN, ".jpg"), { type: "image/jpeg" });
+}
 
 interface FileUploadProps {
   acceptedFileTypes?: string;
@@ -17,22 +51,24 @@ interface FileUploadProps {
 }
 
 export default function FileUpload({
-  acceptedFileTypes = ".pdf",
+  acceptedFileTypes = [...SBC_DOCUMENT_TYPES, ".docx", ".html", ".htm", ".heic", ".heif"].join(","),
   maxSizeMB = 10,
 }: FileUploadProps) {
   const { setPolicy } = usePolicy();
   const [selectedFile, setSelectedFile] = useState<File | null>(null);
-  const [uploadProgress, setUploadProgress] = useState(0);
   const [error, setError] = useState<string | null>(null);
-  const [isPending, startTransition] = useTransition();
+  const { parse, progress, stages, planSummary, services, isCached, isParsing, reset } = usePolicyParse();
+  const [forceReparse, setForceReparse] = useState(false);
   const formRef = useRef<HTMLFormElement>(null);
   const [cardLoading, setCardLoading] = useState<string | null>(null);
+  // Parsed policy waiting for the user to review low-confidence fields
+  const [pendingPolicy, setPendingPolicy] = useState<ParsedPolicy | null>(null);
 
   const maxSizeBytes = maxSizeMB * 1024 * 1024;
 
   const validateFile = (file: File): boolean => {
-    if (acceptedFileTypes && !file.type.includes("pdf")) {
-      setError(`Please upload a PDF file.`);
+    if (!(SBC_DOCUMENT_TYPES as readonly string[]).includes(file.type)) {
+      setError(`Please upload your SBC as a PDF, Word (.docx) or saved HTML file, or a photo (JPEG, PNG, WebP or HEIC).`);
       return false;
     }
     if (file.size > maxSizeBytes) {
@@ -42,11 +78,21 @@ export default function FileUpload({
     return true;
   };
 
-  const handleFile = (file: File) => {
+  const handleFile = async (selected: File) => {
+    let file = selected;
+    if (isHeic(selected)) {
+      try {
+        file = await convertHeicToJpeg(selected);
+      } catch (error) {
+        console.error("HEIC conversion failed:", error);
+        setError("This browser can't read HEIC photos. Please export the photo as JPEG and upload it again.");
+        return;
+      }
+    }
     if (validateFile(file)) {
       setError(null);
       setSelectedFile(file);
-      setUploadProgress(0);
+      reset();
       
       // Add file to formData
      
@@ -61,43 +107,28 @@ export default function FileUpload({
 
   const handleCancel = () => {
     setSelectedFile(null);
-    setUploadProgress(0);
+    reset();
     setError(null);
   };
 
-  // This is the server action wrapper
-  async function handleServerAction() {
-    setUploadProgress(10);
-    try {
-      setUploadProgress(30);
-      const fileFormData = new FormData();
-      if (selectedFile) {
-        fileFormData.append("file", selectedFile);
-      }
-      const startTime = performance.now();
-      const result = await parseSBCFile(fileFormData);
-      const endTime = performance.now();
-      console.log(`File parsing took ${(endTime - startTime) / 1000} seconds`);
-      setPolicy(result as unknown as ParsedPolicy);
-      setUploadProgress(100);
-      console.log("Server action result:", result);
+  // Parse through the streaming route so progress reflects the real pipeline
+  async function handleParse() {
+    if (!selectedFile) return;
+    const startTime = performance.now();
+    const result = await parse(selectedFile, { force: forceReparse });
+    const endTime = performance.now();
+    console.log(`File parsing took ${(endTime - startTime) / 1000} seconds`);
+    if (result && ConfidenceService.getReviewItems(result).length > 0) {
+      setPendingPolicy(result as ParsedPolicy);
+      toast.info("Please review a few values before saving");
+    } else if (result) {
+      setPolicy(result as ParsedPolicy);
       toast.success("File parsed successfully!");
-    } catch (err) {
+    } else {
       setError("Failed to parse file");
       toast.error("Failed to parse file");
-      setUploadProgress(0);
-      console.error(err);
     }
   }
-  // Simulate progress for UX
-  React.useEffect(() => {
-    if (isPending && uploadProgress < 90) {
-      const interval = setInterval(() => {
-        setUploadProgress((p) => (p < 90 ? p + 1.5 : p));
-      }, 1000);
-      return () => clearInterval(interval);
-    }
-  }, [isPending, uploadProgress]);
 
   // Add this function for card click
   const handleTemplateClick = async (template: ParsedPolicy, id: string) => {
@@ -110,6 +141,23 @@ export default function FileUpload({
     }
   };
 
+  if (pendingPolicy) {
+    return (
+      <PolicyReview
+        policy={pendingPolicy}
+        onSave={reviewed => {
+          setPendingPolicy(null);
+          setPolicy(reviewed);
+          toast.success("Policy saved!");
+        }}
+        onCancel={() => {
+          setPendingPolicy(null);
+          handleCancel();
+        }}
+      />
+    );
+  }
+
   return (
     <div className="w-full">
       {/* Policy Template Cards */}
@@ -119,8 +167,7 @@ export default function FileUpload({
         ref={formRef}
         action={async () => {
           setError(null);
-          setUploadProgress(0);
-          startTransition(() => handleServerAction());
+          await handleParse();
         }}
         className="flex flex-col gap-2"
       >
@@ -131,7 +178,7 @@ export default function FileUpload({
                 <UploadIcon className="h-6 w-6" />
               </div>
               <p className="text-sm font-medium">
-                Upload your Summary of Benefits Health and Coverage (SBC) PDF here
+                Upload your Summary of Benefits Health and Coverage (SBC) PDF, Word document, web page, scan or photo here
               </p>
               <input
                 type="file"
@@ -175,14 +222,62 @@ export default function FileUpload({
                 <XIcon className="h-4 w-4" />
               </Button>
             </div>
-            <Progress value={uploadProgress} className="h-2" />
+            <Progress value={progress} className="h-2" />
+            {(isParsing || progress > 0) && (
+              <ul className="mt-3 space-y-1 text-xs">
+                {PARSE_STAGES.map(({ stage, label }) => {
+                  const event = stages[stage];
+                  const done = stage === "structuring"
+                    ? isCached || (event !== undefined && event.completed === event.total)
+                    : (isCached && stage !== "validation") || event !== undefined;
+                  return (
+                    <li key={stage} className="flex items-center gap-2">
+                      {done ? (
+                        <CheckCircle2 className="h-3.5 w-3.5 text-green-600" />
+                      ) : isParsing ? (
+                        <Loader2 className="h-3.5 w-3.5 animate-spin text-gray-400" />
+                      ) : (
+                        <Circle className="h-3.5 w-3.5 text-gray-300" />
+                      )}
+                      <span className="font-medium">{label}</span>
+                      {event && (
+                        <span className="text-gray-500 dark:text-gray-400 truncate">
+                          {event.message}
+                          {stage === "structuring" && ` (${event.completed} of ${event.total})`}
+                        </span>
+                      )}
+                    </li>
+                  );
+                })}
+              </ul>
+            )}
+            {planSummary && (
+              <div className="mt-3 rounded-md bg-gray-50 dark:bg-gray-900/40 p-2 text-xs">
+                <p className="font-medium">{planSummary.plan_name}</p>
+                <p className="text-gray-500 dark:text-gray-400">
+                  {planSummary.issuer_name} · {planSummary.plan_type}
+                  {services.length > 0 && ` · ${services.length} services found so far`}
+                </p>
+              </div>
+            )}
+            <div className="flex items-center gap-2 mt-3">
+              <Checkbox
+                id="force-reparse"
+                checked={forceReparse}
+                disabled={isParsing}
+                onCheckedChange={checked => setForceReparse(checked === true)}
+              />
+              <Label htmlFor="force-reparse" className="text-xs font-normal text-gray-500 dark:text-gray-400">
+                Parse again even if this file was parsed before
+              </Label>
+            </div>
             <Button
               type="submit"
               className="w-full mt-4"
-              disabled={isPending}
+              disabled={isParsing}
             >
-              {isPending ? <Loader2 className="animate-spin h-4 w-4 mr-2 inline" /> : null}
-              {isPending ? "Parsing..." : "Parse Policy Document"}
+              {isParsing ? <Loader2 className="animate-spin h-4 w-4 mr-2 inline" /> : null}
+              {isParsing ? "Parsing..." : "Parse Policy Document"}
             </Button>
           </div>
         )}
@@ -192,8 +287,8 @@ export default function FileUpload({
           </div>
         )}
       </form>
-      <div className="flex gap-4 mt-6">
-        {[{template: policyTemplate1, id: "1"}, {template: policyTemplate2, id: "2"}].map(({template, id}) => (
+      <div className="flex flex-wrap gap-4 mt-6">
+        {PolicyService.getAvailableTemplates().map(({data: template, id}) => (
           <Card key={id} className="w-72 cursor-pointer hover:shadow-lg transition-shadow">
             <CardHeader>
               <CardTitle className="truncate">{template.plan_summary.plan_name}</CardTitle>
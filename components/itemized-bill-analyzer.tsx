@@ -0,0 +1,206 @@
+"use client";
+
+/**
+ * Itemized Bill Analyzer Component - Check a provider's bill against the policy
+ *
+ * The user uploads an itemized bill; its charges are read on the server, then
+ * mapped to the SBC's services and priced against the current spending. Each
+ * line shows the SBC service it falls under and the most it should cost, and
+ * duplicate charges, services covered before the deductible and preventive
+ * services that should be free are called out above the table.
+ */
+
+import { parseItemizedBill } from "@/actions/itemized-bill";
+import { Button } from "@/components/ui/button";
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
+import { Table, TableBody, TableCell, TableFooter, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { BillAnalysisService, type BillFlagKind } from "@/lib/services";
+import type { InsuranceSettings } from "@/types/insurance";
+import { ITEMIZED_BILL_DOCUMENT_TYPES, type ItemizedBill, type ParsedPolicy } from "@/types/schemas";
+import { AlertTriangle, ChevronDown, ChevronUp, FileSearch, Loader2, Upload, X } from "lucide-react";
+import { useMemo, useRef, useState } from "react";
+
+interface ItemizedBillAnalyzerProps {
+  policy: ParsedPolicy;
+  settings: InsuranceSettings;
+}
+
+const formatCurrency = (amount: number) =>
+  new Intl.NumberFormat("en-US", { style: "currency", currency: "USD" }).format(amount);
+
+const FLAG_TITLES: Record<BillFlagKind, string> = {
+  duplicate_charge: "Possible duplicate charge",
+  covered_before_deductible: "Covered before the deductible",
+  preventive_should_be_free: "Preventive care should be $0",
+};
+
+export function ItemizedBillAnalyzer({ policy, settings }: ItemizedBillAnalyzerProps) {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [isOpen, setIsOpen] = useState(false);
+  const [bill, setBill] = useState<ItemizedBill | null>(null);
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [isReading, setIsReading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Re-priced whenever spending or the network changes
+  const analysis = useMemo(
+    () => bill && BillAnalysisService.analyzeItemizedBill(policy, settings, bill, {
+      network: settings.isInNetwork ? "in_network" : "out_of_network",
+      networkTier: settings.networkTier,
+    }),
+    [policy, settings, bill]
+  );
+
+  const handleFile = async (file: File) => {
+    setIsReading(true);
+    setError(null);
+    try {
+      const formData = new FormData();
+      formData.append("file", file);
+      setBill(await parseItemizedBill(formData));
+      setFileName(file.name);
+      setIsOpen(true);
+    } catch (err) {
+      console.error("Failed to read itemized bill:", err);
+      setError(err instanceof Error ? err.message : "Failed to read the itemized bill");
+    } finally {
+      setIsReading(false);
+    }
+  };
+
+  return (
+    <Collapsible open={isOpen} onOpenChange={setIsOpen} className="border-b px-4 py-2">
+      <div className="flex items-center justify-between gap-2 text-sm">
+        <CollapsibleTrigger className="flex items-center gap-2 text-left">
+          <FileSearch className="h-4 w-4 text-muted-foreground" />
+          {analysis ? (
+            <span>
+              {fileName}: {analysis.lines.length} {analysis.lines.length === 1 ? "charge" : "charges"} · at most{" "}
+              {formatCurrency(analysis.totals.estimatedPatientResponsibility)} owed
+              {analysis.flags.length > 0 && ` · ${analysis.flags.length} to check`}
+            </span>
+          ) : (
+            <span className="text-muted-foreground">Upload an itemized bill to check its charges against your plan</span>
+          )}
+          {isOpen ? <ChevronUp className="h-4 w-4" /> : <ChevronDown className="h-4 w-4" />}
+        </CollapsibleTrigger>
+
+        <div className="flex items-center gap-1">
+          {bill && (
+            <Button variant="ghost" size="sm" onClick={() => { setBill(null); setFileName(null); }} title="Close bill">
+              <X className="h-4 w-4" />
+            </Button>
+          )}
+          <input
+            ref={inputRef}
+            type="file"
+            accept={ITEMIZED_BILL_DOCUMENT_TYPES.join(",")}
+            className="hidden"
+            onChange={event => {
+              const file = event.target.files?.[0];
+              event.target.value = "";
+              if (file) handleFile(file);
+            }}
+          />
+          <Button variant="outline" size="sm" onClick={() => inputRef.current?.click()} disabled={isReading}>
+            {isReading ? <Loader2 className="h-4 w-4 animate-spin" /> : <Upload className="h-4 w-4" />}
+            {isReading ? "Reading bill..." : "Upload bill"}
+          </Button>
+        </div>
+      </div>
+
+      {error && <p className="text-sm text-red-600 mt-2">{error}</p>}
+
+      <CollapsibleContent className="mt-3 space-y-3">
+        {!analysis ? (
+          <p className="text-sm text-muted-foreground">
+            Ask your provider for an itemized bill: it lists every charge with its procedure code. Upload the PDF or a
+            photo to see which part of your plan covers each charge, the most you should owe, and charges worth disputing.
+          </p>
+        ) : (
+          <>
+            {analysis.flags.length > 0 && (
+              <ul className="space-y-2">
+                {analysis.flags.map((flag, index) => (
+                  <li key={index} className="flex gap-2 text-sm border border-amber-200 bg-amber-50 rounded px-3 py-2">
+                    <AlertTriangle className="h-4 w-4 shrink-0 text-amber-600 mt-0.5" />
+                    <div>
+                      <div className="font-medium">{FLAG_TITLES[flag.kind]}</div>
+                      <div className="text-muted-foreground">{flag.message}</div>
+                    </div>
+                  </li>
+                ))}
+              </ul>
+            )}
+
+            <Table className="text-xs">
+              <TableHeader>
+                <TableRow>
+                  <TableHead>#</TableHead>
+                  <TableHead>Date</TableHead>
+                  <TableHead>Code</TableHead>
+                  <TableHead>Description</TableHead>
+                  <TableHead>Plan coverage</TableHead>
+                  <TableHead className="text-right">Qty</TableHead>
+                  <TableHead className="text-right">Charge</TableHead>
+                  <TableHead className="text-right" title="Priced at the billed charge, before any network discount">Owe at most</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {analysis.lines.map(line => {
+                  const ruleSourceText = (line.pricedWith !== undefined ? analysis.lines[line.pricedWith] : line).estimate?.rule_source_text;
+                  return (
+                  <TableRow key={line.index} className={line.duplicateOf !== undefined ? "text-muted-foreground line-through" : undefined}>
+                    <TableCell>{line.index + 1}</TableCell>
+                    <TableCell>{line.line.service_date ?? "—"}</TableCell>
+                    <TableCell>
+                      {line.code ?? line.line.revenue_code ?? "—"}
+                      {line.line.modifiers?.length ? `-${line.line.modifiers.join("-")}` : ""}
+                    </TableCell>
+                    <TableCell>{line.line.description}</TableCell>
+                    <TableCell>
+                      {line.serviceType ? (
+                        <>
+                          <div className="capitalize">{line.serviceType.replaceAll("_", " ")}</div>
+                          {ruleSourceText && <div className="text-muted-foreground">{ruleSourceText}</div>}
+                        </>
+                      ) : (
+                        <span className="text-muted-foreground">Couldn&apos;t match to the SBC</span>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-right">{line.line.quantity}</TableCell>
+                    <TableCell className="text-right">{formatCurrency(line.line.charge)}</TableCell>
+                    <TableCell className="text-right font-medium">
+                      {line.estimate ? (
+                        formatCurrency(line.estimate.patient_responsibility)
+                      ) : line.pricedWith !== undefined ? (
+                        <span className="font-normal text-muted-foreground">With line {line.pricedWith + 1}</span>
+                      ) : (
+                        "—"
+                      )}
+                    </TableCell>
+                  </TableRow>
+                  );
+                })}
+              </TableBody>
+              <TableFooter>
+                <TableRow>
+                  <TableCell colSpan={6}>Total</TableCell>
+                  <TableCell className="text-right">{formatCurrency(analysis.totals.billed)}</TableCell>
+                  <TableCell className="text-right">{formatCurrency(analysis.totals.estimatedPatientResponsibility)}</TableCell>
+                </TableRow>
+              </TableFooter>
+            </Table>
+
+            <p className="text-xs text-muted-foreground">
+              Upper bound: each charge is priced as if your insurer allowed the full billed amount, with your current
+              spending. Negotiated rates are usually lower, so you&apos;ll likely owe less; your EOB shows the final amount.
+              {analysis.totals.duplicates > 0 && ` Possible duplicates (${formatCurrency(analysis.totals.duplicates)}) are left out.`}
+              {analysis.totals.unpriced > 0 && ` ${formatCurrency(analysis.totals.unpriced)} of charges couldn't be matched to a service on the SBC and aren't included.`}
+            </p>
+          </>
+        )}
+      </CollapsibleContent>
+    </Collapsible>
+  );
+}
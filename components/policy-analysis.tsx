@@ -9,6 +9,8 @@
  * - AI-powered category analysis with breadcrumb navigation
  * - Contextual healthcare situation suggestions
  * - Centralized settings management
+ * - Spending derived from uploaded EOB claims when there are any
+ * - Itemized bills checked against the policy for overcharges
  * - Error boundaries for graceful error handling
  * - Responsive design with mobile/desktop layouts
  * 
@@ -16,28 +18,40 @@
  * - Uses useCategoryAnalysis hook for category management
  * - Uses useSituationSuggestions hook for suggestion management
  * - Uses useInsuranceSettings hook for settings state
+ * - Uses useClaimsLedger hook for EOB claims
  * - Wrapped with AIErrorBoundary for error handling
  */
 
 "use client"
 
 import { CategoryScores } from "@/components/category-scores"
+import { ClaimsLedger } from "@/components/claims-ledger"
+import { ItemizedBillAnalyzer } from "@/components/itemized-bill-analyzer"
 import { AIErrorBoundary } from "@/components/error-boundaries"
 import { Badge } from "@/components/ui/badge"
 import { Button } from "@/components/ui/button"
 import { Skeleton } from "@/components/ui/skeleton"
 import {
   useCategoryAnalysis,
+  useClaimsLedger,
   useInsuranceSettings,
   useSituationSuggestions
 } from "@/hooks"
+import { AccumulatorService, ClaimsLedgerService } from "@/lib/services"
+import type { InsuranceSettings } from "@/types/insurance"
 import { useComposerRuntime } from "@assistant-ui/react"
 import { ChevronRight, Home } from "lucide-react"
-import { useCallback } from "react"
+import { useCallback, useEffect, useMemo, useRef } from "react"
 import { Thread } from "./assistant-ui/thread"
+import { useHealthcareContext } from "./healthcare-context"
 import { usePolicy } from "./policy-context"
 import { SettingsBar } from "./settings-bar"
 
+/** Defined once so that updateSettings keeps its identity across renders */
+const logSettingsChange = (newSettings: InsuranceSettings) => {
+  console.log("Insurance settings changed:", newSettings);
+};
+
 /**
  * Main Policy Analysis Component
  * 
@@ -61,6 +75,10 @@ export default function PolicyAnalysis() {
     settings,
     updateSettings,
     getNetworkStatus,
+    setActiveMember,
+    syncMembers,
+    getFamilyAccumulators,
+    getRemainingAccumulators,
   } = useInsuranceSettings({
     initialSettings: {
       deductibleSpent: 500,
@@ -68,11 +86,58 @@ export default function PolicyAnalysis() {
       isInNetwork: true,
     },
     persist: true,
-    onSettingsChange: (newSettings) => {
-      console.log("Insurance settings changed:", newSettings);
-    },
+    onSettingsChange: logSettingsChange,
   });
 
+  /** Household members tracked for per-member accumulators */
+  const { healthcareInfo } = useHealthcareContext();
+  const members = useMemo(() => healthcareInfo?.members ?? [], [healthcareInfo]);
+  const memberIds = members.map(member => member.id).join(",");
+
+  useEffect(() => {
+    if (memberIds) syncMembers(memberIds.split(","));
+  }, [memberIds, syncMembers]);
+
+  /** Claims read from EOBs; while there are any, spending comes from them */
+  const {
+    claims,
+    isImporting,
+    error: claimsError,
+    importEOB,
+    assignMember,
+    removeClaim,
+    clearClaims,
+  } = useClaimsLedger();
+
+  // Re-derive spending only when the claims, the policy or the tracked members change, so that
+  // unrelated settings edits (network, active member) don't trigger another pass
+  const settingsRef = useRef(settings);
+  settingsRef.current = settings;
+  const accumulatorMemberIds = Object.keys(settings.memberAccumulators ?? {}).join(",");
+
+  useEffect(() => {
+    if (!policy || claims.length === 0) return;
+    updateSettings(ClaimsLedgerService.applyLedgerToSettings(settingsRef.current, claims, policy));
+  }, [policy, claims, accumulatorMemberIds, updateSettings]);
+
+  const handleImportEOB = useCallback((file: File) => {
+    importEOB(file, { members, defaultMemberId: settings.activeMemberId });
+  }, [importEOB, members, settings.activeMemberId]);
+
+  /** Active member's remaining balances and household totals */
+  const remaining = useMemo(
+    () => (policy ? getRemainingAccumulators(policy) : undefined),
+    [policy, getRemainingAccumulators]
+  );
+  const separateOutOfNetwork = useMemo(
+    () => (policy ? AccumulatorService.hasSeparateOutOfNetworkLimits(policy) : false),
+    [policy]
+  );
+  const familyAccumulators = useMemo(
+    () => getFamilyAccumulators(separateOutOfNetwork && !settings.isInNetwork ? "out_of_network" : "in_network"),
+    [getFamilyAccumulators, separateOutOfNetwork, settings.isInNetwork]
+  );
+
   /** AI-powered category analysis with navigation */
   const {
     categories,
@@ -168,8 +233,30 @@ export default function PolicyAnalysis() {
         <SettingsBar 
           settings={settings} 
           onSettingsChange={handleSettingsChange} 
+          members={members}
+          onActiveMemberChange={setActiveMember}
+          remaining={remaining}
+          familyAccumulators={familyAccumulators}
+          separateOutOfNetwork={separateOutOfNetwork}
+          networkTiers={policy?.network_tiers}
+          ledgerClaimCount={claims.length}
         />
 
+        {/* Claims Ledger - Spending from uploaded EOBs */}
+        <ClaimsLedger
+          claims={claims}
+          members={members}
+          isImporting={isImporting}
+          error={claimsError}
+          onImport={handleImportEOB}
+          onAssignMember={assignMember}
+          onRemoveClaim={removeClaim}
+          onClear={clearClaims}
+        />
+
+        {/* Itemized Bill Analyzer - Check a provider's charges against the policy */}
+        {policy && <ItemizedBillAnalyzer policy={policy} settings={settings} />}
+
         <div className="flex flex-col lg:flex-row flex-1">
           {/* Main Content Area - Category Analysis */}
           <div className="w-full lg:w-2/3 p-4 border-r overflow-y-auto">
@@ -1,6 +1,17 @@
 "use client";
 import { useComposerRuntime } from "@assistant-ui/react";
-import { createContext, ReactNode, useContext, useEffect, useState } from "react";
+import { createContext, ReactNode, useContext, useEffect, useMemo, useState } from "react";
+import { ConsistencyService } from "@/lib/services";
+import type {
+  CoverageExample,
+  EocReference,
+  FieldConfidence,
+  FieldSource,
+  NetworkTier,
+  PolicyPremium,
+  PolicyWarning,
+  SbcLanguage,
+} from "@/types/schemas";
 
 export interface PlanSummary {
   plan_name: string;
@@ -21,6 +32,10 @@ export interface ImportantQuestions {
   overall_deductible: {
     individual: number;
     family: number;
+    out_of_network?: {
+      individual: number;
+      family: number;
+    };
     details?: string;
   };
   services_covered_before_deductible: {
@@ -35,6 +50,10 @@ export interface ImportantQuestions {
   out_of_pocket_limit_for_plan: {
     individual: number;
     family: number;
+    out_of_network?: {
+      individual: number;
+      family: number;
+    };
     details?: string;
   };
   not_included_in_out_of_pocket_limit: {
@@ -59,6 +78,7 @@ export interface ServiceYouMayNeed {
     network_provider: string;
     out_of_network_provider: string;
     limitations_exceptions_and_other_important_information: string;
+    tiers?: Record<string, string>;
   };
 }
 
@@ -73,12 +93,21 @@ export interface ParsedPolicy {
   plan_summary: PlanSummary;
   important_questions: ImportantQuestions;
   services_you_may_need: ServiceYouMayNeed[];
+  network_tiers?: NetworkTier[];
   excluded_and_other_covered_services: ExcludedAndOtherCoveredServices;
+  coverage_examples?: CoverageExample[];
+  premium?: PolicyPremium;
+  provenance?: Record<string, FieldSource>;
+  confidence?: Record<string, FieldConfidence>;
+  language?: SbcLanguage;
+  eoc?: EocReference;
 }
 
 interface PolicyContextType {
   policy: ParsedPolicy | null;
   setPolicy: (policy: ParsedPolicy | null) => void;
+  /** Consistency warnings for the current policy, recomputed whenever it changes */
+  warnings: PolicyWarning[];
 }
 
 const PolicyContext = createContext<PolicyContextType | undefined>(undefined);
@@ -100,11 +129,15 @@ export const PolicyProvider = ({ children }: { children: ReactNode }) => {
           const cleanedPolicy = {
             ...parsedPolicy,
             image_urls: [],
+            provenance: undefined,
+            confidence: undefined,
           }
           composerRuntime.setRunConfig({
             custom: {
               ...composerRuntime.getState().runConfig?.custom,
               policy: JSON.stringify(cleanedPolicy),
+              policyLanguage: parsedPolicy.language,
+              eocId: parsedPolicy.eoc?.id,
             },
           });
         } catch {}
@@ -125,11 +158,15 @@ export const PolicyProvider = ({ children }: { children: ReactNode }) => {
     const cleanedPolicy = {
       ...policy,
       image_urls: [],
+      provenance: undefined,
+      confidence: undefined,
     };
     composerRuntime.setRunConfig({
       custom: {
         ...composerRuntime.getState().runConfig?.custom,
         policy: JSON.stringify(cleanedPolicy),
+        policyLanguage: policy?.language,
+        eocId: policy?.eoc?.id,
       },
     });
   }, [policy, composerRuntime]);
@@ -138,8 +175,14 @@ export const PolicyProvider = ({ children }: { children: ReactNode }) => {
     setPolicyState(p);
   };
 
+  // Runs after every parse, template load and review correction
+  const warnings = useMemo(
+    () => policy ? ConsistencyService.validatePolicyConsistency(policy) : [],
+    [policy]
+  );
+
   return (
-    <PolicyContext.Provider value={{ policy, setPolicy }}>
+    <PolicyContext.Provider value={{ policy, setPolicy, warnings }}>
       {children}
     </PolicyContext.Provider>
   );
@@ -1,19 +1,38 @@
 "use client";
-import { ChevronDown, ChevronUp } from "lucide-react";
+import { AlertTriangle, ChevronDown, ChevronUp, Info } from "lucide-react";
 import React, { useState } from "react";
 import FileUpload from "./file-upload";
+import { CoverageExampleService, NetworkTierService, ProvenanceService } from "@/lib/services";
+import { LANGUAGE_NAMES } from "@/lib/sbc-language";
+import type { CoverageExample } from "@/types/schemas";
 import { usePolicy } from "./policy-context";
+import { EvidenceOfCoverage } from "./evidence-of-coverage";
+import { SourceLink } from "./source-link";
+import { TotalCostOfOwnership } from "./total-cost-of-ownership";
+import { Alert, AlertDescription, AlertTitle } from "./ui/alert";
 import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "./ui/collapsible";
 
+// Rows of the coverage examples table, as printed on the SBC
+const COVERAGE_EXAMPLE_ROWS: Array<[string, (example: CoverageExample) => number]> = [
+  ["Total example cost", (example) => example.total_example_cost],
+  ["Deductibles", (example) => example.cost_sharing.deductibles],
+  ["Copayments", (example) => example.cost_sharing.copayments],
+  ["Coinsurance", (example) => example.cost_sharing.coinsurance],
+  ["Limits or exclusions", (example) => example.limits_or_exclusions],
+];
+
 export const PolicyOverview: React.FC = () => {
-  const { policy } = usePolicy();
+  const { policy, warnings } = usePolicy();
   console.log("policy", policy);
   const [isOpen, setIsOpen] = useState(false);
 
   if (!policy) {
     return <FileUpload />;
   }
-  const { plan_summary, services_you_may_need, excluded_and_other_covered_services } = policy;
+  const { plan_summary, important_questions, services_you_may_need, excluded_and_other_covered_services, coverage_examples, language } = policy;
+  const calibration = CoverageExampleService.calibrateWithCoverageExamples(policy);
+  const networkTiers = NetworkTierService.getNetworkTiers(policy);
+  const { overall_deductible, out_of_pocket_limit_for_plan } = important_questions;
   const {
     coverage_period,
     coverage_for,
@@ -44,7 +63,16 @@ export const PolicyOverview: React.FC = () => {
             <div className="flex-1 min-w-[100px]">
               <div className="text-xs uppercase mb-1">Issuer</div>
               <div>{issuer_name} ({plan_type})</div>
+              {language && language !== "en" && (
+                <div className="text-xs text-gray-500">{LANGUAGE_NAMES[language]} SBC</div>
+              )}
             </div>
+            {warnings.length > 0 && (
+              <div className="flex items-center gap-1 text-amber-600">
+                <AlertTriangle className="h-4 w-4" />
+                {warnings.length} {warnings.length === 1 ? "warning" : "warnings"}
+              </div>
+            )}
             <div className="flex items-center">
               {isOpen ? (
                 <ChevronUp className="h-4 w-4" />
@@ -57,6 +85,41 @@ export const PolicyOverview: React.FC = () => {
       </CollapsibleTrigger>
       <CollapsibleContent>
         <div className="rounded border p-6 bg-white shadow-sm mx-auto space-y-8">
+          {/* Consistency Warnings */}
+          {warnings.length > 0 && (
+            <section className="space-y-2">
+              {warnings.map((warning) => (
+                <Alert key={`${warning.code}-${warning.path}`} variant={warning.severity === "error" ? "destructive" : "default"}>
+                  {warning.severity === "info" ? <Info className="h-4 w-4" /> : <AlertTriangle className="h-4 w-4" />}
+                  <AlertTitle>{warning.message}</AlertTitle>
+                  {warning.suggestion && <AlertDescription>{warning.suggestion}</AlertDescription>}
+                </Alert>
+              ))}
+            </section>
+          )}
+
+          {/* Premiums and Total Cost of Ownership */}
+          <TotalCostOfOwnership />
+
+          {/* Evidence of Coverage */}
+          <EvidenceOfCoverage />
+
+          {/* Deductible and Out-of-Pocket Limit */}
+          <section className="grid grid-cols-1 md:grid-cols-2 gap-6">
+            <div>
+              <h3 className="text-xl font-semibold mb-2">Deductible</h3>
+              <SourceLink sourceKey={ProvenanceService.page1SourceKey("overall_deductible")} label="Overall deductible">
+                ${overall_deductible.individual.toLocaleString()} individual / ${overall_deductible.family.toLocaleString()} family
+              </SourceLink>
+            </div>
+            <div>
+              <h3 className="text-xl font-semibold mb-2">Out-of-Pocket Limit</h3>
+              <SourceLink sourceKey={ProvenanceService.page1SourceKey("out_of_pocket_limit_for_plan")} label="Out-of-pocket limit">
+                ${out_of_pocket_limit_for_plan.individual.toLocaleString()} individual / ${out_of_pocket_limit_for_plan.family.toLocaleString()} family
+              </SourceLink>
+            </div>
+          </section>
+
           {/* Cost of Common Services */}
           <section>
             <h3 className="text-xl font-semibold mb-2">What You&apos;ll Pay for Common Services</h3>
@@ -65,8 +128,9 @@ export const PolicyOverview: React.FC = () => {
                 <thead className="bg-gray-100">
                   <tr>
                     <th className="border px-2 py-1 text-left">Service</th>
-                    <th className="border px-2 py-1 text-left">In-Network</th>
-                    <th className="border px-2 py-1 text-left">Out-of-Network</th>
+                    {networkTiers.map((tier) => (
+                      <th key={tier.id} className="border px-2 py-1 text-left">{tier.name}</th>
+                    ))}
                     <th className="border px-2 py-1 text-left">Notes</th>
                   </tr>
                 </thead>
@@ -74,8 +138,13 @@ export const PolicyOverview: React.FC = () => {
                   {services_you_may_need.map((service) => (
                     <tr key={service.name}>
                       <td className="border px-2 py-1 capitalize">{service.name.replaceAll('_', ' ')}</td>
-                      <td className="border px-2 py-1">{service.what_you_will_pay.network_provider}</td>
-                      <td className="border px-2 py-1">{service.what_you_will_pay.out_of_network_provider}</td>
+                      {networkTiers.map((tier) => (
+                        <td key={tier.id} className="border px-2 py-1">
+                          <SourceLink sourceKey={ProvenanceService.serviceSourceKey(service.name)} label={service.name.replaceAll('_', ' ')}>
+                            {NetworkTierService.getTierCostSharingText(service, tier)}
+                          </SourceLink>
+                        </td>
+                      ))}
                       <td className="border px-2 py-1">{service.what_you_will_pay.limitations_exceptions_and_other_important_information}</td>
                     </tr>
                   ))}
@@ -89,20 +158,77 @@ export const PolicyOverview: React.FC = () => {
             <div>
               <h3 className="text-xl font-semibold mb-2">Services This Plan Doesn&apos;t Cover</h3>
               <ul className="list-disc list-inside text-red-700">
-                {excluded_and_other_covered_services.excluded_services.map((item) => (
-                  <li key={item}>{item}</li>
+                {excluded_and_other_covered_services.excluded_services.map((item, index) => (
+                  <li key={item}>
+                    <SourceLink sourceKey={ProvenanceService.exclusionSourceKey("excluded_services", index)} label="Service this plan doesn't cover">
+                      {item}
+                    </SourceLink>
+                  </li>
                 ))}
               </ul>
             </div>
             <div>
               <h3 className="text-xl font-semibold mb-2">Other Covered Services</h3>
               <ul className="list-disc list-inside text-green-700">
-                {excluded_and_other_covered_services.other_covered_services.map((item) => (
-                  <li key={item}>{item}</li>
+                {excluded_and_other_covered_services.other_covered_services.map((item, index) => (
+                  <li key={item}>
+                    <SourceLink sourceKey={ProvenanceService.exclusionSourceKey("other_covered_services", index)} label="Other covered service">
+                      {item}
+                    </SourceLink>
+                  </li>
                 ))}
               </ul>
             </div>
           </section>
+
+          {/* Coverage Examples */}
+          {coverage_examples && coverage_examples.length > 0 && (
+            <section>
+              <h3 className="text-xl font-semibold mb-2">Coverage Examples</h3>
+              <p className="text-sm text-gray-500 mb-2">
+                What your issuer says you would pay in these standard situations, next to what this app calculates for the same care.
+              </p>
+              <div className="overflow-x-auto">
+                <table className="min-w-full border text-sm">
+                  <thead className="bg-gray-100">
+                    <tr>
+                      <th className="border px-2 py-1 text-left"></th>
+                      {coverage_examples.map((example) => (
+                        <th key={example.title} className="border px-2 py-1 text-left">{example.title}</th>
+                      ))}
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {COVERAGE_EXAMPLE_ROWS.map(([label, amount]) => (
+                      <tr key={label}>
+                        <td className="border px-2 py-1">{label}</td>
+                        {coverage_examples.map((example) => (
+                          <td key={example.title} className="border px-2 py-1">${amount(example).toLocaleString()}</td>
+                        ))}
+                      </tr>
+                    ))}
+                    <tr className="font-semibold">
+                      <td className="border px-2 py-1">Total you would pay</td>
+                      {coverage_examples.map((example) => (
+                        <td key={example.title} className="border px-2 py-1">${example.total_you_would_pay.toLocaleString()}</td>
+                      ))}
+                    </tr>
+                    <tr className="text-gray-600">
+                      <td className="border px-2 py-1">This app&apos;s estimate</td>
+                      {coverage_examples.map((example) => {
+                        const replay = calibration.find((item) => item.title === example.title);
+                        return (
+                          <td key={example.title} className="border px-2 py-1">
+                            {replay ? `$${replay.estimated_total.toLocaleString()}` : "—"}
+                          </td>
+                        );
+                      })}
+                    </tr>
+                  </tbody>
+                </table>
+              </div>
+            </section>
+          )}
         </div>
       </CollapsibleContent>
     </Collapsible>
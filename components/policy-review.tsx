@@ -0,0 +1,136 @@
+"use client";
+
+/**
+ * Policy Review Component - Confirm low-confidence fields before saving
+ *
+ * Shown after an upload when some extracted fields scored below high
+ * confidence. Each field is listed next to its highlighted SBC page so the
+ * user can confirm it as read or correct it; the policy is saved only once
+ * every field has been resolved.
+ */
+
+import { useState } from "react";
+import { AlertTriangle, CheckCircle2 } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { ConfidenceService, type ReviewItem } from "@/lib/services";
+import type { ParsedPolicy } from "./policy-context";
+import { SourcePageImage } from "./source-link";
+
+interface PolicyReviewProps {
+  /** Freshly parsed policy with confidence scores */
+  policy: ParsedPolicy;
+  /** Called with the reviewed policy once every field is resolved */
+  onSave: (policy: ParsedPolicy) => void;
+  onCancel: () => void;
+}
+
+interface ReviewItemCardProps {
+  item: ReviewItem;
+  imageUrl?: string;
+  resolved: boolean;
+  onResolve: (values?: Record<string, string | number>) => void;
+}
+
+function ReviewItemCard({ item, imageUrl, resolved, onResolve }: ReviewItemCardProps) {
+  const [values, setValues] = useState<Record<string, string | number>>(
+    () => Object.fromEntries(item.fields.map(field => [field.name, field.value]))
+  );
+  const changed = item.fields.some(field => values[field.name] !== field.value);
+
+  return (
+    <div className="grid gap-4 border rounded-lg p-4 md:grid-cols-2">
+      <div className="space-y-3">
+        <div className="flex items-center justify-between gap-2">
+          <p className="font-medium capitalize">{item.label}</p>
+          {resolved ? (
+            <Badge variant="secondary" className="gap-1"><CheckCircle2 className="h-3 w-3 text-green-600" />Reviewed</Badge>
+          ) : (
+            <Badge variant={item.confidence.level === "low" ? "destructive" : "outline"}>
+              {item.confidence.level} confidence ({Math.round(item.confidence.score * 100)}%)
+            </Badge>
+          )}
+        </div>
+        {item.confidence.reasons.length > 0 && (
+          <ul className="list-disc pl-5 text-xs text-gray-500 dark:text-gray-400">
+            {item.confidence.reasons.map(reason => <li key={reason}>{reason}</li>)}
+          </ul>
+        )}
+        {item.fields.map(field => (
+          <div key={field.name} className="space-y-1">
+            <Label htmlFor={`${item.key}-${field.name}`}>{field.label}</Label>
+            <Input
+              id={`${item.key}-${field.name}`}
+              type={field.kind === "number" ? "number" : "text"}
+              value={values[field.name]}
+              disabled={resolved}
+              onChange={e => setValues(current => ({
+                ...current,
+                [field.name]: field.kind === "number" ? Number(e.target.value) : e.target.value,
+              }))}
+            />
+          </div>
+        ))}
+        {!resolved && (
+          <Button size="sm" variant={changed ? "default" : "outline"} onClick={() => onResolve(changed ? values : undefined)}>
+            {changed ? "Save correction" : "Looks right"}
+          </Button>
+        )}
+      </div>
+      <div>
+        {item.source && imageUrl ? (
+          <>
+            <blockquote className="border-l-4 border-purple-300 pl-3 mb-2 text-xs italic">{item.source.quote}</blockquote>
+            <SourcePageImage source={item.source} imageUrl={imageUrl} />
+          </>
+        ) : (
+          <p className="text-sm text-gray-500 dark:text-gray-400">
+            The source of this value could not be found in your SBC. Please check it against your document.
+          </p>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export function PolicyReview({ policy, onSave, onCancel }: PolicyReviewProps) {
+  const [draft, setDraft] = useState(policy);
+  // Keep the list fixed while reviewing so resolved items stay visible
+  const [items] = useState(() => ConfidenceService.getReviewItems(policy));
+  const isResolved = (key: string) => draft.confidence?.[key]?.reviewed === true;
+  const remaining = items.filter(item => !isResolved(item.key)).length;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <AlertTriangle className="h-5 w-5 text-amber-500" />
+          Review {items.length} {items.length === 1 ? "value" : "values"} before saving
+        </CardTitle>
+        <CardDescription>
+          We weren&apos;t sure we read these correctly. Compare each one with the highlighted part of your SBC and confirm or correct it.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {items.map(item => (
+          <ReviewItemCard
+            key={item.key}
+            item={item}
+            imageUrl={item.source ? draft.image_urls[item.source.page] : undefined}
+            resolved={isResolved(item.key)}
+            onResolve={values => setDraft(current => ConfidenceService.applyReview(current, item.key, values))}
+          />
+        ))}
+        <div className="flex justify-end gap-2">
+          <Button variant="ghost" onClick={onCancel}>Cancel</Button>
+          <Button disabled={remaining > 0} onClick={() => onSave(draft)}>
+            {remaining > 0 ? `${remaining} left to review` : "Save policy"}
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -3,41 +3,84 @@
 
 import { CurrencyInput } from "@/components/ui/input"
 import { Label } from "@/components/ui/label"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
 import { Switch } from "@/components/ui/switch"
+import { NetworkTierService, type RemainingAccumulators, type TierSpending } from "@/lib/services"
 import type { InsuranceSettings } from "@/types/insurance"
+import type { NetworkTier, PersonHealthInfo } from "@/types/schemas"
 import { useComposerRuntime } from "@assistant-ui/react"
 import { useEffect, useState } from "react"
 
 interface SettingsBarProps {
   settings: InsuranceSettings
   onSettingsChange: (settings: Partial<InsuranceSettings>) => void
+  /** Household members whose spending can be edited */
+  members?: PersonHealthInfo[]
+  /** Called when a different member is selected */
+  onActiveMemberChange?: (memberId: string) => void
+  /** Active member's remaining balances for the selected network tier */
+  remaining?: RemainingAccumulators
+  /** Household spending totals for the selected network tier */
+  familyAccumulators?: TierSpending
+  /** Whether the policy tracks out-of-network spending against separate limits */
+  separateOutOfNetwork?: boolean
+  /** Network tiers of a multi-tier policy; replaces the in-/out-of-network toggle with a tier picker */
+  networkTiers?: NetworkTier[]
+  /** Number of EOB claims spending is derived from; spending can't be typed in while there are any */
+  ledgerClaimCount?: number
 }
 
-export function SettingsBar({ settings, onSettingsChange }: SettingsBarProps) {
-  const [deductibleInput, setDeductibleInput] = useState(settings.deductibleSpent.toString())
-  const [outOfPocketInput, setOutOfPocketInput] = useState(settings.outOfPocketSpent.toString())
+const formatAmount = (amount: number) => `$${amount.toLocaleString("en-US", { maximumFractionDigits: 0 })}`
+
+export function SettingsBar({
+  settings,
+  onSettingsChange,
+  members = [],
+  onActiveMemberChange,
+  remaining,
+  familyAccumulators,
+  separateOutOfNetwork = false,
+  networkTiers = [],
+  ledgerClaimCount = 0,
+}: SettingsBarProps) {
+  // Spending inputs edit the out-of-network tier only when the plan tracks it separately
+  const editsOutOfNetwork = separateOutOfNetwork && !settings.isInNetwork
+  const deductibleSpent = editsOutOfNetwork ? settings.outOfNetworkDeductibleSpent ?? 0 : settings.deductibleSpent
+  const outOfPocketSpent = editsOutOfNetwork ? settings.outOfNetworkOutOfPocketSpent ?? 0 : settings.outOfPocketSpent
+  const tierLabel = editsOutOfNetwork ? "Out-of-Network " : ""
+
+  const [deductibleInput, setDeductibleInput] = useState(deductibleSpent.toString())
+  const [outOfPocketInput, setOutOfPocketInput] = useState(outOfPocketSpent.toString())
 
   const handleDeductibleChange = (value: number) => {
     setDeductibleInput(value.toString())
-    onSettingsChange({ deductibleSpent: value })
+    onSettingsChange(editsOutOfNetwork ? { outOfNetworkDeductibleSpent: value } : { deductibleSpent: value })
   }
 
   const handleOutOfPocketChange = (value: number) => {
     setOutOfPocketInput(value.toString())
-    onSettingsChange({ outOfPocketSpent: value })
+    onSettingsChange(editsOutOfNetwork ? { outOfNetworkOutOfPocketSpent: value } : { outOfPocketSpent: value })
   }
 
   const handleNetworkToggle = (checked: boolean) => {
-    onSettingsChange({ isInNetwork: checked })
+    onSettingsChange({ isInNetwork: checked, networkTier: undefined })
+  }
+
+  const selectedTier = networkTiers.length > 0 ? NetworkTierService.getSelectedNetworkTier(networkTiers, settings) : undefined
+
+  const handleNetworkTierChange = (tierId: string) => {
+    const tier = networkTiers.find(tier => tier.id === tierId)
+    if (tier) onSettingsChange({ networkTier: tier.id, isInNetwork: tier.network === "in_network" })
   }
 
   const composerRuntime = useComposerRuntime();
+  const activeMember = members.find(member => member.id === settings.activeMemberId)
   
   // Update input values when settings change
   useEffect(() => {
-    setDeductibleInput(settings.deductibleSpent.toString())
-    setOutOfPocketInput(settings.outOfPocketSpent.toString())
-  }, [settings.deductibleSpent, settings.outOfPocketSpent]);
+    setDeductibleInput(deductibleSpent.toString())
+    setOutOfPocketInput(outOfPocketSpent.toString())
+  }, [deductibleSpent, outOfPocketSpent]);
 
   // Update composer runtime when settings change
   useEffect(() => {
@@ -45,48 +88,125 @@ export function SettingsBar({ settings, onSettingsChange }: SettingsBarProps) {
       custom: {
         ...composerRuntime.getState().runConfig?.custom,
         isInNetwork: settings.isInNetwork,
+        networkTierName: selectedTier?.name,
         deductibleSpent: settings.deductibleSpent,
         outOfPocketSpent: settings.outOfPocketSpent,
+        outOfNetworkDeductibleSpent: separateOutOfNetwork ? settings.outOfNetworkDeductibleSpent ?? 0 : undefined,
+        outOfNetworkOutOfPocketSpent: separateOutOfNetwork ? settings.outOfNetworkOutOfPocketSpent ?? 0 : undefined,
+        activeMemberName: activeMember?.name,
+        familyDeductibleSpent: familyAccumulators?.deductibleSpent,
+        familyOutOfPocketSpent: familyAccumulators?.outOfPocketSpent,
+        remainingDeductible: remaining?.deductible,
+        remainingOutOfPocket: remaining?.outOfPocket,
+        deductibleRule: remaining?.familyCoverage ? remaining.deductibleRule : undefined,
       },
     });
-  }, [settings.isInNetwork, settings.deductibleSpent, settings.outOfPocketSpent, composerRuntime]);
+  }, [settings.isInNetwork, selectedTier?.name, settings.deductibleSpent, settings.outOfPocketSpent, settings.outOfNetworkDeductibleSpent, settings.outOfNetworkOutOfPocketSpent, separateOutOfNetwork, activeMember?.name, familyAccumulators, remaining, composerRuntime]);
 
   return (
     <div className="bg-gray-50 p-4 border-b flex flex-col sm:flex-row items-start sm:items-center justify-between gap-4">
       <div className="flex flex-col sm:flex-row items-start sm:items-center gap-4 w-full sm:w-auto">
-        <div className="w-full sm:w-48">
-          <Label htmlFor="deductible" className="text-sm font-medium">
-            Current Deductible Spent
-          </Label>
-          <div className="relative mt-1">
-            <CurrencyInput
-              name="deductible" 
-              value={Number(deductibleInput)}
-              onChange={handleDeductibleChange}
-            />
+        {members.length > 1 && (
+          <div className="w-full sm:w-40">
+            <Label htmlFor="member" className="text-sm font-medium">
+              Member
+            </Label>
+            <Select
+              value={settings.activeMemberId}
+              onValueChange={(value) => onActiveMemberChange?.(value)}
+            >
+              <SelectTrigger id="member" className="mt-1 w-full">
+                <SelectValue placeholder="Select member" />
+              </SelectTrigger>
+              <SelectContent>
+                {members.map(member => (
+                  <SelectItem key={member.id} value={member.id}>{member.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
           </div>
-        </div>
+        )}
 
-        <div className="w-full sm:w-48">
-          <Label htmlFor="outOfPocket" className="text-sm font-medium">
-            Current Out-of-Pocket Spent
-          </Label>
-          <div className="relative mt-1">
-            <CurrencyInput
-              name="outOfPocket"
-              value={Number(outOfPocketInput)}
-              onChange={handleOutOfPocketChange}
-            />
+        {ledgerClaimCount > 0 ? (
+          <div className="text-sm space-y-0.5">
+            <div>
+              <span className="font-medium">{tierLabel}Deductible Spent:</span> {formatAmount(deductibleSpent)}
+            </div>
+            <div>
+              <span className="font-medium">{tierLabel}Out-of-Pocket Spent:</span> {formatAmount(outOfPocketSpent)}
+            </div>
+            <div className="text-xs text-muted-foreground">
+              From {ledgerClaimCount} EOB {ledgerClaimCount === 1 ? "claim" : "claims"}
+            </div>
           </div>
-        </div>
-      </div>
+        ) : (
+          <>
+            <div className="w-full sm:w-48">
+              <Label htmlFor="deductible" className="text-sm font-medium">
+                Current {tierLabel}Deductible Spent
+              </Label>
+              <div className="relative mt-1">
+                <CurrencyInput
+                  name="deductible" 
+                  value={Number(deductibleInput)}
+                  onChange={handleDeductibleChange}
+                />
+              </div>
+            </div>
+
+            <div className="w-full sm:w-48">
+              <Label htmlFor="outOfPocket" className="text-sm font-medium">
+                Current {tierLabel}Out-of-Pocket Spent
+              </Label>
+              <div className="relative mt-1">
+                <CurrencyInput
+                  name="outOfPocket"
+                  value={Number(outOfPocketInput)}
+                  onChange={handleOutOfPocketChange}
+                />
+              </div>
+            </div>
+          </>
+        )}
 
-      <div className="flex items-center space-x-2 w-full sm:w-auto justify-end">
-        <Label htmlFor="network-toggle" className="text-sm font-medium cursor-pointer">
-          {settings.isInNetwork ? "In-Network" : "Out-of-Network"}
-        </Label>
-        <Switch id="network-toggle" checked={settings.isInNetwork} onCheckedChange={handleNetworkToggle} />
+        {remaining && (
+          <div className="text-xs text-muted-foreground space-y-0.5">
+            <div>
+              Remaining: {formatAmount(remaining.deductible)} deductible, {formatAmount(remaining.outOfPocket)} out-of-pocket
+            </div>
+            {remaining.familyCoverage && familyAccumulators && (
+              <div>
+                Family: {formatAmount(familyAccumulators.deductibleSpent)} toward deductible ({remaining.deductibleRule}), {formatAmount(familyAccumulators.outOfPocketSpent)} toward out-of-pocket
+              </div>
+            )}
+          </div>
+        )}
       </div>
+
+      {selectedTier ? (
+        <div className="w-full sm:w-56">
+          <Label htmlFor="network-tier" className="text-sm font-medium">
+            Network Tier
+          </Label>
+          <Select value={selectedTier.id} onValueChange={handleNetworkTierChange}>
+            <SelectTrigger id="network-tier" className="mt-1 w-full">
+              <SelectValue placeholder="Select network tier" />
+            </SelectTrigger>
+            <SelectContent>
+              {networkTiers.map(tier => (
+                <SelectItem key={tier.id} value={tier.id}>{tier.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      ) : (
+        <div className="flex items-center space-x-2 w-full sm:w-auto justify-end">
+          <Label htmlFor="network-toggle" className="text-sm font-medium cursor-pointer">
+            {settings.isInNetwork ? "In-Network" : "Out-of-Network"}
+          </Label>
+          <Switch id="network-toggle" checked={settings.isInNetwork} onCheckedChange={handleNetworkToggle} />
+        </div>
+      )}
     </div>
   )
 }
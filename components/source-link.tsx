@@ -0,0 +1,90 @@
+"use client";
+
+/**
+ * Source Link Component - Show where an extracted value came from
+ *
+ * Wraps a value from the parsed policy so that clicking it opens the original
+ * SBC page image with the quoted region highlighted. Values without recorded
+ * provenance (templates, older uploads) render as plain text.
+ */
+
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { ProvenanceService } from "@/lib/services";
+import { cn } from "@/lib/utils";
+import type { FieldSource } from "@/types/schemas";
+import Image from "next/image";
+import type { ReactNode } from "react";
+import { usePolicy } from "./policy-context";
+
+interface SourceLinkProps {
+  /** Provenance key from one of the ProvenanceService key helpers */
+  sourceKey: string;
+  /** What the value is, for the dialog title */
+  label: string;
+  children: ReactNode;
+  className?: string;
+}
+
+interface SourcePageImageProps {
+  source: FieldSource;
+  imageUrl: string;
+  className?: string;
+}
+
+/**
+ * Page image with the source region highlighted, when its position is known
+ */
+export function SourcePageImage({ source, imageUrl, className }: SourcePageImageProps) {
+  return (
+    <div className={cn("relative border rounded", className)}>
+      {/* Signed blob URLs change on every parse, so they are served as-is rather than through the optimizer */}
+      <Image src={imageUrl} alt={`Page ${source.page + 1}`} width={0} height={0} sizes="100vw" unoptimized className="w-full h-auto" />
+      {source.bbox && (
+        <div
+          className="absolute rounded-sm border-2 border-yellow-500 bg-yellow-300/40"
+          style={{
+            left: `${source.bbox.x * 100}%`,
+            top: `${source.bbox.y * 100}%`,
+            width: `${source.bbox.width * 100}%`,
+            height: `${source.bbox.height * 100}%`,
+          }}
+        />
+      )}
+    </div>
+  );
+}
+
+export function SourceLink({ sourceKey, label, children, className }: SourceLinkProps) {
+  const { policy } = usePolicy();
+  const source = policy ? ProvenanceService.getFieldSource(policy, sourceKey) : null;
+  const imageUrl = source ? policy?.image_urls[source.page] : undefined;
+
+  if (!source) {
+    return <span className={className}>{children}</span>;
+  }
+
+  return (
+    <Dialog>
+      <DialogTrigger asChild>
+        <button
+          type="button"
+          title="Show where this came from in your SBC"
+          className={cn("text-left underline decoration-dotted decoration-gray-400 underline-offset-2 hover:decoration-purple-600", className)}
+        >
+          {children}
+        </button>
+      </DialogTrigger>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{label}</DialogTitle>
+          <DialogDescription>
+            Page {source.page + 1} of your Summary of Benefits and Coverage
+            {!source.exact && " (approximate: the quoted text was not found word for word)"}
+          </DialogDescription>
+        </DialogHeader>
+        <blockquote className="border-l-4 border-purple-300 pl-3 text-sm italic">{source.quote}</blockquote>
+        {imageUrl && <SourcePageImage source={source} imageUrl={imageUrl} />}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,264 @@
+"use client";
+
+/**
+ * Total Cost of Ownership Component - Premiums plus expected out-of-pocket
+ *
+ * Lets the user enter what they pay for the plan (a monthly premium, a
+ * paycheck deduction, or a marketplace plan from data/plans.json) and shows a
+ * year of premiums combined with simulated and worst-case out-of-pocket cost.
+ */
+
+import { findMarketplacePlans } from "@/actions/marketplace-plans";
+import { useHealthcareContext } from "@/components/healthcare-context";
+import { usePolicy } from "@/components/policy-context";
+import { Button } from "@/components/ui/button";
+import { CurrencyInput, Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { TCOService } from "@/lib/services";
+import type { CostSimulationResult, MarketplacePlanPremium, PolicyPremium } from "@/types/schemas";
+import { useComposerRuntime } from "@assistant-ui/react";
+import { Loader2, Search } from "lucide-react";
+import { useEffect, useMemo, useState } from "react";
+
+type PremiumEntryMode = "monthly" | "payroll" | "marketplace";
+
+// Fewer trials than the scenarios page; only the mean and P90 are shown here
+const SIMULATION_TRIALS = 500;
+const SIMULATION_SEED = 2024;
+
+const formatCurrency = (amount: number) =>
+  new Intl.NumberFormat("en-US", {
+    style: "currency",
+    currency: "USD",
+    minimumFractionDigits: 0,
+    maximumFractionDigits: 0,
+  }).format(amount);
+
+export function TotalCostOfOwnership() {
+  const { policy, setPolicy } = usePolicy();
+  const { healthcareInfo } = useHealthcareContext();
+  const composerRuntime = useComposerRuntime();
+  const members = useMemo(() => healthcareInfo?.members ?? [], [healthcareInfo?.members]);
+
+  const premium = policy?.premium;
+  const [mode, setMode] = useState<PremiumEntryMode>(premium?.payroll_contribution ? "payroll" : "monthly");
+  const [monthlyPremium, setMonthlyPremium] = useState<number | undefined>(premium?.monthly_premium);
+  const [perPaycheck, setPerPaycheck] = useState<number | undefined>(premium?.payroll_contribution?.amount_per_paycheck);
+  const [payPeriods, setPayPeriods] = useState(String(premium?.payroll_contribution?.pay_periods_per_year ?? 26));
+  const [query, setQuery] = useState(policy?.plan_summary.issuer_name ?? "");
+  const [plans, setPlans] = useState<MarketplacePlanPremium[]>([]);
+  const [isSearching, setIsSearching] = useState(false);
+  const [simulation, setSimulation] = useState<CostSimulationResult | null>(null);
+  const [isSimulating, setIsSimulating] = useState(false);
+
+  // Simulate a fresh plan year for the household once a premium is known
+  useEffect(() => {
+    if (!policy?.premium || members.length === 0) {
+      setSimulation(null);
+      return;
+    }
+
+    let cancelled = false;
+    setIsSimulating(true);
+    fetch("/api/calculate-costs", {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({
+        mode: "simulation",
+        members,
+        policy,
+        trials: SIMULATION_TRIALS,
+        seed: SIMULATION_SEED,
+      }),
+    })
+      .then(response => {
+        if (!response.ok) {
+          throw new Error(`Failed to simulate costs: ${response.statusText}`);
+        }
+        return response.json();
+      })
+      .then(result => {
+        if (!cancelled) setSimulation(result);
+      })
+      .catch(error => {
+        console.error("Cost simulation failed:", error);
+        if (!cancelled) setSimulation(null);
+      })
+      .finally(() => {
+        if (!cancelled) setIsSimulating(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [policy, members]);
+
+  const tco = useMemo(
+    () => policy ? TCOService.calculateTotalCostOfOwnership(policy, simulation, members.length > 1) : null,
+    [policy, simulation, members.length]
+  );
+
+  // Make the plan's annual cost available to the chat prompt
+  useEffect(() => {
+    composerRuntime.setRunConfig({
+      custom: {
+        ...composerRuntime.getState().runConfig?.custom,
+        totalCostOfOwnership: tco ?? undefined,
+      },
+    });
+  }, [tco, composerRuntime]);
+
+  if (!policy) return null;
+
+  const savePremium = (next: PolicyPremium) => {
+    setPolicy({ ...policy, premium: next });
+  };
+
+  const handleSave = () => {
+    if (mode === "payroll" && perPaycheck !== undefined) {
+      const periods = Number(payPeriods);
+      savePremium({
+        monthly_premium: Math.round(perPaycheck * periods / 12 * 100) / 100,
+        payroll_contribution: { amount_per_paycheck: perPaycheck, pay_periods_per_year: periods },
+        source: "manual",
+      });
+    } else if (mode === "monthly" && monthlyPremium !== undefined) {
+      savePremium({ monthly_premium: monthlyPremium, source: "manual" });
+    }
+  };
+
+  const handleSearch = async () => {
+    setIsSearching(true);
+    try {
+      setPlans(await findMarketplacePlans(query));
+    } catch (error) {
+      console.error("Marketplace plan search failed:", error);
+      setPlans([]);
+    } finally {
+      setIsSearching(false);
+    }
+  };
+
+  const handleSelectPlan = (plan: MarketplacePlanPremium) => {
+    savePremium({
+      monthly_premium: plan.premium,
+      monthly_premium_after_credit: plan.premium_w_credit,
+      source: "marketplace",
+      marketplace_plan_id: plan.id,
+    });
+    setPlans([]);
+  };
+
+  return (
+    <section className="space-y-4">
+      <h3 className="text-xl font-semibold mb-2">What This Plan Costs Per Year</h3>
+
+      <div className="flex flex-col sm:flex-row gap-4 items-start sm:items-end">
+        <div className="w-full sm:w-48">
+          <Label htmlFor="premium-mode" className="text-sm font-medium">Premium</Label>
+          <Select value={mode} onValueChange={value => setMode(value as PremiumEntryMode)}>
+            <SelectTrigger id="premium-mode" className="mt-1">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="monthly">Monthly premium</SelectItem>
+              <SelectItem value="payroll">Paycheck deduction</SelectItem>
+              <SelectItem value="marketplace">Marketplace plan</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+
+        {mode === "monthly" && (
+          <div className="w-full sm:w-40">
+            <Label className="text-sm font-medium">Per month</Label>
+            <CurrencyInput name="monthlyPremium" value={monthlyPremium} placeholder="$0" onChange={setMonthlyPremium} className="mt-1 h-9" />
+          </div>
+        )}
+
+        {mode === "payroll" && (
+          <>
+            <div className="w-full sm:w-40">
+              <Label className="text-sm font-medium">Per paycheck</Label>
+              <CurrencyInput name="perPaycheck" value={perPaycheck} placeholder="$0" onChange={setPerPaycheck} className="mt-1 h-9" />
+            </div>
+            <div className="w-full sm:w-40">
+              <Label htmlFor="pay-periods" className="text-sm font-medium">Pay schedule</Label>
+              <Select value={payPeriods} onValueChange={setPayPeriods}>
+                <SelectTrigger id="pay-periods" className="mt-1">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="52">Weekly</SelectItem>
+                  <SelectItem value="26">Every two weeks</SelectItem>
+                  <SelectItem value="24">Twice a month</SelectItem>
+                  <SelectItem value="12">Monthly</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </>
+        )}
+
+        {mode === "marketplace" ? (
+          <div className="flex w-full gap-2">
+            <Input value={query} onChange={event => setQuery(event.target.value)} placeholder="Plan name or issuer" />
+            <Button variant="outline" onClick={handleSearch} disabled={isSearching || !query.trim()}>
+              {isSearching ? <Loader2 className="h-4 w-4 animate-spin" /> : <Search className="h-4 w-4" />}
+              Find plan
+            </Button>
+          </div>
+        ) : (
+          <Button onClick={handleSave}>Save premium</Button>
+        )}
+      </div>
+
+      {mode === "marketplace" && plans.length > 0 && (
+        <ul className="border rounded divide-y text-sm">
+          {plans.map(plan => (
+            <li key={plan.id}>
+              <button type="button" onClick={() => handleSelectPlan(plan)} className="w-full text-left px-3 py-2 hover:bg-gray-50">
+                <div className="font-medium">{plan.name}</div>
+                <div className="text-muted-foreground">
+                  {plan.issuer} · {plan.metal_level} · {formatCurrency(plan.premium)}/mo ({formatCurrency(plan.premium_w_credit)}/mo with tax credit)
+                </div>
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {tco ? (
+        <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+          <div className="space-y-1">
+            <p className="text-sm text-muted-foreground">Premiums (12 months)</p>
+            <p className="text-2xl font-bold">{formatCurrency(tco.annualPremium)}</p>
+          </div>
+          <div className="space-y-1">
+            <p className="text-sm text-muted-foreground">Expected total</p>
+            <p className="text-2xl font-bold text-orange-600">
+              {isSimulating ? <Loader2 className="h-6 w-6 animate-spin" /> : tco.expectedTotal !== null ? formatCurrency(tco.expectedTotal) : "—"}
+            </p>
+            {tco.expectedOutOfPocket !== null && (
+              <p className="text-xs text-muted-foreground">incl. {formatCurrency(tco.expectedOutOfPocket)} average out-of-pocket</p>
+            )}
+          </div>
+          <div className="space-y-1">
+            <p className="text-sm text-muted-foreground">Worst case total</p>
+            <p className="text-2xl font-bold text-red-600">{formatCurrency(tco.worstCaseTotal)}</p>
+            <p className="text-xs text-muted-foreground">incl. {formatCurrency(tco.worstCaseOutOfPocket)} out-of-pocket limit</p>
+          </div>
+        </div>
+      ) : (
+        <p className="text-sm text-muted-foreground">Add your premium to compare this plan on its full annual cost.</p>
+      )}
+
+      {tco && members.length === 0 && (
+        <p className="text-xs text-muted-foreground">
+          Add your household in Healthcare Information to estimate expected out-of-pocket cost.
+        </p>
+      )}
+    </section>
+  );
+}
@@ -8,8 +8,10 @@
 
 // Core application hooks
 export { useCategoryAnalysis } from "./use-category-analysis";
+export { useClaimsLedger } from "./use-claims-ledger";
 export { useHealthcareInformation } from "./use-healthcare-information";
 export { useInsuranceSettings } from "./use-insurance-settings";
+export { usePolicyParse } from "./use-policy-parse";
 export { useSituationSuggestions } from "./use-situation-suggestions";
 
 // Utility hooks
@@ -26,6 +28,7 @@ export { useIsMobile } from "./use-mobile";
  * 2. useInsuranceSettings - Centralized insurance settings management
  *    - Manages deductible spending, out-of-pocket costs, network preferences
  *    - Persists data to localStorage with automatic sync
+ *    - Tracks spending per household member with embedded/aggregate family totals
  *    - Example: const { settings, updateSettings } = useInsuranceSettings();
  * 
  * 3. useSituationSuggestions - Healthcare situation recommendations
@@ -39,7 +42,18 @@ export { useIsMobile } from "./use-mobile";
  *    - Persists to localStorage and integrates with AI chat context
  *    - Example: const { healthcareInfo, updateHealthcareInfo, addMember } = useHealthcareInformation();
  * 
- * 5. useIsMobile - Responsive design utility
+ * 5. usePolicyParse - SBC upload with live parse progress
+ *    - Streams real pipeline stages from /api/parse as server-sent events
+ *    - Exposes partial results (plan summary, services so far) while parsing
+ *    - Example: const { parse, progress, stages } = usePolicyParse();
+ * 
+ * 6. useClaimsLedger - Claims read from Explanation of Benefits uploads
+ *    - Extracts billed, allowed, paid and owed amounts per claim from EOB PDFs and photos
+ *    - Persists the ledger to localStorage; re-uploaded claims are merged, not duplicated
+ *    - Deductible and out-of-pocket spending is derived from it instead of typed in
+ *    - Example: const { claims, importEOB, removeClaim } = useClaimsLedger();
+ * 
+ * 7. useIsMobile - Responsive design utility
  *    - Detects mobile viewport for responsive UI adaptations
  *    - Example: const isMobile = useIsMobile();
  * 
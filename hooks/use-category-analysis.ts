@@ -272,7 +272,7 @@ export function useCategoryAnalysis({
         })
         .finally(() => setLoading(false));
     }
-  }, [policy, settings.isInNetwork, settings.deductibleSpent, settings.outOfPocketSpent, autoLoad, handleError]);
+  }, [policy, settings.isInNetwork, settings.deductibleSpent, settings.outOfPocketSpent, settings.activeMemberId, autoLoad, handleError]);
 
   // ========================================================================
   // RETURN VALUE
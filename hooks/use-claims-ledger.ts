@@ -0,0 +1,144 @@
+"use client";
+
+import { parseEOBFile } from "@/actions/eob";
+import { ClaimsLedgerService } from "@/lib/services";
+import type { LedgerImportOptions } from "@/lib/services";
+import { LedgerClaimSchema, type LedgerClaim } from "@/types/schemas";
+import { useCallback, useEffect, useState } from "react";
+import { toast } from "sonner";
+import { z } from "zod";
+
+const CLAIMS_STORAGE_KEY = "claims_ledger";
+
+/**
+ * Custom hook for the household's claims ledger
+ *
+ * Claims are read from uploaded Explanation of Benefits (EOB) documents and
+ * kept in localStorage. Plan-year deductible and out-of-pocket spending is
+ * derived from them with ClaimsLedgerService.applyLedgerToSettings.
+ *
+ * Features:
+ * - EOB upload through the parseEOBFile server action
+ * - Patients matched to household members, re-uploads merged instead of duplicated
+ * - Persistent storage via localStorage, validated with Zod schemas
+ * - Claims can be reassigned to another member or removed
+ *
+ * @returns Ledger claims, import state and methods to change the ledger
+ */
+export function useClaimsLedger() {
+  // ========================================================================
+  // STATE MANAGEMENT
+  // ========================================================================
+
+  const [claims, setClaims] = useState<LedgerClaim[]>([]);
+  const [isImporting, setIsImporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // ========================================================================
+  // STORAGE OPERATIONS
+  // ========================================================================
+
+  // Load the ledger on mount
+  useEffect(() => {
+    if (typeof window === "undefined") return;
+    try {
+      const stored = localStorage.getItem(CLAIMS_STORAGE_KEY);
+      if (stored) {
+        setClaims(z.array(LedgerClaimSchema).parse(JSON.parse(stored)));
+      }
+    } catch (err) {
+      console.error("Failed to load claims ledger:", err);
+      localStorage.removeItem(CLAIMS_STORAGE_KEY);
+    }
+  }, []);
+
+  /**
+   * Replace the ledger and persist it
+   */
+  const saveClaims = useCallback((update: (claims: LedgerClaim[]) => LedgerClaim[]) => {
+    setClaims(previous => {
+      const next = update(previous);
+      if (typeof window !== "undefined") {
+        try {
+          if (next.length > 0) {
+            localStorage.setItem(CLAIMS_STORAGE_KEY, JSON.stringify(next));
+          } else {
+            localStorage.removeItem(CLAIMS_STORAGE_KEY);
+          }
+        } catch (err) {
+          console.warn("Failed to persist claims ledger:", err);
+        }
+      }
+      return next;
+    });
+  }, []);
+
+  // ========================================================================
+  // PUBLIC METHODS
+  // ========================================================================
+
+  /**
+   * Read the claims on an EOB and add them to the ledger
+   *
+   * @returns Number of claims read from the EOB
+   */
+  const importEOB = useCallback(async (file: File, options: Omit<LedgerImportOptions, "sourceFile" | "now"> = {}): Promise<number> => {
+    setIsImporting(true);
+    setError(null);
+    try {
+      const formData = new FormData();
+      formData.append("file", file);
+      const extraction = await parseEOBFile(formData);
+      const incoming = ClaimsLedgerService.toLedgerClaims(extraction, { ...options, sourceFile: file.name });
+      saveClaims(previous => ClaimsLedgerService.mergeLedgerClaims(previous, incoming));
+
+      if (incoming.length === 0) {
+        toast.warning(`No claims found in ${file.name}`);
+      } else {
+        toast.success(`Added ${incoming.length} ${incoming.length === 1 ? "claim" : "claims"} from ${file.name}`);
+      }
+      return incoming.length;
+    } catch (err) {
+      console.error("Failed to read EOB:", err);
+      setError(err instanceof Error ? err.message : "Failed to read the Explanation of Benefits");
+      return 0;
+    } finally {
+      setIsImporting(false);
+    }
+  }, [saveClaims]);
+
+  /**
+   * Assign a claim to a different household member
+   */
+  const assignMember = useCallback((claimId: string, memberId: string) => {
+    saveClaims(previous => previous.map(claim => claim.id === claimId ? { ...claim, member_id: memberId } : claim));
+  }, [saveClaims]);
+
+  /**
+   * Remove a claim from the ledger
+   */
+  const removeClaim = useCallback((claimId: string) => {
+    saveClaims(previous => previous.filter(claim => claim.id !== claimId));
+  }, [saveClaims]);
+
+  /**
+   * Remove every claim; spending can then be entered manually again
+   */
+  const clearClaims = useCallback(() => {
+    saveClaims(() => []);
+  }, [saveClaims]);
+
+  // ========================================================================
+  // RETURN HOOK INTERFACE
+  // ========================================================================
+
+  return {
+    claims,
+    isImporting,
+    error,
+    importEOB,
+    assignMember,
+    removeClaim,
+    clearClaims,
+  };
+}
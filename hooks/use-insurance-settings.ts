@@ -12,9 +12,17 @@
  * - Optimistic updates with rollback on error
  * - Type-safe setting updates
  * - Change detection and callbacks
+ * - Per-member accumulators with family totals
  */
 
-import { InsuranceSettingsSchema, type InsuranceSettings } from "@/types/schemas";
+import { AccumulatorService } from "@/lib/services";
+import type { RemainingAccumulators, TierSpending } from "@/lib/services";
+import {
+  InsuranceSettingsSchema,
+  type ClaimNetwork,
+  type InsuranceSettings,
+  type ParsedPolicy,
+} from "@/types/schemas";
 import { useCallback, useEffect, useState } from "react";
 import { toast } from "sonner";
 import { z } from "zod";
@@ -56,18 +64,26 @@ interface UseInsuranceSettingsReturn {
   updateSetting: <K extends keyof InsuranceSettings>(key: K, value: InsuranceSettings[K]) => void;
   /** Reset settings to defaults */
   resetSettings: () => void;
+  /** Switch which household member the spending fields describe */
+  setActiveMember: (memberId: string) => void;
+  /** Track exactly the given household members */
+  syncMembers: (memberIds: string[]) => void;
   /** Validate current settings */
   validateSettings: () => boolean;
   
   // Utility getters
-  /** Get remaining deductible amount */
-  getRemainingDeductible: (totalDeductible: number) => number;
-  /** Get remaining out-of-pocket amount */
-  getRemainingOutOfPocket: (totalOutOfPocketMax: number) => number;
-  /** Check if deductible is met */
-  isDeductibleMet: (totalDeductible: number) => boolean;
+  /** Get remaining deductible for the network tier (defaults to the selected network) */
+  getRemainingDeductible: (policy: ParsedPolicy, network?: ClaimNetwork) => number;
+  /** Get remaining out-of-pocket amount for the network tier */
+  getRemainingOutOfPocket: (policy: ParsedPolicy, network?: ClaimNetwork) => number;
+  /** Check if the deductible of the network tier is met */
+  isDeductibleMet: (policy: ParsedPolicy, network?: ClaimNetwork) => boolean;
   /** Get network status as human-readable string */
   getNetworkStatus: () => "In-Network" | "Out-of-Network";
+  /** Get household spending totals for a network tier */
+  getFamilyAccumulators: (network?: ClaimNetwork) => TierSpending;
+  /** Get a member's remaining balances under the policy's family and network rules */
+  getRemainingAccumulators: (policy: ParsedPolicy, memberId?: string, network?: ClaimNetwork) => RemainingAccumulators;
 }
 
 /**
@@ -171,7 +187,7 @@ export function useInsuranceSettings({
   const updateSettings = useCallback((updates: Partial<InsuranceSettings>): void => {
     console.log("Updating settings:", updates);
     setSettings(prevSettings => {
-      const newSettings = { ...prevSettings, ...updates };
+      const newSettings = AccumulatorService.syncActiveMember({ ...prevSettings, ...updates });
       
       // Validate the new settings
       if (validateSettings(newSettings)) {
@@ -207,6 +223,24 @@ export function useInsuranceSettings({
     updateSettings({ [key]: value } as Partial<InsuranceSettings>);
   }, [updateSettings]);
 
+  /**
+   * Switch the active household member, keeping every member's spending
+   */
+  const setActiveMember = useCallback((memberId: string): void => {
+    if (memberId === settings.activeMemberId) return;
+    updateSettings(AccumulatorService.setActiveMember(settings, memberId));
+  }, [settings, updateSettings]);
+
+  /**
+   * Track exactly the given household members
+   */
+  const syncMembers = useCallback((memberIds: string[]): void => {
+    const synced = AccumulatorService.syncMembers(settings, memberIds);
+    if (JSON.stringify(synced) !== JSON.stringify(settings)) {
+      updateSettings(synced);
+    }
+  }, [settings, updateSettings]);
+
   /**
    * Reset settings to defaults
    */
@@ -243,26 +277,40 @@ export function useInsuranceSettings({
   // UTILITY GETTERS
   // ========================================================================
   
+  /** Network tier of the currently selected provider network */
+  const selectedNetwork: ClaimNetwork = settings.isInNetwork ? "in_network" : "out_of_network";
+
+  /**
+   * Get a member's remaining balances under the policy's family and network rules
+   */
+  const getRemainingAccumulators = useCallback((
+    policy: ParsedPolicy,
+    memberId?: string,
+    network: ClaimNetwork = selectedNetwork
+  ): RemainingAccumulators => {
+    return AccumulatorService.getRemainingAccumulators(policy, settings, memberId, network);
+  }, [settings, selectedNetwork]);
+
   /**
-   * Calculate remaining deductible amount
+   * Calculate remaining deductible amount for a network tier
    */
-  const getRemainingDeductible = useCallback((totalDeductible: number): number => {
-    return Math.max(0, totalDeductible - settings.deductibleSpent);
-  }, [settings.deductibleSpent]);
+  const getRemainingDeductible = useCallback((policy: ParsedPolicy, network?: ClaimNetwork): number => {
+    return getRemainingAccumulators(policy, undefined, network).deductible;
+  }, [getRemainingAccumulators]);
 
   /**
-   * Calculate remaining out-of-pocket amount
+   * Calculate remaining out-of-pocket amount for a network tier
    */
-  const getRemainingOutOfPocket = useCallback((totalOutOfPocketMax: number): number => {
-    return Math.max(0, totalOutOfPocketMax - settings.outOfPocketSpent);
-  }, [settings.outOfPocketSpent]);
+  const getRemainingOutOfPocket = useCallback((policy: ParsedPolicy, network?: ClaimNetwork): number => {
+    return getRemainingAccumulators(policy, undefined, network).outOfPocket;
+  }, [getRemainingAccumulators]);
 
   /**
-   * Check if deductible has been met
+   * Check if deductible has been met for a network tier
    */
-  const isDeductibleMet = useCallback((totalDeductible: number): boolean => {
-    return settings.deductibleSpent >= totalDeductible;
-  }, [settings.deductibleSpent]);
+  const isDeductibleMet = useCallback((policy: ParsedPolicy, network?: ClaimNetwork): boolean => {
+    return getRemainingDeductible(policy, network) === 0;
+  }, [getRemainingDeductible]);
 
   /**
    * Get network status as human-readable string
@@ -271,6 +319,13 @@ export function useInsuranceSettings({
     return settings.isInNetwork ? "In-Network" : "Out-of-Network";
   }, [settings.isInNetwork]);
 
+  /**
+   * Get household spending totals for a network tier
+   */
+  const getFamilyAccumulators = useCallback((network: ClaimNetwork = "in_network"): TierSpending => {
+    return AccumulatorService.getFamilyAccumulators(settings, network);
+  }, [settings]);
+
   // ========================================================================
   // COMPUTED VALUES
   // ========================================================================
@@ -336,6 +391,8 @@ export function useInsuranceSettings({
     updateSettings,
     updateSetting,
     resetSettings,
+    setActiveMember,
+    syncMembers,
     validateSettings: validateCurrentSettings,
     
     // Utility getters
@@ -343,5 +400,7 @@ export function useInsuranceSettings({
     getRemainingOutOfPocket,
     isDeductibleMet,
     getNetworkStatus,
+    getFamilyAccumulators,
+    getRemainingAccumulators,
   };
 }
\ No newline at end of file
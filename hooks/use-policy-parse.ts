@@ -0,0 +1,158 @@
+/**
+ * Custom hook for parsing an SBC PDF with live progress
+ *
+ * This hook uploads a PDF to the streaming /api/parse route and follows the
+ * server-sent events it emits as each pipeline stage actually finishes, so the
+ * upload UI can show real per-stage progress and partial results.
+ *
+ * Key features:
+ * - Per-stage progress (upload, text extraction, page images, structuring, validation)
+ * - Partial results (plan summary, services found so far) before the policy is ready
+ * - Cached results for files parsed before, with a force re-parse option
+ * - Error state with the service error code when parsing fails
+ */
+
+import { useCallback, useState } from "react";
+import {
+  ParseStreamMessageSchema,
+  type ParsedPolicy,
+  type ParseProgressEvent,
+  type ParseStage,
+  type PlanSummary,
+  type ServiceYouMayNeed,
+} from "@/types/schemas";
+
+/**
+ * Return type for the policy parse hook
+ */
+interface UsePolicyParseReturn {
+  // State
+  /** Overall progress from 0 to 100 */
+  progress: number;
+  /** Latest event per finished stage */
+  stages: Partial<Record<ParseStage, ParseProgressEvent>>;
+  /** Plan summary as soon as page 1 is structured */
+  planSummary: PlanSummary | null;
+  /** Services structured so far, across pages */
+  services: ServiceYouMayNeed[];
+  /** Whether the result was reused from an earlier parse of the same file */
+  isCached: boolean;
+  /** Whether a parse is in progress */
+  isParsing: boolean;
+  /** Most recent error, if any */
+  error: Error | null;
+
+  // Actions
+  /** Upload and parse a file; resolves with the policy, or null on failure */
+  parse: (file: File, options?: { force?: boolean }) => Promise<ParsedPolicy | null>;
+  /** Clear progress and partial results */
+  reset: () => void;
+}
+
+/**
+ * Read server-sent events from a streaming response, one JSON message per event
+ */
+async function* readEvents(response: Response) {
+  if (!response.body) return;
+  const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+  let buffer = "";
+
+  while (true) {
+    const { value, done } = await reader.read();
+    if (done) break;
+    buffer += value;
+
+    const events = buffer.split("\n\n");
+    buffer = events.pop() ?? "";
+    for (const event of events) {
+      const data = event.split("\n").filter(line => line.startsWith("data: ")).map(line => line.slice(6)).join("\n");
+      if (data) yield ParseStreamMessageSchema.parse(JSON.parse(data));
+    }
+  }
+}
+
+/**
+ * Custom hook for parsing an SBC PDF with streamed progress
+ *
+ * @returns Object with progress state, partial results and the parse action
+ *
+ * @example
+ * ```tsx
+ * const { parse, progress, stages, planSummary } = usePolicyParse();
+ * const policy = await parse(file);
+ * if (policy) setPolicy(policy);
+ * ```
+ */
+export function usePolicyParse(): UsePolicyParseReturn {
+  const [progress, setProgress] = useState(0);
+  const [stages, setStages] = useState<Partial<Record<ParseStage, ParseProgressEvent>>>({});
+  const [planSummary, setPlanSummary] = useState<PlanSummary | null>(null);
+  const [services, setServices] = useState<ServiceYouMayNeed[]>([]);
+  const [isCached, setIsCached] = useState(false);
+  const [isParsing, setIsParsing] = useState(false);
+  const [error, setError] = useState<Error | null>(null);
+
+  const reset = useCallback(() => {
+    setProgress(0);
+    setStages({});
+    setPlanSummary(null);
+    setServices([]);
+    setIsCached(false);
+    setError(null);
+  }, []);
+
+  const parse = useCallback(async (file: File, options: { force?: boolean } = {}): Promise<ParsedPolicy | null> => {
+    reset();
+    setIsParsing(true);
+
+    try {
+      const formData = new FormData();
+      formData.append("file", file);
+      if (options.force) formData.append("force", "true");
+      const response = await fetch("/api/parse", { method: "POST", body: formData });
+      if (!response.ok) {
+        throw new Error(`Failed to parse file: ${response.statusText}`);
+      }
+
+      for await (const message of readEvents(response)) {
+        if (message.type === "progress") {
+          const { event } = message;
+          setProgress(current => Math.max(current, event.progress));
+          setStages(current => ({ ...current, [event.stage]: event }));
+          if (event.cached) setIsCached(true);
+          if (event.partial?.plan_summary) {
+            setPlanSummary(event.partial.plan_summary);
+          }
+          const partialServices = event.partial?.services_you_may_need;
+          if (partialServices) {
+            setServices(current => [...current, ...partialServices]);
+          }
+        } else if (message.type === "result") {
+          return message.policy;
+        } else {
+          throw new Error(message.message);
+        }
+      }
+      throw new Error("Parsing ended without a result");
+    } catch (err) {
+      const parseError = err instanceof Error ? err : new Error("Failed to parse file");
+      console.error("Policy parse failed:", parseError);
+      setError(parseError);
+      return null;
+    } finally {
+      setIsParsing(false);
+    }
+  }, [reset]);
+
+  return {
+    progress,
+    stages,
+    planSummary,
+    services,
+    isCached,
+    isParsing,
+    error,
+    parse,
+    reset,
+  };
+}
@@ -3,6 +3,7 @@ import { groq } from '@ai-sdk/groq';
 import { CoreMessage, generateObject, LanguageModelV1 } from "ai";
 import { toast } from "sonner";
 import z from 'zod';
+import { withLLMFixture } from './llm-fixtures';
 
 interface AIRetryOptions {
   maxAttempts?: number;
@@ -79,7 +80,8 @@ export const generateObjectWithAIRetry = async <T = unknown>({
   schema: unknown;
   backupModel?: unknown;
 }): Promise<T> => {
-  return withAIRetry<T>(
+  // Recorded responses stand in for the model when LLM_FIXTURE_MODE is set
+  return withLLMFixture<T>({ model, prompt, system, messages, schema }, () => withAIRetry<T>(
     async (temperature = 0.5, fallbackModel?) => {
       const result = await generateObject({
         model: fallbackModel as LanguageModelV1 || model,
@@ -95,5 +97,5 @@ export const generateObjectWithAIRetry = async <T = unknown>({
       temperatures: [0.5, 0.7, 0.9, 0.3],
       backupModel
     }
-  );
+  ));
 };
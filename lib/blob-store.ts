@@ -0,0 +1,338 @@
+import { del, head, list, put } from "@vercel/blob";
+import { createCipheriv, createDecipheriv, createHmac, randomBytes, timingSafeEqual } from "crypto";
+import { mkdir, readdir, readFile, rm, stat, writeFile } from "fs/promises";
+import path from "path";
+
+/**
+ * Who can read a stored object. Private objects are only served through
+ * /api/blob with a signed URL, since uploaded SBCs can contain member details.
+ */
+export type BlobAccess = "private" | "public";
+
+export interface StoredBlob {
+  pathname: string;
+  /** Public objects: a URL anyone can read. Private objects: the app URL, which needs a signature to read. */
+  url: string;
+  contentType: string;
+  size: number;
+  access: BlobAccess;
+}
+
+export interface BlobObject extends StoredBlob {
+  body: Buffer;
+}
+
+export interface PutBlobOptions {
+  contentType?: string;
+  access?: BlobAccess;
+}
+
+export type BlobBody = Buffer | ArrayBuffer | Blob;
+
+/**
+ * Object storage for uploaded documents and rendered page images
+ */
+export interface BlobStore {
+  name: BlobStoreName;
+  /** Store an object; a random suffix is added to the pathname so it cannot be guessed */
+  put(pathname: string, body: BlobBody, options?: PutBlobOptions): Promise<StoredBlob>;
+  get(pathname: string): Promise<BlobObject | null>;
+  delete(pathname: string): Promise<void>;
+  list(prefix?: string): Promise<StoredBlob[]>;
+  /** A URL that can read the object until it expires, whatever its access */
+  getSignedUrl(pathname: string, expiresInSeconds?: number): Promise<string>;
+}
+
+export const BLOB_STORES = ["vercel", "local"] as const;
+export type BlobStoreName = typeof BLOB_STORES[number];
+
+const DEFAULT_SIGNED_URL_TTL_SECONDS = 7 * 24 * 60 * 60;
+const LOCAL_META_SUFFIX = ".meta.json";
+const VERCEL_PRIVATE_PREFIX = "private/";
+const ENCRYPTION_IV_BYTES = 12;
+const ENCRYPTION_TAG_BYTES = 16;
+
+// =============================================================================
+// CONFIGURATION
+// =============================================================================
+
+const getDefaultAccess = (): BlobAccess => process.env.BLOB_ACCESS === "public" ? "public" : "private";
+
+const getAppUrl = () => (process.env.APP_URL || "http://localhost:3000").replace(/\/$/, "");
+
+const getSignedUrlTtl = () => Number(process.env.BLOB_SIGNED_URL_TTL_SECONDS) || DEFAULT_SIGNED_URL_TTL_SECONDS;
+
+let devSigningSecret: string | null = null;
+
+/**
+ * Secret signed URLs are signed with. A random one is only allowed in development:
+ * URLs signed with it fail on other instances, after a restart and across scripts.
+ */
+function getSigningSecret(): string {
+  if (process.env.BLOB_SIGNING_SECRET) return process.env.BLOB_SIGNING_SECRET;
+  if (process.env.NODE_ENV === "production") {
+    throw new Error("BLOB_SIGNING_SECRET must be set in production to sign and verify blob URLs");
+  }
+  if (!devSigningSecret) {
+    console.warn("BLOB_SIGNING_SECRET is not set; signed blob URLs will stop working when the server restarts");
+    devSigningSecret = randomBytes(32).toString("hex");
+  }
+  return devSigningSecret;
+}
+
+// =============================================================================
+// SIGNED URLS
+// =============================================================================
+
+/**
+ * URL of an object served by the /api/blob route
+ */
+export function getBlobRouteUrl(pathname: string): string {
+  return `${getAppUrl()}/api/blob/${pathname.split("/").map(encodeURIComponent).join("/")}`;
+}
+
+function sign(pathname: string, expires: number): string {
+  return createHmac("sha256", getSigningSecret()).update(`${pathname}:${expires}`).digest("hex");
+}
+
+function createSignedUrl(pathname: string, expiresInSeconds = getSignedUrlTtl()): string {
+  const expires = Math.floor(Date.now() / 1000) + expiresInSeconds;
+  return `${getBlobRouteUrl(pathname)}?expires=${expires}&signature=${sign(pathname, expires)}`;
+}
+
+/**
+ * Check the signature of a /api/blob request for a private object
+ */
+export function verifyBlobSignature(pathname: string, expires: string | null, signature: string | null): boolean {
+  const expiresAt = Number(expires);
+  if (!signature || !Number.isInteger(expiresAt) || expiresAt < Date.now() / 1000) return false;
+
+  const expected = Buffer.from(sign(pathname, expiresAt), "hex");
+  const actual = Buffer.from(signature, "hex");
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
+
+/**
+ * URL to hand to the browser or a job runner: signed for private objects, as-is for public ones
+ */
+export async function getShareableUrl(blob: StoredBlob): Promise<string> {
+  return blob.access === "public" ? blob.url : getBlobStore().getSignedUrl(blob.pathname);
+}
+
+// =============================================================================
+// ENCRYPTION AT REST
+// =============================================================================
+
+async function toBuffer(body: BlobBody): Promise<Buffer> {
+  if (Buffer.isBuffer(body)) return body;
+  if (body instanceof Blob) return Buffer.from(await body.arrayBuffer());
+  return Buffer.from(body);
+}
+
+const getEncryptionKey = () => createHmac("sha256", getSigningSecret()).update("blob-encryption").digest();
+
+/**
+ * AES-256-GCM with a key derived from BLOB_SIGNING_SECRET; the IV and auth tag are stored before the ciphertext
+ */
+function encrypt(data: Buffer): Buffer {
+  const iv = randomBytes(ENCRYPTION_IV_BYTES);
+  const cipher = createCipheriv("aes-256-gcm", getEncryptionKey(), iv);
+  const ciphertext = Buffer.concat([cipher.update(data), cipher.final()]);
+  return Buffer.concat([iv, cipher.getAuthTag(), ciphertext]);
+}
+
+function decrypt(data: Buffer): Buffer {
+  const iv = data.subarray(0, ENCRYPTION_IV_BYTES);
+  const tag = data.subarray(ENCRYPTION_IV_BYTES, ENCRYPTION_IV_BYTES + ENCRYPTION_TAG_BYTES);
+  const decipher = createDecipheriv("aes-256-gcm", getEncryptionKey(), iv);
+  decipher.setAuthTag(tag);
+  return Buffer.concat([decipher.update(data.subarray(ENCRYPTION_IV_BYTES + ENCRYPTION_TAG_BYTES)), decipher.final()]);
+}
+
+// =============================================================================
+// VERCEL BLOB
+// =============================================================================
+
+/** Private objects live under VERCEL_PRIVATE_PREFIX, which is how their access is read back */
+const getVercelAccess = (pathname: string): BlobAccess => pathname.startsWith(VERCEL_PRIVATE_PREFIX) ? "private" : "public";
+
+function toVercelStoredBlob(blob: { pathname: string; url: string }, contentType: string, size: number): StoredBlob {
+  const access = getVercelAccess(blob.pathname);
+  return {
+    pathname: blob.pathname,
+    url: access === "public" ? blob.url : getBlobRouteUrl(blob.pathname),
+    contentType,
+    size,
+    access,
+  };
+}
+
+/**
+ * Vercel Blob only supports public objects in this SDK version. Private objects
+ * are encrypted before upload and stored under the private/ prefix, so their
+ * Vercel URL only serves ciphertext; they can only be read through the store,
+ * i.e. the signed /api/blob route. Changing BLOB_SIGNING_SECRET makes existing
+ * private objects unreadable.
+ */
+const vercelBlobStore: BlobStore = {
+  name: "vercel",
+  async put(pathname, body, options = {}) {
+    const access = options.access ?? getDefaultAccess();
+    const data = await toBuffer(body);
+    const contentType = options.contentType || (body instanceof Blob && body.type) || "application/octet-stream";
+    const blob = await put(access === "private" ? VERCEL_PRIVATE_PREFIX + pathname : pathname, access === "private" ? encrypt(data) : data, {
+      access: 'public',
+      addRandomSuffix: true,
+      contentType,
+    });
+    return toVercelStoredBlob(blob, contentType, data.length);
+  },
+  async get(pathname) {
+    try {
+      const metadata = await head(pathname);
+      const response = await fetch(metadata.url);
+      if (!response.ok) return null;
+      const stored = Buffer.from(await response.arrayBuffer());
+      const body = getVercelAccess(metadata.pathname) === "private" ? decrypt(stored) : stored;
+      return { ...toVercelStoredBlob(metadata, metadata.contentType, body.length), body };
+    } catch (error) {
+      console.error("Failed to read blob:", pathname, error);
+      return null;
+    }
+  },
+  async delete(pathname) {
+    await del(pathname);
+  },
+  async list(prefix = "") {
+    // Private objects with the same prefix are stored under private/; an empty prefix lists both already
+    const results = await Promise.all(Array.from(new Set([prefix, VERCEL_PRIVATE_PREFIX + prefix]), candidate => list({ prefix: candidate })));
+    const blobs = new Map(results.flatMap(({ blobs }) => blobs).map(blob => [blob.pathname, blob]));
+    return Array.from(blobs.values(), blob => {
+      const size = getVercelAccess(blob.pathname) === "private" ? blob.size - ENCRYPTION_IV_BYTES - ENCRYPTION_TAG_BYTES : blob.size;
+      return toVercelStoredBlob(blob, "application/octet-stream", size);
+    });
+  },
+  async getSignedUrl(pathname, expiresInSeconds) {
+    return createSignedUrl(pathname, expiresInSeconds);
+  },
+};
+
+// =============================================================================
+// LOCAL FILESYSTEM
+// =============================================================================
+
+interface LocalBlobMetadata {
+  contentType: string;
+  access: BlobAccess;
+}
+
+const getLocalRoot = () => path.resolve(process.env.BLOB_STORAGE_DIR || path.join(process.cwd(), ".blob-storage"));
+
+function resolveLocalPath(pathname: string): string {
+  const root = getLocalRoot();
+  const filePath = path.resolve(root, pathname);
+  if (!filePath.startsWith(root + path.sep) || pathname.endsWith(LOCAL_META_SUFFIX)) {
+    throw new Error(`Invalid blob pathname: ${pathname}`);
+  }
+  return filePath;
+}
+
+function addRandomSuffix(pathname: string): string {
+  const extension = path.posix.extname(pathname);
+  const base = pathname.slice(0, pathname.length - extension.length);
+  return `${base}-${randomBytes(12).toString("base64url")}${extension}`;
+}
+
+async function readLocalMetadata(filePath: string): Promise<LocalBlobMetadata> {
+  try {
+    return JSON.parse(await readFile(filePath + LOCAL_META_SUFFIX, "utf-8"));
+  } catch {
+    return { contentType: "application/octet-stream", access: getDefaultAccess() };
+  }
+}
+
+function toLocalStoredBlob(pathname: string, size: number, metadata: LocalBlobMetadata): StoredBlob {
+  return { pathname, url: getBlobRouteUrl(pathname), size, ...metadata };
+}
+
+/**
+ * Stores objects on local disk under BLOB_STORAGE_DIR (default .blob-storage/),
+ * served by the /api/blob route. Intended for development and self-hosting.
+ */
+const localBlobStore: BlobStore = {
+  name: "local",
+  async put(pathname, body, options = {}) {
+    const storedPathname = addRandomSuffix(pathname.replace(/^\/+/, ""));
+    const filePath = resolveLocalPath(storedPathname);
+    const data = await toBuffer(body);
+    const metadata: LocalBlobMetadata = {
+      contentType: options.contentType || (body instanceof Blob && body.type) || "application/octet-stream",
+      access: options.access ?? getDefaultAccess(),
+    };
+
+    await mkdir(path.dirname(filePath), { recursive: true });
+    await writeFile(filePath, data);
+    await writeFile(filePath + LOCAL_META_SUFFIX, JSON.stringify(metadata));
+    return toLocalStoredBlob(storedPathname, data.length, metadata);
+  },
+  async get(pathname) {
+    try {
+      const filePath = resolveLocalPath(pathname);
+      const body = await readFile(filePath);
+      return { ...toLocalStoredBlob(pathname, body.length, await readLocalMetadata(filePath)), body };
+    } catch {
+      return null;
+    }
+  },
+  async delete(pathname) {
+    const filePath = resolveLocalPath(pathname);
+    await rm(filePath, { force: true });
+    await rm(filePath + LOCAL_META_SUFFIX, { force: true });
+  },
+  async list(prefix = "") {
+    const root = getLocalRoot();
+    let entries: string[];
+    try {
+      entries = await readdir(root, { recursive: true });
+    } catch {
+      return [];
+    }
+
+    const blobs: StoredBlob[] = [];
+    for (const entry of entries) {
+      const pathname = entry.split(path.sep).join("/");
+      if (pathname.endsWith(LOCAL_META_SUFFIX) || !pathname.startsWith(prefix)) continue;
+      const filePath = path.join(root, entry);
+      const stats = await stat(filePath);
+      if (!stats.isFile()) continue;
+      blobs.push(toLocalStoredBlob(pathname, stats.size, await readLocalMetadata(filePath)));
+    }
+    return blobs.sort((a, b) => a.pathname.localeCompare(b.pathname));
+  },
+  async getSignedUrl(pathname, expiresInSeconds) {
+    return createSignedUrl(pathname, expiresInSeconds);
+  },
+};
+
+// =============================================================================
+// SELECTION
+// =============================================================================
+
+const stores: Record<BlobStoreName, BlobStore> = {
+  vercel: vercelBlobStore,
+  local: localBlobStore,
+};
+
+/**
+ * Pick the blob store from BLOB_STORE ("vercel" or "local").
+ * Without it, Vercel Blob is used only when a read-write token is configured.
+ */
+export function getBlobStore(name = process.env.BLOB_STORE): BlobStore {
+  if (!name) {
+    return process.env.BLOB_READ_WRITE_TOKEN ? stores.vercel : stores.local;
+  }
+  if (!BLOB_STORES.includes(name as BlobStoreName)) {
+    throw new Error(`Unknown BLOB_STORE "${name}". Expected one of: ${BLOB_STORES.join(", ")}`);
+  }
+  return stores[name as BlobStoreName];
+}
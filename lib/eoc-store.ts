@@ -0,0 +1,68 @@
+import { searchEocChunks } from "@/lib/services/eoc-service";
+import type { EocIndex, EocPassage } from "@/types/schemas";
+import { getBlobStore } from "./blob-store";
+
+/**
+ * Ids are document hashes; anything else is rejected before it reaches a blob pathname
+ */
+export function isEocId(id: string): boolean {
+  return /^[a-f0-9]{64}$/.test(id);
+}
+
+// Stored pathnames get a random suffix, so indexes are found by prefix
+const getIndexPrefix = (id: string) => `eoc/${id}-`;
+
+/**
+ * The chunked text of an attached EOC, or null when it was never indexed
+ */
+export async function readEocIndex(id: string): Promise<EocIndex | null> {
+  if (!isEocId(id)) return null;
+  const store = getBlobStore();
+  const [stored] = await store.list(getIndexPrefix(id));
+  if (!stored) return null;
+
+  const object = await store.get(stored.pathname);
+  if (!object) return null;
+  try {
+    return JSON.parse(object.body.toString("utf-8"));
+  } catch (error) {
+    console.error("Ignoring unreadable EOC index:", stored.pathname, error);
+    return null;
+  }
+}
+
+/**
+ * Store the chunked text of an EOC, replacing any earlier index of the same document
+ */
+export async function writeEocIndex(index: EocIndex): Promise<void> {
+  if (!isEocId(index.id)) {
+    throw new Error(`Invalid EOC id: ${index.id}`);
+  }
+  const store = getBlobStore();
+  const prefix = getIndexPrefix(index.id);
+  const previous = await store.list(prefix);
+
+  await store.put(`${prefix.slice(0, -1)}.json`, Buffer.from(JSON.stringify(index)), {
+    contentType: "application/json",
+    access: "private",
+  });
+  await Promise.all(previous.map(blob => store.delete(blob.pathname)));
+}
+
+/**
+ * EOC passages most relevant to a question, best first.
+ * Answers fall back to the SBC alone when the index is missing, so this never throws.
+ *
+ * @param id EOC id from the policy's eoc reference
+ * @param query The user's question or topic
+ * @param limit Maximum passages to return
+ */
+export async function retrieveEocPassages(id: string, query: string, limit?: number): Promise<EocPassage[]> {
+  try {
+    const index = await readEocIndex(id);
+    return index ? searchEocChunks(index.chunks, query, limit) : [];
+  } catch (error) {
+    console.error("EOC retrieval failed:", error);
+    return [];
+  }
+}
@@ -0,0 +1,123 @@
+import { createHash } from "crypto";
+import path from "path";
+import { zodSchema } from "ai";
+import type { z } from "zod";
+
+/**
+ * record: call the model and save each response as a fixture
+ * replay: answer from saved fixtures only, failing on requests that weren't recorded
+ */
+export const LLM_FIXTURE_MODES = ["record", "replay"] as const;
+export type LLMFixtureMode = typeof LLM_FIXTURE_MODES[number];
+
+/**
+ * Everything that determines a structured-output model response
+ */
+export interface LLMFixtureRequest {
+  model: unknown;
+  prompt?: string;
+  system?: string;
+  messages?: unknown[];
+  schema: unknown;
+}
+
+/**
+ * A recorded model response, stored as fixtures/llm/<key>.json
+ */
+export interface LLMFixture {
+  key: string;
+  model: string;
+  recorded_at: string;
+  /** The request with binary parts replaced by their hash, for diffing prompts */
+  request: unknown;
+  object: unknown;
+}
+
+/**
+ * Fixture mode from LLM_FIXTURE_MODE ("record" or "replay").
+ * Without it, models are called live and nothing is recorded.
+ */
+export function getLLMFixtureMode(name = process.env.LLM_FIXTURE_MODE): LLMFixtureMode | null {
+  if (!name) return null;
+  if (!LLM_FIXTURE_MODES.includes(name as LLMFixtureMode)) {
+    throw new Error(`Unknown LLM_FIXTURE_MODE "${name}". Expected one of: ${LLM_FIXTURE_MODES.join(", ")}`);
+  }
+  return name as LLMFixtureMode;
+}
+
+const getFixtureDir = () => path.resolve(process.env.LLM_FIXTURE_DIR || "fixtures/llm");
+
+// ai-retry also reaches client components through lib/services, where fs can't be bundled;
+// fixtures are only read and written on the server
+const getFs = () => process.getBuiltinModule("fs/promises");
+
+const sha256 = (data: Uint8Array) => createHash("sha256").update(data).digest("hex");
+
+const describeModel = (model: unknown) => {
+  const { provider, modelId } = (model ?? {}) as { provider?: string; modelId?: string };
+  return [provider, modelId].filter(Boolean).join(":") || "unknown";
+};
+
+/**
+ * JSON-safe copy of a request value with sorted keys. Page images and files are
+ * replaced by their hash, so the same bytes give the same key wherever they're stored.
+ */
+function toFixtureValue(value: unknown): unknown {
+  if (value instanceof Uint8Array) return { sha256: sha256(value) };
+  if (value instanceof ArrayBuffer) return { sha256: sha256(new Uint8Array(value)) };
+  if (value instanceof URL) return value.href;
+  if (Array.isArray(value)) return value.map(toFixtureValue);
+  if (value && typeof value === "object") {
+    return Object.fromEntries(Object.entries(value)
+      .filter(([, entry]) => entry !== undefined)
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([key, entry]) => [key, toFixtureValue(entry)]));
+  }
+  return value;
+}
+
+const toFixtureRequest = ({ model, prompt, system, messages, schema }: LLMFixtureRequest) => toFixtureValue({
+  model: describeModel(model),
+  prompt,
+  system,
+  messages,
+  schema: zodSchema(schema as z.ZodSchema).jsonSchema,
+});
+
+/**
+ * Answer a structured-output request according to the fixture mode
+ *
+ * The fixture key hashes the model, prompts, images and output schema, so any
+ * prompt or schema change misses in replay instead of reusing a stale response.
+ *
+ * @param request The model request
+ * @param generate Calls the model live
+ */
+export async function withLLMFixture<T>(request: LLMFixtureRequest, generate: () => Promise<T>): Promise<T> {
+  const mode = getLLMFixtureMode();
+  if (!mode) return generate();
+
+  const fixture_request = toFixtureRequest(request);
+  const key = sha256(Buffer.from(JSON.stringify(fixture_request)));
+  const fixture_path = path.join(getFixtureDir(), `${key}.json`);
+
+  if (mode === "replay") {
+    const stored = await getFs().readFile(fixture_path, "utf8").catch(() => null);
+    if (!stored) {
+      throw new Error(`No recorded LLM response for this ${describeModel(request.model)} request (${key}). The prompt or schema changed since recording; run with LLM_FIXTURE_MODE=record to update fixtures.`);
+    }
+    return (JSON.parse(stored) as LLMFixture).object as T;
+  }
+
+  const object = await generate();
+  const fixture: LLMFixture = {
+    key,
+    model: describeModel(request.model),
+    recorded_at: new Date().toISOString(),
+    request: fixture_request,
+    object,
+  };
+  await getFs().mkdir(getFixtureDir(), { recursive: true });
+  await getFs().writeFile(fixture_path, JSON.stringify(fixture, null, 2));
+  return object;
+}
@@ -0,0 +1,396 @@
+import { createCanvas, type SKRSContext2D } from "@napi-rs/canvas";
+import mammoth from "mammoth";
+import { HTMLElement, NodeType, parse, type Node } from "node-html-parser";
+import { SBC_MARKUP_TYPES } from "@/types/schemas";
+import type { ExtractedText, TextLine } from "./text-extractor";
+
+const [DOCX_CONTENT_TYPE] = SBC_MARKUP_TYPES;
+
+// US Letter at twice the PDF's 72 dpi, the size rendered PDF pages come out at
+const PAGE_WIDTH = 1224;
+const PAGE_HEIGHT = 1584;
+const MARGIN = 72;
+const CONTENT_WIDTH = PAGE_WIDTH - 2 * MARGIN;
+
+const FONT_FAMILY = "Helvetica, Arial, 'DejaVu Sans', sans-serif";
+const BODY_FONT_SIZE = 20;
+const HEADING_FONT_SIZE = 28;
+const TABLE_FONT_SIZE = 18;
+const LINE_SPACING = 1.3;
+const CELL_PADDING = 8;
+const BLOCK_SPACING = 12;
+
+// Bounds of a table column's width, in pixels
+const MIN_COLUMN_WIDTH = 80;
+const MAX_COLUMN_WIDTH = CONTENT_WIDTH / 2;
+
+const SKIPPED_TAGS = new Set(["head", "script", "style", "noscript", "template", "svg", "iframe", "object"]);
+const HEADING_TAGS = new Set(["h1", "h2", "h3", "h4", "h5", "h6"]);
+// Elements that start a new line of text
+const BLOCK_TAGS = new Set([
+  ...HEADING_TAGS,
+  "address", "article", "aside", "blockquote", "body", "caption", "dd", "div", "dl", "dt", "fieldset", "figcaption",
+  "figure", "footer", "form", "header", "hr", "li", "main", "nav", "ol", "p", "pre", "section", "ul",
+]);
+const PAGE_BREAK_STYLE = /(page-break-before|break-before)\s*:\s*(always|page)/i;
+
+interface TableCell {
+  text: string;
+  /** Columns the cell spans */
+  span: number;
+}
+
+/**
+ * Document content in reading order
+ */
+type Block =
+  | { type: "text"; text: string; heading: boolean }
+  | { type: "table"; rows: TableCell[][]; header_rows: number }
+  | { type: "page_break" };
+
+type DrawOperation =
+  | { type: "text"; text: string; x: number; y: number; font: string }
+  | { type: "rect"; x: number; y: number; width: number; height: number; fill?: string };
+
+interface LaidOutPage {
+  lines: TextLine[];
+  operations: DrawOperation[];
+}
+
+/**
+ * Whether an upload is a Word or HTML SBC that is laid out into pages before parsing
+ */
+export function isMarkupDocument(content_type: string): boolean {
+  return (SBC_MARKUP_TYPES as readonly string[]).includes(content_type);
+}
+
+const collapseWhitespace = (text: string) => text.replace(/\s+/g, " ").trim();
+
+async function toHtml(file_buffer: ArrayBuffer, content_type: string): Promise<string> {
+  if (content_type === DOCX_CONTENT_TYPE) {
+    const { value, messages } = await mammoth.convertToHtml({ buffer: Buffer.from(file_buffer) });
+    messages.filter(message => message.type === "error").forEach(message => console.warn("DOCX conversion:", message.message));
+    return value;
+  }
+  return new TextDecoder("utf-8").decode(file_buffer);
+}
+
+// =============================================================================
+// CONTENT
+// =============================================================================
+
+/**
+ * Cells of a table laid out on a grid: a cell spanning rows leaves an empty
+ * cell in the rows below it so later cells stay in their column
+ */
+function readTable(table: HTMLElement): { rows: TableCell[][]; header_rows: number } {
+  // Rows of this table only, not of tables nested in its cells
+  const rows = table.querySelectorAll("tr").filter(row => row.closest("table") === table);
+  const spanned: number[] = [];
+  let header_rows = 0;
+
+  const grid = rows.map((row, rowIndex) => {
+    const cells: TableCell[] = [];
+    let column = 0;
+    const skipSpannedColumns = () => {
+      while (spanned[column] > 0) {
+        spanned[column]--;
+        cells.push({ text: "", span: 1 });
+        column++;
+      }
+    };
+
+    const elements = row.childNodes.filter((node): node is HTMLElement => node instanceof HTMLElement && ["td", "th"].includes(node.tagName.toLowerCase()));
+    for (const element of elements) {
+      skipSpannedColumns();
+      const span = Math.max(1, Number(element.getAttribute("colspan")) || 1);
+      const rowspan = Math.max(1, Number(element.getAttribute("rowspan")) || 1);
+      cells.push({ text: collapseWhitespace(readInlineText(element)), span });
+      for (let offset = 0; offset < span; offset++) spanned[column + offset] = rowspan - 1;
+      column += span;
+    }
+    skipSpannedColumns();
+
+    const isHeader = row.closest("thead") !== null || elements.every(element => element.tagName.toLowerCase() === "th");
+    if (isHeader && elements.length > 0 && header_rows === rowIndex) header_rows++;
+    return cells;
+  });
+
+  return { rows: grid.filter(cells => cells.some(cell => cell.text)), header_rows };
+}
+
+/**
+ * Text of an element with its block children separated by spaces
+ */
+function readInlineText(element: Node): string {
+  if (element.nodeType === NodeType.TEXT_NODE) return element.text;
+  if (!(element instanceof HTMLElement) || SKIPPED_TAGS.has(element.tagName.toLowerCase())) return "";
+  return element.childNodes.map(child => {
+    const text = readInlineText(child);
+    const tag = child instanceof HTMLElement ? child.tagName.toLowerCase() : "";
+    return BLOCK_TAGS.has(tag) || tag === "br" ? ` ${text} ` : text;
+  }).join("");
+}
+
+/**
+ * Paragraphs, headings, list items and tables of an HTML document in reading order
+ */
+function readBlocks(html: string): Block[] {
+  const root = parse(html);
+  const blocks: Block[] = [];
+  let inline = "";
+  let heading = false;
+
+  const flush = () => {
+    const text = collapseWhitespace(inline);
+    if (text) blocks.push({ type: "text", text, heading });
+    inline = "";
+    heading = false;
+  };
+
+  const visit = (node: Node) => {
+    if (node.nodeType === NodeType.TEXT_NODE) {
+      inline += node.text;
+      return;
+    }
+    if (!(node instanceof HTMLElement)) return;
+    const tag = node.tagName?.toLowerCase() ?? "";
+    if (SKIPPED_TAGS.has(tag)) return;
+
+    if (PAGE_BREAK_STYLE.test(node.getAttribute("style") ?? "")) {
+      flush();
+      blocks.push({ type: "page_break" });
+    }
+    if (tag === "table") {
+      flush();
+      const table = readTable(node);
+      if (table.rows.length > 0) blocks.push({ type: "table", ...table });
+      return;
+    }
+    if (tag === "br") {
+      flush();
+      return;
+    }
+    if (BLOCK_TAGS.has(tag)) {
+      flush();
+      heading = HEADING_TAGS.has(tag);
+      if (tag === "li") inline += "• ";
+      node.childNodes.forEach(visit);
+      flush();
+      return;
+    }
+    node.childNodes.forEach(visit);
+  };
+
+  visit(root);
+  flush();
+  return blocks;
+}
+
+// =============================================================================
+// LAYOUT
+// =============================================================================
+
+const fontFor = (size: number, bold = false) => `${bold ? "bold " : ""}${size}px ${FONT_FAMILY}`;
+
+/**
+ * Break text into lines no wider than max_width; words longer than a line are split
+ */
+function wrapText(context: SKRSContext2D, text: string, max_width: number): string[] {
+  const lines: string[] = [];
+  let line = "";
+  for (const word of text.split(" ").filter(Boolean)) {
+    const candidate = line ? `${line} ${word}` : word;
+    if (context.measureText(candidate).width <= max_width) {
+      line = candidate;
+      continue;
+    }
+    if (line) lines.push(line);
+    line = "";
+    for (const character of word) {
+      if (line && context.measureText(line + character).width > max_width) {
+        lines.push(line);
+        line = "";
+      }
+      line += character;
+    }
+  }
+  if (line) lines.push(line);
+  return lines;
+}
+
+const toBoundingBox = (x: number, y: number, width: number, height: number): TextLine["bbox"] => ({
+  x: x / PAGE_WIDTH,
+  y: y / PAGE_HEIGHT,
+  width: Math.min(width, PAGE_WIDTH - x) / PAGE_WIDTH,
+  height: Math.min(height, PAGE_HEIGHT - y) / PAGE_HEIGHT,
+});
+
+/**
+ * Column widths: each column fits its longest word, and the space left is
+ * shared by how much more each column's longest cell needs to fit on one line
+ */
+function getColumnWidths(context: SKRSContext2D, rows: TableCell[][]): number[] {
+  const columns = Math.max(...rows.map(row => row.reduce((sum, cell) => sum + cell.span, 0)));
+  const minimum = Array.from({ length: columns }, () => MIN_COLUMN_WIDTH);
+  const preferred = Array.from({ length: columns }, () => MIN_COLUMN_WIDTH);
+  // Measured in the bold header font, the wider of the two
+  context.font = fontFor(TABLE_FONT_SIZE, true);
+  for (const row of rows) {
+    let column = 0;
+    for (const cell of row) {
+      if (cell.span === 1 && cell.text) {
+        const longestWord = Math.max(...cell.text.split(" ").map(word => context.measureText(word).width));
+        minimum[column] = Math.max(minimum[column], Math.min(longestWord, MAX_COLUMN_WIDTH) + 2 * CELL_PADDING);
+        preferred[column] = Math.max(preferred[column], Math.min(context.measureText(cell.text).width, MAX_COLUMN_WIDTH) + 2 * CELL_PADDING);
+      }
+      column += cell.span;
+    }
+  }
+
+  const total = (widths: number[]) => widths.reduce((sum, width) => sum + width, 0);
+  if (total(minimum) >= CONTENT_WIDTH) {
+    return minimum.map(width => CONTENT_WIDTH * width / total(minimum));
+  }
+  const extra = preferred.map((width, column) => width - minimum[column]);
+  const remaining = CONTENT_WIDTH - total(minimum);
+  return minimum.map((width, column) => width + (total(extra) > 0 ? remaining * extra[column] / total(extra) : remaining / columns));
+}
+
+/**
+ * Lay blocks out on Letter pages. Paragraphs become one text line per wrapped
+ * line; table rows become one line with " | " between cells, as the pdfjs
+ * extractor reads printed SBC tables. A table split across pages repeats its header.
+ */
+function layoutBlocks(blocks: Block[]): LaidOutPage[] {
+  const context = createCanvas(PAGE_WIDTH, PAGE_HEIGHT).getContext("2d");
+  const pages: LaidOutPage[] = [];
+  let page: LaidOutPage = { lines: [], operations: [] };
+  let y = MARGIN;
+
+  const newPage = () => {
+    pages.push(page);
+    page = { lines: [], operations: [] };
+    y = MARGIN;
+  };
+  const ensureSpace = (height: number) => {
+    if (y + height > PAGE_HEIGHT - MARGIN && y > MARGIN) newPage();
+  };
+
+  for (const block of blocks) {
+    if (block.type === "page_break") {
+      if (page.lines.length > 0) newPage();
+      continue;
+    }
+
+    if (block.type === "text") {
+      const size = block.heading ? HEADING_FONT_SIZE : BODY_FONT_SIZE;
+      const font = fontFor(size, block.heading);
+      const lineHeight = size * LINE_SPACING;
+      context.font = font;
+      for (const text of wrapText(context, block.text, CONTENT_WIDTH)) {
+        ensureSpace(lineHeight);
+        page.operations.push({ type: "text", text, x: MARGIN, y, font });
+        page.lines.push({ text, bbox: toBoundingBox(MARGIN, y, context.measureText(text).width, lineHeight) });
+        y += lineHeight;
+      }
+      y += BLOCK_SPACING;
+      continue;
+    }
+
+    const widths = getColumnWidths(context, block.rows);
+    const lineHeight = TABLE_FONT_SIZE * LINE_SPACING;
+    const layoutRow = (row: TableCell[], isHeader: boolean) => {
+      const font = fontFor(TABLE_FONT_SIZE, isHeader);
+      context.font = font;
+      let column = 0;
+      const cells = row.map(cell => {
+        const x = MARGIN + widths.slice(0, column).reduce((sum, width) => sum + width, 0);
+        const width = widths.slice(column, column + cell.span).reduce((sum, width) => sum + width, 0);
+        column += cell.span;
+        return { x, width, lines: wrapText(context, cell.text, width - 2 * CELL_PADDING) };
+      });
+      const height = Math.max(1, ...cells.map(cell => cell.lines.length)) * lineHeight + 2 * CELL_PADDING;
+      return { font, cells, height, text: row.map(cell => cell.text).filter(Boolean).join(" | "), isHeader };
+    };
+    const headers = block.rows.slice(0, block.header_rows).map(row => layoutRow(row, true));
+    const body = block.rows.slice(block.header_rows).map(row => layoutRow(row, false));
+    const headerHeight = headers.reduce((sum, header) => sum + header.height, 0);
+
+    const drawRow = (row: ReturnType<typeof layoutRow>) => {
+      for (const cell of row.cells) {
+        page.operations.push({ type: "rect", x: cell.x, y, width: cell.width, height: row.height, fill: row.isHeader ? "#e8eef5" : undefined });
+        cell.lines.forEach((text, index) => page.operations.push({
+          type: "text", text, x: cell.x + CELL_PADDING, y: y + CELL_PADDING + index * lineHeight, font: row.font,
+        }));
+      }
+      page.lines.push({ text: row.text, bbox: toBoundingBox(MARGIN, y, CONTENT_WIDTH, row.height) });
+      y += row.height;
+    };
+
+    // Keep the header with the first row
+    ensureSpace(headerHeight + (body[0]?.height ?? 0));
+    headers.forEach(drawRow);
+    for (const row of body) {
+      if (y + row.height > PAGE_HEIGHT - MARGIN && y > MARGIN + headerHeight) {
+        newPage();
+        headers.forEach(drawRow);
+      }
+      drawRow(row);
+    }
+    y += BLOCK_SPACING;
+  }
+
+  if (page.lines.length > 0 || pages.length === 0) pages.push(page);
+  return pages;
+}
+
+async function layoutMarkupDocument(file_buffer: ArrayBuffer, content_type: string): Promise<LaidOutPage[]> {
+  return layoutBlocks(readBlocks(await toHtml(file_buffer, content_type)));
+}
+
+// =============================================================================
+// TEXT AND IMAGES
+// =============================================================================
+
+/**
+ * Text of a Word or HTML SBC, split into the same pages renderMarkupPagesToPng draws
+ */
+export async function extractMarkupText(file_buffer: ArrayBuffer, content_type: string): Promise<ExtractedText> {
+  const pages = await layoutMarkupDocument(file_buffer, content_type);
+  return {
+    pages: pages.map(page => page.lines.map(line => line.text).join("\n")),
+    lines: pages.map(page => page.lines),
+  };
+}
+
+/**
+ * Draw the pages of a Word or HTML SBC to PNG with @napi-rs/canvas
+ */
+export async function renderMarkupPagesToPng(file_buffer: ArrayBuffer, content_type: string): Promise<Buffer[]> {
+  const pages = await layoutMarkupDocument(file_buffer, content_type);
+  return Promise.all(pages.map(page => {
+    const canvas = createCanvas(PAGE_WIDTH, PAGE_HEIGHT);
+    const context = canvas.getContext("2d");
+    context.fillStyle = "#ffffff";
+    context.fillRect(0, 0, PAGE_WIDTH, PAGE_HEIGHT);
+    context.textBaseline = "top";
+    context.strokeStyle = "#555555";
+    context.lineWidth = 1;
+
+    for (const operation of page.operations) {
+      if (operation.type === "rect") {
+        if (operation.fill) {
+          context.fillStyle = operation.fill;
+          context.fillRect(operation.x, operation.y, operation.width, operation.height);
+        }
+        context.strokeRect(operation.x, operation.y, operation.width, operation.height);
+      } else {
+        context.font = operation.font;
+        context.fillStyle = "#000000";
+        context.fillText(operation.text, operation.x, operation.y);
+      }
+    }
+    return canvas.encode("png");
+  }));
+}
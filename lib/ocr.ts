@@ -0,0 +1,90 @@
+import { anthropic } from "@ai-sdk/anthropic";
+import { z } from "zod";
+import { generateObjectWithAIRetry } from "./ai-retry";
+import { processImageWithUnstructured } from "./unstructured";
+
+/**
+ * Pages with fewer visible characters than this have no usable text layer
+ * (scanned or photographed pages, or PDFs that only wrap an image)
+ */
+export const MIN_TEXT_LAYER_CHARACTERS = 50;
+
+/**
+ * Whether a page's extracted text is too thin to structure, so it needs OCR
+ */
+export function needsOcr(page_text: string | undefined): boolean {
+  return (page_text ?? "").replace(/\s+/g, "").length < MIN_TEXT_LAYER_CHARACTERS;
+}
+
+/**
+ * Recognizes the text of a page image
+ */
+export interface OcrEngine {
+  name: OcrEngineName;
+  recognizePage(image: Buffer, file_name: string): Promise<string>;
+}
+
+export const OCR_ENGINES = ["unstructured", "vision"] as const;
+export type OcrEngineName = typeof OCR_ENGINES[number];
+
+const OcrTranscriptionSchema = z.object({
+  lines: z.array(z.string()).describe("Every line of text on the page, top to bottom"),
+});
+
+const engines: Record<OcrEngineName, OcrEngine> = {
+  unstructured: {
+    name: "unstructured",
+    recognizePage: (image, file_name) => processImageWithUnstructured(image, file_name),
+  },
+  // Transcribes with the same vision model that structures the page, laid out like pdfjs text
+  vision: {
+    name: "vision",
+    recognizePage: async (image) => {
+      const { lines } = await generateObjectWithAIRetry<z.infer<typeof OcrTranscriptionSchema>>({
+        model: anthropic("claude-sonnet-4-20250514"),
+        system: `You are an OCR engine. Transcribe the text of a scanned or photographed page exactly as printed. Do not summarize, correct or add anything. Return JSON ONLY.`,
+        messages: [
+          {
+            role: "user",
+            content: [
+              {
+                type: "text",
+                text: `Transcribe this page of a Summary of Benefits and Coverage (SBC) document. Write each table row on one line with " | " between cells, in reading order.`,
+              },
+              {
+                type: "image",
+                image,
+              },
+            ],
+          },
+        ],
+        schema: OcrTranscriptionSchema,
+      });
+      return lines.join("\n");
+    },
+  },
+};
+
+/**
+ * Pick the OCR engine from OCR_ENGINE ("unstructured" or "vision").
+ * Without it, the Unstructured API is used only when an API key is configured,
+ * otherwise the vision model transcribes the page.
+ */
+export function getOcrEngine(name = process.env.OCR_ENGINE): OcrEngine {
+  if (!name) {
+    return process.env.UNSTRUCTURED_API_KEY ? engines.unstructured : engines.vision;
+  }
+  if (!OCR_ENGINES.includes(name as OcrEngineName)) {
+    throw new Error(`Unknown OCR_ENGINE "${name}". Expected one of: ${OCR_ENGINES.join(", ")}`);
+  }
+  return engines[name as OcrEngineName];
+}
+
+/**
+ * Recognize the text of a page image with the configured OCR engine
+ */
+export async function recognizePageText(image: Buffer, file_name: string) {
+  const engine = getOcrEngine();
+  console.log("Recognizing page text with", engine.name);
+  return engine.recognizePage(image, file_name);
+}
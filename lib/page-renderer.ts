@@ -0,0 +1,109 @@
+import type { PdfToImagesTask } from "@/trigger/pdf-to-images";
+import { SBC_IMAGE_TYPES } from "@/types/schemas";
+import { createCanvas, loadImage } from "@napi-rs/canvas";
+import { tasks } from "@trigger.dev/sdk/v3";
+import { v4 as uuidv4 } from "uuid";
+import { getBlobStore, type StoredBlob } from "./blob-store";
+import { isMarkupDocument, renderMarkupPagesToPng } from "./markup-document";
+import { renderPdfPagesToPng } from "./pdfjs";
+
+/**
+ * Turns an uploaded PDF into one stored image per page, in page order
+ */
+export interface PageRenderer {
+  name: PageRendererName;
+  renderPages(file_buffer: ArrayBuffer, file_url: string): Promise<StoredBlob[]>;
+}
+
+export const PAGE_RENDERERS = ["trigger", "local"] as const;
+export type PageRendererName = typeof PAGE_RENDERERS[number];
+
+const renderers: Record<PageRendererName, PageRenderer> = {
+  // Runs the pdf-to-images task (mutool) on Trigger.dev against the uploaded file
+  trigger: {
+    name: "trigger",
+    renderPages: async (_file_buffer, file_url) => {
+      const run = await tasks.triggerAndPoll<typeof PdfToImagesTask>("pdf-to-images", { file_url });
+      if (run.status !== "COMPLETED" || !run.output) {
+        throw new Error(`pdf-to-images task did not complete (status: ${run.status})`);
+      }
+      return run.output;
+    },
+  },
+  // Rasterizes in-process and stores the PNGs where the Trigger.dev task would
+  local: {
+    name: "local",
+    renderPages: async (file_buffer) => {
+      const id = uuidv4();
+      const store = getBlobStore();
+      const images = await renderPdfPagesToPng(file_buffer);
+      return Promise.all(images.map((image, index) =>
+        store.put(`images/${id}/page-${index + 1}.png`, image, { contentType: 'image/png' })
+      ));
+    },
+  },
+};
+
+/**
+ * Pick the page renderer from PDF_PAGE_RENDERER ("trigger" or "local").
+ * Without it, Trigger.dev is used only when a secret key is configured,
+ * so local development works without a cloud job runner.
+ */
+export function getPageRenderer(name = process.env.PDF_PAGE_RENDERER): PageRenderer {
+  if (!name) {
+    return process.env.TRIGGER_SECRET_KEY ? renderers.trigger : renderers.local;
+  }
+  if (!PAGE_RENDERERS.includes(name as PageRendererName)) {
+    throw new Error(`Unknown PDF_PAGE_RENDERER "${name}". Expected one of: ${PAGE_RENDERERS.join(", ")}`);
+  }
+  return renderers[name as PageRendererName];
+}
+
+// Long side of a stored photo or scan page; phone photos are scaled down to it, which keeps table text legible
+const MAX_IMAGE_PAGE_SIZE = 2400;
+
+/**
+ * Whether an upload is a scanned or photographed page rather than a PDF
+ */
+export function isImageDocument(content_type: string): boolean {
+  return (SBC_IMAGE_TYPES as readonly string[]).includes(content_type);
+}
+
+/**
+ * Store an uploaded photo or scan as the single page image of its document
+ */
+async function renderImagePage(file_buffer: ArrayBuffer): Promise<StoredBlob[]> {
+  const image = await loadImage(Buffer.from(file_buffer));
+  const scale = Math.min(1, MAX_IMAGE_PAGE_SIZE / Math.max(image.width, image.height));
+  const canvas = createCanvas(Math.round(image.width * scale), Math.round(image.height * scale));
+  // White background for transparent PNGs, as for rendered PDF pages
+  const context = canvas.getContext("2d");
+  context.fillStyle = "#ffffff";
+  context.fillRect(0, 0, canvas.width, canvas.height);
+  context.drawImage(image, 0, 0, canvas.width, canvas.height);
+
+  const page = await getBlobStore().put(`images/${uuidv4()}/page-1.png`, await canvas.encode("png"), { contentType: 'image/png' });
+  return [page];
+}
+
+/**
+ * Render page images with the configured renderer; image uploads become a single page as-is,
+ * Word and HTML uploads are drawn in-process on the pages their text is split into
+ */
+export async function renderPageImages(file_buffer: ArrayBuffer, file_url: string, content_type = "application/pdf") {
+  if (isImageDocument(content_type)) {
+    console.log("Using the uploaded image as the only page");
+    return renderImagePage(file_buffer);
+  }
+  if (isMarkupDocument(content_type)) {
+    console.log("Drawing", content_type, "pages");
+    const id = uuidv4();
+    const images = await renderMarkupPagesToPng(file_buffer, content_type);
+    return Promise.all(images.map((image, index) =>
+      getBlobStore().put(`images/${id}/page-${index + 1}.png`, image, { contentType: 'image/png' })
+    ));
+  }
+  const renderer = getPageRenderer();
+  console.log("Rendering PDF pages with", renderer.name);
+  return renderer.renderPages(file_buffer, file_url);
+}
@@ -0,0 +1,72 @@
+import type { ParsedPolicy } from "@/types/schemas";
+import { createHash } from "crypto";
+import { getBlobStore, getShareableUrl, type StoredBlob } from "./blob-store";
+
+/**
+ * Version of the parse pipeline. Bump it whenever prompts, extraction schemas or
+ * post-processing change, so results cached by an older pipeline are not reused.
+ */
+export const PARSER_VERSION = 4;
+
+/**
+ * A parsed SBC stored under the hash of its bytes, with the artifacts it points to
+ */
+export interface ParseCacheEntry {
+  parser_version: number;
+  /** SHA-256 of the uploaded file */
+  content_hash: string;
+  created_at: string;
+  file: StoredBlob;
+  page_images: StoredBlob[];
+  policy: ParsedPolicy;
+}
+
+/**
+ * SHA-256 of an uploaded document, hex encoded
+ */
+export function hashDocument(file_buffer: ArrayBuffer): string {
+  return createHash("sha256").update(Buffer.from(file_buffer)).digest("hex");
+}
+
+// Stored pathnames get a random suffix, so entries are found by prefix
+const getEntryPrefix = (content_hash: string) => `parse-cache/v${PARSER_VERSION}/${content_hash}-`;
+
+/**
+ * Look up a previous parse of the same document by the current parser version.
+ * File and page image URLs are re-issued, since signed URLs in the stored policy may have expired.
+ */
+export async function readParseCache(content_hash: string): Promise<ParsedPolicy | null> {
+  const store = getBlobStore();
+  const [stored] = await store.list(getEntryPrefix(content_hash));
+  if (!stored) return null;
+
+  const object = await store.get(stored.pathname);
+  if (!object) return null;
+  try {
+    const entry: ParseCacheEntry = JSON.parse(object.body.toString("utf-8"));
+    return {
+      ...entry.policy,
+      file_url: await getShareableUrl(entry.file),
+      image_urls: await Promise.all(entry.page_images.map(getShareableUrl)),
+    };
+  } catch (error) {
+    console.error("Ignoring unreadable parse cache entry:", stored.pathname, error);
+    return null;
+  }
+}
+
+/**
+ * Store a parse result, replacing any earlier entry for the same document and parser version
+ */
+export async function writeParseCache(entry: Omit<ParseCacheEntry, "parser_version" | "created_at">): Promise<void> {
+  const store = getBlobStore();
+  const prefix = getEntryPrefix(entry.content_hash);
+  const previous = await store.list(prefix);
+
+  const body: ParseCacheEntry = { parser_version: PARSER_VERSION, created_at: new Date().toISOString(), ...entry };
+  await store.put(`${prefix.slice(0, -1)}.json`, Buffer.from(JSON.stringify(body)), {
+    contentType: "application/json",
+    access: "private",
+  });
+  await Promise.all(previous.map(blob => store.delete(blob.pathname)));
+}
@@ -0,0 +1,176 @@
+import { createCanvas } from "@napi-rs/canvas";
+import { createRequire } from "module";
+import path from "path";
+import type { TextItem } from "pdfjs-dist/types/src/display/api";
+import type { PageViewport } from "pdfjs-dist/types/src/display/display_utils";
+import type { ExtractedText, TextLine } from "./text-extractor";
+
+const require = createRequire(import.meta.url);
+
+// Items whose baselines are within this fraction of the font size share a line
+const LINE_TOLERANCE = 0.5;
+// Horizontal gaps wider than this many font sizes separate table columns
+const COLUMN_GAP = 1.5;
+// 2x the PDF's 72 dpi keeps small table text legible to vision models
+const RENDER_SCALE = 2;
+
+interface PositionedText {
+  text: string;
+  x: number;
+  y: number;
+  width: number;
+  fontSize: number;
+}
+
+async function loadPdfjs() {
+  const pdfjs = await import("pdfjs-dist/legacy/build/pdf.mjs");
+  // Use the worker that ships with the installed pdfjs-dist; public/pdf.worker.mjs is for the browser
+  if (!pdfjs.GlobalWorkerOptions.workerSrc) {
+    pdfjs.GlobalWorkerOptions.workerSrc = require.resolve("pdfjs-dist/legacy/build/pdf.worker.mjs");
+  }
+  return pdfjs;
+}
+
+async function openPdfDocument(file_buffer: ArrayBuffer) {
+  const pdfjs = await loadPdfjs();
+  return pdfjs.getDocument({
+    // pdfjs transfers the buffer to its worker, so hand it a copy
+    data: new Uint8Array(file_buffer.slice(0)),
+    // Font metrics for the 14 standard PDF fonts, which SBCs often use without embedding
+    standardFontDataUrl: path.join(path.dirname(require.resolve("pdfjs-dist/package.json")), "standard_fonts") + path.sep,
+    useSystemFonts: false,
+    isEvalSupported: false,
+  }).promise;
+}
+
+function groupIntoLines(items: PositionedText[]): PositionedText[][] {
+  // PDF coordinates grow upwards, so read from the highest baseline down
+  const sorted = [...items].sort((a, b) => b.y - a.y || a.x - b.x);
+  const lines: PositionedText[][] = [];
+
+  for (const item of sorted) {
+    const line = lines[lines.length - 1];
+    const tolerance = Math.max(item.fontSize, line?.[0].fontSize ?? 0) * LINE_TOLERANCE;
+    if (line && Math.abs(line[0].y - item.y) <= tolerance) {
+      line.push(item);
+    } else {
+      lines.push([item]);
+    }
+  }
+
+  return lines.map(line => line.sort((a, b) => a.x - b.x));
+}
+
+/**
+ * Bounding box of a line as fractions of the page, from the top-left corner
+ */
+function lineBoundingBox(line: PositionedText[], viewport: PageViewport): TextLine["bbox"] {
+  const xs: number[] = [];
+  const ys: number[] = [];
+  for (const item of line) {
+    // Ascender above the baseline, a little room for descenders below it
+    for (const [x, y] of [[item.x, item.y + item.fontSize], [item.x + item.width, item.y - item.fontSize * 0.25]]) {
+      const [viewportX, viewportY] = viewport.convertToViewportPoint(x, y);
+      xs.push(viewportX / viewport.width);
+      ys.push(viewportY / viewport.height);
+    }
+  }
+  const clamp = (value: number) => Math.min(1, Math.max(0, value));
+  const left = clamp(Math.min(...xs));
+  const top = clamp(Math.min(...ys));
+  return {
+    x: left,
+    y: top,
+    width: clamp(Math.max(...xs)) - left,
+    height: clamp(Math.max(...ys)) - top,
+  };
+}
+
+function layoutLine(line: PositionedText[]): string {
+  let text = "";
+  let previous: PositionedText | null = null;
+
+  for (const item of line) {
+    if (previous) {
+      const gap = item.x - (previous.x + previous.width);
+      // Wide gaps are table column boundaries; keep them visible so rows stay readable
+      if (gap > previous.fontSize * COLUMN_GAP) {
+        text += " | ";
+      } else if (gap > previous.fontSize * 0.1 && !text.endsWith(" ") && !item.text.startsWith(" ")) {
+        text += " ";
+      }
+    }
+    text += item.text;
+    previous = item;
+  }
+
+  return text.replace(/[ \t]+/g, " ").trim();
+}
+
+/**
+ * Extract the text of every page of a PDF locally with pdfjs-dist
+ *
+ * Text items are regrouped into lines by their position so multi-column table
+ * rows (like the SBC "what you will pay" table) read left to right, with
+ * " | " between cells. Each line keeps its position on the page for provenance.
+ */
+export async function processFileWithPdfjs(file_buffer: ArrayBuffer): Promise<ExtractedText> {
+  const document = await openPdfDocument(file_buffer);
+
+  try {
+    const pageTexts: string[] = [];
+    const pageLines: TextLine[][] = [];
+    for (let pageNumber = 1; pageNumber <= document.numPages; pageNumber++) {
+      const page = await document.getPage(pageNumber);
+      const content = await page.getTextContent();
+      const items = content.items
+        .filter((item): item is TextItem => "str" in item && item.str.trim().length > 0)
+        .map(item => ({
+          text: item.str,
+          x: item.transform[4],
+          y: item.transform[5],
+          width: item.width,
+          fontSize: Math.hypot(item.transform[2], item.transform[3]) || item.height || 10,
+        }));
+
+      const viewport = page.getViewport({ scale: 1 });
+      const lines = groupIntoLines(items)
+        .map(line => ({ text: layoutLine(line), bbox: lineBoundingBox(line, viewport) }))
+        .filter(line => line.text);
+      pageTexts.push(lines.map(line => line.text).join("\n"));
+      pageLines.push(lines);
+      page.cleanup();
+    }
+    return { pages: pageTexts, lines: pageLines };
+  } finally {
+    await document.destroy();
+  }
+}
+
+/**
+ * Rasterize every page of a PDF to PNG in-process with pdfjs-dist and @napi-rs/canvas
+ */
+export async function renderPdfPagesToPng(file_buffer: ArrayBuffer, scale = RENDER_SCALE): Promise<Buffer[]> {
+  const document = await openPdfDocument(file_buffer);
+
+  try {
+    const images: Buffer[] = [];
+    for (let pageNumber = 1; pageNumber <= document.numPages; pageNumber++) {
+      const page = await document.getPage(pageNumber);
+      const viewport = page.getViewport({ scale });
+      const canvas = createCanvas(Math.ceil(viewport.width), Math.ceil(viewport.height));
+      // White background; SBC PDFs are often transparent and render unreadable on black
+      const context = canvas.getContext("2d");
+      context.fillStyle = "#ffffff";
+      context.fillRect(0, 0, canvas.width, canvas.height);
+
+      // @napi-rs/canvas implements the subset of the DOM canvas API that pdfjs uses in Node
+      await page.render({ canvas: canvas as unknown as HTMLCanvasElement, viewport }).promise;
+      images.push(await canvas.encode("png"));
+      page.cleanup();
+    }
+    return images;
+  } finally {
+    await document.destroy();
+  }
+}
@@ -0,0 +1,72 @@
+import type { SbcLanguage } from "@/types/schemas";
+
+/**
+ * Text that marks each section of the federal SBC template, per language
+ */
+export interface SectionAnchors {
+  /** Header of the "Services You May Need" table */
+  services: RegExp;
+  /** "Services Your Plan Generally Does NOT Cover" */
+  excluded_services: RegExp;
+  /** "Other Covered Services (Limitations may apply to these services...)" */
+  other_covered_services: RegExp;
+  /** The coverage examples page */
+  coverage_examples: RegExp;
+}
+
+export const SECTION_ANCHORS: Record<SbcLanguage, SectionAnchors> = {
+  en: {
+    services: /what you will pay/i,
+    excluded_services: /services your plan generally does not cover/i,
+    other_covered_services: /other covered services \(limitations may apply to these services/i,
+    coverage_examples: /peg is having a baby|total example cost/i,
+  },
+  // Accents are optional: OCR and some text layers drop them
+  es: {
+    services: /lo que usted pagar[aá]/i,
+    excluded_services: /servicios que su plan generalmente no cubre/i,
+    other_covered_services: /otros servicios cubiertos/i,
+    coverage_examples: /peg va a tener un beb[eé]|costo total (del )?ejemplo|costo total hipot[eé]tico/i,
+  },
+};
+
+export const LANGUAGE_NAMES: Record<SbcLanguage, string> = {
+  en: "English",
+  es: "Spanish",
+};
+
+// Frequent words that only occur in one language's SBCs
+const LANGUAGE_MARKERS: Record<SbcLanguage, Set<string>> = {
+  en: new Set(["the", "you", "your", "and", "for", "what", "will", "coverage", "deductible", "covered", "this", "are"]),
+  es: new Set(["que", "los", "las", "usted", "para", "por", "del", "cobertura", "deducible", "cubre", "este", "son"]),
+};
+
+/**
+ * Detect the language of an SBC from its text
+ *
+ * @param pages_text Text of every page
+ * @returns The language whose marker words occur most often (English on a tie)
+ */
+export function detectDocumentLanguage(pages_text: string[]): SbcLanguage {
+  const words = pages_text.join(" ").toLowerCase().split(/[^a-záéíóúñü]+/);
+  const count = (language: SbcLanguage) => words.filter(word => LANGUAGE_MARKERS[language].has(word)).length;
+  return count("es") > count("en") ? "es" : "en";
+}
+
+/**
+ * Extraction prompt addition for documents that aren't in English.
+ * Cost-sharing cells are written in the standard English SBC wording so the
+ * deterministic cost-sharing parser can price them; quotes stay verbatim.
+ */
+export function getExtractionLanguageInstruction(language: SbcLanguage | undefined): string {
+  if (!language || language === "en") return "";
+  return `\nThe document is in ${LANGUAGE_NAMES[language]}. Copy quotes (source_quote, quote) verbatim in ${LANGUAGE_NAMES[language]} and keep names and descriptions in ${LANGUAGE_NAMES[language]}, but write every cost-sharing cell (network_provider, out_of_network_provider and network tier cells) in the standard English SBC wording, e.g. "$30 copay/visit", "20% coinsurance", "No charge", "Not covered", "deductible does not apply". JSON keys and enum values stay in English.`;
+}
+
+/**
+ * Prompt addition asking a model to answer the user in the language of their SBC
+ */
+export function getResponseLanguageInstruction(language: SbcLanguage | undefined): string {
+  if (!language || language === "en") return "";
+  return `\nThe user's SBC is in ${LANGUAGE_NAMES[language]}: write all user-facing text in ${LANGUAGE_NAMES[language]}. JSON keys and enum values stay in English.`;
+}
@@ -0,0 +1,647 @@
+import { generateObjectWithAIRetry } from "@/lib/ai-retry";
+import { getBlobStore, getShareableUrl, type StoredBlob } from "@/lib/blob-store";
+import { needsOcr, recognizePageText } from "@/lib/ocr";
+import { renderPageImages } from "@/lib/page-renderer";
+import { hashDocument, readParseCache, writeParseCache } from "@/lib/parse-cache";
+import { detectDocumentLanguage, getExtractionLanguageInstruction, SECTION_ANCHORS } from "@/lib/sbc-language";
+import { extractPagesText, type ExtractedText } from "@/lib/text-extractor";
+import { scorePolicyConfidence } from "@/lib/services/confidence-service";
+import { buildNetworkTiers } from "@/lib/services/network-tier-service";
+import { normalizeServiceRows } from "@/lib/services/service-name-service";
+import { createPolicyError, logConsistencyWarnings, PolicyServiceError } from "@/lib/services/policy-service";
+import { exclusionSourceKey, locateQuote, page1SourceKey, PAGE1_SOURCE_FIELDS, serviceSourceKey } from "@/lib/services/provenance-service";
+import { CoverageExampleSchema, ParsedPolicySchema, SBC_DOCUMENT_TYPES, type CoverageExample, type FieldSource, type ParsedPolicy, type ParseProgressEvent, type SbcLanguage, type ServiceYouMayNeed } from "@/types/schemas";
+import { anthropic } from "@ai-sdk/anthropic";
+import { z } from "zod";
+
+const CommonMedicalEventSericeTypes = {
+  PrimaryCareVisit: "primary_care_visit",
+  SpecialistVisit: "specialist_visit",
+  PreventiveCare: "preventive_care",
+  DiagnosticTest: "diagnostic_test",
+  Imaging: "imaging",
+  GenericDrugs: "generic_drugs",
+  PreferredBrandDrugs: "preferred_brand_drugs",
+  NonPreferredBrandDrugs: "non_preferred_brand_drugs",
+  SpecialtyDrugs: "specialty_drugs",
+  OutpatientFacilityFee: "outpatient_facility_fee",
+  OutpatientPhysicianFee: "outpatient_physician_fee",
+  EmergencyRoom: "emergency_room",
+  EmergencyTransport: "emergency_transport",
+  UrgentCare: "urgent_care",
+  HospitalFacilityFee: "hospital_facility_fee",
+  HospitalPhysicianFee: "hospital_physician_fee",
+  MentalHealthOutpatient: "mental_health_outpatient",
+  MentalHealthInpatient: "mental_health_inpatient",
+  PregnancyOfficeVisits: "pregnancy_office_visits",
+  ChildbirthProfessional: "childbirth_professional",
+  ChildbirthFacility: "childbirth_facility",
+  HomeHealthCare: "home_health_care",
+  RehabilitationServices: "rehabilitation_services",
+  HabilitationServices: "habilitation_services",
+  SkilledNursing: "skilled_nursing",
+  DurableMedicalEquipment: "durable_medical_equipment",
+  HospiceServices: "hospice_services",
+  ChildrensEyeExam: "childrens_eye_exam",
+  ChildrensGlasses: "childrens_glasses",
+  ChildrensDentalCheckup: "childrens_dental_checkup"
+};
+
+// const EventServiceSchema = z.object({
+//     what_you_will_pay: z.object({
+//         network_provider: z.object({
+//             covered: z.boolean(),
+//             copayment: z.number().optional(),
+//             subject_to_deductible: z.boolean().optional(),
+//             details: z.string().optional()
+//         }),
+//         out_of_network: z.object({
+//             covered: z.boolean(),
+//             copayment: z.number().optional(),
+//             subject_to_deductible: z.boolean().optional(),
+//             details: z.string().optional()
+//         }),
+//         limitations_exceptions_and_other_important_information: z.string().describe("Important limitations or exclusions that apply. This is on the right most column of the table.")
+//     })
+// });
+
+// Share of overall progress reached after each part of the pipeline
+const PROGRESS_UPLOADED = 10;
+const PROGRESS_PER_PREPARATION_STEP = 15;
+const PROGRESS_STRUCTURING_START = PROGRESS_UPLOADED + 2 * PROGRESS_PER_PREPARATION_STEP;
+const PROGRESS_STRUCTURING_END = 85;
+
+export interface ParseSBCOptions {
+  /** Parse again even when the same file was parsed by the current parser version */
+  force?: boolean;
+  /** Stops the pipeline before its next step, e.g. when the client disconnects */
+  signal?: AbortSignal;
+}
+
+/**
+ * Parse an SBC file, reporting each stage as it actually finishes.
+ * A file parsed before (same bytes, same PARSER_VERSION) returns the stored result unless forced.
+ * An aborted signal stops the pipeline before its next upload or model call.
+ */
+export async function parseSBCDocument(file: File, onProgress?: (event: ParseProgressEvent) => void, options: ParseSBCOptions = {}) {
+  const checkAborted = () => options.signal?.throwIfAborted();
+  const report = (event: ParseProgressEvent) => {
+    checkAborted();
+    onProgress?.(event);
+  };
+
+  const file_buffer = await file.arrayBuffer();
+  const content_hash = hashDocument(file_buffer);
+  if (!options.force) {
+    const cached = await readParseCache(content_hash);
+    if (cached) {
+      report({ stage: "upload", message: "This document was parsed before; reusing the results", progress: PROGRESS_STRUCTURING_END, cached: true });
+      return cached;
+    }
+  }
+
+  checkAborted();
+  const content_type = file.type || "application/pdf";
+  const store = getBlobStore();
+  const file_blob = await store.put(file.name, file, { contentType: content_type });
+  const file_url = await getShareableUrl(file_blob);
+  report({ stage: "upload", message: "File uploaded", progress: PROGRESS_UPLOADED });
+
+  const file_name = file.name;
+
+  // Text extraction and rendering run in parallel; report them in whichever order they finish
+  let preparedSteps = 0;
+  const preparationProgress = () => PROGRESS_UPLOADED + ++preparedSteps * PROGRESS_PER_PREPARATION_STEP;
+  const [extracted, page_images] = await Promise.all([
+    extractPagesText(file_buffer, file_name, content_type).then(extracted => {
+      if (extracted?.pages.some(text => !needsOcr(text))) {
+        report({ stage: "text_extraction", message: `Extracted text from ${extracted.pages.length} pages`, progress: preparationProgress(), pageCount: extracted.pages.length });
+      }
+      return extracted;
+    }),
+    renderPageImages(file_buffer, file_url, content_type).then(images => {
+      report({ stage: "page_rendering", message: `Rendered ${images.length} page images`, progress: preparationProgress(), pageCount: images.length });
+      return images;
+    })
+  ]);
+
+  // Scanned and photographed pages have no text layer; recognize their text from the page image
+  const extracted_text: ExtractedText = { pages: [...(extracted?.pages ?? [])], lines: extracted?.lines && [...extracted.lines] };
+  const scanned_pages = page_images.map((_, index) => index).filter(index => needsOcr(extracted_text.pages[index]));
+  if (scanned_pages.length > 0) {
+    await Promise.all(scanned_pages.map(async index => {
+      checkAborted();
+      const object = await store.get(page_images[index].pathname);
+      if (!object) throw new Error(`Page image not found: ${page_images[index].pathname}`);
+      extracted_text.pages[index] = await recognizePageText(object.body, `page-${index + 1}.png`);
+      // OCR text has no line positions, so provenance for these pages has no highlight
+      if (extracted_text.lines) extracted_text.lines[index] = [];
+    }));
+    report({ stage: "text_extraction", message: `Recognized text on ${scanned_pages.length} scanned page(s)`, progress: PROGRESS_STRUCTURING_START, pageCount: page_images.length });
+  }
+  if (extracted_text.pages.every(text => !text.trim())) throw new Error("Could not extract text from document");
+  const pages_text = extracted_text.pages;
+  // Source page, quote and location of each extracted value
+  const provenance: Record<string, FieldSource> = {};
+  const recordSource = (key: string, quote: string | undefined, candidatePages: number[]) => {
+    const source = locateQuote(quote, extracted_text, candidatePages);
+    if (source) provenance[key] = source;
+  };
+  // Model self-reported confidence of each extracted value, by provenance key
+  const model_confidence: Record<string, number> = {};
+  const image_urls = await Promise.all(page_images.map(getShareableUrl));
+
+  // Section headers are located in the document's own language
+  const language = detectDocumentLanguage(pages_text);
+  const anchors = SECTION_ANCHORS[language];
+
+  const page_indexes_with_services = pages_text
+    .map((text, idx) => ({ text, idx }))
+    .filter(({ text }) => anchors.services.test(text))
+    .map(({ idx }) => idx);
+  console.log("page_indexes_with_services", page_indexes_with_services);
+
+  const page_index_with_coverage_examples = pages_text.findIndex(text => anchors.coverage_examples.test(text));
+
+  // Page 1, each services page, the exclusions pages and the coverage examples page are structured separately
+  const total = page_indexes_with_services.length + 2 + (page_index_with_coverage_examples >= 0 ? 1 : 0);
+  let completed = 0;
+  const reportStructured = (message: string, partial?: ParseProgressEvent["partial"]) => {
+    completed++;
+    report({
+      stage: "structuring",
+      message,
+      progress: Math.round(PROGRESS_STRUCTURING_START + (PROGRESS_STRUCTURING_END - PROGRESS_STRUCTURING_START) * completed / total),
+      completed,
+      total,
+      partial,
+    });
+  };
+
+  checkAborted();
+  const { sources: page1_sources, ...page1 } = await structurePage1(pages_text[0], await toModelImage(page_images[0]), language);
+  console.log("page1", page1);
+  page1_sources?.forEach(({ field, quote, confidence }) => {
+    recordSource(page1SourceKey(field), quote, [0]);
+    model_confidence[page1SourceKey(field)] = confidence;
+  });
+  reportStructured("Read plan summary and deductibles", { plan_summary: page1.plan_summary });
+  const services_data = await Promise.all(page_indexes_with_services.map(async index => {
+    checkAborted();
+    const data = await structurePageWithServices(pages_text[index], await toModelImage(page_images[index]), language);
+    // More than in- and out-of-network columns means a tiered network; keep every column per row
+    const page_network_tiers = data?.network_columns && data.network_columns.length > 2 ? buildNetworkTiers(data.network_columns) : undefined;
+    const rows = (data?.services_you_may_need ?? []).map(({ column_values, ...row }) => {
+      if (!page_network_tiers) return { ...row, page: index };
+      const tiers = Object.fromEntries(page_network_tiers
+        .map((tier, column) => [tier.id, column_values?.[column]?.trim()] as const)
+        .filter((entry): entry is readonly [string, string] => Boolean(entry[1])));
+      return { ...row, what_you_will_pay: { ...row.what_you_will_pay, tiers }, page: index };
+    });
+    reportStructured(`Read services on page ${index + 1} of ${pages_text.length}`, {
+      services_you_may_need: rows.map(({ name, what_you_will_pay }) => ({ name, what_you_will_pay })),
+    });
+    return { rows, network_tiers: page_network_tiers };
+  }));
+  console.log("services_data", services_data);
+
+  // Row names vary between documents and runs; map them to the standard service types pricing looks up
+  const { rows: normalized_rows } = normalizeServiceRows(services_data.flatMap(data => data.rows));
+  const services_data_combined: ServiceYouMayNeed[] = normalized_rows.map(({ source_quote, confidence, page, ...service }) => {
+    recordSource(serviceSourceKey(service.name), source_quote, [page]);
+    if (confidence !== undefined) model_confidence[serviceSourceKey(service.name)] = confidence;
+    return service;
+  });
+  console.log("services_data_combined", services_data_combined);
+  const network_tiers = services_data.find(data => data.network_tiers)?.network_tiers;
+
+  const page_index_with_excluded_services = pages_text.findIndex(text => anchors.excluded_services.test(text));
+  const page_index_with_other_covered_services = pages_text.findIndex(text => anchors.other_covered_services.test(text));
+  const pages_text_for_excluded_and_other_covered_services = Array.from(new Set([
+    pages_text[page_index_with_excluded_services],
+    pages_text[page_index_with_other_covered_services]
+  ].filter(Boolean)));
+  console.log("pages_text_for_excluded_and_other_covered_services", pages_text_for_excluded_and_other_covered_services);
+  const exclusion_pages = [page_index_with_excluded_services, page_index_with_other_covered_services].filter(index => index >= 0);
+  // Only PDFs can be attached as a file; other uploads are shown through their page images
+  const exclusion_images = content_type === "application/pdf" ? [] : await Promise.all(
+    Array.from(new Set(exclusion_pages.length > 0 ? exclusion_pages : page_images.map((_, index) => index)))
+      .map(index => toModelImage(page_images[index]))
+  );
+  checkAborted();
+  const excluded_and_other_covered_services = await structureExcludedAndOtherCoveredServices({
+    pages_text: pages_text_for_excluded_and_other_covered_services,
+    file,
+    images: exclusion_images,
+    language
+  });
+  excluded_and_other_covered_services.excluded_services.forEach((item, index) => recordSource(exclusionSourceKey("excluded_services", index), item, exclusion_pages));
+  excluded_and_other_covered_services.other_covered_services.forEach((item, index) => recordSource(exclusionSourceKey("other_covered_services", index), item, exclusion_pages));
+  reportStructured("Read excluded and other covered services");
+
+  let coverage_examples: CoverageExample[] | undefined;
+  if (page_index_with_coverage_examples >= 0) {
+    checkAborted();
+    const data = await structureCoverageExamples(
+      pages_text[page_index_with_coverage_examples],
+      await toModelImage(page_images[page_index_with_coverage_examples]),
+      language
+    );
+    coverage_examples = data.coverage_examples;
+    reportStructured("Read coverage examples");
+  }
+
+  const policy = {
+    file_url,
+    image_urls,
+    ...page1,
+    services_you_may_need: services_data_combined,
+    ...(network_tiers && { network_tiers }),
+    excluded_and_other_covered_services,
+    ...(coverage_examples && { coverage_examples }),
+    language,
+    provenance
+  };
+  const result = { ...policy, confidence: scorePolicyConfidence(policy, model_confidence) };
+
+  // A failed cache write only costs a re-parse next time
+  await writeParseCache({ content_hash, file: file_blob, page_images, policy: result })
+    .catch(error => console.error("Failed to cache parse result:", error));
+  return result;
+}
+
+/**
+ * Progress callback for PDF parsing operations
+ */
+export interface ParseProgressCallback {
+  (stage: string, progress: number, event: ParseProgressEvent): void;
+}
+
+/**
+ * Options for PDF parsing operations
+ */
+export interface ParsePDFOptions {
+  /** Callback for progress updates */
+  onProgress?: ParseProgressCallback;
+  /** Whether to validate the parsed result */
+  validate?: boolean;
+  /** Maximum file size in bytes (default: 10MB) */
+  maxFileSize?: number;
+  /** Parse again even if the same file was parsed before (default: false) */
+  force?: boolean;
+  /** Stops parsing before the next pipeline step, e.g. when the client disconnects */
+  signal?: AbortSignal;
+}
+
+/**
+ * Parse an SBC PDF file into structured policy data
+ * 
+ * This function handles the complete PDF parsing pipeline:
+ * 1. File validation and upload (PDFs, or a photo or scan of a page)
+ * 2. Text extraction (Unstructured API or local pdfjs), with OCR for pages without a text layer
+ * 3. Image generation for visual analysis
+ * 4. AI-powered data structuring, one step per page group
+ * 5. Data validation and normalization
+ * 
+ * Progress is reported as each stage actually finishes, with partial
+ * results (plan summary, services per page) in the event.
+ * 
+ * @param file The PDF file to parse
+ * @param options Parsing options and callbacks
+ * @returns Promise resolving to parsed policy data
+ * @throws PolicyServiceError for various parsing failures
+ * 
+ * @example
+ * ```typescript
+ * const fileInput = document.querySelector('input[type="file"]');
+ * const file = fileInput.files[0];
+ * 
+ * try {
+ *   const policy = await parsePDF(file, {
+ *     onProgress: (stage, progress) => {
+ *       console.log(`${stage}: ${progress}%`);
+ *     },
+ *     validate: true
+ *   });
+ *   console.log("Parsed policy:", policy.plan_summary.plan_name);
+ * } catch (error) {
+ *   console.error("Parsing failed:", error.message);
+ * }
+ * ```
+ */
+export async function parsePDF(
+  file: File,
+  options: ParsePDFOptions = {}
+): Promise<ParsedPolicy> {
+  const {
+    onProgress,
+    validate = true,
+    maxFileSize = 10 * 1024 * 1024, // 10MB default
+    force = false,
+    signal,
+  } = options;
+  
+  const operation = "parsePDF";
+  
+  try {
+    console.log("Starting PDF parsing for file:", file.name);
+    
+    // File validation
+    if (!file) {
+      throw createPolicyError(
+        "No file provided for parsing",
+        "INVALID_FILE",
+        operation
+      );
+    }
+    
+    if (!(SBC_DOCUMENT_TYPES as readonly string[]).includes(file.type)) {
+      throw createPolicyError(
+        "File must be a PDF, Word (.docx) or HTML document, or a JPEG, PNG or WebP image",
+        "INVALID_FILE",
+        operation
+      );
+    }
+    
+    if (file.size > maxFileSize) {
+      throw createPolicyError(
+        `File size (${Math.round(file.size / 1024 / 1024)}MB) exceeds maximum allowed size (${Math.round(maxFileSize / 1024 / 1024)}MB)`,
+        "INVALID_FILE",
+        operation
+      );
+    }
+
+    // Progress tracking
+    const updateProgress = (event: ParseProgressEvent) => {
+      console.log(`PDF parsing progress - ${event.message}: ${event.progress}%`);
+      if (onProgress) {
+        onProgress(event.message, event.progress, event);
+      }
+    };
+
+    // Stages 1-4: upload, text extraction, page images and AI structuring report themselves
+    // (or a single cached "upload" event when this file was parsed before)
+    const parsedData = await parseSBCDocument(file, updateProgress, { force, signal });
+
+    // Stage 5: Validation
+    updateProgress({ stage: "validation", message: "Validating results", progress: 90 });
+
+    let validatedPolicy: ParsedPolicy;
+    if (validate) {
+      try {
+        validatedPolicy = ParsedPolicySchema.parse(parsedData);
+      } catch (validationError) {
+        if (validationError instanceof z.ZodError) {
+          throw createPolicyError(
+            `Parsed data validation failed: ${validationError.errors.map(e => e.message).join(", ")}`,
+            "VALIDATION_FAILED",
+            operation,
+            validationError
+          );
+        }
+        throw validationError;
+      }
+    } else {
+      validatedPolicy = parsedData as ParsedPolicy;
+    }
+
+    const warnings = logConsistencyWarnings(file.name, validatedPolicy);
+
+    // Stage 6: Complete
+    updateProgress({
+      stage: "complete",
+      message: warnings.length > 0 ? `Parsing complete with ${warnings.length} consistency warning(s)` : "Parsing complete",
+      progress: 100,
+    });
+
+    console.log("Successfully parsed PDF:", file.name);
+    console.log("Extracted plan:", validatedPolicy.plan_summary.plan_name);
+    
+    return validatedPolicy;
+
+  } catch (error) {
+    console.error(`${operation} failed for ${file?.name}:`, error);
+    
+    if (error instanceof PolicyServiceError) {
+      throw error;
+    }
+    
+    // Handle network/API errors
+    if (error instanceof Error && error.message.includes("fetch")) {
+      throw createPolicyError(
+        "Network error during PDF processing. Please check your connection and try again.",
+        "NETWORK_ERROR",
+        operation,
+        error
+      );
+    }
+    
+    throw createPolicyError(
+      `PDF parsing failed: ${error instanceof Error ? error.message : "Unknown error"}`,
+      "PARSING_FAILED",
+      operation,
+      error
+    );
+  }
+}
+
+/**
+ * Image input for the model: public Vercel Blob URLs are fetched by the provider,
+ * anything else (private or on local disk) is read from the store and sent inline
+ */
+async function toModelImage(blob: StoredBlob): Promise<PageImage> {
+  if (blob.access === "public" && getBlobStore().name === "vercel") {
+    return new URL(blob.url);
+  }
+  const object = await getBlobStore().get(blob.pathname);
+  if (!object) throw new Error(`Page image not found: ${blob.pathname}`);
+  return object.body;
+}
+
+type PageImage = URL | Buffer;
+
+export async function structurePage1(text: string, image: PageImage, language?: SbcLanguage): Promise<{ plan_summary: ParsedPolicy["plan_summary"], important_questions: ParsedPolicy["important_questions"], sources?: { field: typeof PAGE1_SOURCE_FIELDS[number], quote: string, confidence: number }[] }> {
+  return await generateObjectWithAIRetry({
+    model: anthropic("claude-sonnet-4-20250514", { cacheControl: true, }),
+    system: `You are a helpful assistant that extracts structured data from page 1 of a Summary of Benefits and Coverage (SBC) document. Return JSON ONLY.${getExtractionLanguageInstruction(language)}`,
+    messages: [
+      {
+        role: "user",
+        content: [
+          {
+            type: "text",
+            text: `Given this first page of a Summary of Benefits and Coverage (SBC) document, please extract and structure all the relevant details.\nText content:\n${text}`
+          },
+          {
+            type: 'image',
+            image
+          }
+        ]
+      }
+    ],
+    schema: z.object({
+      plan_summary: z.object({
+        plan_name: z.string(),
+        coverage_period: z.object({
+          start_date: z.string(),
+          end_date: z.string()
+        }),
+        coverage_for: z.union([z.enum(["individual", "family", "individual_and_family"]), z.string()]),
+        plan_type: z.union([z.enum(["HMO", "PPO", "EPO", "POS", "HMO-POS", "HMO-EPO", "PPO-EPO", "PPO-POS"]), z.string()]),
+        issuer_name: z.string(),
+        issuer_contact_info: z.object({
+          phone: z.string(),
+          website: z.string()
+        })
+      }),
+      important_questions: z.object({
+        overall_deductible: z.object({
+          individual: z.number().describe("In-network deductible, or the only deductible if the plan lists one amount"),
+          family: z.number(),
+          out_of_network: z.object({
+            individual: z.number(),
+            family: z.number()
+          }).optional().describe("Only when a separate out-of-network deductible is listed"),
+          details: z.string().optional()
+        }),
+        services_covered_before_deductible: z.object({
+          covered: z.boolean(),
+          services: z.array(z.string()),
+          details: z.string().optional()
+        }),
+        deductibles_for_specific_services: z.object({
+          exists: z.boolean(),
+          details: z.string().optional()
+        }),
+        out_of_pocket_limit_for_plan: z.object({
+          individual: z.number().describe("In-network out-of-pocket limit, or the only limit if the plan lists one amount"),
+          family: z.number(),
+          out_of_network: z.object({
+            individual: z.number(),
+            family: z.number()
+          }).optional().describe("Only when a separate out-of-network out-of-pocket limit is listed"),
+          details: z.string().optional()
+        }),
+        not_included_in_out_of_pocket_limit: z.object({
+          services: z.array(z.string()),
+          details: z.string().optional()
+        }),
+        network_provider_savings: z.object({
+          lower_costs: z.boolean(),
+          website: z.string(),
+          phone: z.string(),
+          details: z.string().optional()
+        }),
+        need_referral_for_specialist_care: z.object({
+          required: z.boolean(),
+          details: z.string().optional()
+        })
+      }),
+      sources: z.array(z.object({
+        field: z.enum(PAGE1_SOURCE_FIELDS),
+        quote: z.string().describe("The exact text from the page this field was read from, copied verbatim"),
+        confidence: z.number().min(0).max(1).describe("How confident you are that this field was read correctly, from 0 (guess) to 1 (certain). Lower it for blurry, ambiguous or split table cells")
+      })).describe("Where each field was read from, one entry per field")
+    })
+  });
+}
+
+export async function structurePageWithServices(text: string, image: PageImage, language?: SbcLanguage): Promise<{ network_columns?: string[], services_you_may_need: (ServiceYouMayNeed & { source_quote?: string, confidence?: number, column_values?: string[] })[] }> {
+  return await generateObjectWithAIRetry({
+    model: anthropic("claude-sonnet-4-20250514"),
+    system: `You are a helpful assistant that extracts structured data from a Summary of Benefits and Coverage (SBC) document. Return JSON ONLY.${getExtractionLanguageInstruction(language)}`,
+    messages: [
+      {
+        role: "user",
+        content: [
+          {
+            type: "text",
+            text: `Given this page of a Summary of Benefits and Coverage (SBC) document, please extract and structure all the relevant details.\nText content:\n${text}`
+          },
+          {
+            type: 'image',
+            image
+          }
+        ]
+      }
+    ],
+    schema: z.object({
+      network_columns: z.array(z.string()).describe("Headings of the \"What You Will Pay\" columns, left to right, e.g. [\"Network Provider\", \"Out-of-Network Provider\"] or [\"Tier 1 Provider\", \"Tier 2 Provider\", \"Out-of-Network Provider\"]. Exclude the limitations column"),
+      services_you_may_need: z.array(z.object({
+        name: z.union([z.enum(Object.values(CommonMedicalEventSericeTypes) as [string, ...string[]]), z.string()]),
+        what_you_will_pay: z.object({
+          network_provider: z.string(),
+          out_of_network_provider: z.string(),
+          limitations_exceptions_and_other_important_information: z.string().describe("This is on the right most column of the table. Duplicate this for each row it applies to in the table.")
+        }).describe("With more than two network columns, network_provider is the first in-network tier and out_of_network_provider the out-of-network column"),
+        column_values: z.array(z.string()).describe("This row's text under each of network_columns, in the same order"),
+        source_quote: z.string().describe("The exact text of this service's row in the table, copied verbatim from the text content"),
+        confidence: z.number().min(0).max(1).describe("How confident you are that this row was read correctly, from 0 (guess) to 1 (certain). Lower it for blurry, ambiguous or split table cells")
+      }))
+    })
+  });
+}
+
+export async function structureExcludedAndOtherCoveredServices({
+  pages_text,
+  file,
+  images = [],
+  language
+}: {
+  pages_text: string[],
+  file: File,
+  /** Page images to send instead of the file when it isn't a PDF */
+  images?: PageImage[],
+  language?: SbcLanguage
+}): Promise<ParsedPolicy["excluded_and_other_covered_services"]> {
+  const file_buffer = await file.arrayBuffer();
+  const combined_text = pages_text.join('\n');
+  return await generateObjectWithAIRetry({
+    model: anthropic("claude-sonnet-4-20250514"),
+    system: `You are a helpful assistant that extracts structured data from a Summary of Benefits and Coverage (SBC) document. Return JSON ONLY.${getExtractionLanguageInstruction(language)}`,
+    messages: [
+      {
+        role: "user",
+        content: [
+          {
+            type: "text",
+            text: `Given this part of a Summary of Benefits and Coverage (SBC) document, please extract and structure all the relevant details.\nText content:\n${combined_text}`
+          },
+          ...(images.length > 0
+            ? images.map(image => ({ type: "image", image }))
+            : [{ type: "file", data: file_buffer, mimeType: "application/pdf" }])
+        ]
+      }
+    ],
+    schema: z.object({
+      excluded_services: z.array(z.string()),
+      other_covered_services: z.array(z.string())
+    })
+  }); 
+}
+
+export async function structureCoverageExamples(text: string, image: PageImage, language?: SbcLanguage): Promise<{ coverage_examples: CoverageExample[] }> {
+  return await generateObjectWithAIRetry({
+    model: anthropic("claude-sonnet-4-20250514"),
+    system: `You are a helpful assistant that extracts structured data from a Summary of Benefits and Coverage (SBC) document. Return JSON ONLY.${getExtractionLanguageInstruction(language)}`,
+    messages: [
+      {
+        role: "user",
+        content: [
+          {
+            type: "text",
+            text: `Given the Coverage Examples page of a Summary of Benefits and Coverage (SBC) document, extract every example ("Peg is Having a Baby", "Managing Joe's Type 2 Diabetes", "Mia's Simple Fracture").
+Use scenario "having_a_baby", "managing_type_2_diabetes" or "simple_fracture" for the standard examples. Amounts are in dollars without formatting; coinsurance percentages are numbers (20 for 20%).\nText content:\n${text}`
+          },
+          {
+            type: 'image',
+            image
+          }
+        ]
+      }
+    ],
+    schema: z.object({
+      coverage_examples: z.array(CoverageExampleSchema)
+    })
+  });
+}
@@ -0,0 +1,484 @@
+/**
+ * Accumulator Service - Per-member and family deductible tracking
+ *
+ * This service keeps track of what each household member has spent toward the
+ * deductible and out-of-pocket limit, derives family totals, and works out how
+ * much each member still owes before cost sharing changes. Whether the family
+ * deductible is embedded or aggregate is read from the policy's SBC wording.
+ *
+ * Key features:
+ * - Embedded vs. aggregate family rules derived from important_questions
+ * - Per-member accumulators keyed by PersonHealthInfo id
+ * - Family totals computed from member spending
+ * - Remaining amounts as the lesser of individual and family balances
+ * - Separate in-network and out-of-network tiers when the SBC lists both
+ * - Active-member switching that keeps top-level settings in sync
+ */
+
+import type {
+  AdjudicationAccumulators,
+  ClaimNetwork,
+  InsuranceSettings,
+  MemberAccumulators,
+  ParsedPolicy,
+} from "@/types/schemas";
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+/**
+ * How individual and family accumulators interact
+ * - embedded: each member meets their own individual amount, capped by the family amount
+ * - aggregate: with family coverage, only the family amount applies
+ */
+export type FamilyAccumulatorRule = "embedded" | "aggregate";
+
+/**
+ * Deductible and out-of-pocket limits that apply to a claim
+ */
+export interface AccumulatorLimits {
+  deductible: number;
+  outOfPocket: number;
+  familyDeductible: number;
+  familyOutOfPocket: number;
+  deductibleRule: FamilyAccumulatorRule;
+  outOfPocketRule: FamilyAccumulatorRule;
+}
+
+/**
+ * Remaining balances for one member
+ */
+export interface RemainingAccumulators {
+  /** Deductible the member still pays before the plan shares costs */
+  deductible: number;
+  /** Out-of-pocket spending left before the plan pays 100% */
+  outOfPocket: number;
+  /** Remaining toward the member's individual deductible */
+  individualDeductible: number;
+  /** Remaining toward the family deductible */
+  familyDeductible: number;
+  /** Remaining toward the member's individual out-of-pocket limit */
+  individualOutOfPocket: number;
+  /** Remaining toward the family out-of-pocket limit */
+  familyOutOfPocket: number;
+  deductibleRule: FamilyAccumulatorRule;
+  outOfPocketRule: FamilyAccumulatorRule;
+  /** Whether more than one member is tracked */
+  familyCoverage: boolean;
+}
+
+/**
+ * Settings fields that carry accumulator state
+ */
+export type AccumulatorSettings = Pick<
+  InsuranceSettings,
+  | "deductibleSpent"
+  | "outOfPocketSpent"
+  | "outOfNetworkDeductibleSpent"
+  | "outOfNetworkOutOfPocketSpent"
+  | "activeMemberId"
+  | "memberAccumulators"
+>;
+
+/**
+ * Deductible and out-of-pocket spending within one network tier
+ */
+export interface TierSpending {
+  deductibleSpent: number;
+  outOfPocketSpent: number;
+}
+
+// =============================================================================
+// FAMILY RULES
+// =============================================================================
+
+/**
+ * Read the family rule from an SBC "details" answer
+ *
+ * Standard SBC language for embedded plans says each family member must meet
+ * their own individual amount; aggregate plans say the overall family amount
+ * must be met. Embedded is assumed when the wording is silent.
+ */
+function detectFamilyRule(details: string | undefined): FamilyAccumulatorRule {
+  const text = (details ?? "").toLowerCase();
+  if (/non-?embedded|aggregate/.test(text)) return "aggregate";
+  if (/each (?:family )?member must meet|own individual|embedded/.test(text)) return "embedded";
+  if (/(?:overall|entire|whole) family (?:deductible|out-of-pocket limit) (?:must be met|is met) before/.test(text)) return "aggregate";
+  return "embedded";
+}
+
+/**
+ * Determine whether the policy's family deductible is embedded or aggregate
+ *
+ * @param policy Parsed policy data
+ * @returns Family rule derived from important_questions.overall_deductible
+ */
+export function getFamilyDeductibleRule(policy: ParsedPolicy): FamilyAccumulatorRule {
+  return detectFamilyRule(policy.important_questions.overall_deductible.details);
+}
+
+/**
+ * Determine whether the policy's family out-of-pocket limit is embedded or aggregate
+ *
+ * @param policy Parsed policy data
+ * @returns Family rule derived from important_questions.out_of_pocket_limit_for_plan
+ */
+export function getFamilyOutOfPocketRule(policy: ParsedPolicy): FamilyAccumulatorRule {
+  return detectFamilyRule(policy.important_questions.out_of_pocket_limit_for_plan.details);
+}
+
+// =============================================================================
+// NETWORK TIERS
+// =============================================================================
+
+/**
+ * Check whether the policy lists separate out-of-network deductible or out-of-pocket limits
+ */
+export function hasSeparateOutOfNetworkLimits(policy: ParsedPolicy): boolean {
+  const { overall_deductible, out_of_pocket_limit_for_plan } = policy.important_questions;
+  return Boolean(overall_deductible.out_of_network || out_of_pocket_limit_for_plan.out_of_network);
+}
+
+/**
+ * Get the accumulator tier a service in the given network counts toward
+ *
+ * Plans without separate out-of-network limits track every provider
+ * against the same (in-network) accumulators.
+ *
+ * @param policy Parsed policy data
+ * @param network Network of the provider rendering the service
+ */
+export function getAccumulatorNetwork(policy: ParsedPolicy, network: ClaimNetwork): ClaimNetwork {
+  return network === "out_of_network" && hasSeparateOutOfNetworkLimits(policy)
+    ? "out_of_network"
+    : "in_network";
+}
+
+/**
+ * Get the deductible and out-of-pocket limits used for a claim
+ *
+ * @param policy Parsed policy data
+ * @param network Network of the provider rendering the service
+ * @returns Individual and family limits of the applicable tier with their family rules
+ */
+export function getAccumulatorLimits(
+  policy: ParsedPolicy,
+  network: ClaimNetwork = "in_network"
+): AccumulatorLimits {
+  const { overall_deductible, out_of_pocket_limit_for_plan } = policy.important_questions;
+  const outOfNetwork = getAccumulatorNetwork(policy, network) === "out_of_network";
+  const deductible = (outOfNetwork && overall_deductible.out_of_network) || overall_deductible;
+  const outOfPocket = (outOfNetwork && out_of_pocket_limit_for_plan.out_of_network) || out_of_pocket_limit_for_plan;
+  return {
+    deductible: deductible.individual,
+    outOfPocket: outOfPocket.individual,
+    familyDeductible: deductible.family,
+    familyOutOfPocket: outOfPocket.family,
+    deductibleRule: getFamilyDeductibleRule(policy),
+    outOfPocketRule: getFamilyOutOfPocketRule(policy),
+  };
+}
+
+// =============================================================================
+// MEMBER AND FAMILY ACCUMULATORS
+// =============================================================================
+
+const EMPTY_MEMBER: MemberAccumulators = { deductibleSpent: 0, outOfPocketSpent: 0 };
+
+/**
+ * Read the active member's accumulators from the top-level settings fields
+ */
+function getTopLevelAccumulators(settings: AccumulatorSettings): MemberAccumulators {
+  return {
+    deductibleSpent: settings.deductibleSpent,
+    outOfPocketSpent: settings.outOfPocketSpent,
+    ...(settings.outOfNetworkDeductibleSpent !== undefined && { outOfNetworkDeductibleSpent: settings.outOfNetworkDeductibleSpent }),
+    ...(settings.outOfNetworkOutOfPocketSpent !== undefined && { outOfNetworkOutOfPocketSpent: settings.outOfNetworkOutOfPocketSpent }),
+  };
+}
+
+/**
+ * Pick the spending of one network tier from a member's accumulators
+ */
+function getTierSpending(member: MemberAccumulators, network: ClaimNetwork): TierSpending {
+  return network === "out_of_network"
+    ? { deductibleSpent: member.outOfNetworkDeductibleSpent ?? 0, outOfPocketSpent: member.outOfNetworkOutOfPocketSpent ?? 0 }
+    : { deductibleSpent: member.deductibleSpent, outOfPocketSpent: member.outOfPocketSpent };
+}
+
+/**
+ * Get every member's accumulators, with the active member taken from the top-level fields
+ */
+function getAllMemberAccumulators(settings: AccumulatorSettings): Record<string, MemberAccumulators> {
+  const members = { ...settings.memberAccumulators };
+  if (settings.activeMemberId) {
+    members[settings.activeMemberId] = getTopLevelAccumulators(settings);
+  }
+  return members;
+}
+
+/**
+ * Get a member's spending this plan year within one network tier
+ *
+ * @param settings Current insurance settings
+ * @param memberId Member to look up (defaults to the active member)
+ * @param network Accumulator tier to read
+ * @returns The member's spending, or zero for unknown members
+ */
+export function getMemberAccumulators(
+  settings: AccumulatorSettings,
+  memberId: string | undefined = settings.activeMemberId,
+  network: ClaimNetwork = "in_network"
+): TierSpending {
+  const member = !memberId || memberId === settings.activeMemberId
+    ? getTopLevelAccumulators(settings)
+    : settings.memberAccumulators?.[memberId] ?? EMPTY_MEMBER;
+  return getTierSpending(member, network);
+}
+
+/**
+ * Get household spending toward the family deductible and out-of-pocket limit
+ *
+ * @param settings Current insurance settings
+ * @param network Accumulator tier to total
+ * @returns Sum of all members' spending in the tier
+ */
+export function getFamilyAccumulators(
+  settings: AccumulatorSettings,
+  network: ClaimNetwork = "in_network"
+): TierSpending {
+  const members = Object.values(getAllMemberAccumulators(settings));
+  if (members.length === 0) {
+    return getTierSpending(getTopLevelAccumulators(settings), network);
+  }
+  return members.reduce<TierSpending>(
+    (total, member) => {
+      const spending = getTierSpending(member, network);
+      return {
+        deductibleSpent: total.deductibleSpent + spending.deductibleSpent,
+        outOfPocketSpent: total.outOfPocketSpent + spending.outOfPocketSpent,
+      };
+    },
+    { deductibleSpent: 0, outOfPocketSpent: 0 }
+  );
+}
+
+/**
+ * Check whether more than one household member is tracked
+ */
+export function hasFamilyCoverage(settings: AccumulatorSettings): boolean {
+  return Object.keys(getAllMemberAccumulators(settings)).length > 1;
+}
+
+/**
+ * Build the member and family balances a claim starts from
+ *
+ * @param settings Current insurance settings
+ * @param memberId Patient the claim belongs to (defaults to the active member)
+ * @param network Accumulator tier the claim counts toward
+ */
+export function getClaimAccumulators(
+  settings: AccumulatorSettings,
+  memberId?: string,
+  network: ClaimNetwork = "in_network"
+): AdjudicationAccumulators {
+  const member = getMemberAccumulators(settings, memberId, network);
+  const family = getFamilyAccumulators(settings, network);
+  return {
+    deductibleSpent: member.deductibleSpent,
+    outOfPocketSpent: member.outOfPocketSpent,
+    familyDeductibleSpent: family.deductibleSpent,
+    familyOutOfPocketSpent: family.outOfPocketSpent,
+  };
+}
+
+// =============================================================================
+// REMAINING AMOUNTS
+// =============================================================================
+
+function remainingFor(
+  individualLimit: number,
+  familyLimit: number,
+  memberSpent: number,
+  familySpent: number,
+  rule: FamilyAccumulatorRule,
+  familyCoverage: boolean
+): { individual: number; family: number; remaining: number } {
+  const individual = Math.max(0, individualLimit - memberSpent);
+  const family = Math.max(0, familyLimit - familySpent);
+  if (!familyCoverage || familyLimit <= 0) {
+    return { individual, family, remaining: individual };
+  }
+  return { individual, family, remaining: rule === "aggregate" ? family : Math.min(individual, family) };
+}
+
+/**
+ * Compute remaining balances from limits and running accumulators
+ *
+ * @param limits Policy limits and family rules
+ * @param accumulators Member and family spending
+ * @param familyCoverage Whether family limits apply
+ */
+export function computeRemaining(
+  limits: AccumulatorLimits,
+  accumulators: AdjudicationAccumulators,
+  familyCoverage: boolean
+): RemainingAccumulators {
+  const deductible = remainingFor(
+    limits.deductible,
+    limits.familyDeductible,
+    accumulators.deductibleSpent,
+    accumulators.familyDeductibleSpent,
+    limits.deductibleRule,
+    familyCoverage
+  );
+  const outOfPocket = remainingFor(
+    limits.outOfPocket,
+    limits.familyOutOfPocket,
+    accumulators.outOfPocketSpent,
+    accumulators.familyOutOfPocketSpent,
+    limits.outOfPocketRule,
+    familyCoverage
+  );
+  return {
+    deductible: deductible.remaining,
+    outOfPocket: outOfPocket.remaining,
+    individualDeductible: deductible.individual,
+    familyDeductible: deductible.family,
+    individualOutOfPocket: outOfPocket.individual,
+    familyOutOfPocket: outOfPocket.family,
+    deductibleRule: limits.deductibleRule,
+    outOfPocketRule: limits.outOfPocketRule,
+    familyCoverage,
+  };
+}
+
+/**
+ * Get a member's remaining deductible and out-of-pocket balances
+ *
+ * @param policy Parsed policy data
+ * @param settings Current insurance settings
+ * @param memberId Member to evaluate (defaults to the active member)
+ * @param network Network of the provider; selects the out-of-network tier when the plan has one
+ * @returns Remaining balances, taking the family rule into account
+ *
+ * @example
+ * ```typescript
+ * const remaining = getRemainingAccumulators(policy, settings, "child-1", "out_of_network");
+ * console.log(remaining.deductible, remaining.deductibleRule);
+ * ```
+ */
+export function getRemainingAccumulators(
+  policy: ParsedPolicy,
+  settings: AccumulatorSettings,
+  memberId?: string,
+  network: ClaimNetwork = "in_network"
+): RemainingAccumulators {
+  return computeRemaining(
+    getAccumulatorLimits(policy, network),
+    getClaimAccumulators(settings, memberId, getAccumulatorNetwork(policy, network)),
+    hasFamilyCoverage(settings)
+  );
+}
+
+// =============================================================================
+// SETTINGS HELPERS
+// =============================================================================
+
+/**
+ * Map a member's accumulators onto the top-level settings fields
+ */
+function withTopLevelAccumulators(member: MemberAccumulators): Omit<AccumulatorSettings, "activeMemberId" | "memberAccumulators"> {
+  return {
+    deductibleSpent: member.deductibleSpent,
+    outOfPocketSpent: member.outOfPocketSpent,
+    outOfNetworkDeductibleSpent: member.outOfNetworkDeductibleSpent ?? 0,
+    outOfNetworkOutOfPocketSpent: member.outOfNetworkOutOfPocketSpent ?? 0,
+  };
+}
+
+/**
+ * Mirror the top-level spending into the active member's accumulators
+ *
+ * @param settings Settings whose top-level spending may have changed
+ * @returns Settings with memberAccumulators in sync
+ */
+export function syncActiveMember<T extends AccumulatorSettings>(settings: T): T {
+  if (!settings.activeMemberId) return settings;
+  return { ...settings, memberAccumulators: getAllMemberAccumulators(settings) };
+}
+
+/**
+ * Switch which member the top-level spending fields describe
+ *
+ * @param settings Current insurance settings
+ * @param memberId Member to make active
+ * @returns Settings with the previous member's spending stored and the new member's loaded
+ */
+export function setActiveMember<T extends AccumulatorSettings>(settings: T, memberId: string): T {
+  const memberAccumulators = getAllMemberAccumulators(settings);
+  const next = memberAccumulators[memberId] ?? EMPTY_MEMBER;
+  return {
+    ...settings,
+    ...withTopLevelAccumulators(next),
+    activeMemberId: memberId,
+    memberAccumulators: { ...memberAccumulators, [memberId]: next },
+  };
+}
+
+/**
+ * Align tracked members with the household's member list
+ *
+ * New members start at zero spending, removed members are dropped, and the
+ * first member becomes active when the active member is no longer present.
+ *
+ * @param settings Current insurance settings
+ * @param memberIds PersonHealthInfo ids of the household
+ * @returns Settings tracking exactly the given members
+ */
+export function syncMembers<T extends AccumulatorSettings>(settings: T, memberIds: string[]): T {
+  if (memberIds.length === 0) return settings;
+
+  const existing = getAllMemberAccumulators(settings);
+  // Spending entered before any member was tracked belongs to the first member
+  if (!settings.activeMemberId) {
+    existing[memberIds[0]] = existing[memberIds[0]] ?? getTopLevelAccumulators(settings);
+  }
+
+  const memberAccumulators = Object.fromEntries(
+    memberIds.map(id => [id, existing[id] ?? EMPTY_MEMBER])
+  );
+  const activeMemberId = settings.activeMemberId && memberIds.includes(settings.activeMemberId)
+    ? settings.activeMemberId
+    : memberIds[0];
+
+  return {
+    ...settings,
+    ...withTopLevelAccumulators(memberAccumulators[activeMemberId]),
+    activeMemberId,
+    memberAccumulators,
+  };
+}
+
+/**
+ * Replace every member's spending, e.g. with totals derived from processed claims
+ *
+ * @param settings Current insurance settings
+ * @param memberAccumulators Spending of each tracked member; the active member's is also
+ *   copied to the top-level fields. Without an active member, pass it under "".
+ * @returns Settings with the given spending
+ */
+export function setMemberAccumulators<T extends AccumulatorSettings>(
+  settings: T,
+  memberAccumulators: Record<string, MemberAccumulators>
+): T {
+  if (!settings.activeMemberId) {
+    return { ...settings, ...withTopLevelAccumulators(memberAccumulators[""] ?? EMPTY_MEMBER) };
+  }
+  return {
+    ...settings,
+    ...withTopLevelAccumulators(memberAccumulators[settings.activeMemberId] ?? EMPTY_MEMBER),
+    memberAccumulators,
+  };
+}
@@ -0,0 +1,394 @@
+/**
+ * Adjudication Service - Deterministic claim pricing against a parsed policy
+ *
+ * This service computes what a patient owes for a set of billed line items
+ * using the policy's parsed cost-sharing rules and the user's current
+ * accumulators. It replaces AI-estimated dollar amounts with reproducible
+ * arithmetic; AI operations may narrate the result but never produce it.
+ *
+ * Key features:
+ * - Deductible, copayment and coinsurance applied in SBC order
+ * - Per-unit copays with unit limits ("$350 / day up to 5 days")
+ * - Coinsurance caps ("20% coinsurance up to $250 / prescription")
+ * - Visit-count exceptions ("First three visits are $0")
+ * - Out-of-pocket maximum capping with running accumulators
+ * - Embedded and aggregate family deductibles via the AccumulatorService
+ * - Separate in-network and out-of-network accumulators when the plan has them
+ * - Pricing in a selected network tier for multi-tier plans
+ * - Human-readable explanation trace for every line item
+ */
+
+import {
+  computeRemaining,
+  getAccumulatorLimits,
+  getAccumulatorNetwork,
+  getClaimAccumulators,
+  hasFamilyCoverage,
+  hasSeparateOutOfNetworkLimits,
+  type AccumulatorLimits,
+  type AccumulatorSettings,
+} from "@/lib/services/accumulator-service";
+import {
+  getApplicableRule,
+  getNetworkColumn,
+  getServiceCostSharing,
+  parsePolicyCostSharing,
+} from "@/lib/services/cost-sharing-service";
+import { applyNetworkTier } from "@/lib/services/network-tier-service";
+import {
+  ClaimLineItemSchema,
+  type AdjudicatedLineItem,
+  type AdjudicationAccumulators,
+  type AdjudicationResult,
+  type ClaimLineItem,
+  type ClaimLineItemInput,
+  type ClaimNetwork,
+  type CostSharingRule,
+  type MedicalServiceType,
+  type NetworkAccumulators,
+  type ParsedPolicy,
+  type PolicyCostSharing,
+} from "@/types/schemas";
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+/**
+ * Options for claim adjudication
+ */
+export interface AdjudicationOptions {
+  /** Visits already used this plan year per service, for visit-count exceptions */
+  priorVisits?: Partial<Record<MedicalServiceType, number>>;
+  /** Pre-parsed cost-sharing rules, to avoid re-parsing the policy for every claim */
+  costSharing?: PolicyCostSharing;
+  /** Household member the claim belongs to (defaults to the active member) */
+  memberId?: string;
+  /** NetworkTier id whose cost sharing prices the claim (defaults to the standard columns) */
+  networkTier?: string;
+}
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+function roundCents(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+const currencyFormat = new Intl.NumberFormat("en-US", { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+function formatCurrency(amount: number): string {
+  return `$${currencyFormat.format(amount)}`;
+}
+
+/**
+ * Resolve a visit-count exception for the next visit, if one applies
+ */
+function applyVisitException(
+  rule: CostSharingRule,
+  visitNumber: number
+): { visits: number; copay_amount: number; deductible_applies: boolean; coinsurance_rate: number; source_text: string } | null {
+  const exception = rule.visit_exceptions.find(candidate => visitNumber <= candidate.visits);
+  if (!exception) return null;
+  return {
+    visits: exception.visits,
+    copay_amount: exception.copay_amount,
+    deductible_applies: exception.deductible_applies,
+    coinsurance_rate: 0,
+    source_text: exception.source_text,
+  };
+}
+
+/**
+ * Combine the priced parts of a line that was split at a visit limit
+ */
+function mergeLineParts(lineItem: ClaimLineItem, parts: AdjudicatedLineItem[], trace: string[]): AdjudicatedLineItem {
+  const sum = (key: "deductible" | "copay" | "coinsurance" | "not_covered" | "out_of_pocket_max_savings" | "patient_responsibility" | "plan_paid") =>
+    roundCents(parts.reduce((total, part) => total + part[key], 0));
+
+  return {
+    line_item: lineItem,
+    covered: parts.some(part => part.covered),
+    rule_source_text: parts[0].rule_source_text,
+    deductible: sum("deductible"),
+    copay: sum("copay"),
+    coinsurance: sum("coinsurance"),
+    not_covered: sum("not_covered"),
+    out_of_pocket_max_savings: sum("out_of_pocket_max_savings"),
+    patient_responsibility: sum("patient_responsibility"),
+    plan_paid: sum("plan_paid"),
+    trace: [...trace, ...parts.flatMap(part => part.trace)],
+  };
+}
+
+function emptyLine(lineItem: ClaimLineItem, trace: string[]): AdjudicatedLineItem {
+  return {
+    line_item: lineItem,
+    covered: true,
+    deductible: 0,
+    copay: 0,
+    coinsurance: 0,
+    not_covered: 0,
+    out_of_pocket_max_savings: 0,
+    patient_responsibility: 0,
+    plan_paid: lineItem.allowed_amount,
+    trace,
+  };
+}
+
+function notCoveredLine(lineItem: ClaimLineItem, trace: string[], rule_source_text?: string): AdjudicatedLineItem {
+  return {
+    ...emptyLine(lineItem, trace),
+    covered: false,
+    rule_source_text,
+    not_covered: lineItem.allowed_amount,
+    patient_responsibility: lineItem.allowed_amount,
+    plan_paid: 0,
+  };
+}
+
+// =============================================================================
+// ADJUDICATION
+// =============================================================================
+
+/**
+ * Price one line item, mutating the running accumulators
+ */
+function adjudicateLineItem(
+  lineItem: ClaimLineItem,
+  limits: AccumulatorLimits,
+  familyCoverage: boolean,
+  costSharing: PolicyCostSharing,
+  accumulators: AdjudicationAccumulators,
+  visitNumber: number
+): AdjudicatedLineItem {
+  const trace: string[] = [];
+  const allowed = lineItem.allowed_amount;
+  const row = getServiceCostSharing(costSharing, lineItem.service_type);
+
+  if (!row) {
+    trace.push(`Policy does not list ${lineItem.service_type}; the full ${formatCurrency(allowed)} is treated as not covered.`);
+    return notCoveredLine(lineItem, trace);
+  }
+
+  const cell = row[getNetworkColumn(lineItem.network === "in_network")];
+  const rule = getApplicableRule(cell, lineItem.label);
+
+  if (!rule) {
+    trace.push(`Could not interpret "${cell.source_text}"; the full ${formatCurrency(allowed)} is treated as not covered.`);
+    return notCoveredLine(lineItem, trace, cell.source_text);
+  }
+
+  // Units past the exception's visit limit are priced separately, as if billed on their own line
+  const exception = applyVisitException(rule, visitNumber);
+  const exceptionUnits = exception ? exception.visits - visitNumber + 1 : 0;
+  if (exception && lineItem.units > exceptionUnits) {
+    const exceptionAllowed = roundCents(allowed * exceptionUnits / lineItem.units);
+    trace.push(`Only ${exceptionUnits} of ${lineItem.units} units fall within the first ${exception.visits} visits; the rest are priced separately.`);
+    const parts = [
+      adjudicateLineItem(
+        { ...lineItem, units: exceptionUnits, allowed_amount: exceptionAllowed },
+        limits, familyCoverage, costSharing, accumulators, visitNumber
+      ),
+      adjudicateLineItem(
+        { ...lineItem, units: lineItem.units - exceptionUnits, allowed_amount: roundCents(allowed - exceptionAllowed) },
+        limits, familyCoverage, costSharing, accumulators, visitNumber + exceptionUnits
+      ),
+    ];
+    return mergeLineParts(lineItem, parts, trace);
+  }
+
+  trace.push(`Applying "${rule.source_text}" (${lineItem.network.replaceAll("_", "-")}).`);
+
+  if (rule.kind === "not_covered") {
+    trace.push(`Service is not covered; patient pays the full ${formatCurrency(allowed)}, which does not count toward the out-of-pocket limit.`);
+    return notCoveredLine(lineItem, trace, rule.source_text);
+  }
+
+  if (rule.kind === "not_applicable") {
+    trace.push("Cost sharing is included in another charge; nothing is owed for this line.");
+    return { ...emptyLine(lineItem, trace), rule_source_text: rule.source_text };
+  }
+
+  const remainingBefore = computeRemaining(limits, accumulators, familyCoverage);
+  const copayAmount = exception?.copay_amount ?? rule.copay_amount ?? 0;
+  const coinsuranceRate = exception?.coinsurance_rate ?? rule.coinsurance_rate ?? 0;
+  const deductibleApplies = exception?.deductible_applies ?? rule.deductible_applies;
+  if (exception) {
+    const visits = lineItem.units > 1 ? `Visits ${visitNumber}–${visitNumber + lineItem.units - 1} fall` : `Visit ${visitNumber} falls`;
+    trace.push(`${visits} under the exception "${exception.source_text}".`);
+  }
+
+  let remaining = allowed;
+
+  // 1. Deductible
+  let deductible = 0;
+  if (deductibleApplies) {
+    const deductibleRemaining = remainingBefore.deductible;
+    deductible = Math.min(remaining, deductibleRemaining);
+    remaining -= deductible;
+    trace.push(deductible > 0
+      ? `${formatCurrency(deductible)} applied to the deductible (${formatCurrency(deductibleRemaining)} remaining before this line).`
+      : "Deductible already met.");
+  } else {
+    trace.push("Deductible does not apply.");
+  }
+
+  // 2. Copayment
+  let copay = 0;
+  if (rule.kind !== "no_charge" && copayAmount > 0 && remaining > 0) {
+    const chargedUnits = rule.unit_limit ? Math.min(lineItem.units, rule.unit_limit) : lineItem.units;
+    copay = Math.min(remaining, copayAmount * chargedUnits);
+    remaining -= copay;
+    trace.push(`Copay of ${formatCurrency(copayAmount)}${rule.unit ? ` / ${rule.unit}` : ""} × ${chargedUnits} = ${formatCurrency(copay)}.`);
+  }
+
+  // 3. Coinsurance
+  let coinsurance = 0;
+  if (rule.kind !== "no_charge" && coinsuranceRate > 0 && remaining > 0) {
+    coinsurance = remaining * coinsuranceRate;
+    if (rule.coinsurance_max !== undefined) {
+      coinsurance = Math.min(coinsurance, rule.coinsurance_max * lineItem.units);
+    }
+    remaining -= coinsurance;
+    trace.push(`Coinsurance of ${Math.round(coinsuranceRate * 100)}% = ${formatCurrency(coinsurance)}.`);
+  }
+
+  // 4. Out-of-pocket maximum
+  const outOfPocketRemaining = remainingBefore.outOfPocket;
+  let savings = 0;
+  let excess = deductible + copay + coinsurance - outOfPocketRemaining;
+  if (excess > 0) {
+    savings = excess;
+    const reduceCoinsurance = Math.min(coinsurance, excess);
+    coinsurance -= reduceCoinsurance;
+    excess -= reduceCoinsurance;
+    const reduceCopay = Math.min(copay, excess);
+    copay -= reduceCopay;
+    excess -= reduceCopay;
+    deductible -= Math.min(deductible, excess);
+    trace.push(`Out-of-pocket limit reached; ${formatCurrency(savings)} is paid by the plan instead.`);
+  }
+
+  const patientResponsibility = roundCents(deductible + copay + coinsurance);
+  accumulators.deductibleSpent = roundCents(accumulators.deductibleSpent + deductible);
+  accumulators.outOfPocketSpent = roundCents(accumulators.outOfPocketSpent + patientResponsibility);
+  accumulators.familyDeductibleSpent = roundCents(accumulators.familyDeductibleSpent + deductible);
+  accumulators.familyOutOfPocketSpent = roundCents(accumulators.familyOutOfPocketSpent + patientResponsibility);
+  trace.push(`Patient owes ${formatCurrency(patientResponsibility)}; plan pays ${formatCurrency(allowed - patientResponsibility)}.`);
+
+  return {
+    line_item: lineItem,
+    covered: true,
+    rule_source_text: rule.source_text,
+    deductible: roundCents(deductible),
+    copay: roundCents(copay),
+    coinsurance: roundCents(coinsurance),
+    not_covered: 0,
+    out_of_pocket_max_savings: roundCents(savings),
+    patient_responsibility: patientResponsibility,
+    plan_paid: roundCents(allowed - patientResponsibility),
+    trace,
+  };
+}
+
+/**
+ * Adjudicate billed line items against a policy
+ *
+ * Line items are processed in order, and each one updates the running
+ * deductible and out-of-pocket accumulators before the next is priced.
+ *
+ * @param policy Parsed policy data
+ * @param settings Current member and family accumulators
+ * @param lineItems Billed services with allowed amounts
+ * @param options Prior visit counts, pre-parsed cost-sharing rules and patient member
+ * @returns Per-line and total patient responsibility with an explanation trace
+ *
+ * @example
+ * ```typescript
+ * const result = adjudicateClaim(policy, settings, [
+ *   { service_type: "emergency_room", allowed_amount: 2400, network: "in_network" },
+ *   { service_type: "imaging", allowed_amount: 900, network: "in_network" },
+ * ]);
+ * console.log(result.totals.patient_responsibility);
+ * console.log(result.trace.join("\n"));
+ * ```
+ */
+export function adjudicateClaim(
+  policy: ParsedPolicy,
+  settings: AccumulatorSettings,
+  lineItems: ClaimLineItemInput[],
+  options: AdjudicationOptions = {}
+): AdjudicationResult {
+  policy = applyNetworkTier(policy, options.networkTier);
+  const costSharing = options.costSharing ?? parsePolicyCostSharing(policy);
+  const visitCounts: Partial<Record<MedicalServiceType, number>> = { ...options.priorVisits };
+  const familyCoverage = hasFamilyCoverage(settings);
+  const separateTiers = hasSeparateOutOfNetworkLimits(policy);
+  const tiers: ClaimNetwork[] = separateTiers ? ["in_network", "out_of_network"] : ["in_network"];
+
+  // Both tiers are always tracked; without separate limits every line maps to in-network
+  const running: Record<ClaimNetwork, AdjudicationAccumulators> = {
+    in_network: getClaimAccumulators(settings, options.memberId, "in_network"),
+    out_of_network: getClaimAccumulators(settings, options.memberId, "out_of_network"),
+  };
+  const limits: Record<ClaimNetwork, AccumulatorLimits> = {
+    in_network: getAccumulatorLimits(policy, "in_network"),
+    out_of_network: getAccumulatorLimits(policy, "out_of_network"),
+  };
+  const snapshot = (): NetworkAccumulators => ({
+    in_network: { ...running.in_network },
+    ...(separateTiers && { out_of_network: { ...running.out_of_network } }),
+  });
+  const accumulators_before = snapshot();
+  const trace: string[] = [];
+
+  for (const tier of tiers) {
+    const start = running[tier];
+    const prefix = separateTiers ? `${tier === "in_network" ? "In-network" : "Out-of-network"} starting` : "Starting";
+    trace.push(
+      `${prefix} accumulators: ${formatCurrency(start.deductibleSpent)} toward the deductible, ${formatCurrency(start.outOfPocketSpent)} toward the out-of-pocket limit.`
+    );
+    if (familyCoverage) {
+      trace.push(
+        `Family accumulators: ${formatCurrency(start.familyDeductibleSpent)} toward the family deductible (${limits[tier].deductibleRule}), ${formatCurrency(start.familyOutOfPocketSpent)} toward the family out-of-pocket limit (${limits[tier].outOfPocketRule}).`
+      );
+    }
+  }
+
+  const adjudicated = lineItems.map(input => {
+    const lineItem = ClaimLineItemSchema.parse(input);
+    const visitNumber = (visitCounts[lineItem.service_type] ?? 0) + 1;
+    visitCounts[lineItem.service_type] = (visitCounts[lineItem.service_type] ?? 0) + lineItem.units;
+
+    const tier = getAccumulatorNetwork(policy, lineItem.network);
+    const line = adjudicateLineItem(lineItem, limits[tier], familyCoverage, costSharing, running[tier], visitNumber);
+    const name = lineItem.description || lineItem.service_type.replaceAll("_", " ");
+    trace.push(`${name} (${formatCurrency(lineItem.allowed_amount)} allowed):`, ...line.trace.map(step => `  ${step}`));
+    return line;
+  });
+
+  const sum = (key: "deductible" | "copay" | "coinsurance" | "not_covered" | "out_of_pocket_max_savings" | "patient_responsibility" | "plan_paid") =>
+    roundCents(adjudicated.reduce((total, line) => total + line[key], 0));
+
+  const totals = {
+    allowed_amount: roundCents(adjudicated.reduce((total, line) => total + line.line_item.allowed_amount, 0)),
+    deductible: sum("deductible"),
+    copay: sum("copay"),
+    coinsurance: sum("coinsurance"),
+    not_covered: sum("not_covered"),
+    out_of_pocket_max_savings: sum("out_of_pocket_max_savings"),
+    patient_responsibility: sum("patient_responsibility"),
+    plan_paid: sum("plan_paid"),
+  };
+  trace.push(`Total patient responsibility: ${formatCurrency(totals.patient_responsibility)} of ${formatCurrency(totals.allowed_amount)} allowed.`);
+
+  return {
+    line_items: adjudicated,
+    totals,
+    accumulators_before,
+    accumulators_after: snapshot(),
+    trace,
+  };
+}
@@ -0,0 +1,593 @@
+/**
+ * Bill Analysis Service - Itemized provider bills checked against the policy
+ *
+ * An itemized bill lists every charge with its CPT or HCPCS procedure code
+ * (and a revenue code on hospital bills). Each charge is mapped to the SBC
+ * service it falls under, priced with the AdjudicationService, and checked for
+ * the billing problems patients most often overpay for.
+ *
+ * Key features:
+ * - CPT, HCPCS and revenue codes mapped to "Services You May Need" rows
+ * - Facility and physician charges told apart, inpatient stays billed as one facility fee
+ * - Patient share estimated with the member's current accumulators, one visit per service and date
+ * - Duplicate charges and repeated same-day office visits flagged
+ * - Services the SBC covers before the deductible flagged
+ * - Preventive services that should cost nothing in-network flagged
+ */
+
+import { getAccumulatorLimits, type AccumulatorSettings } from "@/lib/services/accumulator-service";
+import { adjudicateClaim, type AdjudicationOptions } from "@/lib/services/adjudication-service";
+import {
+  getApplicableRule,
+  getNetworkColumn,
+  getServiceCostSharing,
+  parsePolicyCostSharing,
+} from "@/lib/services/cost-sharing-service";
+import { applyNetworkTier } from "@/lib/services/network-tier-service";
+import type {
+  AdjudicatedLineItem,
+  AdjudicationResult,
+  ClaimLineItemInput,
+  ClaimNetwork,
+  ItemizedBill,
+  ItemizedBillLine,
+  MedicalServiceType,
+  ParsedPolicy,
+  PolicyCostSharing,
+} from "@/types/schemas";
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+/**
+ * Code set of a line's procedure code
+ */
+export type ProcedureCodeSystem = "cpt" | "hcpcs" | "none";
+
+/**
+ * Kinds of billing problems the analyzer looks for
+ */
+export type BillFlagKind = "duplicate_charge" | "covered_before_deductible" | "preventive_should_be_free";
+
+/**
+ * A billing problem worth raising with the provider or insurer
+ */
+export interface BillFlag {
+  kind: BillFlagKind;
+  /** Lines of the bill the flag is about */
+  lineIndexes: number[];
+  message: string;
+}
+
+/**
+ * One charge of the bill with the SBC service it falls under and its estimated cost
+ */
+export interface AnalyzedBillLine {
+  /** Position of the line on the bill */
+  index: number;
+  line: ItemizedBillLine;
+  /** Procedure code without modifiers, upper-cased */
+  code?: string;
+  codeSystem: ProcedureCodeSystem;
+  /** SBC service the charge falls under, null when the codes don't say */
+  serviceType: MedicalServiceType | null;
+  preventive: boolean;
+  /** Earlier line this one repeats; duplicates aren't priced */
+  duplicateOf?: number;
+  /** Pricing of the visit the line starts, when its service is listed on the SBC */
+  estimate?: AdjudicatedLineItem;
+  /** Earlier line whose estimate includes this one (same service and date of service) */
+  pricedWith?: number;
+}
+
+/**
+ * Dollar totals of an analyzed bill
+ */
+export interface BillAnalysisTotals {
+  billed: number;
+  /** Charges repeating an earlier line */
+  duplicates: number;
+  /** Charges that couldn't be matched to a service on the SBC */
+  unpriced: number;
+  /** Estimated patient share of the priced charges */
+  estimatedPatientResponsibility: number;
+}
+
+/**
+ * Result of checking an itemized bill against a policy
+ */
+export interface BillAnalysis {
+  network: ClaimNetwork;
+  lines: AnalyzedBillLine[];
+  flags: BillFlag[];
+  totals: BillAnalysisTotals;
+  /** Adjudication of the priced lines, null when none could be priced */
+  adjudication: AdjudicationResult | null;
+}
+
+/**
+ * Options for analyzing a bill
+ */
+export interface BillAnalysisOptions extends Pick<AdjudicationOptions, "memberId" | "networkTier" | "priorVisits"> {
+  /** Network the provider is in (defaults to in-network) */
+  network?: ClaimNetwork;
+}
+
+// =============================================================================
+// CODE MAPPING
+// =============================================================================
+
+/** Stand-in for charges that are a facility or physician fee depending on where the care happened */
+type Procedure = "procedure";
+
+type CodeRange = [from: string, to: string, serviceType: MedicalServiceType | Procedure];
+
+/**
+ * USPSTF, ACIP and HRSA preventive services, billed without cost sharing in-network
+ */
+const PREVENTIVE_CODE_RANGES: [from: string, to: string][] = [
+  ["99381", "99387"], // New patient preventive visit
+  ["99391", "99397"], // Established patient preventive visit
+  ["99401", "99404"], // Preventive counseling
+  ["99406", "99409"], // Tobacco and alcohol cessation counseling
+  ["99411", "99412"],
+  ["G0402", "G0402"], // Welcome to Medicare visit
+  ["G0438", "G0439"], // Annual wellness visit
+  ["G0442", "G0444"], // Alcohol misuse and depression screening
+  ["G0446", "G0447"], // Cardiovascular and obesity counseling
+  ["90460", "90461"], // Immunization administration
+  ["90471", "90474"],
+  ["90476", "90759"], // Vaccines
+  ["77063", "77063"], // Screening mammography
+  ["77067", "77067"],
+  ["G0101", "G0101"], // Cervical cancer screening
+  ["Q0091", "Q0091"],
+  ["G0104", "G0105"], // Screening colonoscopy and sigmoidoscopy
+  ["G0121", "G0121"],
+  ["82270", "82270"], // Fecal occult blood test
+  ["81528", "81528"], // Stool DNA test
+  ["71271", "71271"], // Lung cancer screening CT
+  ["76706", "76706"], // Abdominal aortic aneurysm screening
+  ["92551", "92551"], // Hearing screening
+  ["96110", "96110"], // Developmental screening
+  ["96160", "96161"], // Health risk assessment
+  ["99173", "99173"], // Vision screening
+];
+
+/** Modifiers that mark a service as preventive */
+const PREVENTIVE_MODIFIERS = ["33", "PT"];
+
+/** Modifiers that mark a repeated service as intentional, not a duplicate */
+const REPEAT_MODIFIERS = ["59", "76", "77", "91", "XE", "XP", "XS", "XU"];
+
+const PREVENTIVE_DESCRIPTION = /\b(preventive|preventative|screening|well[- ](child|woman|man|visit|baby)|annual (physical|wellness)|immuni[sz]ation|vaccin)/i;
+
+const ADVANCED_IMAGING_DESCRIPTION = /\b(CT|CTA|MRI|MRA|PET|computed tomograph|magnetic resonance)\b/i;
+
+/**
+ * CPT and HCPCS code ranges, checked in order after the preventive codes
+ */
+const CODE_RANGES: CodeRange[] = [
+  ["99202", "99215", "primary_care_visit"], // Office visits; specialist visits resolved from the provider
+  ["99242", "99245", "specialist_visit"], // Office consultations
+  ["99221", "99239", "hospital_physician_fee"], // Hospital inpatient and observation care
+  ["99251", "99255", "hospital_physician_fee"],
+  ["99281", "99285", "emergency_room"],
+  ["99304", "99318", "skilled_nursing"],
+  ["99341", "99350", "home_health_care"],
+  ["99500", "99602", "home_health_care"],
+  ["59000", "59899", "childbirth_professional"], // Maternity care and delivery
+  ["00100", "01999", "procedure"], // Anesthesia
+  ["10004", "69990", "procedure"], // Surgery
+  ["78000", "79999", "imaging"], // Nuclear medicine, including PET
+  ["70010", "77999", "diagnostic_test"], // Radiology; CT, MRI and PET resolved from the description
+  ["80047", "89398", "diagnostic_test"], // Pathology and laboratory
+  ["90785", "90899", "mental_health_outpatient"], // Psychiatry
+  ["97010", "97799", "rehabilitation_services"], // Physical medicine and rehabilitation
+  ["90281", "99199", "procedure"], // Remaining medicine services (injections, infusions, dialysis, ...)
+  ["A0021", "A0999", "emergency_transport"], // Ambulance
+  ["E0100", "E8002", "durable_medical_equipment"],
+  ["K0001", "K0899", "durable_medical_equipment"],
+  ["L0112", "L9900", "durable_medical_equipment"], // Orthotics and prosthetics
+  ["G0151", "G0162", "home_health_care"],
+  ["G0463", "G0463", "outpatient_facility_fee"], // Hospital outpatient clinic visit
+  ["Q5001", "Q5010", "hospice_services"],
+  ["S9083", "S9088", "urgent_care"],
+  ["J0120", "J9999", "procedure"], // Drugs administered by the provider
+];
+
+/**
+ * Revenue code ranges of hospital bills, checked in order
+ */
+const REVENUE_CODE_RANGES: CodeRange[] = [
+  ["0100", "0219", "hospital_facility_fee"], // Room and board
+  ["0450", "0459", "emergency_room"],
+  ["0720", "0729", "childbirth_facility"], // Labor room and delivery
+  ["0300", "0319", "diagnostic_test"], // Laboratory
+  ["0320", "0329", "diagnostic_test"], // X-ray
+  ["0350", "0359", "imaging"], // CT
+  ["0400", "0409", "imaging"],
+  ["0610", "0619", "imaging"], // MRI
+  ["0420", "0449", "rehabilitation_services"], // Physical, occupational and speech therapy
+  ["0540", "0549", "emergency_transport"],
+  ["0290", "0299", "durable_medical_equipment"],
+  ["0570", "0609", "home_health_care"],
+  ["0650", "0659", "hospice_services"],
+];
+
+/** Office and emergency visit codes billed at most once per day */
+const VISIT_CODE_RANGES: [from: string, to: string][] = [["99202", "99215"], ["99281", "99285"]];
+
+/** Specialties billed under the SBC's primary care row */
+const PRIMARY_CARE_SPECIALTY = /\b(family|general|internal medicine|primary|pediatric|nurse practitioner)/i;
+
+// Codes of a range have the same length, so string comparison orders them numerically
+const inRange = (code: string, from: string, to: string) =>
+  code.length === from.length && code >= from && code <= to;
+
+const findRange = <T extends [string, string, ...unknown[]]>(ranges: T[], code: string) =>
+  ranges.find(([from, to]) => inRange(code, from, to));
+
+/**
+ * Split a procedure code as printed ("99213-25", "g0439") into the code and its modifiers
+ */
+function splitCode(line: ItemizedBillLine): { code?: string; modifiers: string[] } {
+  const [code, ...printedModifiers] = (line.code ?? "").toUpperCase().replace(/\s+/g, "").split(/[-:]/);
+  const modifiers = [...(line.modifiers ?? []), ...printedModifiers].map(modifier => modifier.trim().toUpperCase()).filter(Boolean);
+  return { code: code || undefined, modifiers };
+}
+
+/**
+ * Code set a procedure code belongs to
+ *
+ * @param code Procedure code without modifiers
+ * @returns "cpt" for five-character CPT codes (including Category II and III), "hcpcs" for Level II codes
+ */
+export function getCodeSystem(code: string | undefined): ProcedureCodeSystem {
+  if (!code) return "none";
+  if (/^\d{4}[\dFTU]$/.test(code)) return "cpt";
+  if (/^[A-V]\d{4}$/.test(code)) return "hcpcs";
+  return "none";
+}
+
+/**
+ * Whether a line is a preventive service, from its code, modifiers or description
+ */
+export function isPreventiveLine(line: ItemizedBillLine): boolean {
+  const { code, modifiers } = splitCode(line);
+  if (modifiers.some(modifier => PREVENTIVE_MODIFIERS.includes(modifier))) return true;
+  if (code && getCodeSystem(code) !== "none") {
+    return PREVENTIVE_CODE_RANGES.some(([from, to]) => inRange(code, from, to));
+  }
+  return PREVENTIVE_DESCRIPTION.test(line.description);
+}
+
+/**
+ * Where the billed care happened, read from the bill as a whole
+ */
+interface BillSetting {
+  /** Hospital bill with revenue codes, as opposed to a physician's bill */
+  facility: boolean;
+  inpatient: boolean;
+  emergency: boolean;
+  specialist: boolean;
+}
+
+function getBillSetting(bill: ItemizedBill): BillSetting {
+  const codes = bill.line_items.map(line => splitCode(line).code ?? "");
+  const revenueCodes = bill.line_items.map(line => (line.revenue_code ?? "").replace(/\D/g, "").padStart(4, "0"));
+  const specialty = bill.provider_specialty?.trim();
+  return {
+    facility: bill.line_items.some(line => line.revenue_code?.trim()),
+    inpatient: revenueCodes.some(code => inRange(code, "0100", "0219")) || codes.some(code => inRange(code, "99221", "99239")),
+    emergency: revenueCodes.some(code => inRange(code, "0450", "0459")) || codes.some(code => inRange(code, "99281", "99285")),
+    specialist: !!specialty && !PRIMARY_CARE_SPECIALTY.test(specialty),
+  };
+}
+
+/**
+ * SBC service a line falls under
+ *
+ * @param line Line of the bill
+ * @param setting Where the billed care happened
+ * @returns Service type, or null when neither the codes nor the setting say
+ */
+function getLineServiceType(line: ItemizedBillLine, setting: BillSetting): MedicalServiceType | null {
+  if (isPreventiveLine(line)) return "preventive_care";
+
+  const { code } = splitCode(line);
+  const revenueCode = line.revenue_code?.replace(/\D/g, "").padStart(4, "0");
+  const facilityFee = setting.inpatient ? "hospital_facility_fee" : setting.emergency ? "emergency_room" : "outpatient_facility_fee";
+
+  // Everything a hospital bills for an inpatient stay falls under its facility fee
+  if (revenueCode && setting.inpatient) {
+    return findRange(REVENUE_CODE_RANGES, revenueCode)?.[2] === "childbirth_facility" ? "childbirth_facility" : "hospital_facility_fee";
+  }
+
+  const codeRange = code && getCodeSystem(code) !== "none" ? findRange(CODE_RANGES, code) : undefined;
+  let serviceType = codeRange?.[2] ?? (revenueCode ? findRange(REVENUE_CODE_RANGES, revenueCode)?.[2] ?? facilityFee : undefined);
+  if (!serviceType) return null;
+
+  if (serviceType === "procedure") {
+    serviceType = revenueCode ? facilityFee : setting.inpatient ? "hospital_physician_fee" : "outpatient_physician_fee";
+  }
+  if (serviceType === "primary_care_visit" && setting.specialist) return "specialist_visit";
+  if (serviceType === "mental_health_outpatient" && setting.inpatient) return "mental_health_inpatient";
+  if (serviceType === "diagnostic_test" && code && inRange(code, "70010", "77999") && ADVANCED_IMAGING_DESCRIPTION.test(line.description)) {
+    return "imaging";
+  }
+  return serviceType;
+}
+
+/**
+ * Qualifier picking the matching term of multi-term SBC cells, e.g. "X-ray: $50 / Blood work: $20"
+ */
+function getLineLabel(line: ItemizedBillLine, serviceType: MedicalServiceType): string | undefined {
+  if (serviceType !== "diagnostic_test") return undefined;
+  const { code } = splitCode(line);
+  const revenueCode = line.revenue_code?.replace(/\D/g, "").padStart(4, "0");
+  const radiology = (code && inRange(code, "70010", "79999")) || (revenueCode && inRange(revenueCode, "0320", "0329"));
+  return radiology ? "x-ray" : "blood";
+}
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+const roundCents = (amount: number) => Math.round(amount * 100) / 100;
+
+const formatCurrency = (amount: number) =>
+  new Intl.NumberFormat("en-US", { style: "currency", currency: "USD" }).format(amount);
+
+const describeLine = (line: AnalyzedBillLine) =>
+  `${line.code ? `${line.code} ` : ""}${line.line.description}`;
+
+const listLines = (lines: AnalyzedBillLine[]) =>
+  lines.map(line => `line ${line.index + 1} (${describeLine(line)})`).join(", ");
+
+/**
+ * Days billed for a visit priced per day: the room and board units of a hospital
+ * stay, otherwise the most units on any of its lines
+ */
+function getBilledDays(visitLines: AnalyzedBillLine[]): number {
+  const roomAndBoard = visitLines.filter(line =>
+    inRange((line.line.revenue_code ?? "").replace(/\D/g, "").padStart(4, "0"), "0100", "0219")
+  );
+  return Math.max(...(roomAndBoard.length > 0 ? roomAndBoard : visitLines).map(line => line.line.quantity));
+}
+
+/**
+ * Mark lines repeating an earlier line's code, modifiers, date and charge
+ */
+function markDuplicates(lines: AnalyzedBillLine[]): void {
+  const seen = new Map<string, number>();
+  lines.forEach(analyzed => {
+    const { modifiers } = splitCode(analyzed.line);
+    if (modifiers.some(modifier => REPEAT_MODIFIERS.includes(modifier))) return;
+    const key = [
+      analyzed.code ?? analyzed.line.revenue_code ?? analyzed.line.description.trim().toLowerCase(),
+      [...modifiers].sort().join(","),
+      analyzed.line.service_date ?? "",
+      analyzed.line.quantity,
+      analyzed.line.charge.toFixed(2),
+    ].join("|");
+    const first = seen.get(key);
+    if (first === undefined) {
+      seen.set(key, analyzed.index);
+    } else {
+      analyzed.duplicateOf = first;
+    }
+  });
+}
+
+// =============================================================================
+// FLAGS
+// =============================================================================
+
+function getDuplicateFlags(lines: AnalyzedBillLine[]): BillFlag[] {
+  const flags: BillFlag[] = [];
+
+  const groups = new Map<number, AnalyzedBillLine[]>();
+  lines.forEach(line => {
+    const firstIndex = line.duplicateOf;
+    if (firstIndex === undefined) return;
+    groups.set(firstIndex, [...(groups.get(firstIndex) ?? []), line]);
+  });
+  groups.forEach((repeats, firstIndex) => {
+    const first = lines[firstIndex];
+    flags.push({
+      kind: "duplicate_charge",
+      lineIndexes: [firstIndex, ...repeats.map(line => line.index)],
+      message: `${describeLine(first)} (${formatCurrency(first.line.charge)}${first.line.service_date ? ` on ${first.line.service_date}` : ""}) is billed ${repeats.length + 1} times. Ask the provider whether it was really performed more than once; the repeats are left out of the estimate.`,
+    });
+  });
+
+  // One office or emergency visit per day, and never more than one unit of it
+  const visits = new Map<string, AnalyzedBillLine[]>();
+  lines
+    .filter(line => {
+      const code = line.code;
+      return line.duplicateOf === undefined && !!code && VISIT_CODE_RANGES.some(([from, to]) => inRange(code, from, to));
+    })
+    .forEach(line => {
+      const date = line.line.service_date ?? "";
+      visits.set(date, [...(visits.get(date) ?? []), line]);
+    });
+  visits.forEach((sameDay, date) => {
+    const units = sameDay.reduce((total, line) => total + line.line.quantity, 0);
+    if (units < 2) return;
+    flags.push({
+      kind: "duplicate_charge",
+      lineIndexes: sameDay.map(line => line.index),
+      message: `${units} office or emergency visits are billed${date ? ` on ${date}` : ""}: ${listLines(sameDay)}. A provider bills one visit per day; ask for the extra visit charges to be removed.`,
+    });
+  });
+
+  return flags;
+}
+
+function getDeductibleFlags(
+  lines: AnalyzedBillLine[],
+  policy: ParsedPolicy,
+  network: ClaimNetwork,
+  costSharing: PolicyCostSharing
+): BillFlag[] {
+  if (getAccumulatorLimits(policy, network).deductible <= 0) return [];
+
+  const byService = new Map<MedicalServiceType, AnalyzedBillLine[]>();
+  lines
+    .filter(line => line.serviceType && !line.preventive && line.duplicateOf === undefined)
+    .forEach(line => byService.set(line.serviceType!, [...(byService.get(line.serviceType!) ?? []), line]));
+
+  const flags: BillFlag[] = [];
+  byService.forEach((serviceLines, serviceType) => {
+    const row = getServiceCostSharing(costSharing, serviceType);
+    if (!row) return;
+    const rule = getApplicableRule(row[getNetworkColumn(network === "in_network")], getLineLabel(serviceLines[0].line, serviceType));
+    if (!rule || rule.kind === "not_covered" || rule.kind === "not_applicable") return;
+
+    const exception = rule.visit_exceptions.find(candidate => !candidate.deductible_applies);
+    const sourceText = !rule.deductible_applies ? rule.source_text : exception?.source_text;
+    if (!sourceText) return;
+
+    const service = serviceType.replaceAll("_", " ");
+    const single = serviceLines.length === 1;
+    flags.push({
+      kind: "covered_before_deductible",
+      lineIndexes: serviceLines.map(line => line.index),
+      message: rule.deductible_applies
+        ? `The SBC's ${service} row covers some visits before the deductible ("${sourceText}"). If ${listLines(serviceLines)} ${single ? "is one of them and was" : "are among them and were"} applied to your deductible, ask your insurer to reprocess the claim.`
+        : `The SBC covers ${service} before the deductible ("${sourceText}"), so ${listLines(serviceLines)} shouldn't count toward your deductible. If your EOB applies ${single ? "it" : "them"} there, ask your insurer to reprocess the claim.`,
+    });
+  });
+  return flags;
+}
+
+function getPreventiveFlags(
+  lines: AnalyzedBillLine[],
+  network: ClaimNetwork,
+  costSharing: PolicyCostSharing
+): BillFlag[] {
+  if (network !== "in_network") return [];
+  const preventive = lines.filter(line => line.preventive && line.duplicateOf === undefined && line.line.charge > 0);
+  if (preventive.length === 0) return [];
+
+  // The ACA requires in-network preventive care without cost sharing; only flag when the SBC agrees
+  const row = getServiceCostSharing(costSharing, "preventive_care");
+  const rule = row ? getApplicableRule(row.network_provider) : null;
+  if (rule && rule.kind !== "no_charge") return [];
+
+  return [{
+    kind: "preventive_should_be_free",
+    lineIndexes: preventive.map(line => line.index),
+    message: `${listLines(preventive)} ${preventive.length === 1 ? "is a preventive service" : "are preventive services"}${rule ? ` the SBC covers at "${rule.source_text}"` : ""}. You should owe $0 for ${preventive.length === 1 ? "it" : "them"}; if the bill asks you to pay, ask the provider to rebill ${preventive.length === 1 ? "it" : "them"} as preventive care.`,
+  }];
+}
+
+// =============================================================================
+// ANALYSIS
+// =============================================================================
+
+/**
+ * Check an itemized bill against a policy and estimate what the patient owes
+ *
+ * Billed charges stand in for allowed amounts, so the estimate is the most
+ * the patient should owe; the insurer's negotiated rates are usually lower.
+ * Lines for the same service on the same date of service are priced together
+ * as one visit, on the first of them.
+ * Duplicate charges and lines whose service the SBC doesn't list aren't priced.
+ *
+ * @param policy Parsed policy data
+ * @param settings Current member and family accumulators
+ * @param bill Charges read from the itemized bill
+ * @param options Network, network tier, patient member and prior visits
+ * @returns Lines with their SBC service and estimate, flags and totals
+ *
+ * @example
+ * ```typescript
+ * const analysis = analyzeItemizedBill(policy, settings, bill, { network: settings.isInNetwork ? "in_network" : "out_of_network" });
+ * analysis.flags.forEach(flag => console.log(flag.message));
+ * console.log(analysis.totals.estimatedPatientResponsibility);
+ * ```
+ */
+export function analyzeItemizedBill(
+  policy: ParsedPolicy,
+  settings: AccumulatorSettings,
+  bill: ItemizedBill,
+  options: BillAnalysisOptions = {}
+): BillAnalysis {
+  const { network = "in_network", ...adjudicationOptions } = options;
+  const costSharing = parsePolicyCostSharing(applyNetworkTier(policy, options.networkTier));
+  const setting = getBillSetting(bill);
+
+  const lines: AnalyzedBillLine[] = bill.line_items.map((line, index) => {
+    const { code } = splitCode(line);
+    const serviceType = getLineServiceType(line, setting);
+    return {
+      index,
+      line,
+      code,
+      codeSystem: getCodeSystem(code),
+      serviceType,
+      preventive: serviceType === "preventive_care",
+    };
+  });
+  markDuplicates(lines);
+
+  // Billing units aren't visits: the charges for one service on one date of service are
+  // priced as a single visit, and multiplied only by rules charged per day
+  const visits = new Map<string, AnalyzedBillLine[]>();
+  lines
+    .filter(line => line.duplicateOf === undefined && line.serviceType && getServiceCostSharing(costSharing, line.serviceType))
+    .forEach(line => {
+      const key = [line.serviceType, line.line.service_date ?? "", getLineLabel(line.line, line.serviceType!) ?? ""].join("|");
+      visits.set(key, [...(visits.get(key) ?? []), line]);
+    });
+  const priced = Array.from(visits.values());
+
+  const lineItems: ClaimLineItemInput[] = priced.map(visitLines => {
+    const [first] = visitLines;
+    const serviceType = first.serviceType!;
+    const label = getLineLabel(first.line, serviceType);
+    const row = getServiceCostSharing(costSharing, serviceType)!;
+    const rule = getApplicableRule(row[getNetworkColumn(network === "in_network")], label);
+    return {
+      service_type: serviceType,
+      description: visitLines.map(describeLine).join(", "),
+      allowed_amount: roundCents(visitLines.reduce((total, line) => total + line.line.charge, 0)),
+      network,
+      units: rule?.unit === "day" ? getBilledDays(visitLines) : 1,
+      label,
+    };
+  });
+  const adjudication = lineItems.length > 0
+    ? adjudicateClaim(policy, settings, lineItems, { ...adjudicationOptions, costSharing })
+    : null;
+  priced.forEach(([first, ...rest], position) => {
+    first.estimate = adjudication?.line_items[position];
+    rest.forEach(line => {
+      line.pricedWith = first.index;
+    });
+  });
+
+  const sumCharges = (selected: AnalyzedBillLine[]) =>
+    roundCents(selected.reduce((total, line) => total + line.line.charge, 0));
+
+  return {
+    network,
+    lines,
+    flags: [
+      ...getDuplicateFlags(lines),
+      ...getPreventiveFlags(lines, network, costSharing),
+      ...getDeductibleFlags(lines, policy, network, costSharing),
+    ],
+    totals: {
+      billed: sumCharges(lines),
+      duplicates: sumCharges(lines.filter(line => line.duplicateOf !== undefined)),
+      unpriced: sumCharges(lines.filter(line => line.duplicateOf === undefined && line.pricedWith === undefined && !line.estimate)),
+      estimatedPatientResponsibility: adjudication?.totals.patient_responsibility ?? 0,
+    },
+    adjudication,
+  };
+}
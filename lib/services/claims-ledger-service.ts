@@ -0,0 +1,239 @@
+/**
+ * Claims Ledger Service - Plan-year spending from processed claims
+ *
+ * Insurers send an Explanation of Benefits (EOB) for every processed claim,
+ * showing what was billed, allowed and paid, and what the patient owes. Claims
+ * read from EOBs are kept in a ledger, and each member's deductible and
+ * out-of-pocket spending is derived from it instead of being typed in.
+ *
+ * Key features:
+ * - Stable claim ids, so uploading the same EOB twice doesn't count a claim twice
+ * - Patients matched to household members by name
+ * - Deductible and out-of-pocket amounts derived from the EOB's cost-sharing columns
+ * - Out-of-network claims counted toward separate out-of-network limits when the plan has them
+ * - Claims outside the policy's coverage period ignored
+ */
+
+import type { EobExtraction, LedgerClaim, MemberAccumulators, ParsedPolicy, PersonHealthInfo } from "@/types/schemas";
+import { getAccumulatorNetwork, setMemberAccumulators, type AccumulatorSettings } from "./accumulator-service";
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+/**
+ * Options for turning an EOB into ledger claims
+ */
+export interface LedgerImportOptions {
+  /** Household members to match patient names against */
+  members?: PersonHealthInfo[];
+  /** Member for claims whose patient doesn't match anyone, usually the active member */
+  defaultMemberId?: string;
+  /** File name of the EOB */
+  sourceFile?: string;
+  /** Time the claims are added (defaults to now) */
+  now?: Date;
+}
+
+/**
+ * Dollar totals of a set of claims
+ */
+export interface LedgerTotals {
+  billed: number;
+  allowed: number;
+  planPaid: number;
+  memberResponsibility: number;
+  deductible: number;
+  outOfPocket: number;
+}
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+const roundCents = (amount: number) => Math.round(amount * 100) / 100;
+
+const normalizeName = (name: string) => name.toLowerCase().replace(/[^a-z0-9 ]+/g, " ").replace(/\s+/g, " ").trim();
+
+/**
+ * Id of a claim: its claim number when the EOB prints one, otherwise its
+ * patient, provider, date of service and billed amount
+ */
+function getClaimId(claim: EobExtraction["claims"][number]): string {
+  if (claim.claim_number?.trim()) {
+    return `claim:${claim.claim_number.replace(/\s+/g, "").toLowerCase()}`;
+  }
+  return ["eob", normalizeName(claim.patient_name ?? ""), normalizeName(claim.provider), claim.service_date, claim.billed_amount.toFixed(2)].join(":");
+}
+
+// Local midnight of a date; plain YYYY-MM-DD strings would otherwise parse as UTC
+const parseDate = (text: string): number => {
+  const iso = /^(\d{4})-(\d{2})-(\d{2})$/.exec(text.trim());
+  return iso ? new Date(Number(iso[1]), Number(iso[2]) - 1, Number(iso[3])).getTime() : Date.parse(text);
+};
+
+// =============================================================================
+// IMPORT
+// =============================================================================
+
+/**
+ * Find the household member an EOB's patient name refers to
+ *
+ * @param patientName Patient as printed on the EOB, e.g. "JANE Q DOE"
+ * @param members Household members
+ * @returns The member whose full name matches, else the only member with a matching first name
+ */
+export function matchMember(patientName: string | undefined, members: PersonHealthInfo[]): PersonHealthInfo | undefined {
+  const patient = normalizeName(patientName ?? "");
+  if (!patient) return undefined;
+  const exact = members.find(member => normalizeName(member.name) === patient);
+  if (exact) return exact;
+  const patientWords = patient.split(" ");
+  const byFirstName = members.filter(member => patientWords.includes(normalizeName(member.name).split(" ")[0]));
+  return byFirstName.length === 1 ? byFirstName[0] : undefined;
+}
+
+/**
+ * Turn the claims read from an EOB into ledger claims
+ *
+ * The out-of-pocket amount is the deductible, copays and coinsurance the
+ * patient owes; charges for services the plan doesn't cover never count toward
+ * the limit. EOBs that only print a total owed count that total minus
+ * non-covered charges.
+ *
+ * @param extraction Claims read from the EOB
+ * @param options Household members, fallback member and source file
+ *
+ * @example
+ * ```typescript
+ * const claims = toLedgerClaims(extraction, { members, defaultMemberId: settings.activeMemberId, sourceFile: file.name });
+ * ```
+ */
+export function toLedgerClaims(extraction: EobExtraction, options: LedgerImportOptions = {}): LedgerClaim[] {
+  const { members = [], defaultMemberId, sourceFile, now = new Date() } = options;
+  return extraction.claims.map(claim => {
+    const costSharing = claim.deductible + claim.copay + claim.coinsurance;
+    const outOfPocket = costSharing > 0 ? costSharing : Math.max(0, claim.member_responsibility - claim.not_covered);
+    return {
+      id: getClaimId(claim),
+      member_id: matchMember(claim.patient_name, members)?.id ?? defaultMemberId,
+      claim_number: claim.claim_number,
+      patient_name: claim.patient_name,
+      provider: claim.provider,
+      service_date: claim.service_date,
+      description: claim.description,
+      network: claim.network,
+      billed_amount: roundCents(claim.billed_amount),
+      allowed_amount: roundCents(claim.allowed_amount),
+      plan_paid: roundCents(claim.plan_paid),
+      member_responsibility: roundCents(claim.member_responsibility),
+      deductible_applied: roundCents(claim.deductible),
+      out_of_pocket_applied: roundCents(outOfPocket),
+      source_file: sourceFile,
+      added_at: now.toISOString(),
+    };
+  });
+}
+
+/**
+ * Add claims to a ledger
+ *
+ * A claim already in the ledger is replaced by the newer copy (EOBs for
+ * adjusted claims reuse the claim number), keeping the member it was assigned to.
+ *
+ * @returns The ledger with the most recent date of service first
+ */
+export function mergeLedgerClaims(ledger: LedgerClaim[], incoming: LedgerClaim[]): LedgerClaim[] {
+  const claims = new Map(ledger.map(claim => [claim.id, claim]));
+  incoming.forEach(claim => {
+    const existing = claims.get(claim.id);
+    claims.set(claim.id, existing ? { ...claim, member_id: existing.member_id ?? claim.member_id } : claim);
+  });
+  return Array.from(claims.values()).sort((a, b) => b.service_date.localeCompare(a.service_date));
+}
+
+// =============================================================================
+// ACCUMULATORS
+// =============================================================================
+
+/**
+ * Whether a claim's date of service falls in the policy's coverage period.
+ * Claims are kept when either date can't be read.
+ */
+export function isInCoveragePeriod(claim: LedgerClaim, policy: ParsedPolicy): boolean {
+  const { start_date, end_date } = policy.plan_summary.coverage_period;
+  const [start, end, service] = [parseDate(start_date), parseDate(end_date), parseDate(claim.service_date)];
+  if ([start, end, service].some(Number.isNaN)) return true;
+  return service >= start && service <= end;
+}
+
+/**
+ * Each member's plan-year spending from the ledger
+ *
+ * @param claims Ledger claims
+ * @param policy Policy the claims were processed under
+ * @param memberIds Tracked members; claims of other or unknown members count toward the first.
+ *   Without members, every claim counts toward "".
+ * @returns Spending keyed by member id, for every tracked member
+ */
+export function getLedgerAccumulators(
+  claims: LedgerClaim[],
+  policy: ParsedPolicy,
+  memberIds: string[]
+): Record<string, MemberAccumulators> {
+  const ids = memberIds.length > 0 ? memberIds : [""];
+  const accumulators: Record<string, MemberAccumulators> = Object.fromEntries(ids.map(id => [id, {
+    deductibleSpent: 0,
+    outOfPocketSpent: 0,
+    outOfNetworkDeductibleSpent: 0,
+    outOfNetworkOutOfPocketSpent: 0,
+  }]));
+
+  claims.filter(claim => isInCoveragePeriod(claim, policy)).forEach(claim => {
+    const member = accumulators[claim.member_id && ids.includes(claim.member_id) ? claim.member_id : ids[0]];
+    if (getAccumulatorNetwork(policy, claim.network) === "out_of_network") {
+      member.outOfNetworkDeductibleSpent = roundCents((member.outOfNetworkDeductibleSpent ?? 0) + claim.deductible_applied);
+      member.outOfNetworkOutOfPocketSpent = roundCents((member.outOfNetworkOutOfPocketSpent ?? 0) + claim.out_of_pocket_applied);
+    } else {
+      member.deductibleSpent = roundCents(member.deductibleSpent + claim.deductible_applied);
+      member.outOfPocketSpent = roundCents(member.outOfPocketSpent + claim.out_of_pocket_applied);
+    }
+  });
+  return accumulators;
+}
+
+/**
+ * Replace the spending in settings with the spending derived from the ledger
+ *
+ * @param settings Current insurance settings
+ * @param claims Ledger claims
+ * @param policy Policy the claims were processed under
+ * @returns Settings whose member and top-level spending match the ledger
+ *
+ * @example
+ * ```typescript
+ * const next = applyLedgerToSettings(settings, claims, policy);
+ * if (JSON.stringify(next) !== JSON.stringify(settings)) updateSettings(next);
+ * ```
+ */
+export function applyLedgerToSettings<T extends AccumulatorSettings>(settings: T, claims: LedgerClaim[], policy: ParsedPolicy): T {
+  const memberIds = Object.keys(settings.memberAccumulators ?? {});
+  if (settings.activeMemberId && !memberIds.includes(settings.activeMemberId)) {
+    memberIds.push(settings.activeMemberId);
+  }
+  return setMemberAccumulators(settings, getLedgerAccumulators(claims, policy, memberIds));
+}
+
+/**
+ * Dollar totals of a set of claims, e.g. one member's or the whole ledger
+ */
+export function getLedgerTotals(claims: LedgerClaim[]): LedgerTotals {
+  return claims.reduce<LedgerTotals>((totals, claim) => ({
+    billed: roundCents(totals.billed + claim.billed_amount),
+    allowed: roundCents(totals.allowed + claim.allowed_amount),
+    planPaid: roundCents(totals.planPaid + claim.plan_paid),
+    memberResponsibility: roundCents(totals.memberResponsibility + claim.member_responsibility),
+    deductible: roundCents(totals.deductible + claim.deductible_applied),
+    outOfPocket: roundCents(totals.outOfPocket + claim.out_of_pocket_applied),
+  }), { billed: 0, allowed: 0, planPaid: 0, memberResponsibility: 0, deductible: 0, outOfPocket: 0 });
+}
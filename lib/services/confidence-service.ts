@@ -0,0 +1,373 @@
+/**
+ * Confidence Service - How much each extracted policy field can be trusted
+ *
+ * A mis-read table row silently flows into every cost estimate. This service
+ * scores each reviewable field of a parsed policy from three signals and
+ * drives the review screen shown after upload, where the user confirms or
+ * corrects low-confidence fields before the policy is saved.
+ *
+ * Key features:
+ * - Model self-reported confidence from the parse pipeline
+ * - Text/image agreement: the quoted source exists and contains the extracted amounts
+ * - Cross-field consistency: deductible vs. out-of-pocket limit, family vs. individual,
+ *   cost-sharing text the deterministic parser understands
+ * - Review items with editable values, and corrections applied back to the policy
+ */
+
+import { parseCostSharingText } from "@/lib/services/cost-sharing-service";
+import {
+  exclusionSourceKey,
+  getFieldSource,
+  page1SourceKey,
+  serviceSourceKey,
+  type ExclusionList,
+} from "@/lib/services/provenance-service";
+import type { FieldConfidence, FieldSource, ParsedPolicy } from "@/types/schemas";
+
+// =============================================================================
+// TYPES AND CONSTANTS
+// =============================================================================
+
+/**
+ * An editable value of a field under review
+ */
+export interface ReviewField {
+  name: string;
+  label: string;
+  value: string | number;
+  kind: "number" | "text";
+}
+
+/**
+ * A field the user should confirm or correct before the policy is saved
+ */
+export interface ReviewItem {
+  /** Provenance/confidence key */
+  key: string;
+  label: string;
+  fields: ReviewField[];
+  confidence: FieldConfidence;
+  source: FieldSource | null;
+}
+
+/**
+ * Minimum score for each confidence level
+ */
+export const CONFIDENCE_THRESHOLDS = {
+  high: 0.8,
+  medium: 0.6,
+} as const;
+
+// Relative weight of each signal in the combined score
+const SIGNAL_WEIGHTS = {
+  model: 0.4,
+  source_agreement: 0.35,
+  consistency: 0.25,
+} as const;
+
+// Agreement when no source was recorded at all
+const UNKNOWN_SOURCE_AGREEMENT = 0.5;
+// Penalty for a quote that was not found word for word
+const INEXACT_SOURCE_FACTOR = 0.6;
+
+type Signals = FieldConfidence["signals"];
+
+// =============================================================================
+// SIGNALS
+// =============================================================================
+
+/**
+ * Dollar amounts and percentages in a piece of text, without formatting ("$1,500" -> "1500")
+ */
+function extractAmounts(text: string): string[] {
+  return Array.from(text.matchAll(/\$?\s?(\d[\d,]*(?:\.\d+)?)\s?(%?)/g), match =>
+    `${Number(match[1].replace(/,/g, ""))}${match[2]}`
+  );
+}
+
+/**
+ * How well the recorded source supports the extracted values
+ * (zero amounts are skipped, since "not applicable" is often read as 0)
+ */
+function scoreSourceAgreement(source: FieldSource | null, values: (string | number)[]): { score: number; reasons: string[] } {
+  if (!source) {
+    return { score: UNKNOWN_SOURCE_AGREEMENT, reasons: ["No source text was recorded"] };
+  }
+
+  const reasons: string[] = [];
+  const quoted = new Set(extractAmounts(source.quote).map(amount => amount.replace("%", "")));
+  const expected = values.flatMap(value => typeof value === "number" ? (value > 0 ? [String(value)] : []) : extractAmounts(value).map(amount => amount.replace("%", "")));
+  const missing = expected.filter(amount => !quoted.has(amount));
+  let score = expected.length === 0 ? 1 : (expected.length - missing.length) / expected.length;
+  if (missing.length > 0) {
+    reasons.push(`Amounts not found in the source text: ${missing.join(", ")}`);
+  }
+  if (!source.exact) {
+    score *= INEXACT_SOURCE_FACTOR;
+    reasons.push("Source text was not found word for word on the page");
+  }
+  return { score, reasons };
+}
+
+/**
+ * Combine available signals into a confidence record
+ */
+function combineSignals(signals: Signals, reasons: string[]): FieldConfidence {
+  const available = (Object.keys(SIGNAL_WEIGHTS) as (keyof typeof SIGNAL_WEIGHTS)[])
+    .filter(signal => signals[signal] !== undefined);
+  const totalWeight = available.reduce((sum, signal) => sum + SIGNAL_WEIGHTS[signal], 0);
+  const score = totalWeight === 0
+    ? UNKNOWN_SOURCE_AGREEMENT
+    : available.reduce((sum, signal) => sum + SIGNAL_WEIGHTS[signal] * (signals[signal] ?? 0), 0) / totalWeight;
+  const rounded = Math.round(score * 100) / 100;
+
+  return {
+    score: rounded,
+    level: rounded >= CONFIDENCE_THRESHOLDS.high ? "high" : rounded >= CONFIDENCE_THRESHOLDS.medium ? "medium" : "low",
+    signals,
+    reasons,
+  };
+}
+
+/**
+ * Consistency score from a list of failed checks
+ */
+function scoreConsistency(issues: string[], checks: number): number {
+  return checks === 0 ? 1 : Math.max(0, (checks - issues.length) / checks);
+}
+
+// =============================================================================
+// FIELD SCORING
+// =============================================================================
+
+function scoreLimitField(
+  policy: ParsedPolicy,
+  field: "overall_deductible" | "out_of_pocket_limit_for_plan",
+  modelConfidence: number | undefined
+): FieldConfidence {
+  const { overall_deductible, out_of_pocket_limit_for_plan } = policy.important_questions;
+  const limit = policy.important_questions[field];
+  const issues: string[] = [];
+
+  if (limit.family > 0 && limit.family < limit.individual) {
+    issues.push("Family amount is lower than the individual amount");
+  }
+  if (out_of_pocket_limit_for_plan.individual > 0 && overall_deductible.individual > out_of_pocket_limit_for_plan.individual) {
+    issues.push("Deductible is higher than the out-of-pocket limit");
+  }
+  if (limit.out_of_network && limit.out_of_network.individual < limit.individual) {
+    issues.push("Out-of-network amount is lower than the in-network amount");
+  }
+
+  const agreement = scoreSourceAgreement(getFieldSource(policy, page1SourceKey(field)), [limit.individual, limit.family]);
+  return combineSignals({
+    model: modelConfidence,
+    source_agreement: agreement.score,
+    consistency: scoreConsistency(issues, 3),
+  }, [...agreement.reasons, ...issues]);
+}
+
+function scoreServiceField(
+  policy: ParsedPolicy,
+  service: ParsedPolicy["services_you_may_need"][number],
+  modelConfidence: number | undefined
+): FieldConfidence {
+  const { network_provider, out_of_network_provider } = service.what_you_will_pay;
+  const outOfPocketLimit = policy.important_questions.out_of_pocket_limit_for_plan.individual;
+  const issues: string[] = [];
+
+  const cells = [parseCostSharingText(network_provider), parseCostSharingText(out_of_network_provider)];
+  if (cells.some(cell => cell.unparsed_fragments.length > 0 || cell.rules.length === 0)) {
+    issues.push("Cost-sharing text could not be fully interpreted");
+  }
+  const [inNetwork, outOfNetwork] = cells;
+  if (inNetwork.rules.some(rule => rule.kind === "not_covered") && outOfNetwork.rules.some(rule => rule.kind !== "not_covered" && rule.kind !== "not_applicable")) {
+    issues.push("Not covered in-network but covered out-of-network");
+  }
+  if (outOfPocketLimit > 0 && cells.some(cell => cell.rules.some(rule => (rule.copay_amount ?? 0) > outOfPocketLimit))) {
+    issues.push("Copay is higher than the out-of-pocket limit");
+  }
+
+  const agreement = scoreSourceAgreement(getFieldSource(policy, serviceSourceKey(service.name)), [network_provider, out_of_network_provider]);
+  return combineSignals({
+    model: modelConfidence,
+    source_agreement: agreement.score,
+    consistency: scoreConsistency(issues, 3),
+  }, [...agreement.reasons, ...issues]);
+}
+
+function scoreExclusionField(policy: ParsedPolicy, list: ExclusionList, index: number): FieldConfidence {
+  const agreement = scoreSourceAgreement(getFieldSource(policy, exclusionSourceKey(list, index)), []);
+  return combineSignals({ source_agreement: agreement.score }, agreement.reasons);
+}
+
+/**
+ * Score every reviewable field of a parsed policy
+ *
+ * @param policy Parsed policy with provenance
+ * @param modelConfidence Model self-reported confidence by field key
+ * @returns Confidence by field key (same keys as provenance)
+ *
+ * @example
+ * ```typescript
+ * const confidence = scorePolicyConfidence(policy, { "services_you_may_need.specialist_visit": 0.55 });
+ * console.log(confidence["services_you_may_need.specialist_visit"].level); // "low"
+ * ```
+ */
+export function scorePolicyConfidence(
+  policy: ParsedPolicy,
+  modelConfidence: Record<string, number> = {}
+): Record<string, FieldConfidence> {
+  const confidence: Record<string, FieldConfidence> = {};
+
+  for (const field of ["overall_deductible", "out_of_pocket_limit_for_plan"] as const) {
+    const key = page1SourceKey(field);
+    confidence[key] = scoreLimitField(policy, field, modelConfidence[key]);
+  }
+  for (const service of policy.services_you_may_need) {
+    const key = serviceSourceKey(service.name);
+    confidence[key] = scoreServiceField(policy, service, modelConfidence[key]);
+  }
+  for (const list of ["excluded_services", "other_covered_services"] as const) {
+    policy.excluded_and_other_covered_services[list].forEach((_, index) => {
+      confidence[exclusionSourceKey(list, index)] = scoreExclusionField(policy, list, index);
+    });
+  }
+
+  return confidence;
+}
+
+// =============================================================================
+// REVIEW
+// =============================================================================
+
+/**
+ * Editable values of a reviewable field, or null for unknown keys
+ */
+function getReviewFields(policy: ParsedPolicy, key: string): { label: string; fields: ReviewField[] } | null {
+  for (const field of ["overall_deductible", "out_of_pocket_limit_for_plan"] as const) {
+    if (key === page1SourceKey(field)) {
+      const limit = policy.important_questions[field];
+      return {
+        label: field === "overall_deductible" ? "Overall deductible" : "Out-of-pocket limit",
+        fields: [
+          { name: "individual", label: "Individual", value: limit.individual, kind: "number" },
+          { name: "family", label: "Family", value: limit.family, kind: "number" },
+        ],
+      };
+    }
+  }
+
+  const service = policy.services_you_may_need.find(service => key === serviceSourceKey(service.name));
+  if (service) {
+    return {
+      label: service.name.replaceAll("_", " "),
+      fields: [
+        { name: "network_provider", label: "In-network", value: service.what_you_will_pay.network_provider, kind: "text" },
+        { name: "out_of_network_provider", label: "Out-of-network", value: service.what_you_will_pay.out_of_network_provider, kind: "text" },
+      ],
+    };
+  }
+
+  for (const list of ["excluded_services", "other_covered_services"] as const) {
+    const index = policy.excluded_and_other_covered_services[list].findIndex((_, i) => key === exclusionSourceKey(list, i));
+    if (index >= 0) {
+      return {
+        label: list === "excluded_services" ? "Service this plan doesn't cover" : "Other covered service",
+        fields: [{ name: "text", label: "Service", value: policy.excluded_and_other_covered_services[list][index], kind: "text" }],
+      };
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Fields that need the user's review, lowest confidence first
+ *
+ * @param policy Parsed policy with confidence scores
+ * @returns Medium- and low-confidence fields that have not been reviewed yet
+ */
+export function getReviewItems(policy: ParsedPolicy): ReviewItem[] {
+  return Object.entries(policy.confidence ?? {})
+    .filter(([, confidence]) => confidence.level !== "high" && !confidence.reviewed)
+    .flatMap(([key, confidence]) => {
+      const review = getReviewFields(policy, key);
+      return review ? [{ key, ...review, confidence, source: getFieldSource(policy, key) }] : [];
+    })
+    .sort((a, b) => a.confidence.score - b.confidence.score);
+}
+
+/**
+ * Confirm a field, optionally correcting its values
+ *
+ * @param policy Parsed policy under review
+ * @param key Field key of the review item
+ * @param values Corrected values by ReviewField name; omit to confirm as extracted
+ * @returns A new policy with the values applied and the field marked reviewed
+ */
+export function applyReview(
+  policy: ParsedPolicy,
+  key: string,
+  values?: Record<string, string | number>
+): ParsedPolicy {
+  const review = getReviewFields(policy, key);
+  if (!review) return policy;
+
+  const corrected = values !== undefined && review.fields.some(field => values[field.name] !== undefined && values[field.name] !== field.value);
+  let next: ParsedPolicy = { ...policy };
+
+  if (corrected && values) {
+    for (const field of ["overall_deductible", "out_of_pocket_limit_for_plan"] as const) {
+      if (key === page1SourceKey(field)) {
+        const limit = policy.important_questions[field];
+        next = {
+          ...next,
+          important_questions: {
+            ...policy.important_questions,
+            [field]: {
+              ...limit,
+              individual: Number(values.individual ?? limit.individual),
+              family: Number(values.family ?? limit.family),
+            },
+          },
+        };
+      }
+    }
+
+    next.services_you_may_need = policy.services_you_may_need.map(service =>
+      key === serviceSourceKey(service.name)
+        ? {
+            ...service,
+            what_you_will_pay: {
+              ...service.what_you_will_pay,
+              network_provider: String(values.network_provider ?? service.what_you_will_pay.network_provider),
+              out_of_network_provider: String(values.out_of_network_provider ?? service.what_you_will_pay.out_of_network_provider),
+            },
+          }
+        : service
+    );
+
+    const exclusions = { ...policy.excluded_and_other_covered_services };
+    for (const list of ["excluded_services", "other_covered_services"] as const) {
+      exclusions[list] = exclusions[list].map((item, index) =>
+        key === exclusionSourceKey(list, index) ? String(values.text ?? item) : item
+      );
+    }
+    next.excluded_and_other_covered_services = exclusions;
+  }
+
+  return {
+    ...next,
+    confidence: {
+      ...policy.confidence,
+      [key]: {
+        score: 1,
+        level: "high",
+        signals: policy.confidence?.[key]?.signals ?? {},
+        reasons: [corrected ? "Corrected by user" : "Confirmed by user"],
+        reviewed: true,
+      },
+    },
+  };
+}
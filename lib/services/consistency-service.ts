@@ -0,0 +1,305 @@
+/**
+ * Consistency Service - Rule-based checks of a parsed policy
+ *
+ * Zod validation only checks the shape of a policy. This service checks that
+ * the values make sense together, e.g. that the out-of-pocket limit is not
+ * lower than the deductible, and returns typed warnings the UI can show next
+ * to the policy. It runs after every parse and template load.
+ *
+ * Key features:
+ * - Deductible and out-of-pocket limit ordering (individual vs. family, in- vs. out-of-network)
+ * - Services listed as covered before the deductible whose cost sharing says the deductible applies
+ * - Services both excluded and listed as covered
+ * - Cost-sharing text the deterministic parser cannot interpret
+ * - Standard SBC services missing from the services table, and rows that match none
+ */
+
+import { parseCostSharingText, parsePolicyCostSharing } from "@/lib/services/cost-sharing-service";
+import { serviceSourceKey } from "@/lib/services/provenance-service";
+import { getServiceCoverageReport } from "@/lib/services/service-name-service";
+import type { ParsedPolicy, PolicyWarning, PolicyWarningSeverity } from "@/types/schemas";
+
+// =============================================================================
+// TYPES AND CONSTANTS
+// =============================================================================
+
+/**
+ * A consistency rule: returns one warning per problem found
+ */
+export type ConsistencyRule = (policy: ParsedPolicy) => PolicyWarning[];
+
+const SEVERITY_ORDER: Record<PolicyWarningSeverity, number> = {
+  error: 0,
+  warning: 1,
+  info: 2,
+};
+
+const CHECK_AGAINST_SBC = "Compare this value with your SBC and correct it if it was read wrong.";
+
+type LimitField = "overall_deductible" | "out_of_pocket_limit_for_plan";
+
+const LIMIT_LABELS: Record<LimitField, string> = {
+  overall_deductible: "deductible",
+  out_of_pocket_limit_for_plan: "out-of-pocket limit",
+};
+
+const formatAmount = (amount: number) => `$${amount.toLocaleString()}`;
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+/**
+ * Lower-case words with a trailing plural "s" removed, for loose name matching
+ */
+function toWords(text: string): string[] {
+  return text
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, " ")
+    .trim()
+    .split(" ")
+    .filter(Boolean)
+    .map(word => word.length > 3 ? word.replace(/s$/, "") : word);
+}
+
+/**
+ * Whether a free-text service description (e.g. "Primary care visits") names a service
+ */
+function describesService(description: string, serviceName: string): boolean {
+  const words = new Set(toWords(description));
+  const nameWords = toWords(serviceName);
+  return nameWords.length > 0 && nameWords.every(word => words.has(word));
+}
+
+// =============================================================================
+// RULES
+// =============================================================================
+
+/**
+ * The out-of-pocket limit includes the deductible, so it can't be lower
+ */
+const outOfPocketBelowDeductible: ConsistencyRule = ({ important_questions }) => {
+  const { overall_deductible, out_of_pocket_limit_for_plan } = important_questions;
+  return (["individual", "family"] as const)
+    .filter(tier => out_of_pocket_limit_for_plan[tier] > 0 && out_of_pocket_limit_for_plan[tier] < overall_deductible[tier])
+    .map(tier => ({
+      code: "out_of_pocket_below_deductible",
+      path: `important_questions.out_of_pocket_limit_for_plan.${tier}`,
+      severity: "error" as const,
+      message: `The ${tier} out-of-pocket limit (${formatAmount(out_of_pocket_limit_for_plan[tier])}) is lower than the ${tier} deductible (${formatAmount(overall_deductible[tier])}).`,
+      suggestion: CHECK_AGAINST_SBC,
+    }));
+};
+
+/**
+ * Family amounts cover several people, so they can't be lower than individual ones
+ */
+const familyBelowIndividual: ConsistencyRule = ({ important_questions }) =>
+  (["overall_deductible", "out_of_pocket_limit_for_plan"] as const)
+    .filter(field => {
+      const { individual, family } = important_questions[field];
+      return family > 0 && family < individual;
+    })
+    .map(field => ({
+      code: "family_below_individual",
+      path: `important_questions.${field}.family`,
+      severity: "error" as const,
+      message: `The family ${LIMIT_LABELS[field]} (${formatAmount(important_questions[field].family)}) is lower than the individual ${LIMIT_LABELS[field]} (${formatAmount(important_questions[field].individual)}).`,
+      suggestion: CHECK_AGAINST_SBC,
+    }));
+
+/**
+ * Out-of-network amounts are normally at least the in-network ones
+ */
+const outOfNetworkBelowInNetwork: ConsistencyRule = ({ important_questions }) =>
+  (["overall_deductible", "out_of_pocket_limit_for_plan"] as const).flatMap(field => {
+    const limit = important_questions[field];
+    if (!limit.out_of_network) return [];
+    return (["individual", "family"] as const)
+      .filter(tier => limit.out_of_network!.individual > 0 && limit.out_of_network![tier] < limit[tier])
+      .map(tier => ({
+        code: "out_of_network_below_in_network",
+        path: `important_questions.${field}.out_of_network.${tier}`,
+        severity: "warning" as const,
+        message: `The out-of-network ${tier} ${LIMIT_LABELS[field]} (${formatAmount(limit.out_of_network![tier])}) is lower than the in-network one (${formatAmount(limit[tier])}).`,
+        suggestion: CHECK_AGAINST_SBC,
+      }));
+  });
+
+/**
+ * A service covered before the deductible shouldn't say the deductible applies in-network
+ */
+const deductibleConflict: ConsistencyRule = ({ important_questions, services_you_may_need }) => {
+  const { covered, services } = important_questions.services_covered_before_deductible;
+  if (!covered) return [];
+
+  return services_you_may_need.flatMap(service => {
+    const listed = services.find(description => describesService(description, service.name.replaceAll("_", " ")));
+    if (!listed) return [];
+    const cell = parseCostSharingText(service.what_you_will_pay.network_provider);
+    if (!cell.rules.some(rule => rule.deductible_applies)) return [];
+    return [{
+      code: "deductible_conflict",
+      path: serviceSourceKey(service.name),
+      severity: "warning" as const,
+      message: `"${listed}" is listed as covered before the deductible, but ${service.name.replaceAll("_", " ")} in-network says "${service.what_you_will_pay.network_provider}".`,
+      suggestion: "Check both the Important Questions answer and the services table in your SBC; estimates currently apply the deductible.",
+    }];
+  });
+};
+
+/**
+ * The "covered before deductible" answer and its list of services should agree
+ */
+const coveredBeforeDeductibleList: ConsistencyRule = ({ important_questions }) => {
+  const { covered, services } = important_questions.services_covered_before_deductible;
+  if (covered && services.length === 0) {
+    return [{
+      code: "covered_before_deductible_without_services",
+      path: "important_questions.services_covered_before_deductible.services",
+      severity: "info",
+      message: "Some services are covered before the deductible, but none were listed.",
+    }];
+  }
+  if (!covered && services.length > 0) {
+    return [{
+      code: "covered_before_deductible_mismatch",
+      path: "important_questions.services_covered_before_deductible.covered",
+      severity: "warning",
+      message: `No services are marked as covered before the deductible, yet ${services.length} are listed.`,
+      suggestion: CHECK_AGAINST_SBC,
+    }];
+  }
+  return [];
+};
+
+/**
+ * A service can't be both excluded and covered
+ */
+const excludedAndCovered: ConsistencyRule = ({ excluded_and_other_covered_services }) => {
+  const covered = new Set(excluded_and_other_covered_services.other_covered_services.map(item => toWords(item).join(" ")));
+  return excluded_and_other_covered_services.excluded_services
+    .map((item, index) => ({ item, index }))
+    .filter(({ item }) => covered.has(toWords(item).join(" ")))
+    .map(({ item, index }) => ({
+      code: "excluded_and_covered",
+      path: `excluded_and_other_covered_services.excluded_services.${index}`,
+      severity: "warning" as const,
+      message: `"${item}" is listed both as excluded and as covered.`,
+      suggestion: "Check the last sections of your SBC; limitations may apply.",
+    }));
+};
+
+/**
+ * Copays larger than the out-of-pocket limit are almost certainly mis-read
+ */
+const copayAboveOutOfPocketLimit: ConsistencyRule = ({ important_questions, services_you_may_need }) => {
+  const limit = important_questions.out_of_pocket_limit_for_plan.individual;
+  if (limit <= 0) return [];
+  return services_you_may_need
+    .filter(service => parseCostSharingText(service.what_you_will_pay.network_provider).rules.some(rule => (rule.copay_amount ?? 0) > limit))
+    .map(service => ({
+      code: "copay_above_out_of_pocket_limit",
+      path: serviceSourceKey(service.name),
+      severity: "warning" as const,
+      message: `The in-network copay for ${service.name.replaceAll("_", " ")} ("${service.what_you_will_pay.network_provider}") is higher than the out-of-pocket limit.`,
+      suggestion: CHECK_AGAINST_SBC,
+    }));
+};
+
+/**
+ * Cost-sharing text estimates can't use
+ */
+const uninterpretedCostSharing: ConsistencyRule = policy =>
+  parsePolicyCostSharing(policy).unparsed.map(({ service_name, network, text }) => ({
+    code: "uninterpreted_cost_sharing",
+    path: serviceSourceKey(service_name),
+    severity: "info" as const,
+    message: `"${text}" (${service_name.replaceAll("_", " ")}, ${network === "network_provider" ? "in-network" : "out-of-network"}) could not be interpreted, so estimates ignore it.`,
+  }));
+
+/**
+ * A policy without a services table can't be priced
+ */
+const missingServices: ConsistencyRule = ({ services_you_may_need }) =>
+  services_you_may_need.length === 0
+    ? [{
+        code: "missing_services",
+        path: "services_you_may_need",
+        severity: "error",
+        message: "No services were found in the \"What you will pay\" table.",
+        suggestion: "Try parsing the document again.",
+      }]
+    : [];
+
+/**
+ * Rows that match no standard service are never priced
+ */
+const unmappedServices: ConsistencyRule = policy =>
+  getServiceCoverageReport(policy).unmapped.map(name => ({
+    code: "unmapped_service",
+    path: serviceSourceKey(name),
+    severity: "warning" as const,
+    message: `"${name.replaceAll("_", " ")}" does not match a standard SBC service, so estimates can't use it.`,
+    suggestion: "Check the row name against the \"Services You May Need\" column of your SBC.",
+  }));
+
+/**
+ * Standard SBC services without a row are priced as not covered
+ */
+const missingStandardServices: ConsistencyRule = policy => {
+  if (policy.services_you_may_need.length === 0) return [];
+  const { missing } = getServiceCoverageReport(policy);
+  return missing.length > 0
+    ? [{
+        code: "missing_standard_services",
+        path: "services_you_may_need",
+        severity: "info",
+        message: `${missing.length} standard SBC service(s) were not found: ${missing.map(name => name.replaceAll("_", " ")).join(", ")}. Estimates treat them as not covered.`,
+        suggestion: "If your SBC lists them, try parsing the document again.",
+      }]
+    : [];
+};
+
+/**
+ * All rules, in the order their warnings are reported within a severity
+ */
+export const CONSISTENCY_RULES: ConsistencyRule[] = [
+  missingServices,
+  outOfPocketBelowDeductible,
+  familyBelowIndividual,
+  outOfNetworkBelowInNetwork,
+  coveredBeforeDeductibleList,
+  deductibleConflict,
+  copayAboveOutOfPocketLimit,
+  excludedAndCovered,
+  unmappedServices,
+  uninterpretedCostSharing,
+  missingStandardServices,
+];
+
+// =============================================================================
+// VALIDATION
+// =============================================================================
+
+/**
+ * Check a policy for values that contradict each other
+ *
+ * @param policy Parsed or template policy
+ * @param rules Rules to apply (default: all)
+ * @returns Warnings, errors first
+ *
+ * @example
+ * ```typescript
+ * const warnings = validatePolicyConsistency(policy);
+ * warnings.filter(w => w.severity === "error").forEach(w => console.warn(w.path, w.message));
+ * ```
+ */
+export function validatePolicyConsistency(
+  policy: ParsedPolicy,
+  rules: ConsistencyRule[] = CONSISTENCY_RULES
+): PolicyWarning[] {
+  return rules
+    .flatMap(rule => rule(policy))
+    .sort((a, b) => SEVERITY_ORDER[a.severity] - SEVERITY_ORDER[b.severity]);
+}
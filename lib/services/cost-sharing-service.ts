@@ -0,0 +1,400 @@
+/**
+ * Cost-Sharing Service - Deterministic parsing of SBC cost-sharing text
+ *
+ * Every "what you will pay" cell in a parsed SBC is free text such as
+ * "$0 copayment/visit subject to deductible" or "20% coinsurance up to
+ * $250 / prescription". This service converts those strings into typed
+ * `CostSharingRule` objects so cost calculations can be done in code
+ * instead of being delegated to an AI model.
+ *
+ * Key features:
+ * - Copayment, coinsurance, "No charge", "Not covered" and "Not applicable" terms
+ * - Deductible applicability ("subject to deductible", "after deductible")
+ * - Per-unit basis and unit limits ("$350 / day up to 5 days")
+ * - Multi-term cells ("X-ray: $75 / encounter; Lab tests: $40 / encounter")
+ * - Visit-count exceptions from the limitations column
+ * - Unparseable fragments are reported, never silently dropped
+ */
+
+import type {
+  CostSharingCell,
+  CostSharingNetwork,
+  CostSharingRule,
+  CostSharingUnit,
+  ParsedPolicy,
+  PolicyCostSharing,
+  ServiceCostSharing,
+  ServiceYouMayNeed,
+  UnparsedCostSharing,
+  VisitException,
+} from "@/types/schemas";
+
+// =============================================================================
+// PATTERNS AND LOOKUP TABLES
+// =============================================================================
+
+/**
+ * Maps unit words found in SBCs (singular, lowercase) to canonical units
+ */
+const UNIT_ALIASES: Record<string, CostSharingUnit> = {
+  visit: "visit",
+  "office visit": "visit",
+  session: "visit",
+  exam: "visit",
+  day: "day",
+  admission: "admission",
+  stay: "admission",
+  prescription: "prescription",
+  script: "prescription",
+  fill: "prescription",
+  refill: "prescription",
+  trip: "trip",
+  transport: "trip",
+  encounter: "encounter",
+  procedure: "procedure",
+  surgery: "procedure",
+  device: "device",
+  item: "item",
+  test: "test",
+  service: "service",
+};
+
+/**
+ * Number words used in visit-count exceptions ("First three (3) visits ...")
+ */
+const NUMBER_WORDS: Record<string, number> = {
+  one: 1,
+  two: 2,
+  three: 3,
+  four: 4,
+  five: 5,
+  six: 6,
+  seven: 7,
+  eight: 8,
+  nine: 9,
+  ten: 10,
+  twelve: 12,
+};
+
+const DEDUCTIBLE_APPLIES_PATTERN = /subject to (?:the |your )?deductible|after (?:the |your )?deductible|deductible applies|deductible,? then/i;
+const DEDUCTIBLE_WAIVED_PATTERN = /not subject to (?:the |your )?deductible|deductible (?:does not|doesn't) apply|deductible waived|before (?:the |your )?deductible/i;
+// A term that only qualifies the one before it, e.g. the second half of "20% coinsurance; subject to deductible"
+const DEDUCTIBLE_QUALIFIER_PATTERN = /^(?:(?:is |are )?(?:not )?subject to (?:the |your )?deductible|(?:after|before) (?:the |your )?deductible(?: is met)?|(?:the )?deductible (?:applies|does not apply|doesn't apply|(?:is )?waived))$/i;
+const COINSURANCE_PATTERN = /(\d+(?:\.\d+)?)\s*%(?:\s*coinsurance)?/i;
+const COINSURANCE_CAP_PATTERN = /up to \$\s?([\d,]+(?:\.\d+)?)(?:\s*(?:\/|per)\s*([a-z ]+?))?(?=$|[\s,.;])/i;
+const COPAY_PATTERN = /\$\s?([\d,]+(?:\.\d+)?)(?:\s*copay(?:ment)?s?)?(?:\s*(?:\/|per)\s*(?:(?:individual|group)\s+)?([a-z]+))?/i;
+const UNIT_LIMIT_PATTERN = /up to (\d+) ([a-z]+)/i;
+const VISIT_EXCEPTION_PATTERN = /first\s+(\w+)(?:\s*\((\d+)\))?\s+[\w\s-]*?visits?\s+(?:are|is|will be)\s+(no charge|free|\$\s?[\d,]+(?:\.\d+)?)([^.]*)/gi;
+
+// =============================================================================
+// LOW-LEVEL HELPERS
+// =============================================================================
+
+function toAmount(value: string): number {
+  return Number(value.replace(/,/g, ""));
+}
+
+/**
+ * Resolve a unit word ("days", "Prescription") to a canonical unit
+ */
+function toUnit(word: string | undefined): CostSharingUnit | undefined {
+  if (!word) return undefined;
+  const normalized = word.trim().toLowerCase();
+  return UNIT_ALIASES[normalized] ?? UNIT_ALIASES[normalized.replace(/s$/, "")];
+}
+
+/**
+ * Split a cell into independently parseable terms
+ *
+ * Handles semicolons, sentence breaks and back-to-back terms such as
+ * "$15 / prescription (retail) $30 / prescription (mail order)".
+ */
+function splitSegments(text: string): string[] {
+  return text
+    .split(/;\s*|\.\s+(?=[A-Z$])|(?<=\))\s+(?=\$)/)
+    .map(segment => segment.trim().replace(/\.$/, "").trim())
+    .filter(Boolean);
+}
+
+/**
+ * Pull a leading "Label:" or trailing "(label)" qualifier off a term
+ */
+function extractLabel(segment: string): { label?: string; body: string } {
+  let body = segment;
+  let label: string | undefined;
+
+  const leading = body.match(/^([^:$%]{1,60}):\s*(.+)$/);
+  if (leading) {
+    label = leading[1].trim();
+    body = leading[2].trim();
+  }
+
+  const trailing = body.match(/^(.+?)\s*\(([^)]+)\)$/);
+  if (trailing) {
+    label = label ? `${label} (${trailing[2].trim()})` : trailing[2].trim();
+    body = trailing[1].trim();
+  }
+
+  return { label, body };
+}
+
+function deductibleApplies(text: string): boolean {
+  return DEDUCTIBLE_APPLIES_PATTERN.test(text) && !DEDUCTIBLE_WAIVED_PATTERN.test(text);
+}
+
+// =============================================================================
+// PARSING
+// =============================================================================
+
+/**
+ * Parse a single cost-sharing term
+ *
+ * @param segment One term of a cell, e.g. "$350 / day up to 5 days"
+ * @returns The parsed rule, or null when the term is not recognized
+ */
+function parseSegment(segment: string): CostSharingRule | null {
+  const { label, body } = extractLabel(segment);
+  const lower = body.toLowerCase();
+  const base = {
+    label,
+    deductible_applies: deductibleApplies(lower),
+    visit_exceptions: [],
+    source_text: segment,
+  };
+
+  if (/^not covered\b/.test(lower) || /^excluded\b/.test(lower)) {
+    return { ...base, kind: "not_covered", deductible_applies: false };
+  }
+
+  if (/^(?:not applicable|n\/a)\b/.test(lower)) {
+    return { ...base, kind: "not_applicable", deductible_applies: false };
+  }
+
+  if (/^(?:no charge|no cost|free|covered in full|you pay nothing)\b/.test(lower)) {
+    const target = body.match(/^no charge for (.+)$/i);
+    return {
+      ...base,
+      kind: "no_charge",
+      label: label ?? target?.[1].trim(),
+    };
+  }
+
+  // Coinsurance (and its optional per-unit cap) is read first so the cap's
+  // dollar amount is not mistaken for a copayment.
+  let remaining = body;
+  let coinsurance_rate: number | undefined;
+  let coinsurance_max: number | undefined;
+  let unit: CostSharingUnit | undefined;
+
+  const coinsurance = remaining.match(COINSURANCE_PATTERN);
+  if (coinsurance) {
+    coinsurance_rate = Number(coinsurance[1]) / 100;
+    const cap = remaining.match(COINSURANCE_CAP_PATTERN);
+    if (cap) {
+      coinsurance_max = toAmount(cap[1]);
+      unit = toUnit(cap[2]);
+      remaining = remaining.replace(cap[0], " ");
+    }
+  }
+
+  let copay_amount: number | undefined;
+  const copay = remaining.match(COPAY_PATTERN);
+  if (copay) {
+    copay_amount = toAmount(copay[1]);
+    unit = toUnit(copay[2]) ?? unit;
+  }
+
+  if (copay_amount === undefined && coinsurance_rate === undefined) {
+    return null;
+  }
+
+  const limit = remaining.match(UNIT_LIMIT_PATTERN);
+  const unit_limit = limit && toUnit(limit[2]) ? Number(limit[1]) : undefined;
+
+  return {
+    ...base,
+    kind: copay_amount !== undefined && coinsurance_rate !== undefined
+      ? "copay_and_coinsurance"
+      : copay_amount !== undefined ? "copay" : "coinsurance",
+    copay_amount,
+    coinsurance_rate,
+    coinsurance_max,
+    unit: unit ?? (limit ? toUnit(limit[2]) : undefined),
+    unit_limit,
+  };
+}
+
+/**
+ * Extract visit-count exceptions from a limitations column
+ *
+ * @param text Limitations, exceptions and other important information
+ * @returns Exceptions in the order they appear
+ *
+ * @example
+ * ```typescript
+ * parseVisitExceptions("First three (3) non-preventive visits are $0 and not subject to the deductible.");
+ * // [{ visits: 3, copay_amount: 0, deductible_applies: false, source_text: "..." }]
+ * ```
+ */
+export function parseVisitExceptions(text: string): VisitException[] {
+  const exceptions: VisitException[] = [];
+
+  for (const match of text.matchAll(VISIT_EXCEPTION_PATTERN)) {
+    const visits = match[2]
+      ? Number(match[2])
+      : NUMBER_WORDS[match[1].toLowerCase()] ?? Number(match[1]);
+    if (!Number.isInteger(visits) || visits < 1) continue;
+
+    const amount = match[3].toLowerCase();
+    exceptions.push({
+      visits,
+      copay_amount: amount.startsWith("$") ? toAmount(amount.slice(1).trim()) : 0,
+      deductible_applies: !DEDUCTIBLE_WAIVED_PATTERN.test(match[4]) && DEDUCTIBLE_APPLIES_PATTERN.test(match[4]),
+      source_text: match[0].trim(),
+    });
+  }
+
+  return exceptions;
+}
+
+/**
+ * Parse one "what you will pay" cell into cost-sharing rules
+ *
+ * A term that only states whether the deductible applies ("20% coinsurance;
+ * subject to deductible") qualifies the rule before it.
+ *
+ * @param text Cell text, e.g. "$0 copayment/visit subject to deductible"
+ * @returns Parsed rules plus any fragments that could not be interpreted
+ *
+ * @example
+ * ```typescript
+ * const cell = parseCostSharingText("20% coinsurance up to $250 / prescription");
+ * console.log(cell.rules[0].coinsurance_rate); // 0.2
+ * console.log(cell.rules[0].coinsurance_max);  // 250
+ * ```
+ */
+export function parseCostSharingText(text: string): CostSharingCell {
+  const source_text = text.replace(/\s+/g, " ").trim();
+  const rules: CostSharingRule[] = [];
+  const unparsed_fragments: string[] = [];
+
+  for (const segment of splitSegments(source_text)) {
+    const previous = rules[rules.length - 1];
+    if (previous && previous.kind !== "not_covered" && previous.kind !== "not_applicable" && DEDUCTIBLE_QUALIFIER_PATTERN.test(segment)) {
+      previous.deductible_applies = deductibleApplies(segment);
+      previous.source_text = `${previous.source_text}; ${segment}`;
+      continue;
+    }
+
+    const rule = parseSegment(segment);
+    if (rule) {
+      rules.push(rule);
+    } else {
+      unparsed_fragments.push(segment);
+    }
+  }
+
+  return { source_text, rules, unparsed_fragments };
+}
+
+/**
+ * Parse both network columns of a "Services You May Need" row
+ *
+ * Visit-count exceptions from the limitations column are attached to the
+ * in-network rules, which is where SBCs state them.
+ *
+ * @param service Row from the parsed policy
+ * @returns Parsed cost sharing for the row
+ */
+export function parseServiceCostSharing(service: ServiceYouMayNeed): ServiceCostSharing {
+  const { what_you_will_pay } = service;
+  const network_provider = parseCostSharingText(what_you_will_pay.network_provider);
+  const out_of_network_provider = parseCostSharingText(what_you_will_pay.out_of_network_provider);
+
+  const exceptions = parseVisitExceptions(what_you_will_pay.limitations_exceptions_and_other_important_information);
+  if (exceptions.length > 0) {
+    network_provider.rules = network_provider.rules.map(rule =>
+      rule.kind === "copay" || rule.kind === "coinsurance" || rule.kind === "copay_and_coinsurance"
+        ? { ...rule, visit_exceptions: exceptions }
+        : rule
+    );
+  }
+
+  return { name: service.name, network_provider, out_of_network_provider };
+}
+
+/**
+ * Parse the cost sharing of every row in a policy
+ *
+ * @param policy Parsed policy data
+ * @returns Rules for every row plus a flat list of unparsed fragments
+ *
+ * @example
+ * ```typescript
+ * const costSharing = parsePolicyCostSharing(policy);
+ * if (costSharing.unparsed.length > 0) {
+ *   console.warn("Could not interpret:", costSharing.unparsed);
+ * }
+ * ```
+ */
+export function parsePolicyCostSharing(policy: ParsedPolicy): PolicyCostSharing {
+  const services = policy.services_you_may_need.map(parseServiceCostSharing);
+  const unparsed: UnparsedCostSharing[] = services.flatMap(service =>
+    (["network_provider", "out_of_network_provider"] as const).flatMap(network =>
+      service[network].unparsed_fragments.map(text => ({
+        service_name: service.name,
+        network,
+        text,
+      }))
+    )
+  );
+
+  return { services, unparsed };
+}
+
+// =============================================================================
+// LOOKUP UTILITIES
+// =============================================================================
+
+/**
+ * Find the parsed cost sharing for a service by name
+ *
+ * @param costSharing Output of `parsePolicyCostSharing`
+ * @param serviceName Service identifier (e.g. "specialist_visit")
+ * @returns The row, or null if the policy does not list the service
+ */
+export function getServiceCostSharing(
+  costSharing: PolicyCostSharing,
+  serviceName: string
+): ServiceCostSharing | null {
+  return costSharing.services.find(service => service.name === serviceName) ?? null;
+}
+
+/**
+ * Pick the rule that applies to a cell
+ *
+ * @param cell Parsed cell
+ * @param label Optional qualifier to prefer (e.g. "retail", "X-ray")
+ * @returns The labelled rule if found, otherwise the first rule in the cell
+ */
+export function getApplicableRule(
+  cell: CostSharingCell,
+  label?: string
+): CostSharingRule | null {
+  if (label) {
+    const wanted = label.toLowerCase();
+    const labelled = cell.rules.find(rule => rule.label?.toLowerCase().includes(wanted));
+    if (labelled) return labelled;
+  }
+  return cell.rules[0] ?? null;
+}
+
+/**
+ * Get the cost-sharing column for a network preference
+ *
+ * @param isInNetwork Whether the service is received in-network
+ * @returns The matching column key
+ */
+export function getNetworkColumn(isInNetwork: boolean): CostSharingNetwork {
+  return isInNetwork ? "network_provider" : "out_of_network_provider";
+}
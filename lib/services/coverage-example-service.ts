@@ -0,0 +1,176 @@
+/**
+ * Coverage Example Service - Issuer-published SBC examples as calibration anchors
+ *
+ * Every federal SBC ends with the same three coverage examples, priced by the
+ * issuer against its own plan. This service replays each example's standard
+ * bill through the AdjudicationService and compares the result with what the
+ * issuer says the patient would pay, and finds the example that anchors an
+ * estimate for a similar situation.
+ *
+ * Key features:
+ * - Standard itemized bill for each scenario, scaled to the example's total cost
+ * - Replay of an example against the parsed policy, with the difference from the issuer's figure
+ * - Scenario matching for free-text situations and expected medical events
+ */
+
+import { adjudicateClaim } from "@/lib/services/adjudication-service";
+import type {
+  ClaimLineItemInput,
+  CoverageExample,
+  CoverageExampleCalibration,
+  CoverageExampleScenario,
+  MedicalServiceType,
+  ParsedPolicy,
+} from "@/types/schemas";
+
+// =============================================================================
+// CONSTANTS
+// =============================================================================
+
+/**
+ * Share of the example's total cost for each billed service
+ */
+interface ExampleBillLine {
+  service_type: MedicalServiceType;
+  description: string;
+  share: number;
+  units?: number;
+}
+
+/**
+ * Standard bills behind the federal coverage examples, following the services
+ * listed on the SBC template for each scenario
+ */
+const STANDARD_EXAMPLE_BILLS: Record<CoverageExampleScenario, ExampleBillLine[]> = {
+  having_a_baby: [
+    { service_type: "pregnancy_office_visits", description: "Specialist office visits (prenatal care)", share: 0.1, units: 10 },
+    { service_type: "childbirth_professional", description: "Childbirth/delivery professional services", share: 0.25 },
+    { service_type: "childbirth_facility", description: "Childbirth/delivery facility services", share: 0.55 },
+    { service_type: "diagnostic_test", description: "Diagnostic tests (ultrasounds and blood work)", share: 0.05 },
+    { service_type: "specialist_visit", description: "Specialist visit (anesthesia)", share: 0.05 },
+  ],
+  managing_type_2_diabetes: [
+    { service_type: "primary_care_visit", description: "Primary care physician office visits (including disease education)", share: 0.2, units: 4 },
+    { service_type: "diagnostic_test", description: "Diagnostic tests (blood work)", share: 0.15, units: 4 },
+    { service_type: "generic_drugs", description: "Prescription drugs", share: 0.6, units: 12 },
+    { service_type: "durable_medical_equipment", description: "Durable medical equipment (glucose meter)", share: 0.05 },
+  ],
+  simple_fracture: [
+    { service_type: "emergency_room", description: "Emergency room care (including medical supplies)", share: 0.4 },
+    { service_type: "imaging", description: "Diagnostic test (x-ray)", share: 0.15 },
+    { service_type: "durable_medical_equipment", description: "Durable medical equipment (crutches)", share: 0.05 },
+    { service_type: "rehabilitation_services", description: "Rehabilitation services (physical therapy)", share: 0.4, units: 6 },
+  ],
+};
+
+/**
+ * Situations each standard scenario anchors
+ */
+const SCENARIO_PATTERNS: Record<CoverageExampleScenario, RegExp> = {
+  having_a_baby: /pregnan|childbirth|baby|deliver|prenatal|maternity/i,
+  managing_type_2_diabetes: /diabet|insulin|blood sugar|glucose/i,
+  simple_fracture: /fractur|broken (arm|leg|bone|wrist|ankle)|break (an? )?(arm|leg|bone|wrist|ankle)/i,
+};
+
+// =============================================================================
+// SCENARIOS
+// =============================================================================
+
+/**
+ * Standard scenario of an example, or null for non-standard examples
+ */
+function getStandardScenario(example: CoverageExample): CoverageExampleScenario | null {
+  return example.scenario in STANDARD_EXAMPLE_BILLS ? example.scenario as CoverageExampleScenario : null;
+}
+
+/**
+ * Standard scenario a free-text situation falls under
+ *
+ * @param text Situation description or expected medical event
+ * @returns The matching scenario, or null when none applies
+ */
+export function matchCoverageExampleScenario(text: string): CoverageExampleScenario | null {
+  const match = (Object.keys(SCENARIO_PATTERNS) as CoverageExampleScenario[]).find(scenario => SCENARIO_PATTERNS[scenario].test(text));
+  return match ?? null;
+}
+
+/**
+ * Issuer-published example that anchors an estimate for a situation
+ *
+ * @param policy Parsed policy with coverage examples
+ * @param situation Situation description or expected medical event
+ * @returns The example for the matching scenario, or null
+ *
+ * @example
+ * ```typescript
+ * const anchor = getCoverageExampleAnchor(policy, "Having a baby in March");
+ * console.log(anchor?.title, anchor?.total_you_would_pay); // "Peg is Having a Baby" 3010
+ * ```
+ */
+export function getCoverageExampleAnchor(policy: ParsedPolicy, situation: string): CoverageExample | null {
+  const scenario = matchCoverageExampleScenario(situation);
+  if (!scenario) return null;
+  return policy.coverage_examples?.find(example => getStandardScenario(example) === scenario) ?? null;
+}
+
+// =============================================================================
+// REPLAY
+// =============================================================================
+
+/**
+ * Standard bill of an example, scaled to its total cost
+ *
+ * @param example Issuer-published coverage example
+ * @returns In-network line items summing to the example's total cost, or [] for non-standard examples
+ */
+export function getExampleLineItems(example: CoverageExample): ClaimLineItemInput[] {
+  const scenario = getStandardScenario(example);
+  if (!scenario) return [];
+
+  return STANDARD_EXAMPLE_BILLS[scenario].map(line => ({
+    service_type: line.service_type,
+    description: line.description,
+    allowed_amount: Math.round(example.total_example_cost * line.share * 100) / 100,
+    network: "in_network" as const,
+    units: line.units ?? 1,
+  }));
+}
+
+/**
+ * Replay an example through local adjudication and compare with the issuer's figure
+ *
+ * Examples assume a single member with nothing spent toward the deductible.
+ *
+ * @param policy Parsed policy
+ * @param example Issuer-published coverage example
+ * @returns The comparison, or null for non-standard examples
+ */
+export function replayCoverageExample(policy: ParsedPolicy, example: CoverageExample): CoverageExampleCalibration | null {
+  const lineItems = getExampleLineItems(example);
+  if (lineItems.length === 0) return null;
+
+  const result = adjudicateClaim(policy, { deductibleSpent: 0, outOfPocketSpent: 0 }, lineItems);
+  const estimated_total = result.totals.patient_responsibility;
+
+  return {
+    scenario: example.scenario,
+    title: example.title,
+    total_example_cost: example.total_example_cost,
+    issuer_total: example.total_you_would_pay,
+    estimated_total,
+    difference: Math.round((estimated_total - example.total_you_would_pay) * 100) / 100,
+    ratio: estimated_total > 0 ? example.total_you_would_pay / estimated_total : null,
+  };
+}
+
+/**
+ * Replay every standard example on a policy
+ *
+ * @param policy Parsed policy with coverage examples
+ * @returns One calibration per standard example (empty for policies without examples)
+ */
+export function calibrateWithCoverageExamples(policy: ParsedPolicy): CoverageExampleCalibration[] {
+  return (policy.coverage_examples ?? [])
+    .map(example => replayCoverageExample(policy, example))
+    .filter((calibration): calibration is CoverageExampleCalibration => calibration !== null);
+}
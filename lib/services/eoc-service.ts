@@ -0,0 +1,240 @@
+/**
+ * EOC Service - Chunking and retrieval over an Evidence of Coverage
+ *
+ * The SBC is a short summary; whether a particular treatment is covered, and
+ * under which conditions, is spelled out in the plan's Evidence of Coverage
+ * (or Certificate of Coverage), which runs to a hundred pages or more. The
+ * document is split into page-bound chunks under their section headings, and
+ * the chunks most relevant to a question are retrieved so AI answers can
+ * quote them with page citations.
+ *
+ * Key features:
+ * - Section heading detection ("Section 4", "ARTICLE IV", "4.2 Bariatric Surgery", all-caps titles)
+ * - Running headers and footers removed before chunking
+ * - Chunks never span pages, so each passage has a single page number
+ * - BM25 ranking with heading words weighted above body text, no external index needed
+ * - Model citations checked against the retrieved passages before they're shown
+ */
+
+import type { EocChunk, EocCitation, EocPassage } from "@/types/schemas";
+
+// =============================================================================
+// TYPES AND CONSTANTS
+// =============================================================================
+
+/** Target chunk length in words; a chunk ends early at a heading or the end of a page */
+export const EOC_CHUNK_WORDS = 180;
+
+/** Passages retrieved per question by default */
+export const DEFAULT_PASSAGE_LIMIT = 4;
+
+const MAX_HEADING_LENGTH = 80;
+const MAX_HEADING_WORDS = 12;
+
+// A line on this share of pages is a running header or footer (plan name, page numbers, form ids)
+const RUNNING_LINE_PAGE_SHARE = 0.3;
+const MIN_PAGES_FOR_RUNNING_LINES = 4;
+
+// BM25 parameters, and how much more a heading word counts than a body word
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+const HEADING_WEIGHT = 2;
+
+// Passages scoring below this share of the best one only share common words with the query
+const MIN_RELATIVE_SCORE = 0.3;
+
+const NUMBERED_HEADING = /^((section|article|chapter|part|secci[oó]n|art[ií]culo|cap[ií]tulo|parte)\s+([0-9]+[a-z]?|[ivxlc]+)\b|[0-9]+(\.[0-9]+)*\.?\s+[A-ZÁÉÍÓÚÑ])/i;
+
+const STOP_WORDS = new Set([
+  "a", "about", "an", "and", "are", "as", "at", "be", "by", "can", "do", "does", "for", "from", "have", "how", "i", "if",
+  "in", "is", "it", "may", "me", "my", "of", "on", "or", "our", "that", "the", "this", "to", "we", "what", "when", "will",
+  "with", "you", "your",
+  "al", "de", "del", "el", "en", "es", "la", "las", "lo", "los", "mi", "o", "para", "por", "que", "se", "si", "su", "un", "una", "y",
+]);
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+/**
+ * Lowercase, accent-free content words, with plural "s" dropped
+ */
+function toTokens(text: string): string[] {
+  return text
+    .toLowerCase()
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .replace(/['’]s\b/g, "")
+    .replace(/[^a-z0-9]+/g, " ")
+    .trim()
+    .split(" ")
+    .filter(word => word && !STOP_WORDS.has(word))
+    .map(word => word.length > 3 ? word.replace(/s$/, "") : word);
+}
+
+const normalizeLine = (line: string) => line.replace(/\s+/g, " ").trim();
+
+// Page numbers and dates change from page to page; the rest of a running line doesn't
+const runningLineKey = (line: string) => line.toLowerCase().replace(/[0-9]+/g, "#");
+
+/**
+ * Lines that repeat on many pages, keyed by runningLineKey
+ */
+function findRunningLines(pages: string[][]): Set<string> {
+  if (pages.length < MIN_PAGES_FOR_RUNNING_LINES) return new Set();
+  const pageCounts = new Map<string, number>();
+  pages.forEach(lines => new Set(lines.map(runningLineKey)).forEach(key => pageCounts.set(key, (pageCounts.get(key) ?? 0) + 1)));
+  const threshold = Math.max(3, pages.length * RUNNING_LINE_PAGE_SHARE);
+  return new Set(Array.from(pageCounts).filter(([, count]) => count >= threshold).map(([key]) => key));
+}
+
+/**
+ * Whether a line is a section heading rather than body text
+ */
+export function isEocHeading(line: string): boolean {
+  if (line.length > MAX_HEADING_LENGTH || line.split(" ").length > MAX_HEADING_WORDS) return false;
+  // Sentences and list items end in punctuation; headings don't
+  if (/[.,;]$/.test(line)) return false;
+  if (NUMBERED_HEADING.test(line)) return true;
+  const letters = line.replace(/[^A-Za-zÁÉÍÓÚÑáéíóúñ]/g, "");
+  return letters.length >= 4 && letters === letters.toUpperCase();
+}
+
+// =============================================================================
+// CHUNKING
+// =============================================================================
+
+/**
+ * Split the text of an EOC into chunks for retrieval
+ *
+ * @param pages_text Text of every page, with line breaks
+ * @returns Chunks in document order, each labeled with its page and the section heading it falls under
+ *
+ * @example
+ * ```typescript
+ * const { pages } = await extractPagesText(file_buffer, file.name, file.type);
+ * const chunks = chunkEocPages(pages);
+ * // [{ id: 0, page: 1, heading: "SECTION 1: HOW YOUR PLAN WORKS", text: "..." }, ...]
+ * ```
+ */
+export function chunkEocPages(pages_text: string[]): EocChunk[] {
+  const pages = pages_text.map(text => text.split("\n").map(normalizeLine).filter(Boolean));
+  const runningLines = findRunningLines(pages);
+  const chunks: EocChunk[] = [];
+  // A section continues across page breaks until the next heading
+  let heading: string | undefined;
+
+  pages.forEach((lines, index) => {
+    let words: string[] = [];
+    const flush = () => {
+      if (words.length === 0) return;
+      chunks.push({ id: chunks.length, page: index + 1, heading, text: words.join(" ") });
+      words = [];
+    };
+
+    for (const line of lines) {
+      if (runningLines.has(runningLineKey(line))) continue;
+      if (isEocHeading(line)) {
+        flush();
+        heading = line;
+        continue;
+      }
+      for (const word of line.split(" ")) {
+        words.push(word);
+        if (words.length >= EOC_CHUNK_WORDS) flush();
+      }
+    }
+    flush();
+  });
+
+  return chunks;
+}
+
+// =============================================================================
+// RETRIEVAL
+// =============================================================================
+
+/**
+ * Rank EOC chunks by relevance to a question
+ *
+ * @param chunks Chunks of one EOC
+ * @param query The user's question or topic, e.g. "Is bariatric surgery covered?"
+ * @param limit Maximum passages to return
+ * @returns Matching chunks with their BM25 score, best first; empty when no chunk shares a word with the query
+ *
+ * @example
+ * ```typescript
+ * const passages = searchEocChunks(index.chunks, "bariatric surgery");
+ * passages[0]; // { page: 57, heading: "Weight Loss Surgery", text: "...", score: 9.1 }
+ * ```
+ */
+export function searchEocChunks(chunks: EocChunk[], query: string, limit = DEFAULT_PASSAGE_LIMIT): EocPassage[] {
+  const queryTokens = Array.from(new Set(toTokens(query)));
+  if (queryTokens.length === 0 || chunks.length === 0) return [];
+
+  const documents = chunks.map(chunk => {
+    const frequencies = new Map<string, number>();
+    const add = (tokens: string[], weight: number) =>
+      tokens.forEach(token => frequencies.set(token, (frequencies.get(token) ?? 0) + weight));
+    const body = toTokens(chunk.text);
+    const heading = toTokens(chunk.heading ?? "");
+    add(body, 1);
+    add(heading, HEADING_WEIGHT);
+    return { chunk, frequencies, length: body.length + heading.length * HEADING_WEIGHT };
+  });
+
+  const averageLength = documents.reduce((sum, document) => sum + document.length, 0) / documents.length || 1;
+  const inverseFrequency = new Map(queryTokens.map(token => {
+    const containing = documents.filter(document => document.frequencies.has(token)).length;
+    return [token, Math.log(1 + (documents.length - containing + 0.5) / (containing + 0.5))];
+  }));
+
+  return documents
+    .map(({ chunk, frequencies, length }) => ({
+      ...chunk,
+      score: queryTokens.reduce((score, token) => {
+        const frequency = frequencies.get(token) ?? 0;
+        if (frequency === 0) return score;
+        const saturation = frequency * (BM25_K1 + 1) / (frequency + BM25_K1 * (1 - BM25_B + BM25_B * length / averageLength));
+        return score + inverseFrequency.get(token)! * saturation;
+      }, 0),
+    }))
+    .filter(passage => passage.score > 0)
+    .sort((a, b) => b.score - a.score || a.id - b.id)
+    .filter((passage, _index, ranked) => passage.score >= ranked[0].score * MIN_RELATIVE_SCORE)
+    .slice(0, limit);
+}
+
+/**
+ * Passages as prompt text, each labeled with the page and section it came from
+ *
+ * @example
+ * ```typescript
+ * formatEocPassages(passages);
+ * // [EOC p. 57, Weight Loss Surgery]
+ * // Bariatric surgery is covered when ...
+ * ```
+ */
+export function formatEocPassages(passages: EocPassage[]): string {
+  return passages
+    .map(({ page, heading, text }) => `[EOC p. ${page}${heading ? `, ${heading}` : ""}]\n${text}`)
+    .join("\n\n");
+}
+
+// Quotes are compared without case, spacing or quote-mark differences
+const normalizeQuote = (text: string) => text.toLowerCase().replace(/[“”]/g, '"').replace(/[‘’]/g, "'").replace(/\s+/g, " ").trim();
+
+/**
+ * Keep only citations whose quote appears in a retrieved passage on the cited page,
+ * so a misquoted or invented passage is never shown as the plan's wording
+ *
+ * @param citations Citations returned by the model
+ * @param passages Passages the model was given
+ */
+export function verifyEocCitations(citations: EocCitation[], passages: EocPassage[]): EocCitation[] {
+  return citations.filter(({ page, quote }) => {
+    const normalized = normalizeQuote(quote).replace(/^\.+|\.+$/g, "");
+    return normalized.length > 0 && passages.some(passage =>
+      passage.page === page && normalizeQuote(passage.text).includes(normalized));
+  });
+}
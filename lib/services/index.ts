@@ -16,6 +16,51 @@ export * as InsuranceAIService from "./insurance-ai-service";
 // Export all functions from policy service  
 export * as PolicyService from "./policy-service";
 
+// Export all functions from cost-sharing service
+export * as CostSharingService from "./cost-sharing-service";
+
+// Export all functions from accumulator service
+export * as AccumulatorService from "./accumulator-service";
+
+// Export all functions from adjudication service
+export * as AdjudicationService from "./adjudication-service";
+
+// Export all functions from simulation service
+export * as SimulationService from "./simulation-service";
+
+// Export all functions from provenance service
+export * as ProvenanceService from "./provenance-service";
+
+// Export all functions from consistency service
+export * as ConsistencyService from "./consistency-service";
+
+// Export all functions from confidence service
+export * as ConfidenceService from "./confidence-service";
+
+// Export all functions from coverage example service
+export * as CoverageExampleService from "./coverage-example-service";
+
+// Export all functions from service name service
+export * as ServiceNameService from "./service-name-service";
+
+// Export all functions from network tier service
+export * as NetworkTierService from "./network-tier-service";
+
+// Export all functions from policy diff service
+export * as PolicyDiffService from "./policy-diff-service";
+
+// Export all functions from claims ledger service
+export * as ClaimsLedgerService from "./claims-ledger-service";
+
+// Export all functions from itemized bill analysis service
+export * as BillAnalysisService from "./bill-analysis-service";
+
+// Export all functions from evidence of coverage service
+export * as EocService from "./eoc-service";
+
+// Export all functions from total cost of ownership service
+export * as TCOService from "./tco-service";
+
 // Re-export key types and errors for convenience
 export {
   InsuranceAIError,
@@ -29,26 +74,152 @@ export {
 
 export type {
   PolicyTemplate,
-  ParseProgressCallback,
-  ParsePDFOptions,
 } from "./policy-service";
 
+export type {
+  AccumulatorLimits,
+  AccumulatorSettings,
+  FamilyAccumulatorRule,
+  RemainingAccumulators,
+  TierSpending,
+} from "./accumulator-service";
+
+export type {
+  AdjudicationOptions,
+} from "./adjudication-service";
+
+export type {
+  SimulationOptions,
+} from "./simulation-service";
+
+export type {
+  ExclusionList,
+  Page1SourceField,
+  SourceDocument,
+  SourceLine,
+} from "./provenance-service";
+
+export type {
+  ConsistencyRule,
+} from "./consistency-service";
+
+export type {
+  ReviewField,
+  ReviewItem,
+} from "./confidence-service";
+
+export type {
+  ServiceCoverageReport,
+  ServiceNameMatch,
+  ServiceNameMatchMethod,
+} from "./service-name-service";
+
+export type {
+  LedgerImportOptions,
+  LedgerTotals,
+} from "./claims-ledger-service";
+
+export type {
+  AnalyzedBillLine,
+  BillAnalysis,
+  BillAnalysisOptions,
+  BillFlag,
+  BillFlagKind,
+} from "./bill-analysis-service";
+
+export type {
+  PolicyDiffReport,
+  PolicyFieldDiff,
+} from "./policy-diff-service";
+
 /**
  * Service usage documentation for code tourists:
  * 
  * 🤖 InsuranceAIService
  * - generateCategories(): AI-powered category analysis
  * - generateSituations(): Contextual healthcare suggestions
- * - analyzeSituation(): Detailed cost and coverage analysis
+ * - analyzeSituation(): Itemize a situation and narrate its adjudicated cost
  * - clearAllCaches(): Cache management utilities
  * 
  * 📄 PolicyService
- * - parsePDF(): Convert SBC PDFs to structured data
  * - loadTemplate(): Load predefined policy templates
  * - validatePolicyData(): Validate policy data structure
  * - extractFinancialSummary(): Get key financial details
  * - getAvailableTemplates(): List available demo policies
  * 
+ * 🧮 CostSharingService
+ * - parsePolicyCostSharing(): Convert SBC cost-sharing text into typed rules
+ * - parseCostSharingText(): Parse a single "what you will pay" cell
+ * - parseVisitExceptions(): Read visit-count exceptions from limitations text
+ * 
+ * ⚖️ AdjudicationService
+ * - adjudicateClaim(): Price billed line items against a policy deterministically
+ * 
+ * 👪 AccumulatorService
+ * - getRemainingAccumulators(): A member's remaining deductible and out-of-pocket balances
+ * - getFamilyDeductibleRule(): Embedded vs. aggregate family deductible from SBC wording
+ * - getAccumulatorNetwork(): Which network tier a service's spending counts toward
+ * - getFamilyAccumulators(): Household spending totals
+ * - setActiveMember() / syncMembers(): Keep per-member spending in settings
+ * - setMemberAccumulators(): Replace every member's spending at once
+ * 
+ * 🎲 SimulationService
+ * - simulateHouseholdCosts(): Monte Carlo distribution of annual out-of-pocket cost
+ * - sampleMemberYear(): Sample one plan year of care for a member
+ * 
+ * 🔎 ProvenanceService
+ * - locateQuote(): Verify a quoted source and find it on the page
+ * - getFieldSource(): Where a parsed value came from (page, quote, region)
+ * - page1SourceKey() / serviceSourceKey() / exclusionSourceKey(): Provenance keys
+ * 
+ * 🩺 ConsistencyService
+ * - validatePolicyConsistency(): Warnings for values that contradict each other
+ * 
+ * 🎯 ConfidenceService
+ * - scorePolicyConfidence(): Score fields from model, source agreement and consistency signals
+ * - getReviewItems(): Low-confidence fields the user should confirm before saving
+ * - applyReview(): Confirm or correct a field
+ * 
+ * 📘 CoverageExampleService
+ * - calibrateWithCoverageExamples(): Replay the SBC's coverage examples against the issuer's figures
+ * - getCoverageExampleAnchor(): Issuer-published example for a similar situation
+ * - getExampleLineItems(): Standard bill behind an example
+ * 
+ * 🏷️ ServiceNameService
+ * - normalizeServiceName(): Map a services table row name to its standard service type
+ * - normalizeServiceRows(): Rename rows to standard service types with a coverage report
+ * - getServiceCoverageReport(): Mapped, unmapped and missing standard services of a policy
+ * 
+ * 🏥 NetworkTierService
+ * - getNetworkTiers(): Ordered network columns of the services table
+ * - getSelectedNetworkTier(): The tier the user prices care in
+ * - applyNetworkTier(): Price a policy in one tier through the standard columns
+ * 
+ * 🧪 PolicyDiffService
+ * - diffPolicies(): Field-by-field comparison of a parsed policy with its golden template
+ * - flattenPolicy(): Extraction results as leaf fields by path
+ * 
+ * 🧾 ClaimsLedgerService
+ * - toLedgerClaims(): Claims read from an EOB as ledger entries matched to household members
+ * - mergeLedgerClaims(): Add claims without duplicating ones already in the ledger
+ * - applyLedgerToSettings(): Derive deductible and out-of-pocket spending from the ledger
+ * - getLedgerTotals(): Billed, allowed, paid and owed totals
+ * 
+ * 🩺 BillAnalysisService
+ * - analyzeItemizedBill(): Map a bill's CPT/HCPCS/revenue codes to SBC services, estimate the patient share and flag problems
+ * - isPreventiveLine(): Whether a charge is a preventive service
+ * - getCodeSystem(): CPT or HCPCS code set of a procedure code
+ * 
+ * 📚 EocService
+ * - chunkEocPages(): Split an Evidence of Coverage into page-cited chunks under their headings
+ * - searchEocChunks(): Rank chunks by relevance to a question (BM25)
+ * - formatEocPassages(): Passages as prompt text with page labels
+ * - verifyEocCitations(): Drop model quotes that aren't in the retrieved passages
+ * 
+ * 💵 TCOService
+ * - calculateTotalCostOfOwnership(): Premiums plus expected and worst-case out-of-pocket
+ * - getAnnualPremium(): Twelve months of premium or payroll contributions
+ * 
  * 💡 Usage Tips:
  * - Always handle service errors with try/catch blocks
  * - Use the provided error codes for specific error handling
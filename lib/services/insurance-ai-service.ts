@@ -17,16 +17,23 @@
 import { generateObjectWithAIRetry } from "@/lib/ai-retry";
 import { anthropic } from "@ai-sdk/anthropic";
 import { groq } from "@ai-sdk/groq";
-import { generateText } from "ai";
 import { z } from "zod";
+import { getRemainingAccumulators } from "@/lib/services/accumulator-service";
+import { adjudicateClaim } from "@/lib/services/adjudication-service";
+import { getCoverageExampleAnchor } from "@/lib/services/coverage-example-service";
+import { formatEocPassages, verifyEocCitations } from "@/lib/services/eoc-service";
+import { getResponseLanguageInstruction } from "@/lib/sbc-language";
 import type {
   ParsedPolicy,
+  InsuranceSettings,
   GenerateCategoriesInput,
   GenerateCategoriesOutput,
   GenerateSituationsInput,
+  SituationAnalysis,
 } from "@/types/schemas";
 import {
   GenerateCategoriesOutputSchema,
+  MedicalServiceTypeSchema,
 } from "@/types/schemas";
 
 // =============================================================================
@@ -116,6 +123,7 @@ class SimpleCache<T> {
 // Initialize caches
 const categoryCache = new SimpleCache<GenerateCategoriesOutput>(CACHE_CONFIG.categories);
 const situationCache = new SimpleCache<string[]>(CACHE_CONFIG.situations);
+const analysisCache = new SimpleCache<SituationAnalysis>(CACHE_CONFIG.analysis);
 
 // =============================================================================
 // ERROR TYPES AND HANDLING
@@ -210,6 +218,12 @@ export async function generateCategories(
 
     // Build AI prompt with comprehensive context
     const networkContext = input.context.isInNetwork ? "In-Network" : "Out-of-Network";
+    const remaining = getRemainingAccumulators(
+      input.policy,
+      input.context,
+      undefined,
+      input.context.isInNetwork ? "in_network" : "out_of_network"
+    );
     const systemPrompt = `You are a health insurance expert. Generate relevant insurance categories based on treatments, medications, or procedures for the user's query.
 
 Query: ${input.query}
@@ -241,8 +255,13 @@ When assigning a score, consider not just the percentage covered, but also wheth
 
 Consider the context: ${networkContext}, 
 Deductible spent: $${input.context.deductibleSpent}, Out-of-pocket spent: $${input.context.outOfPocketSpent}
+Remaining deductible: $${remaining.deductible}, Remaining out-of-pocket: $${remaining.outOfPocket}${remaining.familyCoverage ? ` (${remaining.deductibleRule} family deductible, family remaining: $${remaining.familyDeductible})` : ""}
+
+Policy: ${JSON.stringify(input.policy)}${input.eoc_passages?.length ? `
 
-Policy: ${JSON.stringify(input.policy)}`;
+The SBC above is only a summary. These passages from the plan's Evidence of Coverage (EOC) are the governing terms for this query; when they cover a category, base its score and description on them, cite them as "(EOC p. N)" in the description, and add the exact sentences you relied on to eoc_citations with their page. Quote only text that appears in a passage below.
+
+${formatEocPassages(input.eoc_passages)}` : ""}${getResponseLanguageInstruction(input.policy.language)}`;
 
     // Generate categories with AI
     const result = await generateObjectWithAIRetry({
@@ -260,6 +279,11 @@ Policy: ${JSON.stringify(input.policy)}`;
 
     // Validate the result
     const validatedResult = GenerateCategoriesOutputSchema.parse(result);
+    validatedResult.categories.forEach(category => {
+      if (category.eoc_citations) {
+        category.eoc_citations = verifyEocCitations(category.eoc_citations, input.eoc_passages ?? []);
+      }
+    });
 
     // Cache the result
     categoryCache.set(cacheKey, validatedResult);
@@ -338,7 +362,7 @@ Return a JSON array of 5 relevant situation strings.
 
 ${input.context.currentCategory ? `Focus on situations related to ${input.context.currentCategory}.` : ""}
 
-Policy: ${JSON.stringify(input.policy)}`;
+Policy: ${JSON.stringify(input.policy)}${getResponseLanguageInstruction(input.policy?.language)}`;
 
     const result = await generateObjectWithAIRetry({
       model: AI_MODELS.CATEGORIZATION,
@@ -384,55 +408,150 @@ Policy: ${JSON.stringify(input.policy)}`;
 // SITUATION ANALYSIS SERVICE
 // =============================================================================
 
+/**
+ * Schema for the AI-estimated bill of a situation
+ * The model only itemizes services and typical allowed amounts; it never prices them
+ */
+const SituationLineItemsSchema = z.object({
+  line_items: z.array(
+    z.object({
+      service_type: MedicalServiceTypeSchema,
+      description: z.string(),
+      allowed_amount: z.number().min(0),
+      units: z.number().int().min(1),
+      label: z.string().optional(),
+    })
+  ),
+});
+
+/**
+ * Schema for the AI narration of an adjudicated situation
+ */
+const SituationNarrationSchema = z.object({
+  coverageDetails: z.string(),
+  recommendations: z.array(z.string()),
+});
+
 /**
  * Analyze a specific healthcare situation for cost and coverage details
  * 
- * This function provides detailed analysis of what a user would pay
- * for a specific healthcare situation given their current policy and spending.
+ * The AI model breaks the situation down into billed line items with typical
+ * allowed amounts. The patient's share is then computed locally by the
+ * AdjudicationService, and the model only explains that result.
  * 
  * @param situation Healthcare situation to analyze
- * @param context User's current insurance context
- * @returns Promise resolving to cost estimate and coverage details
+ * @param policy User's parsed policy data
+ * @param settings User's current network preference and accumulators
+ * @returns Promise resolving to cost estimate, coverage details and adjudication breakdown
+ * 
+ * @example
+ * ```typescript
+ * const analysis = await analyzeSituation(
+ *   "Emergency room visit for chest pain",
+ *   userPolicy,
+ *   { isInNetwork: true, deductibleSpent: 1000, outOfPocketSpent: 2000 }
+ * );
+ * console.log(analysis.adjudication?.totals.patient_responsibility);
+ * ```
  */
 export async function analyzeSituation(
   situation: string,
-  context: {
-    isInNetwork: boolean;
-    deductibleSpent: number;
-    outOfPocketSpent: number;
-    deductibleLimit: number;
-    outOfPocketLimit: number;
-  }
-): Promise<{
-  estimatedCost: number;
-  coverageDetails: string;
-  recommendations: string[];
-}> {
+  policy: ParsedPolicy,
+  settings: InsuranceSettings
+): Promise<SituationAnalysis> {
   const operation = "analyzeSituation";
   
   try {
+    if (!situation.trim()) {
+      throw createAIError("Situation cannot be empty", "INVALID_INPUT", operation);
+    }
+
+    // Check cache first
+    const cacheKey = `analysis_${JSON.stringify({ situation, policy, settings })}`;
+    const cached = analysisCache.get(cacheKey);
+    if (cached) {
+      console.log("Returning cached analysis for:", situation);
+      return cached;
+    }
+
     console.log("Analyzing situation:", situation);
 
-    const systemPrompt = `You are a health insurance expert. Analyze the given healthcare situation and provide cost estimates and coverage details.
-Return a JSON object with:
-{
-  "estimatedCost": number (estimated out-of-pocket cost),
-  "coverageDetails": string (explanation of coverage),
-  "recommendations": string[] (array of 2-3 recommendations)
-}
+    const network = settings.isInNetwork ? "in_network" : "out_of_network";
+
+    // Step 1: let the model itemize the expected bill
+    const estimate = await generateObjectWithAIRetry({
+      model: AI_MODELS.ESTIMATION,
+      system: `You are a medical billing expert. Break the given healthcare situation down into the individual services that would be billed.
 
-Context:
-- Network: ${context.isInNetwork ? "In-Network" : "Out-of-Network"}
-- Deductible: $${context.deductibleSpent} spent of $${context.deductibleLimit}
-- Out-of-pocket: $${context.outOfPocketSpent} spent of $${context.outOfPocketLimit}`;
+For each line item return:
+- service_type: the closest matching service category
+- description: a short description of the billed service
+- allowed_amount: a typical negotiated (allowed) amount in USD for all units of this line
+- units: number of visits, days or prescriptions billed on this line
+- label: optional sub-category (e.g. "Generic drugs", "Facility fee") when the service has several
 
-    const { text } = await generateText({
+Do NOT calculate what the patient pays. Only itemize the bill.
+
+Available service categories: ${policy.services_you_may_need.map((service) => service.name).join(", ")}${getResponseLanguageInstruction(policy.language)}`,
+      messages: [
+        {
+          role: "user",
+          content: `Itemize this healthcare situation: "${situation}"`,
+        },
+      ],
+      schema: SituationLineItemsSchema,
+      backupModel: AI_MODELS.FALLBACK,
+    }) as z.infer<typeof SituationLineItemsSchema>;
+
+    // Step 2: price the bill deterministically
+    const adjudication = adjudicateClaim(
+      policy,
+      settings,
+      estimate.line_items.map((item) => ({ ...item, network })),
+      { networkTier: settings.networkTier }
+    );
+
+    // The issuer's own figure for a similar situation, from the SBC coverage examples
+    const coverageExample = getCoverageExampleAnchor(policy, situation);
+    const anchorSection = coverageExample
+      ? `
+
+Issuer's coverage example for a similar situation ("${coverageExample.title}"): a total cost of $${coverageExample.total_example_cost.toLocaleString()} of which the patient pays $${coverageExample.total_you_would_pay.toLocaleString()}.
+Compare the estimate with this published figure and explain any large difference (e.g. deductible already met, a different mix of services).`
+      : "";
+
+    // Step 3: let the model explain the computed result
+    const narration = await generateObjectWithAIRetry({
       model: AI_MODELS.ESTIMATION,
-      system: systemPrompt,
-      prompt: `Analyze this healthcare situation: "${situation}"`,
-    });
+      system: `You are a health insurance expert. Explain to the user how their plan covers the situation below.
+The dollar amounts have already been calculated and are final; do not recalculate or contradict them.
+Write the coverage details in plain language and give 2-3 practical recommendations.
+
+Situation: ${situation}
+
+Claim breakdown:
+${adjudication.trace.join("\n")}${anchorSection}${getResponseLanguageInstruction(policy.language)}`,
+      messages: [
+        {
+          role: "user",
+          content: `Explain the coverage for: "${situation}"`,
+        },
+      ],
+      schema: SituationNarrationSchema,
+      backupModel: AI_MODELS.FALLBACK,
+    }) as z.infer<typeof SituationNarrationSchema>;
+
+    const result: SituationAnalysis = {
+      estimatedCost: adjudication.totals.patient_responsibility,
+      coverageDetails: narration.coverageDetails,
+      recommendations: narration.recommendations,
+      adjudication,
+      coverageExample,
+    };
+
+    // Cache the result
+    analysisCache.set(cacheKey, result);
 
-    const result = JSON.parse(text);
     console.log("Situation analysis completed for:", situation);
     return result;
 
@@ -448,6 +567,7 @@ Context:
         "Review your Summary of Benefits and Coverage document",
         "Consider discussing alternatives with your healthcare provider",
       ],
+      adjudication: null,
     };
   }
 }
@@ -463,6 +583,7 @@ Context:
 export function clearAllCaches(): void {
   categoryCache.clear();
   situationCache.clear();
+  analysisCache.clear();
   console.log("All AI service caches cleared");
 }
 
@@ -481,6 +602,11 @@ export function getCacheStats() {
       maxSize: CACHE_CONFIG.situations.maxSize,
       enabled: CACHE_CONFIG.situations.enabled,
     },
+    analysis: {
+      size: analysisCache['cache'].size,
+      maxSize: CACHE_CONFIG.analysis.maxSize,
+      enabled: CACHE_CONFIG.analysis.enabled,
+    },
   };
 }
 
@@ -0,0 +1,150 @@
+/**
+ * Network Tier Service - Multi-tier provider networks in the services table
+ *
+ * Most SBCs have one in-network and one out-of-network column, but tiered
+ * PPOs, EPOs and some HMOs print several ("Tier 1 / Tier 2 / Out-of-Network",
+ * "Preferred / Participating / Non-Participating"). This service describes
+ * those columns as ordered network tiers and prices a policy as seen from the
+ * tier the user picked, so cost sharing, adjudication and simulation keep
+ * working on the two standard columns.
+ *
+ * Key features:
+ * - Network tiers from printed column headings, with in/out-of-network classification
+ * - Default two-tier view for policies without tiers
+ * - Selected tier from settings, falling back to the in-/out-of-network toggle
+ * - Policy view that prices the selected tier through the standard columns
+ */
+
+import type { ClaimNetwork, InsuranceSettings, NetworkTier, ParsedPolicy, ServiceYouMayNeed } from "@/types/schemas";
+
+// =============================================================================
+// CONSTANTS
+// =============================================================================
+
+/**
+ * Tiers of a policy with the standard two columns, keyed like the columns themselves
+ */
+export const DEFAULT_NETWORK_TIERS: NetworkTier[] = [
+  { id: "network_provider", name: "In-Network", network: "in_network" },
+  { id: "out_of_network_provider", name: "Out-of-Network", network: "out_of_network" },
+];
+
+// Column headings that describe out-of-network care
+const OUT_OF_NETWORK_PATTERN = /out[\s-]*of[\s-]*network|non[\s-]*(?:network|participating|preferred|contracted)|not in network/i;
+
+// =============================================================================
+// TIERS
+// =============================================================================
+
+/**
+ * Stable tier id from a column heading ("Tier 1 (Preferred)" -> "tier_1_preferred")
+ */
+export function toNetworkTierId(name: string): string {
+  return name.toLowerCase().replace(/[^a-z0-9]+/g, "_").replace(/^_+|_+$/g, "") || "tier";
+}
+
+/**
+ * Describe the network columns of a services table
+ *
+ * @param columns Column headings, left to right
+ * @returns One tier per column, with unique ids
+ *
+ * @example
+ * ```typescript
+ * buildNetworkTiers(["Tier 1", "Tier 2", "Out-of-Network"]);
+ * // [{ id: "tier_1", ..., network: "in_network" }, ..., { id: "out_of_network", ..., network: "out_of_network" }]
+ * ```
+ */
+export function buildNetworkTiers(columns: string[]): NetworkTier[] {
+  const seen = new Map<string, number>();
+  return columns.map(column => {
+    const name = column.trim();
+    const baseId = toNetworkTierId(name);
+    const count = (seen.get(baseId) ?? 0) + 1;
+    seen.set(baseId, count);
+    return {
+      id: count > 1 ? `${baseId}_${count}` : baseId,
+      name,
+      network: OUT_OF_NETWORK_PATTERN.test(name) ? "out_of_network" : "in_network",
+    };
+  });
+}
+
+/**
+ * Network tiers of a policy, in printed order
+ *
+ * @param policy Parsed policy data
+ * @returns The policy's tiers, or the standard in-/out-of-network pair
+ */
+export function getNetworkTiers(policy: ParsedPolicy): NetworkTier[] {
+  return policy.network_tiers?.length ? policy.network_tiers : DEFAULT_NETWORK_TIERS;
+}
+
+/**
+ * Whether a policy has more network columns than in- and out-of-network
+ */
+export function hasMultipleNetworkTiers(policy: ParsedPolicy): boolean {
+  return (policy.network_tiers?.length ?? 0) > 0;
+}
+
+/**
+ * The tier the user prices care in
+ *
+ * @param tiers Network tiers of the policy (see getNetworkTiers)
+ * @param settings The user's tier choice and in-/out-of-network toggle
+ * @returns The chosen tier when the policy has it, otherwise the first tier of the toggled network
+ */
+export function getSelectedNetworkTier(
+  tiers: NetworkTier[],
+  settings: Pick<InsuranceSettings, "isInNetwork" | "networkTier">
+): NetworkTier {
+  const network: ClaimNetwork = settings.isInNetwork ? "in_network" : "out_of_network";
+  return tiers.find(tier => tier.id === settings.networkTier)
+    ?? tiers.find(tier => tier.network === network)
+    ?? tiers[0];
+}
+
+// =============================================================================
+// COST SHARING
+// =============================================================================
+
+/**
+ * What a service costs in a tier
+ *
+ * @param service Row of the services table
+ * @param tier Network tier
+ * @returns The tier's cell, falling back to the standard column of its network
+ */
+export function getTierCostSharingText(service: ServiceYouMayNeed, tier: NetworkTier): string {
+  const { what_you_will_pay } = service;
+  return what_you_will_pay.tiers?.[tier.id]
+    ?? (tier.network === "in_network" ? what_you_will_pay.network_provider : what_you_will_pay.out_of_network_provider);
+}
+
+/**
+ * Policy as priced in one tier
+ *
+ * The tier's cells replace the standard column of its network, so every
+ * service that reads network_provider / out_of_network_provider prices the
+ * selected tier.
+ *
+ * @param policy Parsed policy data
+ * @param tierId Selected NetworkTier id
+ * @returns The policy unchanged when the tier is unknown or already a standard column
+ */
+export function applyNetworkTier(policy: ParsedPolicy, tierId: string | undefined): ParsedPolicy {
+  const tier = policy.network_tiers?.find(tier => tier.id === tierId);
+  if (!tier) return policy;
+
+  const column = tier.network === "in_network" ? "network_provider" : "out_of_network_provider";
+  return {
+    ...policy,
+    services_you_may_need: policy.services_you_may_need.map(service => ({
+      ...service,
+      what_you_will_pay: {
+        ...service.what_you_will_pay,
+        [column]: getTierCostSharingText(service, tier),
+      },
+    })),
+  };
+}
@@ -0,0 +1,137 @@
+/**
+ * Policy Diff Service - Field-by-field comparison of a parsed policy with a golden copy
+ *
+ * Extraction quality is measured by re-parsing an SBC and comparing the result
+ * with its stored template. Both policies are flattened into leaf fields with
+ * stable paths, so a change to the prompts or post-processing shows up as the
+ * exact fields it broke or fixed.
+ *
+ * Key features:
+ * - Rows keyed by service name, tier id or example scenario instead of position
+ * - Lists of strings compared as sets
+ * - Whitespace- and case-insensitive text comparison
+ * - Artifacts of a particular run (URLs, provenance, confidence) ignored
+ */
+
+import type { ParsedPolicy } from "@/types/schemas";
+
+// =============================================================================
+// TYPES AND CONSTANTS
+// =============================================================================
+
+/**
+ * A field whose value differs between the golden and the parsed policy
+ */
+export interface PolicyFieldDiff {
+  /** e.g. "services_you_may_need[specialist_visit].what_you_will_pay.network_provider" */
+  path: string;
+  /** Undefined when the parsed policy has a field the golden copy doesn't */
+  expected: unknown;
+  /** Undefined when the field is missing from the parsed policy */
+  actual: unknown;
+}
+
+/**
+ * Result of comparing a parsed policy with its golden copy
+ */
+export interface PolicyDiffReport {
+  /** Number of distinct field paths in either policy */
+  compared: number;
+  matched: number;
+  /** matched / compared, from 0 to 1 */
+  accuracy: number;
+  differences: PolicyFieldDiff[];
+}
+
+/** Fields that differ on every run (URLs, quotes, scores) and aren't extraction results */
+export const IGNORED_FIELDS = ["file_url", "image_urls", "provenance", "confidence"] as const;
+
+// Properties that identify an element of an array of objects
+const ARRAY_KEY_PROPERTIES = ["name", "id", "scenario"] as const;
+
+type FieldValue = string | number | boolean | null;
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+const normalizeText = (text: string) => text.replace(/\s+/g, " ").trim().toLowerCase();
+
+const elementKey = (element: unknown, index: number): string => {
+  if (element && typeof element === "object") {
+    for (const property of ARRAY_KEY_PROPERTIES) {
+      const key = (element as Record<string, unknown>)[property];
+      if (typeof key === "string" && key) return key;
+    }
+  }
+  return String(index);
+};
+
+/**
+ * Leaf fields of a value by path
+ */
+function flatten(value: unknown, path: string, fields: Map<string, FieldValue>) {
+  if (value === undefined) return;
+  if (Array.isArray(value)) {
+    // A list of strings is a set: each entry is present or missing
+    if (value.every(element => typeof element === "string")) {
+      value.forEach(element => fields.set(`${path}[${normalizeText(element)}]`, true));
+      return;
+    }
+    value.forEach((element, index) => flatten(element, `${path}[${elementKey(element, index)}]`, fields));
+    return;
+  }
+  if (value && typeof value === "object") {
+    Object.entries(value).forEach(([key, entry]) => flatten(entry, path ? `${path}.${key}` : key, fields));
+    return;
+  }
+  fields.set(path, typeof value === "string" ? normalizeText(value) : value as FieldValue);
+}
+
+/**
+ * Extraction results of a policy as leaf fields by path
+ *
+ * @example
+ * ```typescript
+ * flattenPolicy(policy).get("important_questions.overall_deductible.individual"); // 500
+ * ```
+ */
+export function flattenPolicy(policy: ParsedPolicy): Map<string, FieldValue> {
+  const fields = new Map<string, FieldValue>();
+  const extracted = Object.fromEntries(Object.entries(policy)
+    .filter(([key]) => !(IGNORED_FIELDS as readonly string[]).includes(key)));
+  flatten(extracted, "", fields);
+  return fields;
+}
+
+// =============================================================================
+// COMPARISON
+// =============================================================================
+
+/**
+ * Compare a parsed policy with its golden copy field by field
+ *
+ * @param expected Golden policy, e.g. a stored template
+ * @param actual Freshly parsed policy
+ * @returns Matched field counts and every differing field, sorted by path
+ *
+ * @example
+ * ```typescript
+ * const report = diffPolicies(template.data, parsed);
+ * console.log(`${Math.round(report.accuracy * 100)}% of fields match`);
+ * report.differences.forEach(({ path, expected, actual }) => console.log(path, expected, "->", actual));
+ * ```
+ */
+export function diffPolicies(expected: ParsedPolicy, actual: ParsedPolicy): PolicyDiffReport {
+  const expectedFields = flattenPolicy(expected);
+  const actualFields = flattenPolicy(actual);
+  const paths = Array.from(new Set([...expectedFields.keys(), ...actualFields.keys()])).sort();
+
+  const differences = paths
+    .filter(path => expectedFields.get(path) !== actualFields.get(path))
+    .map(path => ({ path, expected: expectedFields.get(path), actual: actualFields.get(path) }));
+
+  const compared = paths.length;
+  const matched = compared - differences.length;
+  return { compared, matched, accuracy: compared > 0 ? matched / compared : 1, differences };
+}
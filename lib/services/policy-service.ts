@@ -2,11 +2,11 @@
  * Policy Service - Unified interface for policy data operations
  * 
  * This service handles all operations related to insurance policy data,
- * including parsing PDF documents, loading policy templates, validating
- * policy data, and managing policy storage/retrieval.
+ * including loading policy templates, validating policy data, and managing
+ * policy storage/retrieval. Parsing SBC documents runs on the server in
+ * lib/sbc-parser.ts and uses this service's errors and validation.
  * 
  * Key features:
- * - PDF parsing and data extraction
  * - Policy data validation with Zod schemas
  * - Template policy management
  * - Policy data transformation and normalization
@@ -14,9 +14,10 @@
  * - Async operations with progress tracking
  */
 
-import { parseSBCFile } from "@/actions/parse";
+import { validatePolicyConsistency } from "@/lib/services/consistency-service";
 import { policyTemplate1, policyTemplate2 } from "@/policy-templates";
-import { ParsedPolicySchema, type ParsedPolicy } from "@/types/schemas";
+import { PARSED_POLICY_TEMPLATES } from "@/policy-templates/parsed";
+import { ParsedPolicySchema, type ParsedPolicy, type PolicyWarning } from "@/types/schemas";
 import { z } from "zod";
 
 // =============================================================================
@@ -53,7 +54,7 @@ export const POLICY_ERROR_CODES = {
 /**
  * Create standardized policy error objects
  */
-function createPolicyError(
+export function createPolicyError(
   message: string,
   code: keyof typeof POLICY_ERROR_CODES,
   operation: string,
@@ -67,9 +68,9 @@ function createPolicyError(
 // =============================================================================
 
 /**
- * Available policy templates for demo and testing purposes
+ * Built-in policy templates for demo and testing purposes
  */
-const POLICY_TEMPLATES = {
+const BUILT_IN_TEMPLATES = {
   oscar_secure: {
     id: "oscar_secure",
     name: "Oscar: Secure (Select) Plan",
@@ -94,6 +95,15 @@ export interface PolicyTemplate {
   data: ParsedPolicy;
 }
 
+/**
+ * Built-in templates plus those generated from SBC PDFs by scripts/ingestSBCs.ts
+ * (a generated template replaces a built-in one with the same id)
+ */
+const POLICY_TEMPLATES: Record<string, PolicyTemplate> = {
+  ...BUILT_IN_TEMPLATES,
+  ...Object.fromEntries(PARSED_POLICY_TEMPLATES.map(template => [template.id, template])),
+};
+
 /**
  * Get all available policy templates
  * 
@@ -124,8 +134,7 @@ export function getAvailableTemplates(): PolicyTemplate[] {
  * ```
  */
 export function getTemplateById(templateId: string): PolicyTemplate | null {
-  const template = POLICY_TEMPLATES[templateId as keyof typeof POLICY_TEMPLATES];
-  return template || null;
+  return POLICY_TEMPLATES[templateId] ?? null;
 }
 
 /**
@@ -162,6 +171,7 @@ export async function loadTemplate(templateId: string): Promise<ParsedPolicy> {
 
     // Validate template data
     const validatedPolicy = ParsedPolicySchema.parse(template.data);
+    logConsistencyWarnings(templateId, validatedPolicy);
     
     console.log("Successfully loaded and validated template:", templateId);
     return validatedPolicy;
@@ -192,199 +202,31 @@ export async function loadTemplate(templateId: string): Promise<ParsedPolicy> {
 }
 
 // =============================================================================
-// PDF PARSING SERVICE
+// POLICY DATA UTILITIES
 // =============================================================================
 
 /**
- * Progress callback for PDF parsing operations
- */
-export interface ParseProgressCallback {
-  (stage: string, progress: number): void;
-}
-
-/**
- * Options for PDF parsing operations
- */
-export interface ParsePDFOptions {
-  /** Callback for progress updates */
-  onProgress?: ParseProgressCallback;
-  /** Whether to validate the parsed result */
-  validate?: boolean;
-  /** Maximum file size in bytes (default: 10MB) */
-  maxFileSize?: number;
-}
-
-/**
- * Parse an SBC PDF file into structured policy data
- * 
- * This function handles the complete PDF parsing pipeline:
- * 1. File validation and upload
- * 2. Text extraction with Unstructured API
- * 3. Image generation for visual analysis
- * 4. AI-powered data structuring
- * 5. Data validation and normalization
- * 
- * @param file The PDF file to parse
- * @param options Parsing options and callbacks
- * @returns Promise resolving to parsed policy data
- * @throws PolicyServiceError for various parsing failures
- * 
- * @example
- * ```typescript
- * const fileInput = document.querySelector('input[type="file"]');
- * const file = fileInput.files[0];
- * 
- * try {
- *   const policy = await parsePDF(file, {
- *     onProgress: (stage, progress) => {
- *       console.log(`${stage}: ${progress}%`);
- *     },
- *     validate: true
- *   });
- *   console.log("Parsed policy:", policy.plan_summary.plan_name);
- * } catch (error) {
- *   console.error("Parsing failed:", error.message);
- * }
- * ```
+ * Run the consistency rules on a policy and log what they find
  */
-export async function parsePDF(
-  file: File,
-  options: ParsePDFOptions = {}
-): Promise<ParsedPolicy> {
-  const {
-    onProgress,
-    validate = true,
-    maxFileSize = 10 * 1024 * 1024, // 10MB default
-  } = options;
-  
-  const operation = "parsePDF";
-  
-  try {
-    console.log("Starting PDF parsing for file:", file.name);
-    
-    // File validation
-    if (!file) {
-      throw createPolicyError(
-        "No file provided for parsing",
-        "INVALID_FILE",
-        operation
-      );
-    }
-    
-    if (file.type !== "application/pdf") {
-      throw createPolicyError(
-        "File must be a PDF document",
-        "INVALID_FILE",
-        operation
-      );
-    }
-    
-    if (file.size > maxFileSize) {
-      throw createPolicyError(
-        `File size (${Math.round(file.size / 1024 / 1024)}MB) exceeds maximum allowed size (${Math.round(maxFileSize / 1024 / 1024)}MB)`,
-        "INVALID_FILE",
-        operation
-      );
-    }
-
-    // Progress tracking
-    const updateProgress = (stage: string, progress: number) => {
-      console.log(`PDF parsing progress - ${stage}: ${progress}%`);
-      if (onProgress) {
-        onProgress(stage, progress);
-      }
-    };
-
-    // Stage 1: File upload
-    updateProgress("Uploading file", 10);
-
-    // Stage 2: Text extraction
-    updateProgress("Extracting text", 30);
-
-    // Stage 3: Image generation
-    updateProgress("Generating page images", 50);
-
-    // Stage 4: AI processing
-    updateProgress("Analyzing with AI", 70);
-
-    // Create FormData for the parsing action
-    const formData = new FormData();
-    formData.append("file", file);
-
-    // Call the existing parsing action
-    const parsedData = await parseSBCFile(formData);
-
-    // Stage 5: Validation
-    updateProgress("Validating results", 90);
-
-    let validatedPolicy: ParsedPolicy;
-    if (validate) {
-      try {
-        validatedPolicy = ParsedPolicySchema.parse(parsedData);
-      } catch (validationError) {
-        if (validationError instanceof z.ZodError) {
-          throw createPolicyError(
-            `Parsed data validation failed: ${validationError.errors.map(e => e.message).join(", ")}`,
-            "VALIDATION_FAILED",
-            operation,
-            validationError
-          );
-        }
-        throw validationError;
-      }
-    } else {
-      validatedPolicy = parsedData as ParsedPolicy;
-    }
-
-    // Stage 6: Complete
-    updateProgress("Parsing complete", 100);
-
-    console.log("Successfully parsed PDF:", file.name);
-    console.log("Extracted plan:", validatedPolicy.plan_summary.plan_name);
-    
-    return validatedPolicy;
-
-  } catch (error) {
-    console.error(`${operation} failed for ${file?.name}:`, error);
-    
-    if (error instanceof PolicyServiceError) {
-      throw error;
-    }
-    
-    // Handle network/API errors
-    if (error instanceof Error && error.message.includes("fetch")) {
-      throw createPolicyError(
-        "Network error during PDF processing. Please check your connection and try again.",
-        "NETWORK_ERROR",
-        operation,
-        error
-      );
-    }
-    
-    throw createPolicyError(
-      `PDF parsing failed: ${error instanceof Error ? error.message : "Unknown error"}`,
-      "PARSING_FAILED",
-      operation,
-      error
-    );
+export function logConsistencyWarnings(source: string, policy: ParsedPolicy): PolicyWarning[] {
+  const warnings = validatePolicyConsistency(policy);
+  if (warnings.length > 0) {
+    console.warn(`Policy consistency warnings for ${source}:`, warnings.map(w => `[${w.severity}] ${w.path}: ${w.message}`));
   }
+  return warnings;
 }
 
-// =============================================================================
-// POLICY DATA UTILITIES
-// =============================================================================
-
 /**
- * Validate policy data against the schema
+ * Validate policy data against the schema, then check its values for consistency
  * 
  * @param data Policy data to validate
- * @returns Validation result with errors if any
+ * @returns Validation result with schema errors if any, or consistency warnings for valid data
  * 
  * @example
  * ```typescript
  * const result = validatePolicyData(someData);
  * if (result.valid) {
- *   console.log("Policy data is valid");
+ *   console.log("Policy data is valid", result.warnings);
  * } else {
  *   console.error("Validation errors:", result.errors);
  * }
@@ -394,10 +236,11 @@ export function validatePolicyData(data: unknown): {
   valid: boolean;
   data?: ParsedPolicy;
   errors?: z.ZodError;
+  warnings?: PolicyWarning[];
 } {
   try {
     const validatedData = ParsedPolicySchema.parse(data);
-    return { valid: true, data: validatedData };
+    return { valid: true, data: validatedData, warnings: validatePolicyConsistency(validatedData) };
   } catch (error) {
     if (error instanceof z.ZodError) {
       return { valid: false, errors: error };
@@ -424,10 +267,12 @@ export function extractFinancialSummary(policy: ParsedPolicy) {
     deductible: {
       individual: policy.important_questions.overall_deductible.individual,
       family: policy.important_questions.overall_deductible.family,
+      outOfNetwork: policy.important_questions.overall_deductible.out_of_network,
     },
     outOfPocketMax: {
       individual: policy.important_questions.out_of_pocket_limit_for_plan.individual,
       family: policy.important_questions.out_of_pocket_limit_for_plan.family,
+      outOfNetwork: policy.important_questions.out_of_pocket_limit_for_plan.out_of_network,
     },
     planType: policy.plan_summary.plan_type,
     issuer: policy.plan_summary.issuer_name,
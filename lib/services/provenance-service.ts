@@ -0,0 +1,180 @@
+/**
+ * Provenance Service - Where each extracted policy value came from
+ *
+ * The parse pipeline asks the model to quote the SBC text behind each value.
+ * This service verifies those quotes against the extracted page text, locates
+ * them on the page when line coordinates are available, and stores them in
+ * `ParsedPolicy.provenance` under stable field keys so the UI can show the
+ * highlighted region of the original page image.
+ *
+ * Key features:
+ * - Whitespace-, case- and table-separator-insensitive quote matching
+ * - Bounding boxes from the text extractor's line positions
+ * - Stable keys for plan summary fields, important questions, services and exclusions
+ */
+
+import type { BoundingBox, FieldSource, ParsedPolicy } from "@/types/schemas";
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+/**
+ * A line of page text with its position, as produced by the text extractor
+ */
+export interface SourceLine {
+  text: string;
+  bbox: BoundingBox;
+}
+
+/**
+ * Extracted document text used to verify and locate quotes
+ */
+export interface SourceDocument {
+  pages: string[];
+  lines?: SourceLine[][];
+}
+
+/**
+ * Fields of the plan summary and important questions that carry a source
+ */
+export const PAGE1_SOURCE_FIELDS = [
+  "plan_name",
+  "coverage_period",
+  "overall_deductible",
+  "services_covered_before_deductible",
+  "deductibles_for_specific_services",
+  "out_of_pocket_limit_for_plan",
+  "not_included_in_out_of_pocket_limit",
+  "network_provider_savings",
+  "need_referral_for_specialist_care",
+] as const;
+
+export type Page1SourceField = typeof PAGE1_SOURCE_FIELDS[number];
+
+export type ExclusionList = "excluded_services" | "other_covered_services";
+
+// Longest run of lines a single quote is expected to span
+const MAX_LINES_PER_QUOTE = 8;
+
+// =============================================================================
+// FIELD KEYS
+// =============================================================================
+
+/**
+ * Provenance key of a plan summary or important questions field
+ */
+export function page1SourceKey(field: Page1SourceField): string {
+  return field === "plan_name" || field === "coverage_period"
+    ? `plan_summary.${field}`
+    : `important_questions.${field}`;
+}
+
+/**
+ * Provenance key of a row of the services table
+ */
+export function serviceSourceKey(serviceName: string): string {
+  return `services_you_may_need.${serviceName}`;
+}
+
+/**
+ * Provenance key of an excluded or other covered service
+ */
+export function exclusionSourceKey(list: ExclusionList, index: number): string {
+  return `excluded_and_other_covered_services.${list}.${index}`;
+}
+
+/**
+ * Look up the source of a field
+ *
+ * @param policy Parsed policy data
+ * @param key Provenance key from one of the key helpers
+ * @returns The source, or null for policies parsed without provenance
+ */
+export function getFieldSource(policy: ParsedPolicy, key: string): FieldSource | null {
+  return policy.provenance?.[key] ?? null;
+}
+
+// =============================================================================
+// QUOTE MATCHING
+// =============================================================================
+
+/**
+ * Normalize text for matching: case, whitespace, table separators and typographic punctuation
+ */
+export function normalizeForMatch(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/[‘’]/g, "'")
+    .replace(/[“”]/g, '"')
+    .replace(/[–—]/g, "-")
+    .replace(/\s*\|\s*/g, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+/**
+ * Union of several bounding boxes
+ */
+function unionBoxes(boxes: BoundingBox[]): BoundingBox {
+  const left = Math.min(...boxes.map(box => box.x));
+  const top = Math.min(...boxes.map(box => box.y));
+  const right = Math.max(...boxes.map(box => box.x + box.width));
+  const bottom = Math.max(...boxes.map(box => box.y + box.height));
+  return { x: left, y: top, width: right - left, height: bottom - top };
+}
+
+/**
+ * Find the shortest run of lines whose text contains the quote
+ */
+function locateInLines(normalizedQuote: string, lines: SourceLine[]): BoundingBox | undefined {
+  let best: SourceLine[] | null = null;
+
+  for (let start = 0; start < lines.length; start++) {
+    let text = "";
+    for (let end = start; end < Math.min(lines.length, start + MAX_LINES_PER_QUOTE); end++) {
+      text = normalizeForMatch(`${text} ${lines[end].text}`);
+      if (text.includes(normalizedQuote)) {
+        if (!best || end - start + 1 < best.length) {
+          best = lines.slice(start, end + 1);
+        }
+        break;
+      }
+    }
+  }
+
+  return best ? unionBoxes(best.map(line => line.bbox)) : undefined;
+}
+
+/**
+ * Record where a quote came from
+ *
+ * Searches the candidate pages first, then the rest of the document. A quote
+ * that cannot be found verbatim is kept on its first candidate page with
+ * `exact: false`, since the model may have paraphrased it.
+ *
+ * @param quote Text the model quoted for the value
+ * @param document Extracted page text (and line positions, when available)
+ * @param candidatePages Indexes of the pages the model was shown
+ * @returns The field's source, or null when there is nothing to record
+ */
+export function locateQuote(
+  quote: string | undefined,
+  document: SourceDocument,
+  candidatePages: number[]
+): FieldSource | null {
+  const normalizedQuote = quote ? normalizeForMatch(quote) : "";
+  if (!quote || !normalizedQuote || candidatePages.length === 0) return null;
+
+  const otherPages = document.pages.map((_, index) => index).filter(index => !candidatePages.includes(index));
+  for (const page of [...candidatePages, ...otherPages]) {
+    const pageText = document.pages[page];
+    if (pageText === undefined || !normalizeForMatch(pageText).includes(normalizedQuote)) continue;
+
+    const lines = document.lines?.[page];
+    const bbox = lines && locateInLines(normalizedQuote, lines);
+    return { page, quote: quote.trim(), exact: true, ...(bbox && { bbox }) };
+  }
+
+  return { page: candidatePages[0], quote: quote.trim(), exact: false };
+}
@@ -0,0 +1,343 @@
+/**
+ * Service Name Service - Deterministic mapping of services table rows to standard service types
+ *
+ * The extraction model names rows inconsistently: the same service comes back
+ * as "specialist_visit", "Specialist visit" or "If you visit a health care
+ * provider's office — Specialist visit". Pricing looks rows up by
+ * MedicalServiceType, so every row is mapped to its canonical type here, or
+ * explicitly left unmapped when no standard row matches.
+ *
+ * Key features:
+ * - Synonym table built on the federal SBC template's row labels, in English and Spanish
+ * - Fuzzy token matching for labels the synonym table doesn't list
+ * - "Common medical event" context to tell apart rows with the same label (e.g. "Facility fee")
+ * - Report of mapped, unmapped and missing standard services
+ */
+
+import { MEDICAL_SERVICE_TYPES, type MedicalServiceType, type ServiceYouMayNeed } from "@/types/schemas";
+
+// =============================================================================
+// TYPES AND CONSTANTS
+// =============================================================================
+
+/**
+ * How a row name was mapped
+ * - exact: already a MedicalServiceType
+ * - synonym: the row label is a known label or synonym of the service
+ * - fuzzy: the row label shares most of its words with one
+ * - unmapped: no standard service matches, or several match equally well
+ */
+export type ServiceNameMatchMethod = "exact" | "synonym" | "fuzzy" | "unmapped";
+
+/**
+ * Standard service a row name maps to
+ */
+export interface ServiceNameMatch {
+  service_type: MedicalServiceType | null;
+  method: ServiceNameMatchMethod;
+  /** Similarity from 0 to 1 of the best matching label */
+  score: number;
+}
+
+/**
+ * Which standard services a policy's services table covers
+ */
+export interface ServiceCoverageReport {
+  /** Rows mapped to a standard service, by original row name */
+  mapped: { source_name: string; service_type: MedicalServiceType; method: Exclude<ServiceNameMatchMethod, "unmapped"> }[];
+  /** Row names that match no standard service, or a service already listed by an earlier row */
+  unmapped: string[];
+  /** Standard services no row maps to */
+  missing: MedicalServiceType[];
+}
+
+/**
+ * A row of the federal SBC template
+ */
+interface StandardServiceRow {
+  /** "Common Medical Event" the row is listed under, in English and Spanish */
+  events: [string, string];
+  /** Printed row label first, then synonyms */
+  labels: string[];
+}
+
+/**
+ * Standard rows with the labels issuers and the extraction model use for them.
+ * Labels shared by several rows ("Facility fee", "Physician/surgeon fees") are
+ * told apart by their event. Spanish labels follow the HHS Spanish SBC template.
+ */
+const STANDARD_SERVICE_ROWS: Record<MedicalServiceType, StandardServiceRow> = {
+  primary_care_visit: {
+    events: ["If you visit a health care provider's office or clinic", "Si visita el consultorio o la clínica de un proveedor de salud"],
+    labels: ["Primary care visit to treat an injury or illness", "Primary care visit", "Primary care", "PCP visit", "Doctor visit", "Visita de atención primaria para tratar una lesión o enfermedad", "Visita de atención primaria", "Atención primaria"],
+  },
+  specialist_visit: {
+    events: ["If you visit a health care provider's office or clinic", "Si visita el consultorio o la clínica de un proveedor de salud"],
+    labels: ["Specialist visit", "Specialist", "Specialist office visit", "Visita al especialista", "Especialista"],
+  },
+  preventive_care: {
+    events: ["If you visit a health care provider's office or clinic", "Si visita el consultorio o la clínica de un proveedor de salud"],
+    labels: ["Preventive care/screening/immunization", "Preventive care", "Preventive services", "Screening", "Immunization", "Wellness visit", "Annual physical", "Atención preventiva/evaluación/vacunas", "Atención preventiva", "Vacunas"],
+  },
+  diagnostic_test: {
+    events: ["If you have a test", "Si se hace un examen"],
+    labels: ["Diagnostic test (x-ray, blood work)", "Diagnostic test", "X-ray", "Blood work", "Lab tests", "Laboratory", "Examen de diagnóstico (radiografía, análisis de sangre)", "Examen de diagnóstico", "Radiografía", "Análisis de sangre"],
+  },
+  imaging: {
+    events: ["If you have a test", "Si se hace un examen"],
+    labels: ["Imaging (CT/PET scans, MRIs)", "Imaging", "Advanced imaging", "CT scan", "PET scan", "MRI", "Estudios de imagen (tomografía computarizada/PET, resonancia magnética)", "Estudios de imagen", "Resonancia magnética"],
+  },
+  generic_drugs: {
+    events: ["If you need drugs to treat your illness or condition", "Si necesita medicamentos para tratar su enfermedad o afección"],
+    labels: ["Generic drugs", "Generic", "Tier 1 drugs", "Tier 1", "Medicamentos genéricos", "Genéricos"],
+  },
+  preferred_brand_drugs: {
+    events: ["If you need drugs to treat your illness or condition", "Si necesita medicamentos para tratar su enfermedad o afección"],
+    labels: ["Preferred brand drugs", "Preferred brand", "Tier 2 drugs", "Tier 2", "Medicamentos de marca preferidos", "Medicamentos de marca preferida"],
+  },
+  non_preferred_brand_drugs: {
+    events: ["If you need drugs to treat your illness or condition", "Si necesita medicamentos para tratar su enfermedad o afección"],
+    labels: ["Non-preferred brand drugs", "Non-preferred brand", "Nonpreferred brand drugs", "Tier 3 drugs", "Tier 3", "Medicamentos de marca no preferidos", "Medicamentos de marca no preferida"],
+  },
+  specialty_drugs: {
+    events: ["If you need drugs to treat your illness or condition", "Si necesita medicamentos para tratar su enfermedad o afección"],
+    labels: ["Specialty drugs", "Specialty", "Tier 4 drugs", "Tier 4", "Medicamentos especializados", "Medicamentos de especialidad"],
+  },
+  outpatient_facility_fee: {
+    events: ["If you have outpatient surgery", "Si le hacen una cirugía ambulatoria"],
+    labels: ["Facility fee (e.g., ambulatory surgery center)", "Facility fee", "Outpatient facility fee", "Ambulatory surgery center", "Cargo del centro (p. ej., centro de cirugía ambulatoria)", "Cargo del centro", "Centro de cirugía ambulatoria"],
+  },
+  outpatient_physician_fee: {
+    events: ["If you have outpatient surgery", "Si le hacen una cirugía ambulatoria"],
+    labels: ["Physician/surgeon fees", "Outpatient physician fee", "Outpatient surgeon fees", "Honorarios del médico/cirujano"],
+  },
+  emergency_room: {
+    events: ["If you need immediate medical attention", "Si necesita atención médica inmediata"],
+    labels: ["Emergency room care", "Emergency room", "Emergency department", "ER", "Atención en la sala de emergencias", "Sala de emergencias"],
+  },
+  emergency_transport: {
+    events: ["If you need immediate medical attention", "Si necesita atención médica inmediata"],
+    labels: ["Emergency medical transportation", "Emergency transport", "Ambulance", "Transporte médico de emergencia", "Ambulancia"],
+  },
+  urgent_care: {
+    events: ["If you need immediate medical attention", "Si necesita atención médica inmediata"],
+    labels: ["Urgent care", "Urgent care center", "Atención de urgencia", "Centro de atención de urgencia"],
+  },
+  hospital_facility_fee: {
+    events: ["If you have a hospital stay", "Si tiene una hospitalización"],
+    labels: ["Facility fee (e.g., hospital room)", "Facility fee", "Hospital facility fee", "Inpatient facility fee", "Hospital room", "Cargo del centro (p. ej., habitación del hospital)", "Cargo del centro", "Habitación del hospital"],
+  },
+  hospital_physician_fee: {
+    events: ["If you have a hospital stay", "Si tiene una hospitalización"],
+    labels: ["Physician/surgeon fees", "Hospital physician fee", "Inpatient physician fee", "Honorarios del médico/cirujano"],
+  },
+  mental_health_outpatient: {
+    events: ["If you need mental health, behavioral health, or substance abuse services", "Si necesita servicios de salud mental, conductual o para el abuso de sustancias"],
+    labels: ["Outpatient services", "Outpatient mental health", "Mental health outpatient", "Servicios ambulatorios"],
+  },
+  mental_health_inpatient: {
+    events: ["If you need mental health, behavioral health, or substance abuse services", "Si necesita servicios de salud mental, conductual o para el abuso de sustancias"],
+    labels: ["Inpatient services", "Inpatient mental health", "Mental health inpatient", "Servicios de hospitalización", "Servicios internos"],
+  },
+  pregnancy_office_visits: {
+    events: ["If you are pregnant", "Si está embarazada"],
+    labels: ["Office visits", "Pregnancy office visits", "Prenatal and postnatal care", "Prenatal care", "Visitas al consultorio", "Atención prenatal y posnatal", "Atención prenatal"],
+  },
+  childbirth_professional: {
+    events: ["If you are pregnant", "Si está embarazada"],
+    labels: ["Childbirth/delivery professional services", "Delivery professional services", "Servicios profesionales de parto"],
+  },
+  childbirth_facility: {
+    events: ["If you are pregnant", "Si está embarazada"],
+    labels: ["Childbirth/delivery facility services", "Delivery facility services", "Servicios del centro de parto", "Servicios de instalaciones de parto"],
+  },
+  home_health_care: {
+    events: ["If you need help recovering or have other special health needs", "Si necesita ayuda para recuperarse o tiene otras necesidades especiales de salud"],
+    labels: ["Home health care", "Home health", "Atención médica en el hogar", "Atención de salud en el hogar"],
+  },
+  rehabilitation_services: {
+    events: ["If you need help recovering or have other special health needs", "Si necesita ayuda para recuperarse o tiene otras necesidades especiales de salud"],
+    labels: ["Rehabilitation services", "Rehabilitation", "Physical therapy", "Servicios de rehabilitación", "Fisioterapia"],
+  },
+  habilitation_services: {
+    events: ["If you need help recovering or have other special health needs", "Si necesita ayuda para recuperarse o tiene otras necesidades especiales de salud"],
+    labels: ["Habilitation services", "Habilitation", "Servicios de habilitación"],
+  },
+  skilled_nursing: {
+    events: ["If you need help recovering or have other special health needs", "Si necesita ayuda para recuperarse o tiene otras necesidades especiales de salud"],
+    labels: ["Skilled nursing care", "Skilled nursing facility", "Skilled nursing", "Atención de enfermería especializada", "Centro de enfermería especializada"],
+  },
+  durable_medical_equipment: {
+    events: ["If you need help recovering or have other special health needs", "Si necesita ayuda para recuperarse o tiene otras necesidades especiales de salud"],
+    labels: ["Durable medical equipment", "DME", "Medical equipment", "Equipo médico duradero"],
+  },
+  hospice_services: {
+    events: ["If you need help recovering or have other special health needs", "Si necesita ayuda para recuperarse o tiene otras necesidades especiales de salud"],
+    labels: ["Hospice services", "Hospice", "Servicios de hospicio", "Cuidados paliativos"],
+  },
+  childrens_eye_exam: {
+    events: ["If your child needs dental or eye care", "Si su hijo necesita servicios dentales o de la vista"],
+    labels: ["Children's eye exam", "Pediatric eye exam", "Eye exam", "Examen de la vista para niños", "Examen de la vista"],
+  },
+  childrens_glasses: {
+    events: ["If your child needs dental or eye care", "Si su hijo necesita servicios dentales o de la vista"],
+    labels: ["Children's glasses", "Pediatric glasses", "Glasses", "Eyeglasses", "Anteojos para niños", "Anteojos"],
+  },
+  childrens_dental_checkup: {
+    events: ["If your child needs dental or eye care", "Si su hijo necesita servicios dentales o de la vista"],
+    labels: ["Children's dental check-up", "Pediatric dental check-up", "Dental check-up", "Dental checkup", "Chequeo dental para niños", "Chequeo dental"],
+  },
+};
+
+/** Minimum similarity for a fuzzy match */
+export const FUZZY_MATCH_THRESHOLD = 0.6;
+
+// Separators between the common medical event and the row label ("If you have a test — Imaging")
+const SEGMENT_SEPARATOR = /\s+[—–-]+\s+|\s*[:|>]\s*/;
+
+// Words that carry no meaning in row labels and events
+const STOP_WORDS = new Set([
+  "a", "an", "and", "e", "eg", "for", "g", "have", "if", "need", "of", "or", "the", "to", "you", "your",
+  "al", "de", "del", "ej", "el", "en", "la", "las", "le", "lo", "los", "o", "p", "para", "por", "se", "si", "su", "un", "una", "y",
+]);
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+/**
+ * Meaningful lower-case words without accents and with a trailing plural "s" removed
+ */
+function toTokens(text: string): string[] {
+  return text
+    .toLowerCase()
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .replace(/['’]s\b/g, "s")
+    .replace(/[^a-z0-9]+/g, " ")
+    .trim()
+    .split(" ")
+    .filter(word => word && !STOP_WORDS.has(word))
+    .map(word => word.length > 3 ? word.replace(/s$/, "") : word);
+}
+
+/**
+ * Dice similarity of two word lists, from 0 (disjoint) to 1 (same words)
+ */
+function similarity(a: string[], b: string[]): number {
+  if (a.length === 0 || b.length === 0) return 0;
+  const setB = new Set(b);
+  const shared = new Set(a.filter(word => setB.has(word))).size;
+  return (2 * shared) / (new Set(a).size + setB.size);
+}
+
+// Tokenized labels and events, computed once
+const STANDARD_TOKENS = (Object.keys(STANDARD_SERVICE_ROWS) as MedicalServiceType[]).map(service_type => ({
+  service_type,
+  labels: STANDARD_SERVICE_ROWS[service_type].labels.map(toTokens),
+  events: STANDARD_SERVICE_ROWS[service_type].events.map(toTokens),
+}));
+
+const isMedicalServiceType = (name: string): name is MedicalServiceType =>
+  (MEDICAL_SERVICE_TYPES as readonly string[]).includes(name);
+
+// =============================================================================
+// NORMALIZATION
+// =============================================================================
+
+/**
+ * Map a services table row name to its standard service type
+ *
+ * The last segment of the name is compared with each service's labels; the
+ * rest of the name (usually the common medical event) breaks ties between
+ * services with the same label. A tie that context can't break is unmapped
+ * rather than guessed.
+ *
+ * @param name Row name as extracted
+ * @returns The matching service type, or null with method "unmapped"
+ *
+ * @example
+ * ```typescript
+ * normalizeServiceName("If you visit a health care provider's office — Specialist visit");
+ * // { service_type: "specialist_visit", method: "synonym", score: 1 }
+ * normalizeServiceName("If you have a hospital stay: Facility fee (e.g., hospital room)").service_type;
+ * // "hospital_facility_fee"
+ * ```
+ */
+export function normalizeServiceName(name: string): ServiceNameMatch {
+  const trimmed = name.trim();
+  if (isMedicalServiceType(trimmed)) {
+    return { service_type: trimmed, method: "exact", score: 1 };
+  }
+
+  const segments = trimmed.replaceAll("_", " ").split(SEGMENT_SEPARATOR).filter(segment => segment.trim());
+  const label = toTokens(segments.at(-1) ?? "");
+  const context = toTokens(segments.slice(0, -1).join(" "));
+  const labelKey = label.join(" ");
+
+  const candidates = STANDARD_TOKENS.map(({ service_type, labels, events }) => ({
+    service_type,
+    score: Math.max(...labels.map(tokens => tokens.join(" ") === labelKey ? 1 : similarity(label, tokens))),
+    context: context.length > 0 ? Math.max(...events.map(event => event.filter(word => context.includes(word)).length / event.length)) : 0,
+  }));
+
+  const best = Math.max(...candidates.map(candidate => candidate.score));
+  if (best < FUZZY_MATCH_THRESHOLD) {
+    return { service_type: null, method: "unmapped", score: best };
+  }
+
+  const top = candidates
+    .filter(candidate => candidate.score === best)
+    .sort((a, b) => b.context - a.context);
+  if (top.length > 1 && top[0].context === top[1].context) {
+    return { service_type: null, method: "unmapped", score: best };
+  }
+
+  return { service_type: top[0].service_type, method: best === 1 ? "synonym" : "fuzzy", score: best };
+}
+
+/**
+ * Rename rows to their standard service types
+ *
+ * A row whose service is already listed by an earlier row keeps its original
+ * name, so lookups by service type stay unambiguous.
+ *
+ * @param rows Services table rows, in printed order
+ * @returns Renamed rows and the coverage report
+ */
+export function normalizeServiceRows<T extends Pick<ServiceYouMayNeed, "name">>(
+  rows: T[]
+): { rows: T[]; report: ServiceCoverageReport } {
+  const report: ServiceCoverageReport = { mapped: [], unmapped: [], missing: [] };
+  const seen = new Set<MedicalServiceType>();
+
+  const normalized = rows.map(row => {
+    const { service_type, method } = normalizeServiceName(row.name);
+    if (!service_type || method === "unmapped" || seen.has(service_type)) {
+      report.unmapped.push(row.name);
+      return row;
+    }
+    seen.add(service_type);
+    report.mapped.push({ source_name: row.name, service_type, method });
+    return { ...row, name: service_type };
+  });
+
+  report.missing = MEDICAL_SERVICE_TYPES.filter(service_type => !seen.has(service_type));
+  return { rows: normalized, report };
+}
+
+/**
+ * Which standard services a policy's services table covers
+ *
+ * @param policy Parsed or template policy
+ * @returns Mapped, unmapped and missing services
+ *
+ * @example
+ * ```typescript
+ * const { missing, unmapped } = getServiceCoverageReport(policy);
+ * console.log(`${missing.length} standard services missing, ${unmapped.length} rows unmapped`);
+ * ```
+ */
+export function getServiceCoverageReport(policy: { services_you_may_need: Pick<ServiceYouMayNeed, "name">[] }): ServiceCoverageReport {
+  return normalizeServiceRows(policy.services_you_may_need).report;
+}
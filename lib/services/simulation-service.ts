@@ -0,0 +1,459 @@
+/**
+ * Simulation Service - Monte Carlo annual cost distribution for a household
+ *
+ * This service samples many plan years of healthcare utilization for each
+ * household member and prices every sampled year with the AdjudicationService.
+ * The result is a distribution of annual out-of-pocket cost (percentiles and a
+ * histogram) rather than a single LLM-estimated number.
+ *
+ * Key features:
+ * - Utilization driven by age, expected usage, smoking, conditions and medications
+ * - Expected medical events (pregnancy, surgery, therapy) add planned care, priced from
+ *   the issuer's SBC coverage examples when one matches the event
+ * - Lognormal allowed amounts around typical negotiated prices
+ * - Shared family accumulators across members within a simulated year
+ * - Seeded random number generator for reproducible results
+ */
+
+import {
+  getAccumulatorLimits,
+  hasFamilyCoverage,
+} from "@/lib/services/accumulator-service";
+import { adjudicateClaim } from "@/lib/services/adjudication-service";
+import {
+  calibrateWithCoverageExamples,
+  getExampleLineItems,
+  matchCoverageExampleScenario,
+} from "@/lib/services/coverage-example-service";
+import { parsePolicyCostSharing } from "@/lib/services/cost-sharing-service";
+import { applyNetworkTier } from "@/lib/services/network-tier-service";
+import type {
+  ClaimLineItemInput,
+  ClaimNetwork,
+  CostSimulationResult,
+  CoverageExample,
+  MedicalServiceType,
+  MemberAccumulators,
+  ParsedPolicy,
+  PersonHealthInfo,
+  SimulationHistogramBin,
+} from "@/types/schemas";
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+/**
+ * Options for a cost simulation run
+ */
+export interface SimulationOptions {
+  /** Number of plan years to simulate (default 1000) */
+  trials?: number;
+  /** Seed for the random number generator (default: random) */
+  seed?: number;
+  /** Number of histogram bins (default 20) */
+  bins?: number;
+  /** Network all sampled care is received in (default in-network) */
+  network?: ClaimNetwork;
+  /** NetworkTier id whose cost sharing prices sampled care (default: the standard columns) */
+  networkTier?: string;
+}
+
+/**
+ * Random number source returning values in [0, 1)
+ */
+export type RandomSource = () => number;
+
+type ExpectedUsage = PersonHealthInfo["expectedUsage"];
+
+/**
+ * A kind of care event with its annual frequency and typical price
+ */
+interface UtilizationProfile {
+  /** Line items billed for one occurrence, with median allowed amounts for all units */
+  lines: Array<{ service_type: MedicalServiceType; allowed_amount: number; units?: number }>;
+  /** Expected occurrences per year by usage level, for an adult aged 18-44 */
+  annualRate: Record<ExpectedUsage, number>;
+  /** Lognormal sigma of the allowed amount */
+  spread: number;
+  /** Whether age and smoking multipliers apply */
+  ageAdjusted: boolean;
+}
+
+// =============================================================================
+// UTILIZATION MODEL
+// =============================================================================
+
+/**
+ * Baseline care events for every member
+ * Rates and prices approximate US commercial claims averages
+ */
+const BASELINE_UTILIZATION: UtilizationProfile[] = [
+  { lines: [{ service_type: "preventive_care", allowed_amount: 250 }], annualRate: { low: 0.8, moderate: 1, high: 1 }, spread: 0.2, ageAdjusted: false },
+  { lines: [{ service_type: "primary_care_visit", allowed_amount: 150 }], annualRate: { low: 1, moderate: 2.5, high: 5 }, spread: 0.3, ageAdjusted: true },
+  { lines: [{ service_type: "specialist_visit", allowed_amount: 250 }], annualRate: { low: 0.3, moderate: 1, high: 3 }, spread: 0.4, ageAdjusted: true },
+  { lines: [{ service_type: "diagnostic_test", allowed_amount: 120 }], annualRate: { low: 0.5, moderate: 1.5, high: 4 }, spread: 0.6, ageAdjusted: true },
+  { lines: [{ service_type: "imaging", allowed_amount: 800 }], annualRate: { low: 0.1, moderate: 0.3, high: 1 }, spread: 0.7, ageAdjusted: true },
+  { lines: [{ service_type: "urgent_care", allowed_amount: 200 }], annualRate: { low: 0.2, moderate: 0.4, high: 0.8 }, spread: 0.3, ageAdjusted: true },
+  { lines: [{ service_type: "emergency_room", allowed_amount: 2500 }], annualRate: { low: 0.08, moderate: 0.15, high: 0.35 }, spread: 0.8, ageAdjusted: true },
+  { lines: [{ service_type: "emergency_transport", allowed_amount: 1200 }], annualRate: { low: 0.02, moderate: 0.04, high: 0.1 }, spread: 0.5, ageAdjusted: true },
+  {
+    lines: [
+      { service_type: "outpatient_facility_fee", allowed_amount: 4000 },
+      { service_type: "outpatient_physician_fee", allowed_amount: 1200 },
+    ],
+    annualRate: { low: 0.03, moderate: 0.08, high: 0.2 },
+    spread: 0.7,
+    ageAdjusted: true,
+  },
+  {
+    lines: [
+      { service_type: "hospital_facility_fee", allowed_amount: 18000 },
+      { service_type: "hospital_physician_fee", allowed_amount: 3000 },
+    ],
+    annualRate: { low: 0.02, moderate: 0.05, high: 0.15 },
+    spread: 0.9,
+    ageAdjusted: true,
+  },
+  { lines: [{ service_type: "mental_health_outpatient", allowed_amount: 150 }], annualRate: { low: 0.3, moderate: 1, high: 4 }, spread: 0.3, ageAdjusted: false },
+];
+
+/**
+ * Routine care for members under 19
+ */
+const CHILD_UTILIZATION: UtilizationProfile[] = [
+  { lines: [{ service_type: "childrens_eye_exam", allowed_amount: 120 }], annualRate: { low: 1, moderate: 1, high: 1 }, spread: 0.2, ageAdjusted: false },
+  { lines: [{ service_type: "childrens_dental_checkup", allowed_amount: 200 }], annualRate: { low: 1, moderate: 2, high: 2 }, spread: 0.2, ageAdjusted: false },
+];
+
+/**
+ * Additional care per chronic condition
+ */
+const CONDITION_UTILIZATION: UtilizationProfile[] = [
+  { lines: [{ service_type: "primary_care_visit", allowed_amount: 150 }], annualRate: { low: 2, moderate: 2, high: 3 }, spread: 0.3, ageAdjusted: false },
+  { lines: [{ service_type: "specialist_visit", allowed_amount: 250 }], annualRate: { low: 2, moderate: 3, high: 4 }, spread: 0.4, ageAdjusted: false },
+  { lines: [{ service_type: "diagnostic_test", allowed_amount: 120 }], annualRate: { low: 3, moderate: 4, high: 6 }, spread: 0.6, ageAdjusted: false },
+];
+
+/**
+ * Monthly fills per current medication
+ */
+const MEDICATION_FILL: UtilizationProfile = {
+  lines: [{ service_type: "generic_drugs", allowed_amount: 25 }],
+  annualRate: { low: 12, moderate: 12, high: 12 },
+  spread: 0.5,
+  ageAdjusted: false,
+};
+
+/**
+ * Planned care implied by expected medical events
+ */
+const EXPECTED_EVENT_UTILIZATION: Array<{ pattern: RegExp; profile: UtilizationProfile }> = [
+  {
+    pattern: /pregnan|childbirth|baby|deliver/i,
+    profile: {
+      lines: [
+        { service_type: "pregnancy_office_visits", allowed_amount: 2500 },
+        { service_type: "childbirth_professional", allowed_amount: 3500 },
+        { service_type: "childbirth_facility", allowed_amount: 12000 },
+      ],
+      annualRate: { low: 1, moderate: 1, high: 1 },
+      spread: 0.4,
+      ageAdjusted: false,
+    },
+  },
+  {
+    pattern: /surgery|operation|procedure/i,
+    profile: {
+      lines: [
+        { service_type: "outpatient_facility_fee", allowed_amount: 6000 },
+        { service_type: "outpatient_physician_fee", allowed_amount: 2000 },
+      ],
+      annualRate: { low: 1, moderate: 1, high: 1 },
+      spread: 0.6,
+      ageAdjusted: false,
+    },
+  },
+  {
+    pattern: /(physical|occupational|speech) therapy|rehab/i,
+    profile: {
+      lines: [{ service_type: "rehabilitation_services", allowed_amount: 130 }],
+      annualRate: { low: 12, moderate: 12, high: 12 },
+      spread: 0.3,
+      ageAdjusted: false,
+    },
+  },
+  {
+    // Rehabilitation therapies are the profile above; matching them here too would simulate them twice
+    pattern: /(?<!physical |occupational |speech )therapy|counsel|psychiatr/i,
+    profile: {
+      lines: [{ service_type: "mental_health_outpatient", allowed_amount: 150 }],
+      annualRate: { low: 20, moderate: 20, high: 20 },
+      spread: 0.3,
+      ageAdjusted: false,
+    },
+  },
+];
+
+// Lognormal sigma around an issuer's coverage example total
+const COVERAGE_EXAMPLE_SPREAD = 0.3;
+
+/**
+ * Planned care for a member's expected events
+ *
+ * An event matching one of the issuer's coverage examples is billed like the
+ * example (its standard services at the issuer's total cost); other events
+ * fall back to the generic profiles.
+ */
+function getExpectedEventProfiles(member: PersonHealthInfo, coverageExamples: CoverageExample[]): UtilizationProfile[] {
+  const anchored = new Map<string, UtilizationProfile>();
+  const unanchoredEvents: string[] = [];
+
+  for (const event of member.expectedMedicalEvents) {
+    const scenario = matchCoverageExampleScenario(event);
+    const example = scenario ? coverageExamples.find(example => example.scenario === scenario) : undefined;
+    if (!scenario || !example) {
+      unanchoredEvents.push(event);
+      continue;
+    }
+    anchored.set(scenario, {
+      lines: getExampleLineItems(example).map(({ service_type, allowed_amount, units }) => ({ service_type, allowed_amount, units })),
+      annualRate: { low: 1, moderate: 1, high: 1 },
+      spread: COVERAGE_EXAMPLE_SPREAD,
+      ageAdjusted: false,
+    });
+  }
+
+  return [
+    ...anchored.values(),
+    ...EXPECTED_EVENT_UTILIZATION
+      .filter(({ pattern }) => unanchoredEvents.some(event => pattern.test(event)))
+      .map(({ profile }) => profile),
+  ];
+}
+
+/**
+ * Utilization multiplier by age and smoking status
+ */
+function getRiskMultiplier(member: PersonHealthInfo): number {
+  const ageMultiplier = member.age < 18 ? 0.8 : member.age < 45 ? 1 : member.age < 65 ? 1.4 : 1.8;
+  return ageMultiplier * (member.smoker ? 1.2 : 1);
+}
+
+// =============================================================================
+// RANDOM SAMPLING
+// =============================================================================
+
+/**
+ * Create a seeded pseudo-random number generator (mulberry32)
+ *
+ * @param seed Integer seed
+ * @returns Function returning values in [0, 1)
+ */
+export function createRandom(seed: number): RandomSource {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function samplePoisson(rate: number, random: RandomSource): number {
+  const limit = Math.exp(-rate);
+  let count = 0;
+  let product = random();
+  while (product > limit) {
+    count++;
+    product *= random();
+  }
+  return count;
+}
+
+function sampleLognormal(median: number, sigma: number, random: RandomSource): number {
+  // Box-Muller transform; 1 - random() avoids log(0)
+  const normal = Math.sqrt(-2 * Math.log(1 - random())) * Math.cos(2 * Math.PI * random());
+  return median * Math.exp(sigma * normal);
+}
+
+function roundCents(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+// =============================================================================
+// UTILIZATION SAMPLING
+// =============================================================================
+
+/**
+ * Sample one plan year of care for a household member
+ *
+ * Every occurrence is billed on its own line item, so visit-count exceptions
+ * and per-admission unit limits apply to each visit as they would on real claims.
+ *
+ * @param member Household member to simulate
+ * @param random Random number source
+ * @param network Network the care is received in
+ * @param coverageExamples Issuer coverage examples that price matching expected events
+ * @returns Billed line items for the year
+ */
+export function sampleMemberYear(
+  member: PersonHealthInfo,
+  random: RandomSource,
+  network: ClaimNetwork = "in_network",
+  coverageExamples: CoverageExample[] = []
+): ClaimLineItemInput[] {
+  const riskMultiplier = getRiskMultiplier(member);
+  const profiles: UtilizationProfile[] = [
+    ...BASELINE_UTILIZATION,
+    ...(member.age < 19 ? CHILD_UTILIZATION : []),
+    ...member.preExistingConditions.flatMap(() => CONDITION_UTILIZATION),
+    ...member.currentMedications.map(() => MEDICATION_FILL),
+    ...getExpectedEventProfiles(member, coverageExamples),
+  ];
+
+  const lines: ClaimLineItemInput[] = [];
+  for (const profile of profiles) {
+    const rate = profile.annualRate[member.expectedUsage] * (profile.ageAdjusted ? riskMultiplier : 1);
+    const occurrences = samplePoisson(rate, random);
+    for (let occurrence = 0; occurrence < occurrences; occurrence++) {
+      for (const line of profile.lines) {
+        lines.push({
+          service_type: line.service_type,
+          allowed_amount: roundCents(sampleLognormal(line.allowed_amount, profile.spread, random)),
+          units: line.units ?? 1,
+          network,
+        });
+      }
+    }
+  }
+
+  return lines;
+}
+
+// =============================================================================
+// SIMULATION
+// =============================================================================
+
+function percentile(sorted: number[], fraction: number): number {
+  if (sorted.length === 0) return 0;
+  const index = Math.min(sorted.length - 1, Math.max(0, Math.ceil(fraction * sorted.length) - 1));
+  return sorted[index];
+}
+
+function buildHistogram(sorted: number[], bins: number): SimulationHistogramBin[] {
+  const max = sorted[sorted.length - 1] ?? 0;
+  if (max === 0) return [{ min: 0, max: 0, count: sorted.length }];
+
+  const width = max / bins;
+  const histogram = Array.from({ length: bins }, (_, index) => ({
+    min: roundCents(index * width),
+    max: roundCents((index + 1) * width),
+    count: 0,
+  }));
+  for (const value of sorted) {
+    histogram[Math.min(bins - 1, Math.floor(value / width))].count++;
+  }
+  return histogram;
+}
+
+/**
+ * Simulate the distribution of a household's annual out-of-pocket cost
+ *
+ * Each trial starts a fresh plan year with zero accumulators, samples every
+ * member's care and adjudicates it in turn so that family deductibles and
+ * out-of-pocket limits are shared across members.
+ *
+ * @param policy Parsed policy data
+ * @param members Household members from HealthcareInformation
+ * @param options Trial count, seed, histogram bins, network and network tier
+ * @returns Percentiles, histogram and per-member summaries
+ *
+ * @example
+ * ```typescript
+ * const result = simulateHouseholdCosts(policy, healthcareInfo.members, { trials: 2000, seed: 42 });
+ * console.log(result.percentiles.p50, result.percentiles.p90, result.worstCase);
+ * ```
+ */
+export function simulateHouseholdCosts(
+  policy: ParsedPolicy,
+  members: PersonHealthInfo[],
+  options: SimulationOptions = {}
+): CostSimulationResult {
+  const trials = Math.max(1, Math.floor(options.trials ?? 1000));
+  const seed = options.seed ?? Math.floor(Math.random() * 2 ** 31);
+  const bins = Math.max(1, Math.floor(options.bins ?? 20));
+  const network = options.network ?? "in_network";
+  const random = createRandom(seed);
+  const costSharing = parsePolicyCostSharing(applyNetworkTier(policy, options.networkTier));
+
+  const householdCosts: number[] = [];
+  const memberCosts = members.map(() => [] as number[]);
+
+  for (let trial = 0; trial < trials; trial++) {
+    const memberAccumulators: Record<string, MemberAccumulators> = Object.fromEntries(
+      members.map(member => [member.id, { deductibleSpent: 0, outOfPocketSpent: 0 }])
+    );
+    let householdCost = 0;
+
+    members.forEach((member, index) => {
+      const lineItems = sampleMemberYear(member, random, network, policy.coverage_examples);
+      if (lineItems.length === 0) {
+        memberCosts[index].push(0);
+        return;
+      }
+
+      const result = adjudicateClaim(
+        policy,
+        { deductibleSpent: 0, outOfPocketSpent: 0, memberAccumulators },
+        lineItems,
+        { costSharing, memberId: member.id }
+      );
+      const { in_network, out_of_network } = result.accumulators_after;
+      memberAccumulators[member.id] = {
+        deductibleSpent: in_network.deductibleSpent,
+        outOfPocketSpent: in_network.outOfPocketSpent,
+        outOfNetworkDeductibleSpent: out_of_network?.deductibleSpent,
+        outOfNetworkOutOfPocketSpent: out_of_network?.outOfPocketSpent,
+      };
+
+      memberCosts[index].push(result.totals.patient_responsibility);
+      householdCost += result.totals.patient_responsibility;
+    });
+
+    householdCosts.push(roundCents(householdCost));
+  }
+
+  const sorted = [...householdCosts].sort((a, b) => a - b);
+  const mean = (values: number[]) => roundCents(values.reduce((total, value) => total + value, 0) / Math.max(1, values.length));
+  const limits = getAccumulatorLimits(policy, network);
+  const familyCoverage = hasFamilyCoverage({
+    deductibleSpent: 0,
+    outOfPocketSpent: 0,
+    memberAccumulators: Object.fromEntries(members.map(member => [member.id, { deductibleSpent: 0, outOfPocketSpent: 0 }])),
+  });
+
+  return {
+    trials,
+    seed,
+    mean: mean(householdCosts),
+    percentiles: {
+      p10: percentile(sorted, 0.1),
+      p50: percentile(sorted, 0.5),
+      p75: percentile(sorted, 0.75),
+      p90: percentile(sorted, 0.9),
+      p99: percentile(sorted, 0.99),
+    },
+    maxSimulated: sorted[sorted.length - 1] ?? 0,
+    worstCase: familyCoverage && limits.familyOutOfPocket > 0 ? limits.familyOutOfPocket : limits.outOfPocket,
+    histogram: buildHistogram(sorted, bins),
+    members: members.map((member, index) => ({
+      memberId: member.id,
+      name: member.name,
+      mean: mean(memberCosts[index]),
+      median: percentile([...memberCosts[index]].sort((a, b) => a - b), 0.5),
+    })),
+    ...(policy.coverage_examples?.length && { calibration: calibrateWithCoverageExamples(policy) }),
+  };
+}
@@ -0,0 +1,90 @@
+/**
+ * TCO Service - Total cost of ownership of a plan for a year
+ *
+ * This service combines what a household pays to keep a plan (premiums or
+ * payroll contributions) with what it pays when it uses care (out-of-pocket
+ * spending), so plans are compared on their full annual cost.
+ *
+ * Key features:
+ * - Annual premium from a monthly premium, a subsidized premium or paycheck deductions
+ * - Expected out-of-pocket from the Monte Carlo cost simulation
+ * - Worst case bounded by the plan's out-of-pocket limit
+ */
+
+import { getAccumulatorLimits } from "@/lib/services/accumulator-service";
+import type {
+  CostSimulationResult,
+  ParsedPolicy,
+  PolicyPremium,
+  TotalCostOfOwnership,
+} from "@/types/schemas";
+
+// =============================================================================
+// PREMIUMS
+// =============================================================================
+
+/**
+ * Get what the policyholder pays in premiums over a plan year
+ *
+ * Payroll contributions take precedence because they are what an employee
+ * actually pays; otherwise the subsidized monthly premium is used when known.
+ *
+ * @param premium Premium details of the policy
+ * @returns Twelve months of premium
+ */
+export function getAnnualPremium(premium: PolicyPremium): number {
+  if (premium.payroll_contribution) {
+    const { amount_per_paycheck, pay_periods_per_year } = premium.payroll_contribution;
+    return round(amount_per_paycheck * pay_periods_per_year);
+  }
+  return round((premium.monthly_premium_after_credit ?? premium.monthly_premium) * 12);
+}
+
+// =============================================================================
+// TOTAL COST OF OWNERSHIP
+// =============================================================================
+
+/**
+ * Combine a year of premiums with expected and worst-case out-of-pocket cost
+ *
+ * @param policy Parsed policy data with premium details
+ * @param simulation Cost simulation for the household, when one has been run
+ * @param familyCoverage Whether the family out-of-pocket limit applies
+ * @returns The plan's annual cost, or null when the policy has no premium
+ *
+ * @example
+ * ```typescript
+ * const simulation = simulateHouseholdCosts(policy, members);
+ * const tco = calculateTotalCostOfOwnership(policy, simulation);
+ * console.log(tco?.expectedTotal, tco?.worstCaseTotal);
+ * ```
+ */
+export function calculateTotalCostOfOwnership(
+  policy: ParsedPolicy,
+  simulation: CostSimulationResult | null = null,
+  familyCoverage = false
+): TotalCostOfOwnership | null {
+  if (!policy.premium) return null;
+
+  const annualPremium = getAnnualPremium(policy.premium);
+  const limits = getAccumulatorLimits(policy);
+  const worstCaseOutOfPocket = simulation?.worstCase
+    ?? (familyCoverage && limits.familyOutOfPocket > 0 ? limits.familyOutOfPocket : limits.outOfPocket);
+  const expectedOutOfPocket = simulation ? round(simulation.mean) : null;
+
+  return {
+    annualPremium,
+    expectedOutOfPocket,
+    badYearOutOfPocket: simulation ? round(simulation.percentiles.p90) : null,
+    worstCaseOutOfPocket,
+    expectedTotal: expectedOutOfPocket === null ? null : round(annualPremium + expectedOutOfPocket),
+    worstCaseTotal: round(annualPremium + worstCaseOutOfPocket),
+  };
+}
+
+/**
+ * Round a dollar amount to cents
+ */
+function round(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
@@ -0,0 +1,81 @@
+import type { BoundingBox } from "@/types/schemas";
+import { extractMarkupText, isMarkupDocument } from "./markup-document";
+import { processFileWithPdfjs } from "./pdfjs";
+import { processFileWithUnstructured } from "./unstructured";
+
+/**
+ * A line of extracted text and where it sits on the page
+ */
+export interface TextLine {
+  text: string;
+  /** Fractions (0-1) of the page width and height from the top-left corner */
+  bbox: BoundingBox;
+}
+
+/**
+ * Text of a document, one string per page in page order, with line positions
+ * when the extractor provides coordinates
+ */
+export interface ExtractedText {
+  pages: string[];
+  lines?: TextLine[][];
+}
+
+/**
+ * Turns an uploaded document into text per page
+ */
+export interface TextExtractor {
+  name: TextExtractorName;
+  extractPages(file_buffer: ArrayBuffer, file_name: string): Promise<ExtractedText | undefined>;
+}
+
+export const TEXT_EXTRACTORS = ["unstructured", "pdfjs"] as const;
+export type TextExtractorName = typeof TEXT_EXTRACTORS[number];
+
+const extractors: Record<TextExtractorName, TextExtractor> = {
+  unstructured: {
+    name: "unstructured",
+    // Requested without coordinates, so no line positions
+    extractPages: async (file_buffer, file_name) => {
+      const pages = await processFileWithUnstructured(file_buffer, file_name);
+      return pages && { pages };
+    },
+  },
+  pdfjs: {
+    name: "pdfjs",
+    extractPages: (file_buffer) => processFileWithPdfjs(file_buffer),
+  },
+};
+
+/**
+ * Pick the text extractor from PDF_TEXT_EXTRACTOR ("unstructured" or "pdfjs").
+ * Without it, the hosted Unstructured API is used only when an API key is configured,
+ * so air-gapped machines and tests fall back to local extraction.
+ */
+export function getTextExtractor(name = process.env.PDF_TEXT_EXTRACTOR): TextExtractor {
+  if (!name) {
+    return process.env.UNSTRUCTURED_API_KEY ? extractors.unstructured : extractors.pdfjs;
+  }
+  if (!TEXT_EXTRACTORS.includes(name as TextExtractorName)) {
+    throw new Error(`Unknown PDF_TEXT_EXTRACTOR "${name}". Expected one of: ${TEXT_EXTRACTORS.join(", ")}`);
+  }
+  return extractors[name as TextExtractorName];
+}
+
+/**
+ * Extract per-page text with the configured extractor.
+ * Word and HTML uploads are laid out into pages first; image uploads have no
+ * text layer, so their single page is left empty for OCR.
+ */
+export async function extractPagesText(file_buffer: ArrayBuffer, file_name: string, content_type = "application/pdf"): Promise<ExtractedText | undefined> {
+  if (isMarkupDocument(content_type)) {
+    console.log("Extracting text from laid out", content_type, "pages");
+    return extractMarkupText(file_buffer, content_type);
+  }
+  if (content_type !== "application/pdf") {
+    return { pages: [""] };
+  }
+  const extractor = getTextExtractor();
+  console.log("Extracting PDF text with", extractor.name);
+  return extractor.extractPages(file_buffer, file_name);
+}
@@ -53,7 +53,7 @@ export async function processFileWithUnstructured(file_buffer: ArrayBuffer, file
         splitPdfPage: true,
         splitPdfAllowFailed: true,
         splitPdfConcurrencyLevel: 30,
-        languages: ['eng']
+        languages: ['eng', 'spa']
       }
     });
     if (response?.length > 0) {
@@ -69,3 +69,31 @@ export async function processFileWithUnstructured(file_buffer: ArrayBuffer, file
     throw error;
   }
 }
+
+/**
+ * Recognize the text of a single page image (a scan or photo) with the Unstructured OCR strategy
+ */
+export async function processImageWithUnstructured(image_buffer: Buffer, file_name: string): Promise<string> {
+  try {
+    const response = await client.general.partition({
+      partitionParameters: {
+        files: {
+          content: image_buffer,
+          fileName: file_name,
+        },
+        contentType: "image/png",
+        coordinates: false,
+        strategy: Strategy.OcrOnly,
+        languages: ['eng', 'spa']
+      }
+    });
+    return (response as UnstructuredElement[] | undefined)?.map(element => element.text).join('\n').trim() ?? '';
+  } catch (error) {
+    if (error && typeof error === 'object' && 'statusCode' in error && 'body' in error) {
+      console.error('API Error:', error.statusCode, error.body);
+    } else {
+      console.error('Error:', error);
+    }
+    throw error;
+  }
+}
@@ -0,0 +1,61 @@
+import { anthropic } from "@ai-sdk/anthropic";
+import type { z } from "zod";
+import { generateObjectWithAIRetry } from "./ai-retry";
+
+// Same as the server action body size limit in next.config.ts
+export const MAX_UPLOAD_FILE_SIZE = 10 * 1024 * 1024;
+
+/**
+ * The file a form uploaded as "file", checked against the accepted types and the size limit
+ *
+ * @param formData Form data posted to a server action
+ * @param documentTypes Accepted MIME types
+ * @param typeError Message shown when the file is of another type
+ */
+export function getUploadedFile(formData: FormData, documentTypes: readonly string[], typeError: string): File {
+  const file = formData.get("file");
+  if (!(file instanceof File)) {
+    throw new Error("No file uploaded");
+  }
+  if (!documentTypes.includes(file.type)) {
+    throw new Error(typeError);
+  }
+  if (file.size > MAX_UPLOAD_FILE_SIZE) {
+    throw new Error(`File size (${Math.round(file.size / 1024 / 1024)}MB) exceeds maximum allowed size (${MAX_UPLOAD_FILE_SIZE / 1024 / 1024}MB)`);
+  }
+  return file;
+}
+
+/**
+ * Extracts structured data from an uploaded PDF or photo in one model call.
+ * PDFs are sent as documents and photos as images, next to the instructions.
+ */
+export async function extractFromDocument<T extends z.ZodTypeAny>({
+  file,
+  system,
+  instructions,
+  schema,
+}: {
+  file: File;
+  system: string;
+  instructions: string;
+  schema: T;
+}): Promise<z.infer<T>> {
+  const file_buffer = await file.arrayBuffer();
+  return generateObjectWithAIRetry<z.infer<T>>({
+    model: anthropic("claude-sonnet-4-20250514"),
+    system,
+    messages: [
+      {
+        role: "user",
+        content: [
+          { type: "text", text: instructions },
+          file.type === "application/pdf"
+            ? { type: "file", data: file_buffer, mimeType: "application/pdf" }
+            : { type: "image", image: file_buffer, mimeType: file.type },
+        ],
+      },
+    ],
+    schema,
+  });
+}
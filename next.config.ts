@@ -2,6 +2,9 @@ import type { NextConfig } from "next";
 
 const nextConfig: NextConfig = {
   /* config options here */
+  // pdfjs-dist loads its worker from node_modules at runtime and @napi-rs/canvas is a native module;
+  // both back local text extraction and page rendering
+  serverExternalPackages: ["pdfjs-dist", "@napi-rs/canvas"],
   experimental: {
     serverActions: {
       bodySizeLimit: '10mb',
@@ -0,0 +1,4 @@
+// Generated by scripts/ingestSBCs.ts. Do not edit by hand; run `npm run ingest:sbcs -- <pdf-directory>` instead.
+import type { PolicyTemplate } from "@/lib/services/policy-service";
+
+export const PARSED_POLICY_TEMPLATES: PolicyTemplate[] = [];
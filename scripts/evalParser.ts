@@ -0,0 +1,143 @@
+// scripts/evalParser.ts
+import * as dotenv from 'dotenv';
+import { existsSync, readdirSync, readFileSync } from 'node:fs';
+import { basename, extname, join, resolve } from 'node:path';
+import { getTemplateById } from '@/lib/services/policy-service';
+import { parsePDF } from '@/lib/sbc-parser';
+import { diffPolicies, type PolicyDiffReport } from '@/lib/services/policy-diff-service';
+
+dotenv.config({ path: '.env.local' });
+
+const DEFAULT_MAX_DIFFERENCES = 20;
+
+const USAGE = `Usage: npm run eval:parser -- <pdf-directory> [--record] [--min-accuracy <0-1>] [--max-diffs <n>]
+
+Re-parses every SBC PDF in <pdf-directory> and compares the result field by field with
+the policy template of the same id (e.g. oscar_secure.pdf with template "oscar_secure").
+Model responses are replayed from fixtures/llm, so no API calls are made.
+
+  --record        Call the models and save their responses as fixtures
+  --min-accuracy  Exit with an error when a document matches fewer fields than this
+  --max-diffs     Differences listed per document (default: ${DEFAULT_MAX_DIFFERENCES})`;
+
+interface EvalArgs {
+  inputDir: string;
+  record: boolean;
+  minAccuracy: number;
+  maxDifferences: number;
+}
+
+const parseArgs = (argv: string[]): EvalArgs | null => {
+  const positional: string[] = [];
+  let record = false;
+  let minAccuracy = 0;
+  let maxDifferences = DEFAULT_MAX_DIFFERENCES;
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg === '--record') {
+      record = true;
+    } else if (arg === '--min-accuracy') {
+      minAccuracy = Number(argv[++i]);
+    } else if (arg === '--max-diffs') {
+      maxDifferences = Number(argv[++i]);
+    } else if (arg === '--help' || arg === '-h') {
+      return null;
+    } else {
+      positional.push(arg);
+    }
+  }
+
+  if (positional.length !== 1 || Number.isNaN(minAccuracy) || Number.isNaN(maxDifferences)) return null;
+  return { inputDir: positional[0], record, minAccuracy, maxDifferences };
+};
+
+// Same ids as scripts/ingestSBCs.ts: "Oscar Secure (Select) 2025.pdf" -> "oscar_secure_select_2025"
+const toTemplateId = (fileName: string) =>
+  basename(fileName, extname(fileName)).toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_+|_+$/g, '') || 'policy';
+
+const formatPercent = (ratio: number) => `${(ratio * 100).toFixed(1)}%`;
+
+const formatValue = (value: unknown) => value === undefined ? '(missing)' : JSON.stringify(value);
+
+const printReport = (report: PolicyDiffReport, maxDifferences: number) => {
+  console.log(`  ${report.matched}/${report.compared} fields match (${formatPercent(report.accuracy)})`);
+  report.differences.slice(0, maxDifferences).forEach(({ path, expected, actual }) =>
+    console.log(`    ${path}\n      expected ${formatValue(expected)}\n      actual   ${formatValue(actual)}`));
+  if (report.differences.length > maxDifferences) {
+    console.log(`    ...and ${report.differences.length - maxDifferences} more`);
+  }
+};
+
+const evalFile = async (filePath: string, args: EvalArgs): Promise<PolicyDiffReport | null> => {
+  const fileName = basename(filePath);
+  const template = getTemplateById(toTemplateId(fileName));
+  if (!template) {
+    console.warn(`\nSkipping ${fileName}: no template "${toTemplateId(fileName)}" to compare with`);
+    return null;
+  }
+
+  console.log(`\n${fileName} vs template "${template.id}"`);
+  const file = new File([readFileSync(filePath)], fileName, { type: 'application/pdf' });
+  // Always run the pipeline; a cached result would hide prompt and schema changes
+  const parsed = await parsePDF(file, { validate: false, force: true });
+  const report = diffPolicies(template.data, parsed);
+  printReport(report, args.maxDifferences);
+  return report;
+};
+
+const evalParser = async () => {
+  const args = parseArgs(process.argv.slice(2));
+  if (!args) {
+    console.log(USAGE);
+    process.exit(1);
+  }
+
+  // Offline, deterministic backends so recorded requests match on replay
+  process.env.LLM_FIXTURE_MODE = args.record ? 'record' : 'replay';
+  process.env.PDF_TEXT_EXTRACTOR ||= 'pdfjs';
+  process.env.OCR_ENGINE ||= 'vision';
+  process.env.BLOB_STORE ||= 'local';
+  process.env.PDF_PAGE_RENDERER ||= 'local';
+
+  const inputDir = resolve(args.inputDir);
+  if (!existsSync(inputDir)) {
+    throw new Error(`Input directory not found: ${inputDir}`);
+  }
+
+  const pdfs = readdirSync(inputDir).filter(file => extname(file).toLowerCase() === '.pdf').sort();
+  if (pdfs.length === 0) {
+    console.error(`No PDF files found in ${inputDir}`);
+    process.exit(1);
+  }
+
+  console.log(`${args.record ? 'Recording' : 'Replaying'} ${pdfs.length} SBC(s) from ${inputDir}`);
+
+  const failed: string[] = [];
+  const reports: PolicyDiffReport[] = [];
+  // One document at a time; each parse already runs its pages in parallel
+  for (const pdf of pdfs) {
+    try {
+      const report = await evalFile(join(inputDir, pdf), args);
+      if (!report) continue;
+      reports.push(report);
+      if (report.accuracy < args.minAccuracy) failed.push(pdf);
+    } catch (err: any) {
+      console.error(`  Failed to parse ${pdf}:`, err.message);
+      failed.push(pdf);
+    }
+  }
+
+  const compared = reports.reduce((sum, report) => sum + report.compared, 0);
+  const matched = reports.reduce((sum, report) => sum + report.matched, 0);
+  console.log(`\nCompared ${reports.length}/${pdfs.length} SBC(s): ${matched}/${compared} fields match (${formatPercent(compared > 0 ? matched / compared : 1)})`);
+  if (failed.length > 0) {
+    console.error(`Failed: ${failed.join(', ')}`);
+    process.exit(1);
+  }
+};
+
+evalParser().catch(err => {
+  console.error('Error evaluating parser:', err.message);
+  process.exit(1);
+});
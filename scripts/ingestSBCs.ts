@@ -0,0 +1,181 @@
+// scripts/ingestSBCs.ts
+import * as dotenv from 'dotenv';
+import { existsSync, mkdirSync, readdirSync, readFileSync, writeFileSync } from 'node:fs';
+import { basename, extname, join, resolve } from 'node:path';
+import type { PolicyTemplate } from '@/lib/services/policy-service';
+import { parsePDF } from '@/lib/sbc-parser';
+import { ParsedPolicySchema, type ParsedPolicy } from '@/types/schemas';
+
+dotenv.config({ path: '.env.local' });
+
+const DEFAULT_OUTPUT_DIR = './policy-templates/parsed';
+const INDEX_FILE = 'index.ts';
+
+// Upload content type of each SBC file extension the parser accepts
+const CONTENT_TYPES: Record<string, string> = {
+  '.pdf': 'application/pdf',
+  '.docx': 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  '.html': 'text/html',
+  '.htm': 'text/html',
+};
+
+const USAGE = `Usage: npm run ingest:sbcs -- <sbc-directory> [--out <directory>] [--force]
+
+Parses every SBC (PDF, Word .docx or saved HTML) in <sbc-directory>, validates it against ParsedPolicySchema and
+writes one JSON template per plan plus an index loaded by PolicyService.getAvailableTemplates.
+
+  --out    Output directory (default: ${DEFAULT_OUTPUT_DIR})
+  --force  Parse again even if a file was parsed before by the current parser version`;
+
+interface IngestArgs {
+  inputDir: string;
+  outputDir: string;
+  force: boolean;
+}
+
+const parseArgs = (argv: string[]): IngestArgs | null => {
+  const positional: string[] = [];
+  let outputDir = DEFAULT_OUTPUT_DIR;
+  let force = false;
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg === '--force') {
+      force = true;
+    } else if (arg === '--out') {
+      outputDir = argv[++i];
+    } else if (arg === '--help' || arg === '-h') {
+      return null;
+    } else {
+      positional.push(arg);
+    }
+  }
+
+  if (positional.length !== 1 || !outputDir) return null;
+  return { inputDir: positional[0], outputDir, force };
+};
+
+// "Oscar Secure (Select) 2025.pdf" -> "oscar_secure_select_2025"
+const toTemplateId = (fileName: string) =>
+  basename(fileName, extname(fileName)).toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_+|_+$/g, '') || 'policy';
+
+// Signed /api/blob URLs expire, and only verify in a process with the same BLOB_SIGNING_SECRET
+const isSignedUrl = (url: string) => new URL(url, 'http://localhost').searchParams.has('signature');
+
+const formatAmount = (amount: number) => `$${amount.toLocaleString('en-US')}`;
+
+const describePolicy = ({ plan_summary, important_questions }: ParsedPolicy) => {
+  const deductible = important_questions.overall_deductible.individual;
+  const deductibleText = deductible > 0 ? `${formatAmount(deductible)} deductible` : 'no deductible';
+  return `${plan_summary.issuer_name} ${plan_summary.plan_type} plan with ${deductibleText}`;
+};
+
+/**
+ * Regenerate the index from every template file in the output directory,
+ * so templates from earlier runs stay listed
+ */
+const writeIndex = (outputDir: string) => {
+  const files = readdirSync(outputDir).filter(file => file.endsWith('.json')).sort();
+  const imports = files.map((file, i) => `import template${i} from "./${file}";`);
+  const templates = files.map((_, i) => `template${i}`).join(', ');
+
+  const source = [
+    '// Generated by scripts/ingestSBCs.ts. Do not edit by hand; run `npm run ingest:sbcs -- <pdf-directory>` instead.',
+    'import type { PolicyTemplate } from "@/lib/services/policy-service";',
+    ...imports,
+    '',
+    files.length > 0
+      ? `export const PARSED_POLICY_TEMPLATES = [${templates}] as PolicyTemplate[];`
+      : 'export const PARSED_POLICY_TEMPLATES: PolicyTemplate[] = [];',
+    '',
+  ].join('\n');
+
+  writeFileSync(join(outputDir, INDEX_FILE), source);
+  return files.length;
+};
+
+const ingestFile = async (filePath: string, outputDir: string, force: boolean): Promise<boolean> => {
+  const fileName = basename(filePath);
+  console.log(`\nParsing ${fileName}...`);
+
+  const file = new File([readFileSync(filePath)], fileName, { type: CONTENT_TYPES[extname(fileName).toLowerCase()] });
+  const parsed = await parsePDF(file, {
+    validate: false,
+    force,
+    onProgress: (_, progress, event) => console.log(`  [${progress}%] ${event.message}`),
+  });
+
+  const result = ParsedPolicySchema.safeParse(parsed);
+  if (!result.success) {
+    console.error(`  ${fileName} does not match ParsedPolicySchema:`);
+    result.error.issues.forEach(issue => console.error(`    ${issue.path.join('.') || '(root)'}: ${issue.message}`));
+    return false;
+  }
+
+  if ([result.data.file_url, ...result.data.image_urls].some(isSignedUrl)) {
+    console.error(`  ${fileName} was cached with private page images whose links expire; run again with --force to store public ones`);
+    return false;
+  }
+
+  const id = toTemplateId(fileName);
+  const template: PolicyTemplate = {
+    id,
+    name: result.data.plan_summary.plan_name,
+    description: describePolicy(result.data),
+    data: result.data,
+  };
+  writeFileSync(join(outputDir, `${id}.json`), JSON.stringify(template, null, 2));
+  console.log(`  Saved template "${template.name}" as ${id}.json`);
+  return true;
+};
+
+const ingestSBCs = async () => {
+  const args = parseArgs(process.argv.slice(2));
+  if (!args) {
+    console.log(USAGE);
+    process.exit(1);
+  }
+
+  // Templates ship with the app and keep their page image links forever, so the images can't be private
+  if (process.env.BLOB_ACCESS !== 'public') {
+    console.error('Set BLOB_ACCESS=public (with BLOB_STORE=vercel) when ingesting: private page images are served through signed URLs that expire, which would break template previews.');
+    process.exit(1);
+  }
+
+  const inputDir = resolve(args.inputDir);
+  if (!existsSync(inputDir)) {
+    throw new Error(`Input directory not found: ${inputDir}`);
+  }
+
+  const documents = readdirSync(inputDir).filter(file => extname(file).toLowerCase() in CONTENT_TYPES).sort();
+  if (documents.length === 0) {
+    console.error(`No PDF, DOCX or HTML files found in ${inputDir}`);
+    process.exit(1);
+  }
+
+  mkdirSync(args.outputDir, { recursive: true });
+  console.log(`Ingesting ${documents.length} SBC(s) from ${inputDir} into ${args.outputDir}`);
+
+  const failed: string[] = [];
+  // One document at a time; each parse already runs its pages in parallel
+  for (const document of documents) {
+    try {
+      if (!(await ingestFile(join(inputDir, document), args.outputDir, args.force))) failed.push(document);
+    } catch (err: any) {
+      console.error(`  Failed to parse ${document}:`, err.message);
+      failed.push(document);
+    }
+  }
+
+  const total = writeIndex(args.outputDir);
+  console.log(`\nIngested ${documents.length - failed.length}/${documents.length} SBC(s); ${total} template(s) listed in ${join(args.outputDir, INDEX_FILE)}`);
+  if (failed.length > 0) {
+    console.error(`Failed: ${failed.join(', ')}`);
+    process.exit(1);
+  }
+};
+
+ingestSBCs().catch(err => {
+  console.error('Error ingesting SBCs:', err.message);
+  process.exit(1);
+});
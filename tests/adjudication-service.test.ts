@@ -0,0 +1,110 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { adjudicateClaim } from "@/lib/services/adjudication-service";
+import type { AccumulatorSettings } from "@/lib/services/accumulator-service";
+import { loadPolicy, NO_SPENDING } from "./helpers";
+
+const visit = (allowed_amount: number, units = 1) =>
+  ({ service_type: "primary_care_visit" as const, allowed_amount, units, network: "in_network" as const });
+
+describe("adjudicateClaim", () => {
+  it("charges a flat copay when there is no deductible", () => {
+    const result = adjudicateClaim(loadPolicy("kaiser_gold"), NO_SPENDING, [
+      { service_type: "specialist_visit", allowed_amount: 250, network: "in_network" },
+    ]);
+    assert.equal(result.totals.copay, 65);
+    assert.equal(result.totals.patient_responsibility, 65);
+    assert.equal(result.totals.plan_paid, 185);
+  });
+
+  it("stops charging a per-day copay at the unit limit", () => {
+    const result = adjudicateClaim(loadPolicy("kaiser_gold"), NO_SPENDING, [
+      { service_type: "hospital_facility_fee", allowed_amount: 20000, units: 7, network: "in_network" },
+    ]);
+    assert.equal(result.totals.patient_responsibility, 350 * 5);
+  });
+
+  it("applies the deductible, then caps at the out-of-pocket limit", () => {
+    const policy = loadPolicy("oscar_secure");
+    const first = adjudicateClaim(policy, NO_SPENDING, [
+      { service_type: "emergency_room", allowed_amount: 2500, network: "in_network" },
+    ]);
+    assert.equal(first.totals.deductible, 2500);
+    assert.equal(first.accumulators_after.in_network.deductibleSpent, 2500);
+
+    const nearLimit = adjudicateClaim(policy, { deductibleSpent: 9100, outOfPocketSpent: 9100 }, [
+      { service_type: "emergency_room", allowed_amount: 2500, network: "in_network" },
+    ]);
+    assert.equal(nearLimit.totals.patient_responsibility, 100);
+  });
+
+  it("treats services the policy doesn't cover as the patient's", () => {
+    const result = adjudicateClaim(loadPolicy("oscar_secure"), NO_SPENDING, [
+      { service_type: "childrens_dental_checkup", allowed_amount: 200, network: "in_network" },
+    ]);
+    assert.equal(result.totals.not_covered, 200);
+    assert.equal(result.accumulators_after.in_network.outOfPocketSpent, 0);
+  });
+
+  describe("visit exceptions", () => {
+    // Oscar: "First three (3) non-preventive visits are $0 and not subject to the deductible"
+    it("waives the deductible for the first visits only", () => {
+      const result = adjudicateClaim(loadPolicy("oscar_secure"), NO_SPENDING, [150, 150, 150, 150].map(amount => visit(amount)));
+      assert.deepEqual(result.line_items.map(line => line.patient_responsibility), [0, 0, 0, 150]);
+    });
+
+    it("counts prior visits toward the limit", () => {
+      const result = adjudicateClaim(loadPolicy("oscar_secure"), NO_SPENDING, [visit(150)], {
+        priorVisits: { primary_care_visit: 3 },
+      });
+      assert.equal(result.totals.patient_responsibility, 150);
+    });
+
+    it("splits a multi-unit line at the visit limit", () => {
+      const policy = loadPolicy("oscar_secure");
+      const combined = adjudicateClaim(policy, NO_SPENDING, [visit(750, 5)]);
+      const separate = adjudicateClaim(policy, NO_SPENDING, Array.from({ length: 5 }, () => visit(150)));
+      assert.equal(combined.totals.patient_responsibility, 300);
+      assert.equal(combined.totals.patient_responsibility, separate.totals.patient_responsibility);
+      assert.equal(combined.line_items.length, 1);
+    });
+  });
+
+  describe("family accumulators", () => {
+    // Only the deductible limits these claims
+    const familyPolicy = (deductibleDetails?: string) => {
+      const policy = loadPolicy("oscar_secure");
+      policy.important_questions.out_of_pocket_limit_for_plan = { individual: 20000, family: 40000 };
+      if (deductibleDetails) policy.important_questions.overall_deductible.details = deductibleDetails;
+      return policy;
+    };
+    const settings = (spent: Record<string, number>): AccumulatorSettings => ({
+      deductibleSpent: spent.a,
+      outOfPocketSpent: spent.a,
+      activeMemberId: "a",
+      memberAccumulators: Object.fromEntries(Object.entries(spent).map(([id, amount]) => [id, { deductibleSpent: amount, outOfPocketSpent: amount }])),
+    });
+    const erVisit = [{ service_type: "emergency_room" as const, allowed_amount: 500, network: "in_network" as const }];
+
+    it("embedded: a member who met their individual deductible pays nothing more", () => {
+      const result = adjudicateClaim(familyPolicy(), settings({ a: 9200, b: 0 }), erVisit, { memberId: "a" });
+      assert.equal(result.totals.patient_responsibility, 0);
+    });
+
+    it("embedded: other members still owe their own deductible", () => {
+      const result = adjudicateClaim(familyPolicy(), settings({ a: 9200, b: 0 }), erVisit, { memberId: "b" });
+      assert.equal(result.totals.deductible, 500);
+    });
+
+    it("embedded: nobody owes a deductible once the family deductible is met", () => {
+      const result = adjudicateClaim(familyPolicy(), settings({ a: 9200, b: 9200, c: 0 }), erVisit, { memberId: "c" });
+      assert.equal(result.totals.patient_responsibility, 0);
+    });
+
+    it("aggregate: the individual amount doesn't end a member's deductible", () => {
+      const policy = familyPolicy("The overall family deductible must be met before the plan begins to pay.");
+      const result = adjudicateClaim(policy, settings({ a: 9200, b: 0 }), erVisit, { memberId: "a" });
+      assert.equal(result.totals.deductible, 500);
+    });
+  });
+});
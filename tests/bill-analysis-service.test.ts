@@ -0,0 +1,48 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { analyzeItemizedBill } from "@/lib/services/bill-analysis-service";
+import type { ItemizedBillLine } from "@/types/schemas";
+import { loadPolicy, NO_SPENDING } from "./helpers";
+
+const officeVisit = (service_date = "2025-03-01"): ItemizedBillLine =>
+  ({ service_date, code: "99213", description: "Office visit", quantity: 1, charge: 180 });
+const bloodCount = (modifiers?: string[]): ItemizedBillLine =>
+  ({ service_date: "2025-03-01", code: "85025", modifiers, description: "Complete blood count", quantity: 1, charge: 40 });
+
+const analyze = (line_items: ItemizedBillLine[]) =>
+  analyzeItemizedBill(loadPolicy("kaiser_gold"), NO_SPENDING, { line_items });
+
+describe("analyzeItemizedBill duplicate detection", () => {
+  it("flags the same charge billed twice on the same day", () => {
+    const analysis = analyze([officeVisit(), officeVisit()]);
+    assert.equal(analysis.lines[1].duplicateOf, 0);
+    assert.deepEqual(analysis.flags.map(flag => [flag.kind, flag.lineIndexes]), [["duplicate_charge", [0, 1]]]);
+    assert.equal(analysis.totals.duplicates, 180);
+  });
+
+  it("leaves duplicates out of the estimate", () => {
+    const once = analyze([officeVisit()]);
+    const twice = analyze([officeVisit(), officeVisit()]);
+    assert.equal(once.totals.estimatedPatientResponsibility, 35);
+    assert.equal(twice.totals.estimatedPatientResponsibility, once.totals.estimatedPatientResponsibility);
+    assert.equal(twice.lines[1].estimate, undefined);
+  });
+
+  it("doesn't flag the same service on different days", () => {
+    const analysis = analyze([officeVisit("2025-03-01"), officeVisit("2025-03-02")]);
+    assert.equal(analysis.lines[1].duplicateOf, undefined);
+    assert.deepEqual(analysis.flags, []);
+    assert.equal(analysis.totals.estimatedPatientResponsibility, 70);
+  });
+
+  it("doesn't flag a repeat billed with a repeat-procedure modifier", () => {
+    const analysis = analyze([bloodCount(), bloodCount(["91"])]);
+    assert.equal(analysis.lines[1].duplicateOf, undefined);
+    assert.equal(analysis.totals.duplicates, 0);
+  });
+
+  it("doesn't flag a different quantity of the same code", () => {
+    const analysis = analyze([bloodCount(), { ...bloodCount(), quantity: 2, charge: 80 }]);
+    assert.equal(analysis.lines[1].duplicateOf, undefined);
+  });
+});
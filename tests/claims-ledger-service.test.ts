@@ -0,0 +1,70 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { getLedgerAccumulators } from "@/lib/services/claims-ledger-service";
+import type { ClaimNetwork, LedgerClaim } from "@/types/schemas";
+import { loadPolicy } from "./helpers";
+
+const claim = (id: string, member_id: string | undefined, network: ClaimNetwork, deductible: number, outOfPocket: number, service_date = "2025-03-01"): LedgerClaim => ({
+  id,
+  member_id,
+  provider: "Example Medical Group",
+  service_date,
+  network,
+  billed_amount: 1000,
+  allowed_amount: 600,
+  plan_paid: 600 - outOfPocket,
+  member_responsibility: outOfPocket,
+  deductible_applied: deductible,
+  out_of_pocket_applied: outOfPocket,
+  added_at: "2025-03-15T00:00:00.000Z",
+});
+
+describe("getLedgerAccumulators", () => {
+  it("totals each member's claims", () => {
+    const accumulators = getLedgerAccumulators([
+      claim("1", "a", "in_network", 200, 250),
+      claim("2", "a", "in_network", 100, 100.1),
+      claim("3", "b", "in_network", 0, 40),
+    ], loadPolicy("oscar_secure"), ["a", "b"]);
+    assert.deepEqual(accumulators.a, { deductibleSpent: 300, outOfPocketSpent: 350.1, outOfNetworkDeductibleSpent: 0, outOfNetworkOutOfPocketSpent: 0 });
+    assert.equal(accumulators.b.outOfPocketSpent, 40);
+  });
+
+  it("counts claims of unknown members toward the first member", () => {
+    const accumulators = getLedgerAccumulators([
+      claim("1", undefined, "in_network", 50, 50),
+      claim("2", "someone-else", "in_network", 25, 25),
+    ], loadPolicy("oscar_secure"), ["a", "b"]);
+    assert.equal(accumulators.a.deductibleSpent, 75);
+    assert.equal(accumulators.b.deductibleSpent, 0);
+  });
+
+  it("counts every claim toward \"\" when no members are tracked", () => {
+    const accumulators = getLedgerAccumulators([claim("1", "a", "in_network", 50, 50)], loadPolicy("oscar_secure"), []);
+    assert.deepEqual(Object.keys(accumulators), [""]);
+    assert.equal(accumulators[""].deductibleSpent, 50);
+  });
+
+  it("skips claims outside the coverage period", () => {
+    const accumulators = getLedgerAccumulators([
+      claim("1", "a", "in_network", 50, 50, "2024-12-31"),
+      claim("2", "a", "in_network", 20, 20, "2025-01-01"),
+    ], loadPolicy("oscar_secure"), ["a"]);
+    assert.equal(accumulators.a.deductibleSpent, 20);
+  });
+
+  it("keeps out-of-network spending separate only when the plan has separate limits", () => {
+    const claims = [claim("1", "a", "out_of_network", 300, 300)];
+
+    const shared = getLedgerAccumulators(claims, loadPolicy("oscar_secure"), ["a"]);
+    assert.equal(shared.a.deductibleSpent, 300);
+    assert.equal(shared.a.outOfNetworkDeductibleSpent, 0);
+
+    const policy = loadPolicy("oscar_secure");
+    policy.important_questions.overall_deductible.out_of_network = { individual: 18400, family: 36800 };
+    const separate = getLedgerAccumulators(claims, policy, ["a"]);
+    assert.equal(separate.a.deductibleSpent, 0);
+    assert.equal(separate.a.outOfNetworkDeductibleSpent, 300);
+    assert.equal(separate.a.outOfNetworkOutOfPocketSpent, 300);
+  });
+});
@@ -0,0 +1,66 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { parseCostSharingText, parseVisitExceptions } from "@/lib/services/cost-sharing-service";
+
+describe("parseCostSharingText", () => {
+  it("reads a flat copay per unit", () => {
+    const { rules, unparsed_fragments } = parseCostSharingText("$35 / visit");
+    assert.equal(rules.length, 1);
+    assert.equal(rules[0].kind, "copay");
+    assert.equal(rules[0].copay_amount, 35);
+    assert.equal(rules[0].unit, "visit");
+    assert.equal(rules[0].deductible_applies, false);
+    assert.deepEqual(unparsed_fragments, []);
+  });
+
+  it("reads a copay with a unit limit", () => {
+    const [rule] = parseCostSharingText("$350 / day up to 5 days").rules;
+    assert.equal(rule.copay_amount, 350);
+    assert.equal(rule.unit, "day");
+    assert.equal(rule.unit_limit, 5);
+  });
+
+  it("reads capped coinsurance", () => {
+    const [rule] = parseCostSharingText("20% coinsurance up to $250 / prescription").rules;
+    assert.equal(rule.kind, "coinsurance");
+    assert.equal(rule.coinsurance_rate, 0.2);
+    assert.equal(rule.coinsurance_max, 250);
+    assert.equal(rule.unit, "prescription");
+  });
+
+  it("reads whether the deductible applies", () => {
+    assert.equal(parseCostSharingText("$0 copayment/visit subject to deductible").rules[0].deductible_applies, true);
+    assert.equal(parseCostSharingText("20% coinsurance after deductible").rules[0].deductible_applies, true);
+    assert.equal(parseCostSharingText("Deductible, then 20% coinsurance").rules[0].deductible_applies, true);
+    assert.equal(parseCostSharingText("$25 copay; deductible does not apply").rules[0].deductible_applies, false);
+  });
+
+  it("folds a qualifier-only segment into the previous term", () => {
+    const { rules, unparsed_fragments } = parseCostSharingText("20% coinsurance; deductible does not apply");
+    assert.equal(rules.length, 1);
+    assert.equal(rules[0].coinsurance_rate, 0.2);
+    assert.deepEqual(unparsed_fragments, []);
+  });
+
+  it("keeps labelled terms of a cell separate", () => {
+    const { rules } = parseCostSharingText("Inpatient: $350 / day up to 5 days; Outpatient: $35 / visit");
+    assert.deepEqual(rules.map(rule => [rule.label, rule.copay_amount, rule.unit]), [
+      ["Inpatient", 350, "day"],
+      ["Outpatient", 35, "visit"],
+    ]);
+  });
+
+  it("recognizes no-charge and not-covered cells", () => {
+    assert.equal(parseCostSharingText("No charge").rules[0].kind, "no_charge");
+    assert.equal(parseCostSharingText("Not covered").rules[0].kind, "not_covered");
+  });
+});
+
+describe("parseVisitExceptions", () => {
+  it("reads a first-N-visits exception", () => {
+    const [exception] = parseVisitExceptions("First three (3) non-preventive visits are $0 and not subject to the deductible");
+    assert.equal(exception.visits, 3);
+    assert.equal(exception.copay_amount, 0);
+    assert.equal(exception.deductible_applies, false);
+  });
+});
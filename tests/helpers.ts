@@ -0,0 +1,13 @@
+import { getTemplateById } from "@/lib/services/policy-service";
+import type { ParsedPolicy } from "@/types/schemas";
+
+/**
+ * A copy of a built-in template, so tests can change it without affecting each other
+ */
+export function loadPolicy(templateId: "oscar_secure" | "kaiser_gold"): ParsedPolicy {
+  const template = getTemplateById(templateId);
+  if (!template) throw new Error(`Unknown template: ${templateId}`);
+  return structuredClone(template.data);
+}
+
+export const NO_SPENDING = { deductibleSpent: 0, outOfPocketSpent: 0 };
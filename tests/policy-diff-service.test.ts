@@ -0,0 +1,52 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { diffPolicies } from "@/lib/services/policy-diff-service";
+import { loadPolicy } from "./helpers";
+
+describe("diffPolicies", () => {
+  it("matches a policy with itself", () => {
+    const report = diffPolicies(loadPolicy("oscar_secure"), loadPolicy("oscar_secure"));
+    assert.equal(report.accuracy, 1);
+    assert.equal(report.matched, report.compared);
+    assert.deepEqual(report.differences, []);
+  });
+
+  it("ignores URLs, provenance and confidence", () => {
+    const actual = { ...loadPolicy("oscar_secure"), file_url: "https://example.com/other.pdf", image_urls: ["https://example.com/page-1.png"] };
+    assert.deepEqual(diffPolicies(loadPolicy("oscar_secure"), actual).differences, []);
+  });
+
+  it("ignores whitespace and case in text", () => {
+    const actual = loadPolicy("oscar_secure");
+    actual.plan_summary.plan_name = `  ${actual.plan_summary.plan_name.toUpperCase()}\n`;
+    assert.deepEqual(diffPolicies(loadPolicy("oscar_secure"), actual).differences, []);
+  });
+
+  it("reports a changed value by path", () => {
+    const actual = loadPolicy("oscar_secure");
+    actual.important_questions.overall_deductible.individual = 9000;
+    const report = diffPolicies(loadPolicy("oscar_secure"), actual);
+    assert.deepEqual(report.differences, [
+      { path: "important_questions.overall_deductible.individual", expected: 9200, actual: 9000 },
+    ]);
+    assert.equal(report.matched, report.compared - 1);
+  });
+
+  it("keys services by name, so their order doesn't matter", () => {
+    const actual = loadPolicy("oscar_secure");
+    actual.services_you_may_need.reverse();
+    assert.deepEqual(diffPolicies(loadPolicy("oscar_secure"), actual).differences, []);
+  });
+
+  it("reports missing and extra fields", () => {
+    const expected = loadPolicy("oscar_secure");
+    const actual = loadPolicy("oscar_secure");
+    const specialist = actual.services_you_may_need.findIndex(service => service.name === "specialist_visit");
+    actual.services_you_may_need.splice(specialist, 1);
+    actual.excluded_and_other_covered_services.excluded_services.push("Hearing exams");
+
+    const { differences } = diffPolicies(expected, actual);
+    assert.ok(differences.some(diff => diff.path === "services_you_may_need[specialist_visit].what_you_will_pay.network_provider" && diff.actual === undefined));
+    assert.ok(differences.some(diff => diff.path === "excluded_and_other_covered_services.excluded_services[hearing exams]" && diff.expected === undefined));
+  });
+});
@@ -1,5 +1,5 @@
 import { logger, task } from "@trigger.dev/sdk/v3";
-import { put } from '@vercel/blob';
+import { getBlobStore } from "../lib/blob-store";
 import { execSync } from "child_process";
 import fs from "fs";
 import path from "path";
@@ -14,24 +14,25 @@ export const localPdfToImages = async (fileBuffer: ArrayBuffer, id: string) => {
   fs.mkdirSync(outputDir, { recursive: true });
   execSync(`mutool convert -o ${outputDir}/page-%d.png ${pdfPath}`);
 
-  const uploadedUrls = [];
+  const store = getBlobStore();
+  const uploadedBlobs = [];
   console.log("outputDir", outputDir);
-  for (const file of fs.readdirSync(outputDir)) {
+  // Upload in page order; stored pathnames get a random suffix, so they can't be sorted afterwards
+  const files = fs.readdirSync(outputDir).sort((a, b) => {
+    const pageA = parseInt(a.split('page-')[1].split('.')[0]);
+    const pageB = parseInt(b.split('page-')[1].split('.')[0]);
+    return pageA - pageB;
+  });
+  for (const file of files) {
     const filePath = path.join(outputDir, file);
     const fileBuffer = fs.readFileSync(filePath);
-    const blob = await put(`images/${id}/${file}`, fileBuffer, {
-      access: 'public',
+    const blob = await store.put(`images/${id}/${file}`, fileBuffer, {
       contentType: 'image/png'
     });
-    uploadedUrls.push(blob.url);
+    uploadedBlobs.push(blob);
   }
-  uploadedUrls.sort((a, b) => {
-    const pageA = parseInt(a.split('page-')[1].split('.')[0]);
-    const pageB = parseInt(b.split('page-')[1].split('.')[0]);
-    return pageA - pageB;
-  });
-  logger.log("uploaded image urls", { urls: uploadedUrls });
-  return uploadedUrls;
+  logger.log("uploaded page images", { pathnames: uploadedBlobs.map(blob => blob.pathname) });
+  return uploadedBlobs;
 }
 
 export const PdfToImagesTask = task({
@@ -17,17 +17,41 @@ import { z } from "zod";
 // CORE INSURANCE DATA SCHEMAS
 // =============================================================================
 
+/**
+ * Spending a single household member has accumulated this plan year
+ */
+export const MemberAccumulatorsSchema = z.object({
+  /** Amount this member has spent toward the (in-network) deductible */
+  deductibleSpent: z.number().min(0, "Deductible spent cannot be negative"),
+  /** Amount this member has spent toward the (in-network) out-of-pocket maximum */
+  outOfPocketSpent: z.number().min(0, "Out-of-pocket spent cannot be negative"),
+  /** Amount spent toward a separate out-of-network deductible */
+  outOfNetworkDeductibleSpent: z.number().min(0, "Deductible spent cannot be negative").optional(),
+  /** Amount spent toward a separate out-of-network out-of-pocket maximum */
+  outOfNetworkOutOfPocketSpent: z.number().min(0, "Out-of-pocket spent cannot be negative").optional(),
+});
+
 /**
  * User's current insurance settings and spending status
  * Used to calculate personalized coverage estimates
  */
 export const InsuranceSettingsSchema = z.object({
-  /** Amount already spent toward deductible this plan year */
+  /** Amount the active member has spent toward deductible this plan year */
   deductibleSpent: z.number().min(0, "Deductible spent cannot be negative"),
-  /** Amount already spent toward out-of-pocket maximum this plan year */
+  /** Amount the active member has spent toward out-of-pocket maximum this plan year */
   outOfPocketSpent: z.number().min(0, "Out-of-pocket spent cannot be negative"),
+  /** Amount the active member has spent toward a separate out-of-network deductible */
+  outOfNetworkDeductibleSpent: z.number().min(0, "Deductible spent cannot be negative").optional(),
+  /** Amount the active member has spent toward a separate out-of-network out-of-pocket maximum */
+  outOfNetworkOutOfPocketSpent: z.number().min(0, "Out-of-pocket spent cannot be negative").optional(),
   /** Whether user typically uses in-network providers */
   isInNetwork: z.boolean(),
+  /** NetworkTier id the user usually uses, for policies with more than one in-network tier */
+  networkTier: z.string().optional(),
+  /** Household member (PersonHealthInfo id) the top-level spending belongs to */
+  activeMemberId: z.string().optional(),
+  /** Spending of every household member, keyed by PersonHealthInfo id; family totals are their sum */
+  memberAccumulators: z.record(z.string(), MemberAccumulatorsSchema).optional(),
 });
 
 /**
@@ -45,6 +69,16 @@ export const OutOfPocketCostSchema = z.object({
   extra_details: z.string().optional(),
 });
 
+/**
+ * A passage of the Evidence of Coverage quoted to back a coverage answer
+ */
+export const EocCitationSchema = z.object({
+  /** 1-based page of the EOC the quote is on */
+  page: z.number().int().min(1),
+  /** Verbatim text from that page */
+  quote: z.string().min(1),
+});
+
 /**
  * Healthcare category with AI-generated coverage analysis
  * Core data structure for displaying insurance coverage information
@@ -62,6 +96,8 @@ export const HealthCategorySchema = z.object({
   description: z.string().min(1, "Description is required"),
   /** Array of cost scenarios for this category */
   out_of_pocket_costs: z.array(OutOfPocketCostSchema),
+  /** EOC passages the analysis relies on, when an EOC is attached to the policy */
+  eoc_citations: z.array(EocCitationSchema).optional(),
 });
 
 /**
@@ -110,15 +146,26 @@ export const PlanSummarySchema = z.object({
   }),
 });
 
+/**
+ * Separate out-of-network amounts listed alongside in-network ones
+ * (e.g. "$1,500 individual / $3,000 family for out-of-network providers")
+ */
+export const OutOfNetworkLimitsSchema = z.object({
+  individual: z.number().min(0, "Individual amount cannot be negative"),
+  family: z.number().min(0, "Family amount cannot be negative"),
+});
+
 /**
  * Answers to the "Important Questions" section of SBC documents
  * Contains key financial information about the plan
  */
 export const ImportantQuestionsSchema = z.object({
-  /** Annual deductible amounts */
+  /** Annual deductible amounts (in-network, or all providers when not split) */
   overall_deductible: z.object({
     individual: z.number().min(0, "Individual deductible cannot be negative"),
     family: z.number().min(0, "Family deductible cannot be negative"),
+    /** Separate out-of-network deductible, when the plan has one */
+    out_of_network: OutOfNetworkLimitsSchema.optional(),
     details: z.string().optional(),
   }),
   /** Services covered before meeting deductible */
@@ -136,6 +183,8 @@ export const ImportantQuestionsSchema = z.object({
   out_of_pocket_limit_for_plan: z.object({
     individual: z.number().min(0, "Individual out-of-pocket limit cannot be negative"),
     family: z.number().min(0, "Family out-of-pocket limit cannot be negative"),
+    /** Separate out-of-network out-of-pocket limit, when the plan has one */
+    out_of_network: OutOfNetworkLimitsSchema.optional(),
     details: z.string().optional(),
   }),
   /** Expenses that don't count toward out-of-pocket max */
@@ -172,9 +221,24 @@ export const ServiceYouMayNeedSchema = z.object({
     out_of_network_provider: z.string().min(1, "Out-of-network provider cost is required"),
     /** Important limitations, exclusions, or other details */
     limitations_exceptions_and_other_important_information: z.string(),
+    /** What you pay in each column, keyed by NetworkTier id, for tables with more than two network columns */
+    tiers: z.record(z.string(), z.string()).optional(),
   }),
 });
 
+/**
+ * A network column of the "Services You May Need" table
+ * (e.g. "Tier 1", "Preferred Provider", "Out-of-Network Provider")
+ */
+export const NetworkTierSchema = z.object({
+  /** Stable identifier derived from the column heading, stored in settings */
+  id: z.string().min(1),
+  /** Column heading as printed */
+  name: z.string().min(1),
+  /** Which deductible and out-of-pocket limit spending in this tier counts toward */
+  network: z.enum(["in_network", "out_of_network"]),
+});
+
 /**
  * Services that are excluded vs. other services that are covered
  * From the final sections of SBC documents
@@ -186,6 +250,131 @@ export const ExcludedAndOtherCoveredServicesSchema = z.object({
   other_covered_services: z.array(z.string()),
 });
 
+/**
+ * What the policyholder pays to keep the plan, entered manually or taken from marketplace data
+ */
+export const PolicyPremiumSchema = z.object({
+  /** Full monthly premium before subsidies (marketplace "premium") */
+  monthly_premium: z.number().min(0, "Premium cannot be negative"),
+  /** Monthly premium after the advance premium tax credit (marketplace "premium_w_credit") */
+  monthly_premium_after_credit: z.number().min(0, "Premium cannot be negative").optional(),
+  /** Employee share deducted from each paycheck, for employer plans */
+  payroll_contribution: z.object({
+    amount_per_paycheck: z.number().min(0, "Contribution cannot be negative"),
+    pay_periods_per_year: z.number().int().min(1).max(52),
+  }).optional(),
+  /** Where the premium came from */
+  source: z.enum(["manual", "marketplace"]),
+  /** Marketplace plan id when pulled from data/plans.json */
+  marketplace_plan_id: z.string().optional(),
+});
+
+/**
+ * The three standard scenarios every federal SBC ends with
+ */
+export const COVERAGE_EXAMPLE_SCENARIOS = [
+  "having_a_baby",
+  "managing_type_2_diabetes",
+  "simple_fracture",
+] as const;
+
+/**
+ * One issuer-published "Coverage Example" (e.g. "Peg is Having a Baby")
+ * All amounts are what the SBC prints, in USD
+ */
+export const CoverageExampleSchema = z.object({
+  /** Standard scenario, or the example's own name for non-standard ones */
+  scenario: z.union([z.enum(COVERAGE_EXAMPLE_SCENARIOS), z.string()]),
+  /** Example heading as printed (e.g. "Peg is Having a Baby") */
+  title: z.string(),
+  /** Care the example covers (e.g. "9 months of in-network pre-natal care and a hospital delivery") */
+  description: z.string().optional(),
+  /** Plan amounts the example was calculated with */
+  plan_amounts: z.object({
+    deductible: z.number().min(0),
+    specialist_copayment: z.number().min(0).optional(),
+    /** Percentage, e.g. 20 for 20% */
+    hospital_facility_coinsurance: z.number().min(0).max(100).optional(),
+    /** Percentage, e.g. 20 for 20% */
+    other_coinsurance: z.number().min(0).max(100).optional(),
+  }),
+  /** "Total Example Cost" of the care */
+  total_example_cost: z.number().min(0),
+  /** What the patient would pay, by kind of cost sharing */
+  cost_sharing: z.object({
+    deductibles: z.number().min(0),
+    copayments: z.number().min(0),
+    coinsurance: z.number().min(0),
+  }),
+  /** "Limits or exclusions" the patient would pay for */
+  limits_or_exclusions: z.number().min(0),
+  /** "The total Peg would pay is" */
+  total_you_would_pay: z.number().min(0),
+});
+
+/**
+ * Region of a page, as fractions (0-1) of the page width and height from the top-left corner
+ */
+export const BoundingBoxSchema = z.object({
+  x: z.number().min(0).max(1),
+  y: z.number().min(0).max(1),
+  width: z.number().min(0).max(1),
+  height: z.number().min(0).max(1),
+});
+
+/**
+ * Where an extracted value was read from in the original SBC
+ */
+export const FieldSourceSchema = z.object({
+  /** Index into image_urls of the page the value came from */
+  page: z.number().int().min(0),
+  /** Text of the document the value was read from */
+  quote: z.string(),
+  /** Whether the quote was found verbatim in the extracted page text */
+  exact: z.boolean(),
+  /** Location of the quote on the page, when the text extractor provides coordinates */
+  bbox: BoundingBoxSchema.optional(),
+});
+
+/**
+ * How much an extracted field can be trusted, and why
+ */
+export const FieldConfidenceSchema = z.object({
+  /** Combined score from 0 (unreliable) to 1 (certain) */
+  score: z.number().min(0).max(1),
+  level: z.enum(["high", "medium", "low"]),
+  /** Individual signals from 0 to 1; absent when not applicable */
+  signals: z.object({
+    /** The model's own confidence in the reading */
+    model: z.number().min(0).max(1).optional(),
+    /** Whether the quoted source was found and contains the extracted values */
+    source_agreement: z.number().min(0).max(1).optional(),
+    /** Whether the value is consistent with related fields */
+    consistency: z.number().min(0).max(1).optional(),
+  }),
+  /** Human-readable reasons for a lower score */
+  reasons: z.array(z.string()),
+  /** Set once the user has confirmed or corrected the field */
+  reviewed: z.boolean().optional(),
+});
+
+/**
+ * Languages SBCs are parsed in
+ */
+export const SbcLanguageSchema = z.enum(["en", "es"]);
+
+/**
+ * Evidence of Coverage attached to a policy. The chunked text is kept in an
+ * index on the server (see lib/eoc-store) and looked up by id.
+ */
+export const EocReferenceSchema = z.object({
+  /** SHA-256 of the EOC document, also the id of its index */
+  id: z.string().regex(/^[a-f0-9]{64}$/, "Must be a SHA-256 hash"),
+  file_name: z.string(),
+  page_count: z.number().int().min(0),
+  chunk_count: z.number().int().min(0),
+});
+
 /**
  * Complete parsed policy document structure
  * Represents all data extracted from an SBC PDF
@@ -201,8 +390,200 @@ export const ParsedPolicySchema = z.object({
   important_questions: ImportantQuestionsSchema,
   /** Detailed service coverage information */
   services_you_may_need: z.array(ServiceYouMayNeedSchema),
+  /** Network columns of the services table in printed order, when there are more than in- and out-of-network */
+  network_tiers: z.array(NetworkTierSchema).optional(),
   /** Excluded and other covered services */
   excluded_and_other_covered_services: ExcludedAndOtherCoveredServicesSchema,
+  /** Issuer-published coverage examples from the end of the SBC */
+  coverage_examples: z.array(CoverageExampleSchema).optional(),
+  /** Premium or payroll contribution, when known */
+  premium: PolicyPremiumSchema.optional(),
+  /** Source of each extracted field, keyed by field path (see ProvenanceService) */
+  provenance: z.record(z.string(), FieldSourceSchema).optional(),
+  /** Confidence of each extracted field, keyed like provenance (see ConfidenceService) */
+  confidence: z.record(z.string(), FieldConfidenceSchema).optional(),
+  /** Language of the SBC document; AI explanations and chat answer in it (default English) */
+  language: SbcLanguageSchema.optional(),
+  /** Evidence of Coverage the user attached to this policy */
+  eoc: EocReferenceSchema.optional(),
+});
+
+// =============================================================================
+// POLICY CONSISTENCY SCHEMAS
+// =============================================================================
+
+/**
+ * How serious a consistency problem in a parsed policy is
+ * - error: the values contradict each other, so cost estimates will be wrong
+ * - warning: likely a mis-read, worth checking against the SBC
+ * - info: unusual but possible
+ */
+export const PolicyWarningSeveritySchema = z.enum(["error", "warning", "info"]);
+
+/**
+ * A consistency problem found in a parsed policy
+ */
+export const PolicyWarningSchema = z.object({
+  /** Rule that produced the warning */
+  code: z.string(),
+  /** Dotted path of the field at fault (services use the provenance key, e.g. "services_you_may_need.imaging") */
+  path: z.string(),
+  severity: PolicyWarningSeveritySchema,
+  /** What is inconsistent, in plain language */
+  message: z.string(),
+  /** What the user can do about it */
+  suggestion: z.string().optional(),
+});
+
+// =============================================================================
+// EVIDENCE OF COVERAGE SCHEMAS
+// =============================================================================
+
+/**
+ * A retrievable piece of an Evidence of Coverage. Chunks never span pages,
+ * so every passage can be cited by page number.
+ */
+export const EocChunkSchema = z.object({
+  /** Position of the chunk in the document */
+  id: z.number().int().min(0),
+  /** 1-based page number */
+  page: z.number().int().min(1),
+  /** Nearest section heading above the chunk, e.g. "Section 4: Covered Services" */
+  heading: z.string().optional(),
+  text: z.string(),
+});
+
+/**
+ * Chunked text of an Evidence of Coverage, stored per document
+ */
+export const EocIndexSchema = z.object({
+  /** SHA-256 of the EOC document */
+  id: z.string(),
+  file_name: z.string(),
+  page_count: z.number().int().min(0),
+  created_at: z.string(),
+  chunks: z.array(EocChunkSchema),
+});
+
+/**
+ * A chunk retrieved for a query, with its relevance score
+ */
+export const EocPassageSchema = EocChunkSchema.extend({
+  score: z.number(),
+});
+
+// =============================================================================
+// COST-SHARING SCHEMAS
+// =============================================================================
+
+/**
+ * Billing unit a copayment is charged per (e.g. "$35 / visit", "$350 / day")
+ */
+export const CostSharingUnitSchema = z.enum([
+  "visit",
+  "day",
+  "admission",
+  "prescription",
+  "trip",
+  "encounter",
+  "procedure",
+  "device",
+  "item",
+  "test",
+  "service",
+]);
+
+/**
+ * Which column of the "Services You May Need" table a value came from
+ */
+export const CostSharingNetworkSchema = z.enum(["network_provider", "out_of_network_provider"]);
+
+/**
+ * Visit-count exception stated in the limitations column
+ * e.g. "First three (3) non-preventive visits are $0 and not subject to the deductible"
+ */
+export const VisitExceptionSchema = z.object({
+  /** Number of visits the exception applies to (counted from the start of the plan year) */
+  visits: z.number().int().min(1, "Exception must cover at least one visit"),
+  /** Copayment charged for those visits */
+  copay_amount: z.number().min(0, "Copay cannot be negative"),
+  /** Whether the deductible still applies to those visits */
+  deductible_applies: z.boolean(),
+  /** Original sentence from the SBC */
+  source_text: z.string(),
+});
+
+/**
+ * Structured form of a single cost-sharing term from an SBC cell
+ * One cell can contain several terms (e.g. "X-ray: $75 / encounter; Lab tests: $40 / encounter")
+ */
+export const CostSharingRuleSchema = z.object({
+  /** What kind of cost sharing applies */
+  kind: z.enum(["copay", "coinsurance", "copay_and_coinsurance", "no_charge", "not_covered", "not_applicable"]),
+  /** Qualifier for this term when a cell has several (e.g. "X-ray", "retail", "Inpatient") */
+  label: z.string().optional(),
+  /** Flat dollar copayment per unit */
+  copay_amount: z.number().min(0, "Copay cannot be negative").optional(),
+  /** Coinsurance as a fraction of the allowed amount (0.2 = 20%) */
+  coinsurance_rate: z.number().min(0).max(1, "Coinsurance rate must be between 0 and 1").optional(),
+  /** Maximum coinsurance charged per unit (e.g. "20% coinsurance up to $250 / prescription") */
+  coinsurance_max: z.number().min(0).optional(),
+  /** Whether the member pays the full allowed amount until the deductible is met */
+  deductible_applies: z.boolean(),
+  /** Basis the copay or coinsurance cap is charged per */
+  unit: CostSharingUnitSchema.optional(),
+  /** Maximum number of units the copay is charged for (e.g. "$350 / day up to 5 days") */
+  unit_limit: z.number().int().min(1).optional(),
+  /** Visit-count exceptions from the limitations column */
+  visit_exceptions: z.array(VisitExceptionSchema).default([]),
+  /** Text this term was parsed from */
+  source_text: z.string(),
+});
+
+/**
+ * Parsed form of one "what you will pay" cell
+ */
+export const CostSharingCellSchema = z.object({
+  /** Original cell text */
+  source_text: z.string(),
+  /** Terms recognized in the cell */
+  rules: z.array(CostSharingRuleSchema),
+  /** Fragments of the cell the parser could not interpret */
+  unparsed_fragments: z.array(z.string()),
+});
+
+/**
+ * Parsed cost sharing for a single "Services You May Need" row
+ */
+export const ServiceCostSharingSchema = z.object({
+  /** Service identifier from the policy */
+  name: z.string(),
+  /** In-network cost sharing */
+  network_provider: CostSharingCellSchema,
+  /** Out-of-network cost sharing */
+  out_of_network_provider: CostSharingCellSchema,
+});
+
+/**
+ * Cost-sharing text that could not be converted into a rule
+ */
+export const UnparsedCostSharingSchema = z.object({
+  /** Service the text belongs to */
+  service_name: z.string(),
+  /** Column the text came from */
+  network: CostSharingNetworkSchema,
+  /** The fragment that could not be parsed */
+  text: z.string(),
+});
+
+/**
+ * Cost-sharing rules for every row of a parsed policy
+ */
+export const PolicyCostSharingSchema = z.object({
+  /** One entry per "Services You May Need" row, in policy order */
+  services: z.array(ServiceCostSharingSchema),
+  /** Every fragment the parser could not interpret, across all rows */
+  unparsed: z.array(UnparsedCostSharingSchema),
 });
 
 // =============================================================================
@@ -220,6 +601,8 @@ export const GenerateCategoriesInputSchema = z.object({
   context: InsuranceSettingsSchema,
   /** The user's policy data for analysis */
   policy: ParsedPolicySchema,
+  /** EOC passages retrieved for the query, when the policy has an EOC */
+  eoc_passages: z.array(EocPassageSchema).optional(),
 });
 
 /**
@@ -343,20 +726,276 @@ export const MEDICAL_SERVICE_TYPES = [
  */
 export const MedicalServiceTypeSchema = z.enum(MEDICAL_SERVICE_TYPES);
 
+// =============================================================================
+// CLAIM ADJUDICATION SCHEMAS
+// =============================================================================
+
+/**
+ * Network a billed service was received in
+ */
+export const ClaimNetworkSchema = z.enum(["in_network", "out_of_network"]);
+
+/**
+ * A single billed line item to be priced against the policy
+ */
+export const ClaimLineItemSchema = z.object({
+  /** Standard SBC service the line item falls under */
+  service_type: MedicalServiceTypeSchema,
+  /** Human-readable description of the charge */
+  description: z.string().default(""),
+  /** Plan-allowed (negotiated) amount for the line item */
+  allowed_amount: z.number().min(0, "Allowed amount cannot be negative"),
+  /** Network the service was received in */
+  network: ClaimNetworkSchema,
+  /** Number of units billed (visits, days, prescriptions, ...) */
+  units: z.number().int().min(1, "Units must be at least 1").default(1),
+  /** Qualifier used to pick between multi-term cells (e.g. "retail", "Inpatient") */
+  label: z.string().optional(),
+});
+
+/**
+ * Patient responsibility for a single adjudicated line item
+ */
+export const AdjudicatedLineItemSchema = z.object({
+  /** The line item as billed */
+  line_item: ClaimLineItemSchema,
+  /** Whether the plan covers the service at all */
+  covered: z.boolean(),
+  /** SBC text of the rule that was applied, if any */
+  rule_source_text: z.string().optional(),
+  /** Amount applied to the deductible */
+  deductible: z.number().min(0),
+  /** Copayment charged */
+  copay: z.number().min(0),
+  /** Coinsurance charged */
+  coinsurance: z.number().min(0),
+  /** Charges for non-covered services (do not count toward the out-of-pocket limit) */
+  not_covered: z.number().min(0),
+  /** Amount removed because the out-of-pocket limit was reached */
+  out_of_pocket_max_savings: z.number().min(0),
+  /** Total the patient owes for this line */
+  patient_responsibility: z.number().min(0),
+  /** Total the plan pays for this line */
+  plan_paid: z.number().min(0),
+  /** Step-by-step explanation of how the amounts were derived */
+  trace: z.array(z.string()),
+});
+
+/**
+ * Accumulator balances before or after adjudication
+ */
+export const AdjudicationAccumulatorsSchema = z.object({
+  /** Patient's spending toward the individual deductible */
+  deductibleSpent: z.number().min(0),
+  /** Patient's spending toward the individual out-of-pocket limit */
+  outOfPocketSpent: z.number().min(0),
+  /** Household spending toward the family deductible */
+  familyDeductibleSpent: z.number().min(0),
+  /** Household spending toward the family out-of-pocket limit */
+  familyOutOfPocketSpent: z.number().min(0),
+});
+
+/**
+ * Accumulator balances per network tier
+ */
+export const NetworkAccumulatorsSchema = z.object({
+  in_network: AdjudicationAccumulatorsSchema,
+  /** Present when the plan tracks out-of-network spending separately */
+  out_of_network: AdjudicationAccumulatorsSchema.optional(),
+});
+
+/**
+ * Result of adjudicating a set of line items against a policy
+ */
+export const AdjudicationResultSchema = z.object({
+  /** Per-line breakdown in billing order */
+  line_items: z.array(AdjudicatedLineItemSchema),
+  /** Sums across all line items */
+  totals: z.object({
+    allowed_amount: z.number().min(0),
+    deductible: z.number().min(0),
+    copay: z.number().min(0),
+    coinsurance: z.number().min(0),
+    not_covered: z.number().min(0),
+    out_of_pocket_max_savings: z.number().min(0),
+    patient_responsibility: z.number().min(0),
+    plan_paid: z.number().min(0),
+  }),
+  /** Accumulators before the claim */
+  accumulators_before: NetworkAccumulatorsSchema,
+  /** Accumulators after the claim */
+  accumulators_after: NetworkAccumulatorsSchema,
+  /** Claim-level explanation, including each line's trace */
+  trace: z.array(z.string()),
+});
+
+/**
+ * Cost and coverage analysis of a free-text healthcare situation
+ * Dollar amounts come from local adjudication; the AI model only narrates them
+ */
+export const SituationAnalysisSchema = z.object({
+  /** Estimated out-of-pocket cost (patient responsibility from adjudication) */
+  estimatedCost: z.number().min(0, "Estimated cost cannot be negative"),
+  /** Explanation of coverage for the situation */
+  coverageDetails: z.string(),
+  /** 2-3 recommendations for the user */
+  recommendations: z.array(z.string()),
+  /** Deterministic breakdown the estimate is based on, when available */
+  adjudication: AdjudicationResultSchema.nullable(),
+  /** Issuer-published coverage example for a similar situation, when the SBC has one */
+  coverageExample: CoverageExampleSchema.nullable().optional(),
+});
+
+// =============================================================================
+// CLAIMS LEDGER SCHEMAS
+// =============================================================================
+
+const eobAmount = z.number().min(0, "Amount cannot be negative");
+
+/**
+ * One claim as printed on an Explanation of Benefits (EOB), read by the extraction model.
+ * Amounts are in dollars, 0 when the EOB leaves the column empty.
+ */
+export const EobClaimSchema = z.object({
+  claim_number: z.string().optional(),
+  /** Patient the claim is for, as printed */
+  patient_name: z.string().optional(),
+  /** Provider or facility that billed the claim */
+  provider: z.string(),
+  /** First date of service, YYYY-MM-DD */
+  service_date: z.string(),
+  /** Services on the claim, e.g. "Office visit, lab work" */
+  description: z.string().optional(),
+  network: ClaimNetworkSchema,
+  /** Amount the provider billed */
+  billed_amount: eobAmount,
+  /** Plan-allowed (negotiated) amount */
+  allowed_amount: eobAmount,
+  /** Amount the plan paid the provider */
+  plan_paid: eobAmount,
+  /** Amount applied to the deductible */
+  deductible: eobAmount,
+  copay: eobAmount,
+  coinsurance: eobAmount,
+  /** Amount owed for services the plan doesn't cover; doesn't count toward the out-of-pocket limit */
+  not_covered: eobAmount,
+  /** Total the patient owes the provider for the claim */
+  member_responsibility: eobAmount,
+});
+
+/**
+ * Every claim on an EOB document
+ */
+export const EobExtractionSchema = z.object({
+  claims: z.array(EobClaimSchema),
+});
+
+/**
+ * A processed claim in the household's claims ledger. Plan-year spending is
+ * derived from these instead of typed in.
+ */
+export const LedgerClaimSchema = z.object({
+  /** Stable id derived from the claim number or the claim's details, so re-uploading an EOB doesn't duplicate it */
+  id: z.string(),
+  /** Household member (PersonHealthInfo id) the claim belongs to */
+  member_id: z.string().optional(),
+  claim_number: z.string().optional(),
+  patient_name: z.string().optional(),
+  provider: z.string(),
+  /** YYYY-MM-DD */
+  service_date: z.string(),
+  description: z.string().optional(),
+  network: ClaimNetworkSchema,
+  billed_amount: eobAmount,
+  allowed_amount: eobAmount,
+  plan_paid: eobAmount,
+  member_responsibility: eobAmount,
+  /** Part of the member responsibility applied to the deductible */
+  deductible_applied: eobAmount,
+  /** Part of the member responsibility counted toward the out-of-pocket limit (deductible, copays and coinsurance) */
+  out_of_pocket_applied: eobAmount,
+  /** File name of the EOB the claim was read from */
+  source_file: z.string().optional(),
+  /** ISO timestamp of when the claim was added */
+  added_at: z.string(),
+});
+
+// =============================================================================
+// ITEMIZED BILL SCHEMAS
+// =============================================================================
+
+/**
+ * One charge on a provider's itemized bill, read by the extraction model
+ */
+export const ItemizedBillLineSchema = z.object({
+  /** Date of service, YYYY-MM-DD */
+  service_date: z.string().optional(),
+  /** CPT or HCPCS procedure code, e.g. "99213" or "J1885" */
+  code: z.string().optional(),
+  /** Modifiers appended to the procedure code, e.g. ["25"] */
+  modifiers: z.array(z.string()).optional(),
+  /** Four-digit revenue code on hospital bills, e.g. "0450" */
+  revenue_code: z.string().optional(),
+  /** Charge description as printed */
+  description: z.string(),
+  /** Units billed */
+  quantity: z.number().int().min(1, "Quantity must be at least 1"),
+  /** Total charge for the line (not the unit price) */
+  charge: z.number().min(0, "Charge cannot be negative"),
+});
+
+/**
+ * Every charge on an itemized bill
+ */
+export const ItemizedBillSchema = z.object({
+  /** Provider or facility that sent the bill */
+  provider: z.string().optional(),
+  /** Provider's specialty when the bill names one, e.g. "Cardiology" */
+  provider_specialty: z.string().optional(),
+  /** Patient the bill is for, as printed */
+  patient_name: z.string().optional(),
+  line_items: z.array(ItemizedBillLineSchema),
+});
+
 // =============================================================================
 // TYPE EXPORTS
 // =============================================================================
 
 // Export inferred TypeScript types for use throughout the application
+export type MemberAccumulators = z.infer<typeof MemberAccumulatorsSchema>;
 export type InsuranceSettings = z.infer<typeof InsuranceSettingsSchema>;
 export type OutOfPocketCost = z.infer<typeof OutOfPocketCostSchema>;
+export type EocCitation = z.infer<typeof EocCitationSchema>;
 export type HealthCategory = z.infer<typeof HealthCategorySchema>;
 export type CategoryWithSubcategories = z.infer<typeof CategoryWithSubcategoriesSchema>;
 export type PlanSummary = z.infer<typeof PlanSummarySchema>;
+export type OutOfNetworkLimits = z.infer<typeof OutOfNetworkLimitsSchema>;
 export type ImportantQuestions = z.infer<typeof ImportantQuestionsSchema>;
 export type ServiceYouMayNeed = z.infer<typeof ServiceYouMayNeedSchema>;
+export type NetworkTier = z.infer<typeof NetworkTierSchema>;
 export type ExcludedAndOtherCoveredServices = z.infer<typeof ExcludedAndOtherCoveredServicesSchema>;
+export type PolicyPremium = z.infer<typeof PolicyPremiumSchema>;
+export type CoverageExampleScenario = typeof COVERAGE_EXAMPLE_SCENARIOS[number];
+export type CoverageExample = z.infer<typeof CoverageExampleSchema>;
+export type PolicyWarningSeverity = z.infer<typeof PolicyWarningSeveritySchema>;
+export type PolicyWarning = z.infer<typeof PolicyWarningSchema>;
+export type BoundingBox = z.infer<typeof BoundingBoxSchema>;
+export type FieldSource = z.infer<typeof FieldSourceSchema>;
+export type FieldConfidence = z.infer<typeof FieldConfidenceSchema>;
+export type SbcLanguage = z.infer<typeof SbcLanguageSchema>;
+export type EocReference = z.infer<typeof EocReferenceSchema>;
 export type ParsedPolicy = z.infer<typeof ParsedPolicySchema>;
+export type EocChunk = z.infer<typeof EocChunkSchema>;
+export type EocIndex = z.infer<typeof EocIndexSchema>;
+export type EocPassage = z.infer<typeof EocPassageSchema>;
+export type CostSharingUnit = z.infer<typeof CostSharingUnitSchema>;
+export type CostSharingNetwork = z.infer<typeof CostSharingNetworkSchema>;
+export type VisitException = z.infer<typeof VisitExceptionSchema>;
+export type CostSharingRule = z.infer<typeof CostSharingRuleSchema>;
+export type CostSharingCell = z.infer<typeof CostSharingCellSchema>;
+export type ServiceCostSharing = z.infer<typeof ServiceCostSharingSchema>;
+export type UnparsedCostSharing = z.infer<typeof UnparsedCostSharingSchema>;
+export type PolicyCostSharing = z.infer<typeof PolicyCostSharingSchema>;
 export type GenerateCategoriesInput = z.infer<typeof GenerateCategoriesInputSchema>;
 export type GenerateCategoriesOutput = z.infer<typeof GenerateCategoriesOutputSchema>;
 export type GenerateSituationsInput = z.infer<typeof GenerateSituationsInputSchema>;
@@ -364,6 +1003,19 @@ export type PriceCheck = z.infer<typeof PriceCheckSchema>;
 export type PriceCheckResult = z.infer<typeof PriceCheckResultSchema>;
 export type ChatMessage = z.infer<typeof ChatMessageSchema>;
 export type MedicalServiceType = z.infer<typeof MedicalServiceTypeSchema>;
+export type ClaimNetwork = z.infer<typeof ClaimNetworkSchema>;
+export type ClaimLineItem = z.infer<typeof ClaimLineItemSchema>;
+export type ClaimLineItemInput = z.input<typeof ClaimLineItemSchema>;
+export type AdjudicatedLineItem = z.infer<typeof AdjudicatedLineItemSchema>;
+export type AdjudicationAccumulators = z.infer<typeof AdjudicationAccumulatorsSchema>;
+export type NetworkAccumulators = z.infer<typeof NetworkAccumulatorsSchema>;
+export type AdjudicationResult = z.infer<typeof AdjudicationResultSchema>;
+export type SituationAnalysis = z.infer<typeof SituationAnalysisSchema>;
+export type EobClaim = z.infer<typeof EobClaimSchema>;
+export type EobExtraction = z.infer<typeof EobExtractionSchema>;
+export type LedgerClaim = z.infer<typeof LedgerClaimSchema>;
+export type ItemizedBillLine = z.infer<typeof ItemizedBillLineSchema>;
+export type ItemizedBill = z.infer<typeof ItemizedBillSchema>;
 
 // =============================================================================
 // MEDICAL INFORMATION SCHEMAS
@@ -588,4 +1240,213 @@ export type MedicalScenarioResult = z.infer<typeof MedicalScenarioResultSchema>;
 // =============================================================================
 
 export type PersonHealthInfo = z.infer<typeof PersonHealthInfoSchema>;
-export type HealthcareInformation = z.infer<typeof HealthcareInformationSchema>;
\ No newline at end of file
+export type HealthcareInformation = z.infer<typeof HealthcareInformationSchema>;
+// =============================================================================
+// COST SIMULATION SCHEMAS
+// =============================================================================
+
+/**
+ * One bar of the simulated annual cost histogram
+ */
+export const SimulationHistogramBinSchema = z.object({
+  /** Lower bound of the bin (inclusive) */
+  min: z.number().min(0),
+  /** Upper bound of the bin (exclusive, except for the last bin) */
+  max: z.number().min(0),
+  /** Number of simulated years whose cost falls in this bin */
+  count: z.number().int().min(0),
+});
+
+/**
+ * Percentiles of simulated annual out-of-pocket cost
+ */
+export const SimulationPercentilesSchema = z.object({
+  p10: z.number().min(0),
+  p50: z.number().min(0),
+  p75: z.number().min(0),
+  p90: z.number().min(0),
+  p99: z.number().min(0),
+});
+
+/**
+ * Simulated annual cost of one household member
+ */
+export const MemberSimulationSummarySchema = z.object({
+  memberId: z.string(),
+  name: z.string(),
+  mean: z.number().min(0),
+  median: z.number().min(0),
+});
+
+/**
+ * How closely local adjudication reproduces an issuer-published coverage example
+ */
+export const CoverageExampleCalibrationSchema = z.object({
+  scenario: z.string(),
+  title: z.string(),
+  total_example_cost: z.number().min(0),
+  /** What the issuer says the patient would pay */
+  issuer_total: z.number().min(0),
+  /** What local adjudication of the example's standard bill comes to */
+  estimated_total: z.number().min(0),
+  /** estimated_total - issuer_total */
+  difference: z.number(),
+  /** issuer_total / estimated_total, or null when the estimate is zero */
+  ratio: z.number().nullable(),
+});
+
+/**
+ * Distribution of a household's annual out-of-pocket cost under a policy
+ */
+export const CostSimulationResultSchema = z.object({
+  /** Number of simulated plan years */
+  trials: z.number().int().min(1),
+  /** Seed used for the random number generator, for reproducible runs */
+  seed: z.number().int(),
+  /** Mean annual out-of-pocket cost */
+  mean: z.number().min(0),
+  percentiles: SimulationPercentilesSchema,
+  /** Highest annual cost seen in any simulated year */
+  maxSimulated: z.number().min(0),
+  /** Most the household can pay for covered care in the simulated network (out-of-pocket limit) */
+  worstCase: z.number().min(0),
+  histogram: z.array(SimulationHistogramBinSchema),
+  members: z.array(MemberSimulationSummarySchema),
+  /** Replay of the policy's coverage examples, when the SBC has them */
+  calibration: z.array(CoverageExampleCalibrationSchema).optional(),
+});
+
+// =============================================================================
+// TYPE EXPORTS FOR COST SIMULATION
+// =============================================================================
+
+export type SimulationHistogramBin = z.infer<typeof SimulationHistogramBinSchema>;
+export type SimulationPercentiles = z.infer<typeof SimulationPercentilesSchema>;
+export type MemberSimulationSummary = z.infer<typeof MemberSimulationSummarySchema>;
+export type CoverageExampleCalibration = z.infer<typeof CoverageExampleCalibrationSchema>;
+export type CostSimulationResult = z.infer<typeof CostSimulationResultSchema>;
+
+// =============================================================================
+// TOTAL COST OF OWNERSHIP SCHEMAS
+// =============================================================================
+
+/**
+ * Premium data of a marketplace plan from data/plans.json
+ */
+export const MarketplacePlanPremiumSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  issuer: z.string(),
+  metal_level: z.string(),
+  /** Monthly premium before subsidies */
+  premium: z.number().min(0),
+  /** Monthly premium after the advance premium tax credit */
+  premium_w_credit: z.number().min(0),
+});
+
+/**
+ * Annual cost of a plan: premiums plus out-of-pocket spending
+ */
+export const TotalCostOfOwnershipSchema = z.object({
+  /** Twelve months of premium (or a year of payroll contributions) */
+  annualPremium: z.number().min(0),
+  /** Mean simulated annual out-of-pocket cost, when a simulation is available */
+  expectedOutOfPocket: z.number().min(0).nullable(),
+  /** 90th percentile simulated annual out-of-pocket cost, when a simulation is available */
+  badYearOutOfPocket: z.number().min(0).nullable(),
+  /** Out-of-pocket limit that caps covered in-network spending */
+  worstCaseOutOfPocket: z.number().min(0),
+  /** Premium plus expected out-of-pocket */
+  expectedTotal: z.number().min(0).nullable(),
+  /** Premium plus worst-case out-of-pocket */
+  worstCaseTotal: z.number().min(0),
+});
+
+export type MarketplacePlanPremium = z.infer<typeof MarketplacePlanPremiumSchema>;
+export type TotalCostOfOwnership = z.infer<typeof TotalCostOfOwnershipSchema>;
+
+// =============================================================================
+// PARSE PROGRESS SCHEMAS
+// =============================================================================
+
+/**
+ * Image types accepted for scanned or photographed SBCs; each image is parsed as one page.
+ * HEIC photos are converted to JPEG in the browser before upload.
+ */
+export const SBC_IMAGE_TYPES = ["image/jpeg", "image/png", "image/webp"] as const;
+
+/**
+ * Word documents and saved HTML pages accepted for SBCs from employers and benefits portals;
+ * they are laid out into pages before parsing
+ */
+export const SBC_MARKUP_TYPES = ["application/vnd.openxmlformats-officedocument.wordprocessingml.document", "text/html"] as const;
+
+/**
+ * File types accepted for SBC uploads
+ */
+export const SBC_DOCUMENT_TYPES = ["application/pdf", ...SBC_IMAGE_TYPES, ...SBC_MARKUP_TYPES] as const;
+
+/**
+ * File types accepted for Explanation of Benefits uploads: PDFs from the insurer's
+ * portal, or photos of a mailed EOB
+ */
+export const EOB_DOCUMENT_TYPES = ["application/pdf", ...SBC_IMAGE_TYPES] as const;
+
+/**
+ * File types accepted for itemized bill uploads: PDFs or photos of a paper bill
+ */
+export const ITEMIZED_BILL_DOCUMENT_TYPES = ["application/pdf", ...SBC_IMAGE_TYPES] as const;
+
+/**
+ * File types accepted for Evidence of Coverage uploads. Scans aren't accepted:
+ * OCR of a hundred-page document is too slow to run on upload.
+ */
+export const EOC_DOCUMENT_TYPES = ["application/pdf", ...SBC_MARKUP_TYPES] as const;
+
+/**
+ * Stages of the SBC parse pipeline, in the order they finish
+ */
+export const ParseStageSchema = z.enum([
+  "upload",
+  "text_extraction",
+  "page_rendering",
+  "structuring",
+  "validation",
+  "complete",
+]);
+
+/**
+ * A stage of the parse pipeline that has actually finished, with partial results when available
+ */
+export const ParseProgressEventSchema = z.object({
+  stage: ParseStageSchema,
+  /** Human-readable description of what just happened */
+  message: z.string(),
+  /** Overall progress from 0 to 100 */
+  progress: z.number().min(0).max(100),
+  /** Pages extracted or rendered */
+  pageCount: z.number().int().min(0).optional(),
+  /** Structuring steps finished so far and in total */
+  completed: z.number().int().min(0).optional(),
+  total: z.number().int().min(0).optional(),
+  /** Set when the result of an earlier parse of the same file is reused */
+  cached: z.boolean().optional(),
+  /** Data structured by this step, before the whole policy is ready */
+  partial: z.object({
+    plan_summary: PlanSummarySchema.optional(),
+    services_you_may_need: z.array(ServiceYouMayNeedSchema).optional(),
+  }).optional(),
+});
+
+/**
+ * Messages streamed by /api/parse as server-sent events
+ */
+export const ParseStreamMessageSchema = z.discriminatedUnion("type", [
+  z.object({ type: z.literal("progress"), event: ParseProgressEventSchema }),
+  z.object({ type: z.literal("result"), policy: ParsedPolicySchema }),
+  z.object({ type: z.literal("error"), message: z.string(), code: z.string().optional() }),
+]);
+
+export type ParseStage = z.infer<typeof ParseStageSchema>;
+export type ParseProgressEvent = z.infer<typeof ParseProgressEventSchema>;
+export type ParseStreamMessage = z.infer<typeof ParseStreamMessageSchema>;